@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+/**
+ * Catalogue import/export CLI
+ * Talks to the admin catalogue endpoints of a running server
+ *
+ * Usage:
+ *   npm run catalog -- export <games|providers|tags> [--format csv|json] [--query "providers=netent&new=true"] [--out file]
+ *   npm run catalog -- import <games|providers|tags> <file> [--format csv|json] [--dry-run]
+ *
+ * The server URL defaults to http://localhost:3000 (override with --url or CATALOG_API_URL)
+ * The format defaults to the file extension for imports and to json for exports
+ *
+ * The admin API needs the session of an account listed in the server's ADMIN_USER_IDS:
+ *   --session or CATALOG_SESSION   value of the session cookie of a signed-in browser
+ *   CATALOG_EMAIL, CATALOG_PASSWORD  sign in first (--email also sets the email; the password
+ *                                    is only read from the environment, keeping it out of shell history)
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// Session cookie name (COOKIE_KEYS.SESSION in app.constants.ts)
+const SESSION_COOKIE = 'game-library-session';
+
+function parseArgs(argv) {
+  const positional = [];
+  const options = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg.startsWith('--')) {
+      options[arg.slice(2)] = argv[++i];
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { positional, options };
+}
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+/**
+ * Cookie header carrying the admin session, signing in when only credentials are given
+ */
+async function getSessionCookie(baseUrl, options) {
+  const token = options.session || process.env.CATALOG_SESSION;
+  if (token) {
+    return `${SESSION_COOKIE}=${token}`;
+  }
+
+  const email = options.email || process.env.CATALOG_EMAIL;
+  const password = process.env.CATALOG_PASSWORD;
+  if (!email || !password) {
+    fail('Missing admin session: set CATALOG_SESSION, or CATALOG_EMAIL and CATALOG_PASSWORD');
+  }
+
+  const response = await fetch(`${baseUrl}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password })
+  });
+  if (!response.ok) {
+    fail(await response.text());
+  }
+
+  const cookie = response.headers.getSetCookie().find(header => header.startsWith(`${SESSION_COOKIE}=`));
+  if (!cookie) {
+    fail('Sign in did not return a session cookie');
+  }
+
+  return cookie.split(';')[0];
+}
+
+async function exportCatalog(baseUrl, cookie, entity, options) {
+  const format = options.format || 'json';
+  const query = new URLSearchParams(options.query || '');
+  query.set('format', format);
+
+  const response = await fetch(`${baseUrl}/api/admin/catalog/${entity}/export?${query}`, {
+    headers: { Cookie: cookie }
+  });
+  const body = await response.text();
+  if (!response.ok) {
+    fail(body);
+  }
+
+  if (options.out) {
+    fs.writeFileSync(options.out, body);
+    console.log(`Exported ${entity} to ${options.out}`);
+  } else {
+    process.stdout.write(body);
+  }
+}
+
+async function importCatalog(baseUrl, cookie, entity, file, options) {
+  if (!file) {
+    fail('Missing file to import');
+  }
+
+  const format = options.format || path.extname(file).slice(1) || 'json';
+  const query = new URLSearchParams({ format });
+  if (options.dryRun) {
+    query.set('dryRun', 'true');
+  }
+
+  const response = await fetch(`${baseUrl}/api/admin/catalog/${entity}/import?${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': format === 'csv' ? 'text/csv' : 'application/json', Cookie: cookie },
+    body: fs.readFileSync(file, 'utf-8')
+  });
+  const result = await response.json();
+  const report = result.success ? result.data : result.error?.details;
+
+  if (!report?.rows) {
+    fail(JSON.stringify(result.error ?? result, null, 2));
+  }
+
+  report.rows
+    .filter(row => row.action === 'invalid')
+    .forEach(row => {
+      row.errors.forEach(error => {
+        console.log(`row ${row.row}${row.id ? ` (${row.id})` : ''}: ${error.field} ${error.constraints.join(', ')}`);
+      });
+    });
+
+  const mode = report.dryRun ? 'Dry run' : report.applied ? 'Imported' : 'Rejected';
+  console.log(
+    `${mode}: ${report.total} rows, ${report.created} to create, ${report.updated} to update, ${report.invalid} invalid`
+  );
+
+  if (report.invalid > 0) {
+    process.exit(1);
+  }
+}
+
+async function main() {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const [command, entity, file] = positional;
+  const baseUrl = (options.url || process.env.CATALOG_API_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+  if (!entity) {
+    fail('Usage: catalog <export|import> <games|providers|tags> [file] [options]');
+  }
+
+  if (command !== 'export' && command !== 'import') {
+    fail(`Unknown command '${command}', expected export or import`);
+  }
+
+  const cookie = await getSessionCookie(baseUrl, options);
+
+  return command === 'export'
+    ? exportCatalog(baseUrl, cookie, entity, options)
+    : importCatalog(baseUrl, cookie, entity, file, options);
+}
+
+main().catch(error => fail(error.message));
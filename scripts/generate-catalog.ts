@@ -0,0 +1,94 @@
+/**
+ * Catalogue generator CLI
+ * Writes games.json, providers.json and tags.json at any scale from the seeded data generators
+ *
+ * Usage:
+ *   npm run catalog:generate -- [--games 50000] [--providers 250] [--seed 42] [--date 2025-01-01] [--years 12] [--out .data]
+ *
+ * The same seed and date always produce the same files; the seed is random when omitted and printed either way
+ * The output directory defaults to DATA_DIR (or .data), so `DATA_ADAPTER=json npm run dev` serves the generated data
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { generateCatalog } from '@/lib/core/test/generators/CatalogGenerator';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      options[argv[i].slice(2)] = argv[++i];
+    }
+  }
+
+  return options;
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function toCount(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    fail(`--${name} must be a positive integer`);
+  }
+  return count;
+}
+
+/**
+ * Write a JSON array one item at a time, formatted like JSON.stringify(items, null, 2),
+ * so large catalogues never need a single huge string
+ */
+function writeJsonArray(filePath: string, items: unknown[]): void {
+  const fd = fs.openSync(filePath, 'w');
+
+  try {
+    fs.writeSync(fd, '[\n');
+    items.forEach((item, index) => {
+      const json = JSON.stringify(item, null, 2).replace(/^/gm, '  ');
+      fs.writeSync(fd, `${json}${index < items.length - 1 ? ',' : ''}\n`);
+    });
+    fs.writeSync(fd, ']\n');
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  // Whole days only, so the printed date reproduces the same release dates
+  const referenceDate = new Date(options.date || new Date().toISOString().slice(0, 10));
+  if (isNaN(referenceDate.getTime())) {
+    fail('--date must be a date, e.g. 2025-01-01');
+  }
+
+  const seed = options.seed === undefined || isNaN(Number(options.seed)) ? options.seed : Number(options.seed);
+  const outDir = path.resolve(process.cwd(), options.out || process.env.DATA_DIR || '.data');
+
+  const startedAt = Date.now();
+  const catalog = generateCatalog({
+    games: toCount(options.games, 'games'),
+    providers: toCount(options.providers, 'providers'),
+    years: toCount(options.years, 'years'),
+    seed,
+    referenceDate
+  });
+
+  fs.mkdirSync(outDir, { recursive: true });
+  writeJsonArray(path.join(outDir, 'games.json'), catalog.games);
+  writeJsonArray(path.join(outDir, 'providers.json'), catalog.providers);
+  writeJsonArray(path.join(outDir, 'tags.json'), catalog.tags);
+
+  console.log(
+    `Generated ${catalog.games.length} games, ${catalog.providers.length} providers and ${catalog.tags.length} tags ` +
+    `in ${outDir} (${Date.now() - startedAt}ms)`
+  );
+  console.log(`Reproduce with: --seed ${catalog.seed} --date ${referenceDate.toISOString().slice(0, 10)}`);
+}
+
+main();
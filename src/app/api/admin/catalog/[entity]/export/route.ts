@@ -0,0 +1,63 @@
+/**
+ * Catalogue Export API Route
+ * Downloads games, providers or tags as CSV or JSON; admins only (ADMIN_USER_IDS)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  catalogTransferService,
+  CATALOG_CONTENT_TYPES
+} from '@/lib/core/backend/services/CatalogTransferService';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { recentlyPlayedService } from '@/lib/core/backend/services/RecentlyPlayedService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { getDefaultSort } from '@/lib/core/shared/utils/url';
+import { catalogExportQuerySchema, filterParamsSchema } from '@/lib/core/shared/validation';
+import { handleApiError } from '@/lib/core/shared/errors/errorHandler';
+
+/**
+ * GET /api/admin/catalog/[entity]/export?format=csv|json
+ * Accepts the same filter query params as /api/games (pagination is ignored)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ entity: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    authService.requireAdmin(request);
+
+    const entity = catalogTransferService.parseEntity((await params).entity);
+    const searchParams = request.nextUrl.searchParams;
+    const { format } = catalogExportQuerySchema.parseQuery(searchParams);
+
+    // Same filters and default ordering as /api/games
+    const criteria = filterParamsSchema.parseQuery(searchParams);
+    criteria.sort ??= getDefaultSort(criteria.search);
+
+    // The favorites filter matches the visitor's selected collection, or every favorite
+    const visitor = visitorService.resolve(request);
+    const favoriteIds = criteria.favoritesCollection
+      ? favoriteService.getCollection(visitor.ownerId, criteria.favoritesCollection).gameIds
+      : favoriteService.getFavoriteIds(visitor.ownerId);
+
+    // The recent filter matches the visitor's stored history
+    if (criteria.recent) {
+      criteria.recentIds = recentlyPlayedService.getRecentIds(visitor.ownerId);
+    }
+
+    const body = catalogTransferService.exportCatalog(entity, format, criteria, favoriteIds);
+
+    return visitorService.attach(new NextResponse(body, {
+      headers: {
+        'Content-Type': CATALOG_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${entity}.${format}"`
+      }
+    }), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Catalogue Import API Route
+ * Validates and applies CSV or JSON files of games, providers or tags; admins only (ADMIN_USER_IDS)
+ */
+
+import { NextRequest } from 'next/server';
+import { catalogTransferService } from '@/lib/core/backend/services/CatalogTransferService';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import {
+  handleApiError,
+  createErrorResponse,
+  createSuccessResponse
+} from '@/lib/core/shared/errors/errorHandler';
+import { ErrorCodes, HttpStatusCodes } from '@/lib/core/shared/errors/constants';
+import { catalogImportQuerySchema } from '@/lib/core/shared/validation';
+
+/**
+ * POST /api/admin/catalog/[entity]/import?format=csv|json&dryRun=true
+ * The request body is the file content; format defaults to csv for text/csv bodies, json otherwise
+ * Responds with a per-row report; nothing is written when any row is invalid
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ entity: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    authService.requireAdmin(request);
+
+    const entity = catalogTransferService.parseEntity((await params).entity);
+    const isCsvBody = request.headers.get('content-type')?.includes('text/csv');
+    const {
+      format = isCsvBody ? 'csv' : 'json',
+      dryRun
+    } = catalogImportQuerySchema.parseQuery(request.nextUrl.searchParams);
+
+    const report = catalogTransferService.importCatalog(entity, format, await request.text(), dryRun);
+
+    if (!dryRun && report.invalid > 0) {
+      return createErrorResponse(
+        ErrorCodes.UNPROCESSABLE_ENTITY,
+        `Import rejected: ${report.invalid} of ${report.total} rows are invalid`,
+        HttpStatusCodes.UNPROCESSABLE_ENTITY,
+        report
+      );
+    }
+
+    return createSuccessResponse(report);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
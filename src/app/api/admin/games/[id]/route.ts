@@ -0,0 +1,59 @@
+/**
+ * Admin Game API Route
+ * Edits and retires a single catalogue game; admins only (ADMIN_USER_IDS)
+ */
+
+import { NextRequest } from 'next/server';
+import { gameAdminService } from '@/lib/core/backend/services/GameAdminService';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { gameEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { gameBodySchema } from '@/lib/core/shared/validation';
+
+/**
+ * PATCH /api/admin/games/[id]
+ * Update the provided fields of a game
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    authService.requireAdmin(request);
+
+    const { id } = await params;
+    const body = await gameBodySchema.parseBody(request);
+    const game = gameAdminService.updateGame(id, body);
+
+    return createSuccessResponse(gameEntityTransformers.toApi(game));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/admin/games/[id]
+ * Remove a game from the catalogue
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    authService.requireAdmin(request);
+
+    const { id } = await params;
+    gameAdminService.deleteGame(id);
+
+    return createSuccessResponse({
+      message: 'Game deleted'
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Admin Games API Route
+ * Adds games to the catalogue; admins only (ADMIN_USER_IDS)
+ */
+
+import { NextRequest } from 'next/server';
+import { gameAdminService } from '@/lib/core/backend/services/GameAdminService';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { gameEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { HttpStatusCodes } from '@/lib/core/shared/errors/constants';
+import { gameBodySchema } from '@/lib/core/shared/validation';
+
+/**
+ * POST /api/admin/games
+ * Create a game (title, providerId, type and thumbnail are required)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    authService.requireAdmin(request);
+
+    const body = await gameBodySchema.parseBody(request);
+    const game = gameAdminService.createGame(body);
+
+    return createSuccessResponse(gameEntityTransformers.toApi(game), undefined, HttpStatusCodes.CREATED);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Account API Route
+ * Reads and updates the signed-in user's account
+ */
+
+import { NextRequest } from 'next/server';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { authEntityTransformers } from '@/lib/core/backend/transformers';
+import {
+  handleApiError,
+  createSuccessResponse,
+  createUnauthorizedResponse
+} from '@/lib/core/shared/errors/errorHandler';
+import { accountUpdateBodySchema } from '@/lib/core/shared/validation';
+
+/**
+ * GET /api/auth/account
+ * Get the signed-in user's account; 401 for guests
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    const auth = authService.getSession(request);
+    if (!auth) {
+      return createUnauthorizedResponse();
+    }
+
+    return createSuccessResponse(authEntityTransformers.toApiUser(auth.user));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PATCH /api/auth/account
+ * Change the signed-in user's display name; 401 for guests
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const auth = authService.getSession(request);
+    if (!auth) {
+      return createUnauthorizedResponse();
+    }
+
+    const body = await accountUpdateBodySchema.parseBody(request);
+    const user = authService.updateAccount(auth.user, body);
+
+    return createSuccessResponse(authEntityTransformers.toApiUser(user));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Login API Route
+ * Signs in with email and password
+ */
+
+import { NextRequest } from 'next/server';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { authEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { loginBodySchema } from '@/lib/core/shared/validation';
+
+/**
+ * POST /api/auth/login
+ * Check the credentials and set the session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const body = await loginBodySchema.parseBody(request);
+    const started = await authService.login(body);
+
+    return authService.attachSession(
+      createSuccessResponse(authEntityTransformers.toApiSession(started.user, started.session)),
+      started
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
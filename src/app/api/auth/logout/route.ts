@@ -0,0 +1,26 @@
+/**
+ * Logout API Route
+ * Ends the current session
+ */
+
+import { NextRequest } from 'next/server';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { authEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+
+/**
+ * POST /api/auth/logout
+ * End the session and clear its cookie (a no-op for guests)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    authService.logout(request);
+
+    return authService.clearSession(createSuccessResponse(authEntityTransformers.toApiSession()));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
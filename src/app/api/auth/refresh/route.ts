@@ -0,0 +1,37 @@
+/**
+ * Session Refresh API Route
+ * Keeps an active session alive
+ */
+
+import { NextRequest } from 'next/server';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { authEntityTransformers } from '@/lib/core/backend/transformers';
+import {
+  handleApiError,
+  createSuccessResponse,
+  createUnauthorizedResponse
+} from '@/lib/core/shared/errors/errorHandler';
+
+/**
+ * POST /api/auth/refresh
+ * Slide the session's expiry forward ("Stay signed in" and activity in any tab)
+ * Responds 401 and clears the cookie once the session has expired
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const refreshed = authService.refresh(request);
+    if (!refreshed) {
+      return authService.clearSession(createUnauthorizedResponse('Session expired'));
+    }
+
+    return authService.attachSession(
+      createSuccessResponse(authEntityTransformers.toApiSession(refreshed.user, refreshed.session)),
+      refreshed
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
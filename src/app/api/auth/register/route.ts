@@ -0,0 +1,36 @@
+/**
+ * Register API Route
+ * Creates an account and signs it in
+ */
+
+import { NextRequest } from 'next/server';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { authEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { HttpStatusCodes } from '@/lib/core/shared/errors/constants';
+import { registerBodySchema } from '@/lib/core/shared/validation';
+
+/**
+ * POST /api/auth/register
+ * Create an account from name, email and password and set the session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const body = await registerBodySchema.parseBody(request);
+    const started = await authService.register(body);
+
+    return authService.attachSession(
+      createSuccessResponse(
+        authEntityTransformers.toApiSession(started.user, started.session),
+        undefined,
+        HttpStatusCodes.CREATED
+      ),
+      started
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
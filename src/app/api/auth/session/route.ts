@@ -0,0 +1,26 @@
+/**
+ * Session API Route
+ * Reports who is signed in
+ */
+
+import { NextRequest } from 'next/server';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { authEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+
+/**
+ * GET /api/auth/session
+ * Get the signed-in user and when their session expires; user is null for guests
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    const auth = authService.getSession(request);
+
+    return createSuccessResponse(authEntityTransformers.toApiSession(auth?.user, auth?.session));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
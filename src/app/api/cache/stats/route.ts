@@ -0,0 +1,27 @@
+/**
+ * API endpoint for backend cache statistics; signed-in users only
+ */
+
+import { NextRequest } from 'next/server';
+import { authService } from '@/lib/core/backend/services/AuthService';
+import { cacheService } from '@/lib/core/backend/services/CacheService';
+import {
+  handleApiError,
+  createSuccessResponse,
+  createUnauthorizedResponse
+} from '@/lib/core/shared/errors/errorHandler';
+
+/**
+ * Get cache usage and hit/miss/eviction counters
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!authService.getSession(request)) {
+      return createUnauthorizedResponse();
+    }
+
+    return createSuccessResponse(cacheService.getStats());
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Favorite Collection Games API Route
+ * Adds or removes a game in a collection
+ */
+
+import { NextRequest } from 'next/server';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { gameService } from '@/lib/core/backend/services/GameService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { favoriteEntityTransformers } from '@/lib/core/backend/transformers';
+import { GameNotFoundError } from '@/lib/core/shared/errors/AppError';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { collectionGameBodySchema } from '@/lib/core/shared/validation';
+
+/**
+ * POST /api/favorites/collections/[id]/games
+ * Add, remove or toggle a game (defaults to toggle)
+ * Adding a game to a collection also adds it to favorites
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const { id } = await params;
+    const visitor = visitorService.resolve(request);
+    const { gameId, action } = await collectionGameBodySchema.parseBody(request);
+
+    if (!gameService.getGameById(gameId)) {
+      throw new GameNotFoundError(gameId);
+    }
+
+    const { collection, inCollection } = favoriteService.setCollectionGame(
+      visitor.ownerId,
+      id,
+      gameId,
+      action
+    );
+
+    const response = favoriteEntityTransformers.toApiCollectionGameResponse(collection, gameId, inCollection);
+
+    return visitorService.attach(createSuccessResponse(response), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Favorite Collection API Route
+ * Reads, renames and deletes a single collection
+ */
+
+import { NextRequest } from 'next/server';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { favoriteEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { collectionUpdateBodySchema } from '@/lib/core/shared/validation';
+
+/**
+ * GET /api/favorites/collections/[id]
+ * Get a collection
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    const { id } = await params;
+    const visitor = visitorService.resolve(request);
+    const collection = favoriteService.getCollection(visitor.ownerId, id);
+
+    return visitorService.attach(
+      createSuccessResponse(favoriteEntityTransformers.toApiCollection(collection)),
+      visitor
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PATCH /api/favorites/collections/[id]
+ * Rename a collection and/or replace its games (the order of gameIds is kept)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const { id } = await params;
+    const visitor = visitorService.resolve(request);
+    const body = await collectionUpdateBodySchema.parseBody(request);
+
+    const collection = favoriteService.updateCollection(visitor.ownerId, id, {
+      name: body.name,
+      gameIds: body.gameIds
+    });
+
+    return visitorService.attach(
+      createSuccessResponse(favoriteEntityTransformers.toApiCollection(collection)),
+      visitor
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/favorites/collections/[id]
+ * Delete a collection (its games stay in favorites)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const { id } = await params;
+    const visitor = visitorService.resolve(request);
+    favoriteService.deleteCollection(visitor.ownerId, id);
+
+    return visitorService.attach(createSuccessResponse({
+      message: 'Collection deleted'
+    }), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Favorite Collections API Route
+ * Lists, creates and reorders the visitor's named favorite collections
+ */
+
+import { NextRequest } from 'next/server';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { favoriteEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { HttpStatusCodes } from '@/lib/core/shared/errors/constants';
+import { collectionCreateBodySchema, collectionsReorderBodySchema } from '@/lib/core/shared/validation';
+
+/**
+ * GET /api/favorites/collections
+ * Get all collections in display order
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    const visitor = visitorService.resolve(request);
+    const collections = favoriteService.getCollections(visitor.ownerId);
+
+    const response = favoriteEntityTransformers.toApiCollectionsListResponse(collections);
+
+    return visitorService.attach(createSuccessResponse(response), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/favorites/collections
+ * Create a collection, optionally with initial games
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const visitor = visitorService.resolve(request);
+    const body = await collectionCreateBodySchema.parseBody(request);
+
+    const collection = favoriteService.createCollection(visitor.ownerId, body.name, body.gameIds);
+
+    return visitorService.attach(
+      createSuccessResponse(favoriteEntityTransformers.toApiCollection(collection), undefined, HttpStatusCodes.CREATED),
+      visitor
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * PUT /api/favorites/collections
+ * Reorder collections
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const visitor = visitorService.resolve(request);
+    const body = await collectionsReorderBodySchema.parseBody(request);
+
+    const collections = favoriteService.reorderCollections(visitor.ownerId, body.collectionIds);
+
+    const response = favoriteEntityTransformers.toApiCollectionsListResponse(collections);
+
+    return visitorService.attach(createSuccessResponse(response), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Followed Providers API Route
+ * Handles provider favorites scoped to the visitor session cookie
+ */
+
+import { NextRequest } from 'next/server';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { favoriteEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { providerFollowBodySchema } from '@/lib/core/shared/validation';
+
+/**
+ * GET /api/favorites/providers
+ * Get followed providers
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const visitor = visitorService.resolve(request);
+    const providers = favoriteService.getFavoriteProviders(visitor.ownerId);
+
+    const response = favoriteEntityTransformers.toApiFavoriteProvidersListResponse(providers);
+
+    return visitorService.attach(createSuccessResponse(response), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/favorites/providers
+ * Follow, unfollow or toggle a provider
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const visitor = visitorService.resolve(request);
+    const { providerId, action } = await providerFollowBodySchema.parseBody(request);
+
+    favoriteService.assertItemExists(providerId, 'provider');
+
+    let isFavorite: boolean;
+
+    if (action === 'add') {
+      isFavorite = favoriteService.addFavorite(visitor.ownerId, providerId, 'provider');
+    } else if (action === 'remove') {
+      isFavorite = !favoriteService.removeFavorite(visitor.ownerId, providerId, 'provider');
+    } else {
+      isFavorite = favoriteService.toggleFavorite(visitor.ownerId, providerId, 'provider');
+    }
+
+    const response = favoriteEntityTransformers.toApiFavoriteProviderResponse(providerId, isFavorite);
+
+    return visitorService.attach(createSuccessResponse(response), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/favorites/providers
+ * Unfollow all providers
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const visitor = visitorService.resolve(request);
+    favoriteService.clearFavorites(visitor.ownerId, 'provider');
+
+    return visitorService.attach(createSuccessResponse({
+      message: 'All followed providers cleared'
+    }), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,32 +1,31 @@
 /**
  * Favorites API Route
- * Handles favorite operations with session-based persistence
+ * Handles favorite operations scoped to the visitor session cookie
  */
 
 import { NextRequest } from 'next/server';
 import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
 import { gameService } from '@/lib/core/backend/services/GameService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
 import { favoriteEntityTransformers } from '@/lib/core/backend/transformers';
-import { GameNotFoundError, ValidationError } from '@/lib/core/shared/errors/AppError';
-import { simulateMutationDelay } from '@/lib/core/shared/utils/delay';
-import {
-  handleApiError,
-  createSuccessResponse,
-  validateRequiredFields,
-} from '@/lib/core/shared/errors/errorHandler';
+import { GameNotFoundError } from '@/lib/core/shared/errors/AppError';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { favoriteToggleBodySchema, favoritesSyncBodySchema } from '@/lib/core/shared/validation';
 
 /**
  * GET /api/favorites
  * Get all favorite game IDs
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const favoriteIds = favoriteService.getFavoriteIds('game');
+    const visitor = visitorService.resolve(request);
+    const favoriteIds = favoriteService.getFavoriteIds(visitor.ownerId, 'game');
     
     // Transform to API response format
     const response = favoriteEntityTransformers.toApiFavoritesListResponse(favoriteIds);
     
-    return createSuccessResponse(response);
+    return visitorService.attach(createSuccessResponse(response), visitor);
   } catch (error) {
     return handleApiError(error);
   }
@@ -38,13 +37,10 @@ export async function GET() {
  */
 export async function POST(request: NextRequest) {
   try {
-    await simulateMutationDelay();
+    await chaosService.simulate(request, 'mutation');
 
-    const body = await request.json();
-    const { gameId, action } = body;
-
-    // Validate required fields
-    validateRequiredFields({ gameId }, ['gameId']);
+    const visitor = visitorService.resolve(request);
+    const { gameId, action } = await favoriteToggleBodySchema.parseBody(request);
 
     // Verify game exists
     const game = gameService.getGameById(gameId);
@@ -55,24 +51,21 @@ export async function POST(request: NextRequest) {
     let isFavorite: boolean;
     
     if (action === 'add') {
-      isFavorite = favoriteService.addFavorite(gameId);
+      isFavorite = favoriteService.addFavorite(visitor.ownerId, gameId);
     } else if (action === 'remove') {
-      isFavorite = !favoriteService.removeFavorite(gameId);
+      isFavorite = !favoriteService.removeFavorite(visitor.ownerId, gameId);
     } else {
       // Default to toggle
-      isFavorite = favoriteService.toggleFavorite(gameId);
+      isFavorite = favoriteService.toggleFavorite(visitor.ownerId, gameId);
     }
-
-    // Get updated game with favorite status
-    const updatedGame = gameService.getGameById(gameId);
     
     // Transform to API response format
     const response = favoriteEntityTransformers.toApiFavoriteResponse(gameId, isFavorite);
 
-    return createSuccessResponse({
+    return visitorService.attach(createSuccessResponse({
       ...response,
-      game: updatedGame
-    });
+      game: { ...game, isFavorite }
+    }), visitor);
   } catch (error) {
     return handleApiError(error);
   }
@@ -84,15 +77,11 @@ export async function POST(request: NextRequest) {
  */
 export async function PUT(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { favoriteIds } = body;
-
-    if (!Array.isArray(favoriteIds)) {
-      throw new ValidationError('favoriteIds', favoriteIds, ['must be an array']);
-    }
+    const visitor = visitorService.resolve(request);
+    const { favoriteIds } = await favoritesSyncBodySchema.parseBody(request);
 
     // Import favorites from client
-    favoriteService.importFavorites(favoriteIds, 'game');
+    favoriteService.importFavorites(visitor.ownerId, favoriteIds, 'game');
     
     // Transform to API response format
     const response = favoriteEntityTransformers.toApiSyncResponse(
@@ -100,7 +89,7 @@ export async function PUT(request: NextRequest) {
       favoriteIds
     );
 
-    return createSuccessResponse(response);
+    return visitorService.attach(createSuccessResponse(response), visitor);
   } catch (error) {
     return handleApiError(error);
   }
@@ -110,13 +99,14 @@ export async function PUT(request: NextRequest) {
  * DELETE /api/favorites
  * Clear all favorites
  */
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
   try {
-    favoriteService.clearFavorites('game');
+    const visitor = visitorService.resolve(request);
+    favoriteService.clearFavorites(visitor.ownerId, 'game');
     
-    return createSuccessResponse({
+    return visitorService.attach(createSuccessResponse({
       message: 'All favorites cleared'
-    });
+    }), visitor);
   } catch (error) {
     return handleApiError(error);
   }
@@ -0,0 +1,80 @@
+/**
+ * Followed Tags API Route
+ * Handles tag favorites scoped to the visitor session cookie
+ */
+
+import { NextRequest } from 'next/server';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { favoriteEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { tagFollowBodySchema } from '@/lib/core/shared/validation';
+
+/**
+ * GET /api/favorites/tags
+ * Get followed tags
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const visitor = visitorService.resolve(request);
+    const tags = favoriteService.getFavoriteTags(visitor.ownerId);
+
+    const response = favoriteEntityTransformers.toApiFavoriteTagsListResponse(tags);
+
+    return visitorService.attach(createSuccessResponse(response), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/favorites/tags
+ * Follow, unfollow or toggle a tag
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const visitor = visitorService.resolve(request);
+    const { tagId, action } = await tagFollowBodySchema.parseBody(request);
+
+    favoriteService.assertItemExists(tagId, 'tag');
+
+    // Tag IDs are lowercase, so echo the stored form back
+    const id = tagId.toLowerCase().trim();
+
+    let isFavorite: boolean;
+
+    if (action === 'add') {
+      isFavorite = favoriteService.addFavorite(visitor.ownerId, id, 'tag');
+    } else if (action === 'remove') {
+      isFavorite = !favoriteService.removeFavorite(visitor.ownerId, id, 'tag');
+    } else {
+      isFavorite = favoriteService.toggleFavorite(visitor.ownerId, id, 'tag');
+    }
+
+    const response = favoriteEntityTransformers.toApiFavoriteTagResponse(id, isFavorite);
+
+    return visitorService.attach(createSuccessResponse(response), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/favorites/tags
+ * Unfollow all tags
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const visitor = visitorService.resolve(request);
+    favoriteService.clearFavorites(visitor.ownerId, 'tag');
+
+    return visitorService.attach(createSuccessResponse({
+      message: 'All followed tags cleared'
+    }), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
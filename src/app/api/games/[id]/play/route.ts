@@ -0,0 +1,40 @@
+/**
+ * Game Play API Route
+ * Records a launch of the game for live play counts and trending
+ */
+
+import { NextRequest } from 'next/server';
+import { playService } from '@/lib/core/backend/services/PlayService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { playEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { HttpStatusCodes } from '@/lib/core/shared/errors/constants';
+
+/**
+ * POST /api/games/[id]/play
+ * Record a play, returning the game's updated play count and recent activity
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const { id } = await params;
+    const visitor = visitorService.resolve(request);
+    const { game, activity } = playService.recordPlay(visitor.ownerId, id);
+
+    return visitorService.attach(
+      createSuccessResponse(
+        playEntityTransformers.toApiPlayResponse(game, activity),
+        undefined,
+        HttpStatusCodes.CREATED
+      ),
+      visitor
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Game Reviews API Route
+ * Lists a game's reviews and lets the visitor rate it (one review per visitor per game)
+ */
+
+import { NextRequest } from 'next/server';
+import { reviewService } from '@/lib/core/backend/services/ReviewService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { reviewEntityTransformers } from '@/lib/core/backend/transformers';
+import {
+  handleApiError,
+  createSuccessResponse,
+  createPaginatedResponse,
+} from '@/lib/core/shared/errors/errorHandler';
+import { HttpStatusCodes } from '@/lib/core/shared/errors/constants';
+import { reviewBodySchema, reviewsQuerySchema } from '@/lib/core/shared/validation';
+
+/**
+ * GET /api/games/[id]/reviews
+ * Get a page of reviews, most recently updated first
+ * The rating aggregate and the visitor's own review are returned in meta
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    const { id } = await params;
+    const visitor = visitorService.resolve(request);
+    const game = reviewService.getGame(id);
+
+    const { data: reviews, pagination } = reviewService.getReviews(
+      game.id,
+      reviewsQuerySchema.parseQuery(request.nextUrl.searchParams)
+    );
+
+    const summary = reviewEntityTransformers.toApiSummary(
+      game,
+      reviewService.getOwnReview(visitor.ownerId, game.id)
+    );
+
+    return visitorService.attach(
+      createPaginatedResponse(
+        reviewEntityTransformers.toApiList(reviews, visitor.ownerId),
+        pagination,
+        { ...summary }
+      ),
+      visitor
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/games/[id]/reviews
+ * Create the visitor's review, or replace their earlier one
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const { id } = await params;
+    const visitor = visitorService.resolve(request);
+    const body = await reviewBodySchema.parseBody(request);
+    const { review, game, created } = reviewService.submitReview(visitor.ownerId, id, body.rating, body.text);
+
+    return visitorService.attach(
+      createSuccessResponse(
+        reviewEntityTransformers.toApiSubmitResponse(game, review, created),
+        undefined,
+        created ? HttpStatusCodes.CREATED : HttpStatusCodes.OK
+      ),
+      visitor
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
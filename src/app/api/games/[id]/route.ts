@@ -0,0 +1,40 @@
+/**
+ * Mock API endpoint for a single game
+ * Looks games up by ID or slug
+ */
+
+import { NextRequest } from 'next/server';
+import { gameService } from '@/lib/core/backend/services/GameService';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { gameEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { GameNotFoundError } from '@/lib/core/shared/errors/AppError';
+
+// Get single game by ID or slug
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    const { id } = await params;
+    const visitor = visitorService.resolve(request);
+    const game = gameService.getGameByIdOrSlug(id);
+
+    if (!game) {
+      throw new GameNotFoundError(id);
+    }
+
+    // Transform game to API response with the visitor's favorite state
+    const apiGame = gameEntityTransformers.toApi({
+      ...game,
+      isFavorite: favoriteService.isFavorite(visitor.ownerId, game.id)
+    });
+    return visitorService.attach(createSuccessResponse(apiGame), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -6,63 +6,69 @@
 import { NextRequest } from 'next/server';
 import { gameService } from '@/lib/core/backend/services/GameService';
 import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { recentlyPlayedService } from '@/lib/core/backend/services/RecentlyPlayedService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
 import { providerService } from '@/lib/core/backend/services/ProviderService';
 import { PaginationService } from '@/lib/core/backend/services/PaginationService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
 import { gameEntityTransformers, providerEntityTransformers } from '@/lib/core/backend/transformers';
-import { simulateApiDelay, simulateMutationDelay } from '@/lib/core/shared/utils/delay';
 import { 
   handleApiError, 
   createPaginatedResponse,
   createSuccessResponse 
 } from '@/lib/core/shared/errors/errorHandler';
-import { GameNotFoundError, ValidationError } from '@/lib/core/shared/errors/AppError';
-import { GAME_TYPES, DEFAULT_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
-import type { GameType } from '@/lib/core/domain/entities';
-import type { SortOption, SearchType } from '@/lib/core/domain/models';
+import { GameNotFoundError } from '@/lib/core/shared/errors/AppError';
+import { GAME_TYPES } from '@/lib/core/config/constants/app.constants';
+import { filterParamsSchema, gameFavoriteBodySchema } from '@/lib/core/shared/validation';
+import { getDefaultSort } from '@/lib/core/shared/utils/url';
 import type { FilterQueryParams } from '@/lib/core/shared/types/filters';
 
 export async function GET(request: NextRequest) {
   try {
     // Add delay to simulate real API
-    await simulateApiDelay();
+    await chaosService.simulate(request, 'get');
 
-    // Parse query parameters
-    const searchParams = request.nextUrl.searchParams;
+    // Favorites are scoped to the visitor making the request
+    const visitor = visitorService.resolve(request);
+    const favoriteIds = favoriteService.getFavoriteIds(visitor.ownerId);
+
+    // Validate and coerce query parameters, rejecting unknown sorts, types, etc.
+    const params = filterParamsSchema.parseQuery(request.nextUrl.searchParams);
     
     // Validate pagination parameters using PaginationService
     const paginationParams = PaginationService.validateParams({
-      page: parseInt(searchParams.get('page') || '1'),
-      pageSize: parseInt(searchParams.get('pageSize') || String(DEFAULT_PAGE_SIZE))
+      page: params.page,
+      pageSize: params.pageSize
     });
     
-    // Parse RTP parameters
-    const minRtpParam = searchParams.get('minRtp');
-    const maxRtpParam = searchParams.get('maxRtp');
-    const minRtp = minRtpParam ? parseFloat(minRtpParam) : undefined;
-    const maxRtp = maxRtpParam ? parseFloat(maxRtpParam) : undefined;
-    
     const criteria: FilterQueryParams = {
-      search: searchParams.get('search') || undefined,
-      searchType: (searchParams.get('searchType') as SearchType) || 'all',
-      providers: searchParams.get('providers')?.split(',').filter(Boolean),
-      types: searchParams.get('types')?.split(',').filter(Boolean) as GameType[],
-      tags: searchParams.get('tags')?.split(',').filter(Boolean),
-      sort: (searchParams.get('sort') as SortOption) || 'popular',
-      favorites: searchParams.get('favorites') === 'true',
-      isNew: searchParams.get('new') === 'true',
-      isHot: searchParams.get('hot') === 'true',
-      isComingSoon: searchParams.get('coming') === 'true',
-      minRtp,
-      maxRtp,
+      ...params,
+      searchType: params.searchType || 'all',
+      tagMode: params.tagMode || 'any',
+      // Relevance is the default ordering for searches, popularity otherwise
+      sort: params.sort || getDefaultSort(params.search),
       page: paginationParams.page!,
       pageSize: paginationParams.pageSize!
     };
 
+    // The favorites filter matches the selected collection's games, or every favorite
+    const favoritesFilterIds = criteria.favoritesCollection
+      ? favoriteService.getCollection(visitor.ownerId, criteria.favoritesCollection).gameIds
+      : favoriteIds;
+
+    // Guests send their locally kept history, otherwise the recent filter matches the stored one
+    if (criteria.recent && !criteria.recentIds) {
+      criteria.recentIds = recentlyPlayedService.getRecentIds(visitor.ownerId);
+    }
+
     // Use GameService to get filtered, sorted, and paginated games
-    const { games, pagination, totalGames } = gameService.getGames(criteria);
+    const { games, pagination, totalGames, relevanceScores } = gameService.getGames(criteria, favoritesFilterIds);
 
     // Transform games to API response format
-    const apiGames = gameEntityTransformers.toApiGetAllGamesResponse(games);
+    const apiGames = gameEntityTransformers.toApiGetAllGamesResponse(games, {
+      favoriteIds,
+      relevanceScores
+    });
 
     // Get unique tags from the filtered games for the filter panel
     const tagsSet = new Set<string>();
@@ -77,18 +83,21 @@ export async function GET(request: NextRequest) {
     const providers = providerService.getAllProviders();
     const apiProviders = providerEntityTransformers.toApiGetAllProvidersResponse(providers);
 
+    // Facet counts for the filter panel, each computed against the other active filters
+    const facets = gameService.getFacets(criteria, favoritesFilterIds);
+
     const responseData = {
       providers: apiProviders,
       types: [...GAME_TYPES],
       tags: availableTags,
+      facets,
       totalGames
     };
 
     // Return standardized paginated response
-    return createPaginatedResponse(
-      apiGames,
-      pagination,
-      responseData
+    return visitorService.attach(
+      createPaginatedResponse(apiGames, pagination, responseData),
+      visitor
     );
   } catch (error) {
     return handleApiError(error);
@@ -98,14 +107,10 @@ export async function GET(request: NextRequest) {
 // Toggle favorite status
 export async function POST(request: NextRequest) {
   try {
-    await simulateMutationDelay();
+    await chaosService.simulate(request, 'mutation');
 
-    const body = await request.json();
-    const { gameId } = body;
-
-    if (!gameId) {
-      throw new ValidationError('gameId', undefined, ['required']);
-    }
+    const visitor = visitorService.resolve(request);
+    const { gameId } = await gameFavoriteBodySchema.parseBody(request);
 
     // Check if game exists
     const game = gameService.getGameById(gameId);
@@ -114,14 +119,14 @@ export async function POST(request: NextRequest) {
     }
 
     // Use FavoriteService to toggle favorite
-    const isFavorite = favoriteService.toggleFavorite(gameId, 'game');
+    const isFavorite = favoriteService.toggleFavorite(visitor.ownerId, gameId, 'game');
 
     // Transform game to API response and return
     const apiGame = gameEntityTransformers.toApi({
       ...game,
       isFavorite
     });
-    return createSuccessResponse(apiGame);
+    return visitorService.attach(createSuccessResponse(apiGame), visitor);
   } catch (error) {
     return handleApiError(error);
   }
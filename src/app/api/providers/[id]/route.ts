@@ -0,0 +1,45 @@
+/**
+ * Mock API endpoint for a single provider
+ * Supports including the provider's games (includeGames=true)
+ */
+
+import { NextRequest } from 'next/server';
+import { providerService } from '@/lib/core/backend/services/ProviderService';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { gameEntityTransformers, providerEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { providerDetailQuerySchema } from '@/lib/core/shared/validation';
+import type { ApiProviderDetailResponse } from '@/lib/core/backend/types/providerTypes';
+
+// Get single provider by ID
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    const { id } = await params;
+    const { includeGames } = providerDetailQuerySchema.parseQuery(request.nextUrl.searchParams);
+
+    // Both lookups throw ProviderNotFoundError for unknown IDs
+    if (includeGames) {
+      const visitor = visitorService.resolve(request);
+      const { games, ...provider } = providerService.getProviderWithGames(id);
+      const response: ApiProviderDetailResponse = {
+        ...providerEntityTransformers.toApi(provider),
+        games: gameEntityTransformers.toApiGetAllGamesResponse(games, {
+          favoriteIds: favoriteService.getFavoriteIds(visitor.ownerId)
+        })
+      };
+      return visitorService.attach(createSuccessResponse(response), visitor);
+    }
+
+    const provider = providerService.getProviderById(id);
+    return createSuccessResponse(providerEntityTransformers.toApi(provider));
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
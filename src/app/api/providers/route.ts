@@ -6,28 +6,25 @@
 import { NextRequest } from 'next/server';
 import { providerService } from '@/lib/core/backend/services/ProviderService';
 import { PaginationService } from '@/lib/core/backend/services/PaginationService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
 import { providerEntityTransformers } from '@/lib/core/backend/transformers';
-import { simulateApiDelay } from '@/lib/core/shared/utils/delay';
 import { 
   handleApiError, 
   createPaginatedResponse,
   createSuccessResponse 
 } from '@/lib/core/shared/errors/errorHandler';
-import { ProviderNotFoundError } from '@/lib/core/shared/errors/AppError';
-import { DEFAULT_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
+import { providersQuerySchema } from '@/lib/core/shared/validation';
 
 export async function GET(request: NextRequest) {
   try {
     // Add delay to simulate real API
-    await simulateApiDelay();
+    await chaosService.simulate(request, 'get');
 
-    // Parse query parameters
-    const searchParams = request.nextUrl.searchParams;
+    // Validate and coerce query parameters
+    const queryParams = providersQuerySchema.parseQuery(request.nextUrl.searchParams);
     
     // Check if requesting all providers (no pagination)
-    const all = searchParams.get('all') === 'true';
-    
-    if (all) {
+    if (queryParams.all) {
       // Return all providers without pagination
       const providers = providerService.getAllProviders();
       // Transform to API response format
@@ -35,19 +32,16 @@ export async function GET(request: NextRequest) {
       return createSuccessResponse(apiProviders);
     }
     
-    // Check if requesting providers with game count
-    const withGames = searchParams.get('withGames') === 'true';
-    
     // Validate pagination parameters
     const paginationParams = PaginationService.validateParams({
-      page: parseInt(searchParams.get('page') || '1'),
-      pageSize: parseInt(searchParams.get('pageSize') || String(DEFAULT_PAGE_SIZE))
+      page: queryParams.page,
+      pageSize: queryParams.pageSize
     });
     
-    // Get sort parameter
-    const sortBy = searchParams.get('sort') as 'name' | 'az' | 'za' | 'gameCount' | undefined;
+    const sortBy = queryParams.sort;
     
-    if (withGames) {
+    // Check if requesting providers with game count
+    if (queryParams.withGames) {
       // Get paginated providers with game count
       const result = providerService.getPaginatedProvidersWithGames(
         paginationParams.page!,
@@ -70,7 +64,8 @@ export async function GET(request: NextRequest) {
       const result = providerService.getPaginatedProviders(
         paginationParams.page!,
         paginationParams.pageSize!,
-        sortBy as 'name' | 'az' | 'za' | undefined
+        // Game counts are only loaded with withGames, so that sort falls back to the default
+        sortBy === 'gameCount' ? undefined : sortBy
       );
       
       // Transform to API response format
@@ -88,20 +83,3 @@ export async function GET(request: NextRequest) {
     return handleApiError(error);
   }
 }
-
-// Get single provider by ID
-export async function GET_BY_ID(request: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    await simulateApiDelay();
-    
-    const provider = providerService.getProviderById(params.id);
-    
-    if (!provider) {
-      throw new ProviderNotFoundError(params.id);
-    }
-    
-    return createSuccessResponse(provider);
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
\ No newline at end of file
@@ -0,0 +1,33 @@
+/**
+ * Recently Played Entry API Route
+ * Removes a single game from the visitor's recently played history
+ */
+
+import { NextRequest } from 'next/server';
+import { recentlyPlayedService } from '@/lib/core/backend/services/RecentlyPlayedService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+
+/**
+ * DELETE /api/recent/[id]
+ * Remove a game from the history
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const { id } = await params;
+    const visitor = visitorService.resolve(request);
+    recentlyPlayedService.remove(visitor.ownerId, id);
+
+    return visitorService.attach(createSuccessResponse({
+      message: 'Game removed from recently played'
+    }), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
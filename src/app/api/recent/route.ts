@@ -0,0 +1,87 @@
+/**
+ * Recently Played API Route
+ * Reads, merges and clears the visitor's recently played history
+ */
+
+import { NextRequest } from 'next/server';
+import { recentlyPlayedService } from '@/lib/core/backend/services/RecentlyPlayedService';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { recentEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { recentMergeBodySchema, recentQuerySchema } from '@/lib/core/shared/validation';
+
+/**
+ * GET /api/recent
+ * Get the recently played games, most recent first
+ * Guests keep their history in local storage and pass it as ids=<gameId,...>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    const visitor = visitorService.resolve(request);
+    const favoriteIds = favoriteService.getFavoriteIds(visitor.ownerId);
+    const { ids } = recentQuerySchema.parseQuery(request.nextUrl.searchParams);
+
+    // Stored entries carry launch times; a guest's history is only a list of IDs
+    const entries = ids === undefined ? recentlyPlayedService.getEntries(visitor.ownerId) : [];
+    const gameIds = ids ?? entries.map(entry => entry.gameId);
+
+    const response = recentEntityTransformers.toApiResponse(
+      recentlyPlayedService.getGames(gameIds),
+      favoriteIds,
+      entries
+    );
+
+    return visitorService.attach(createSuccessResponse(response), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * POST /api/recent
+ * Merge a guest's local history into the stored one (on sign in)
+ * A game in both keeps its latest launch time
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const visitor = visitorService.resolve(request);
+    const body = await recentMergeBodySchema.parseBody(request);
+    const entries = recentlyPlayedService.merge(visitor.ownerId, body.entries);
+
+    return visitorService.attach(
+      createSuccessResponse(recentEntityTransformers.toApiResponse(
+        recentlyPlayedService.getGames(entries.map(entry => entry.gameId)),
+        favoriteService.getFavoriteIds(visitor.ownerId),
+        entries
+      )),
+      visitor
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * DELETE /api/recent
+ * Clear the history
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'mutation');
+
+    const visitor = visitorService.resolve(request);
+    recentlyPlayedService.clear(visitor.ownerId);
+
+    return visitorService.attach(createSuccessResponse({
+      message: 'Recently played history cleared'
+    }), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Search API Route
+ * Multi-entity search with a separately paginated group per entity
+ */
+
+import { NextRequest } from 'next/server';
+import { searchService } from '@/lib/core/backend/services/SearchService';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { PaginationService } from '@/lib/core/backend/services/PaginationService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { searchEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { SEARCH_RESULTS_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
+import { searchQuerySchema } from '@/lib/core/shared/validation';
+
+/**
+ * GET /api/search?q=<query>&type=<all|games|providers|tags>&page=<n>&pageSize=<n>
+ * Get matching games (by title), providers and tags, each group paginated on its own
+ * type limits the response to one group; page and pageSize apply to every returned group
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'search');
+
+    // Games are flagged with the visitor's favorites
+    const visitor = visitorService.resolve(request);
+    const favoriteIds = favoriteService.getFavoriteIds(visitor.ownerId);
+
+    const { query, type, page, pageSize } = searchQuerySchema.parseQuery(request.nextUrl.searchParams);
+
+    const paginationParams = PaginationService.validateParams({
+      page,
+      pageSize: pageSize ?? SEARCH_RESULTS_PAGE_SIZE
+    });
+
+    const results = searchService.search(query, {
+      type,
+      page: paginationParams.page,
+      pageSize: paginationParams.pageSize
+    });
+
+    return visitorService.attach(
+      createSuccessResponse(searchEntityTransformers.toApiResultsResponse(results, favoriteIds)),
+      visitor
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
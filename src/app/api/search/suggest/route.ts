@@ -0,0 +1,30 @@
+/**
+ * Search Suggestions API Route
+ * Autocomplete suggestions for the search bar
+ */
+
+import { NextRequest } from 'next/server';
+import { searchService } from '@/lib/core/backend/services/SearchService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { searchEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import { searchSuggestQuerySchema } from '@/lib/core/shared/validation';
+
+/**
+ * GET /api/search/suggest?q=<query>
+ * Get the top matching game titles, providers and tags, plus completions of the query's last word
+ * An empty query returns empty groups
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'search');
+
+    const { query } = searchSuggestQuerySchema.parseQuery(request.nextUrl.searchParams);
+
+    return createSuccessResponse(
+      searchEntityTransformers.toApiSuggestionsResponse(searchService.suggest(query))
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Mock API endpoint for a single tag
+ * Supports including tagged games (includeGames=true)
+ * and co-occurring tags (includeRelated=true, relatedLimit=n)
+ */
+
+import { NextRequest } from 'next/server';
+import { tagService } from '@/lib/core/backend/services/TagService';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { gameEntityTransformers, tagEntityTransformers } from '@/lib/core/backend/transformers';
+import { 
+  handleApiError, 
+  createSuccessResponse,
+  createNotFoundResponse
+} from '@/lib/core/shared/errors/errorHandler';
+import { tagsQuerySchema } from '@/lib/core/shared/validation';
+import type { ApiTagDetailResponse } from '@/lib/core/backend/types/tagTypes';
+
+/**
+ * Get tag by ID with related tags and games
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    const { id } = await params;
+    const tag = tagService.getTagById(id);
+    
+    if (!tag) {
+      return createNotFoundResponse('Tag', id);
+    }
+    
+    // Get additional data based on query params
+    const queryParams = tagsQuerySchema.parseQuery(request.nextUrl.searchParams);
+    
+    const visitor = visitorService.resolve(request);
+    const response: ApiTagDetailResponse = tagEntityTransformers.toApi(tag);
+    
+    if (queryParams.includeGames) {
+      response.games = gameEntityTransformers.toApiGetAllGamesResponse(tagService.getGamesByTag(tag.id), {
+        favoriteIds: favoriteService.getFavoriteIds(visitor.ownerId)
+      });
+    }
+    
+    if (queryParams.includeRelated) {
+      const relatedTags = tagService.getRelatedTags(tag.id, queryParams.relatedLimit || 5);
+      response.relatedTags = tagEntityTransformers.toApiGetAllTagsResponse(relatedTags);
+    }
+    
+    return visitorService.attach(createSuccessResponse(response), visitor);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -6,30 +6,25 @@
 import { NextRequest } from 'next/server';
 import { tagService } from '@/lib/core/backend/services/TagService';
 import { PaginationService } from '@/lib/core/backend/services/PaginationService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
 import { tagEntityTransformers } from '@/lib/core/backend/transformers';
-import { tagApiTransformers } from '@/lib/core/shared/transformers';
-import { simulateApiDelay } from '@/lib/core/shared/utils/delay';
 import { 
   handleApiError, 
   createPaginatedResponse,
-  createSuccessResponse,
-  createNotFoundResponse
+  createSuccessResponse
 } from '@/lib/core/shared/errors/errorHandler';
-import { DEFAULT_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
+import { tagsQuerySchema } from '@/lib/core/shared/validation';
 
 export async function GET(request: NextRequest) {
   try {
     // Add delay to simulate real API
-    await simulateApiDelay();
+    await chaosService.simulate(request, 'get');
 
-    // Parse query parameters using transformer
-    const searchParams = request.nextUrl.searchParams;
-    const queryParams = tagApiTransformers.parseQueryParams(searchParams);
+    // Validate and coerce query parameters
+    const queryParams = tagsQuerySchema.parseQuery(request.nextUrl.searchParams);
     
     // Check if requesting all tags (no pagination)
-    const all = searchParams.get('all') === 'true';
-    
-    if (all) {
+    if (queryParams.all) {
       // Return all tags without pagination
       const tags = tagService.getAllTags();
       // Transform to API response format
@@ -38,11 +33,8 @@ export async function GET(request: NextRequest) {
     }
     
     // Check if requesting top tags
-    const top = searchParams.get('top');
-    
-    if (top) {
-      const limit = parseInt(top);
-      const topTags = tagService.getTopTags(limit);
+    if (queryParams.top) {
+      const topTags = tagService.getTopTags(queryParams.top);
       const apiTags = tagEntityTransformers.toApiGetAllTagsResponse(topTags);
       return createSuccessResponse(apiTags);
     }
@@ -69,8 +61,8 @@ export async function GET(request: NextRequest) {
       
       // Validate pagination parameters
       const paginationParams = PaginationService.validateParams({
-        page: queryParams.page || 1,
-        pageSize: queryParams.pageSize || DEFAULT_PAGE_SIZE
+        page: queryParams.page,
+        pageSize: queryParams.pageSize
       });
       
       // Apply pagination
@@ -94,8 +86,8 @@ export async function GET(request: NextRequest) {
     
     // Validate pagination parameters
     const paginationParams = PaginationService.validateParams({
-      page: queryParams.page || 1,
-      pageSize: queryParams.pageSize || DEFAULT_PAGE_SIZE
+      page: queryParams.page,
+      pageSize: queryParams.pageSize
     });
     
     // Get paginated tags
@@ -121,52 +113,3 @@ export async function GET(request: NextRequest) {
     return handleApiError(error);
   }
 }
-
-/**
- * Get tag by ID with related tags and games
- */
-export async function GET_BY_ID(request: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    await simulateApiDelay();
-    
-    const tag = tagService.getTagById(params.id);
-    
-    if (!tag) {
-      return createNotFoundResponse('Tag', params.id);
-    }
-    
-    // Get additional data based on query params
-    const searchParams = request.nextUrl.searchParams;
-    const includeGames = searchParams.get('includeGames') === 'true';
-    const includeRelated = searchParams.get('includeRelated') === 'true';
-    
-    const response: Record<string, unknown> = { ...tag };
-    
-    if (includeGames) {
-      response.games = tagService.getGamesByTag(params.id);
-    }
-    
-    if (includeRelated) {
-      const limit = parseInt(searchParams.get('relatedLimit') || '5');
-      response.relatedTags = tagService.getRelatedTags(params.id, limit);
-    }
-    
-    return createSuccessResponse(response);
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
-
-/**
- * Get tag statistics
- */
-export async function GET_STATS() {
-  try {
-    await simulateApiDelay();
-    
-    const stats = tagService.getTagStats();
-    return createSuccessResponse(stats);
-  } catch (error) {
-    return handleApiError(error);
-  }
-}
\ No newline at end of file
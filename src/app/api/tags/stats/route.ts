@@ -0,0 +1,37 @@
+/**
+ * Mock API endpoint for tag statistics
+ */
+
+import { NextRequest } from 'next/server';
+import { tagService } from '@/lib/core/backend/services/TagService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { tagEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+import type { ApiTagStatsResponse } from '@/lib/core/backend/types/tagTypes';
+import type { TagCategory } from '@/lib/core/shared/types';
+
+/**
+ * Get tag statistics
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'get');
+    
+    const stats = tagService.getTagStats();
+    
+    // Transform to API response format
+    const response: ApiTagStatsResponse = {
+      ...stats,
+      topTags: stats.topTags.map(({ tag, gameCount, percentage }) => ({
+        tag: tagEntityTransformers.toApi(tag),
+        gameCount,
+        percentage
+      })),
+      categoryCounts: stats.categoryCounts as Record<TagCategory, number>
+    };
+    
+    return createSuccessResponse(response);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
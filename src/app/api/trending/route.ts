@@ -0,0 +1,36 @@
+/**
+ * Trending API Route
+ * Rankings of games, tags and providers by recent play and favorite activity
+ */
+
+import { NextRequest } from 'next/server';
+import { trendingService } from '@/lib/core/backend/services/TrendingService';
+import { favoriteService } from '@/lib/core/backend/services/FavoriteService';
+import { visitorService } from '@/lib/core/backend/services/VisitorService';
+import { chaosService } from '@/lib/core/backend/services/ChaosService';
+import { trendingEntityTransformers } from '@/lib/core/backend/transformers';
+import { handleApiError, createSuccessResponse } from '@/lib/core/shared/errors/errorHandler';
+
+/**
+ * GET /api/trending
+ * Get today's, this week's and rising games, per-type breakdowns and trending tags and providers
+ * Each entry includes its rank in the latest snapshot at least an hour old, so rank changes can be shown
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await chaosService.simulate(request, 'get');
+
+    // Favorites are scoped to the visitor making the request
+    const visitor = visitorService.resolve(request);
+    const favoriteIds = favoriteService.getFavoriteIds(visitor.ownerId);
+
+    return visitorService.attach(
+      createSuccessResponse(
+        trendingEntityTransformers.toApiResponse(trendingService.getRankings(), favoriteIds)
+      ),
+      visitor
+    );
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
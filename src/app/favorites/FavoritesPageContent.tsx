@@ -0,0 +1,127 @@
+'use client';
+
+/**
+ * Favorites Page Content
+ * Client wrapper that lists the signed-in user's favorite games and their collections
+ */
+
+import React, { useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowRight, FolderHeart, Heart } from 'lucide-react';
+import { Alert } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { GameGrid } from '@/components/features/GameGrid';
+import { useFavoriteCollections, useFavoriteGames, useFavorites } from '@/hooks/useFavorites';
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { ROUTES, ROUTE_VARIANTS } from '@/lib/core/config/constants/routes.constants';
+import { formatFavoritesParam } from '@/lib/core/shared/utils';
+import type { Game } from '@/lib/core/domain/entities';
+import './favorites.css';
+
+const GRID_COLUMNS = { mobile: 1, tablet: 2, desktop: 3, wide: 4 };
+
+export function FavoritesPageContent() {
+  const router = useRouter();
+  const isSignedIn = useRequireAuth();
+  const { toggleFavorite } = useFavorites();
+  const { games, count, isLoading, error, refetch } = useFavoriteGames();
+  const { collections, toggleGameInCollection, createCollection } = useFavoriteCollections();
+
+  const handleGameClick = useCallback((game: Game) => {
+    router.push(`${ROUTES.GAMES}/${game.slug}`);
+  }, [router]);
+
+  const handleCollectionCreate = useCallback((name: string, gameId: string) => {
+    createCollection(name, [gameId]);
+  }, [createCollection]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-8">
+        <Alert
+          variant="error"
+          title="Failed to load favorites"
+          type="card"
+          className="max-w-md"
+        >
+          {error instanceof Error ? error.message : 'Failed to load favorites'}
+          <div className="mt-4">
+            <Button variant="primary" size="sm" onClick={() => refetch()}>
+              Try Again
+            </Button>
+          </div>
+        </Alert>
+      </div>
+    );
+  }
+
+  const isEmpty = isSignedIn && !isLoading && count === 0;
+
+  return (
+    <div className="favorites-page container mx-auto px-4 py-8">
+      <header className="favorites-header">
+        <h1 className="favorites-title">Favorites</h1>
+        <p className="favorites-subtitle">
+          {isSignedIn && !isLoading
+            ? `${count} ${count === 1 ? 'game' : 'games'} saved to your account`
+            : 'Games you saved to your account'}
+        </p>
+      </header>
+
+      {/* Collections open the catalogue filtered to their games */}
+      {collections.length > 0 && (
+        <nav className="favorites-collections" aria-label="Favorite collections">
+          {collections.map(collection => (
+            <Link
+              key={collection.id}
+              href={`${ROUTES.GAMES}?favorites=${formatFavoritesParam({ favorites: true, favoritesCollection: collection.id })}`}
+              className="favorites-collection"
+            >
+              <FolderHeart className="w-4 h-4" />
+              <span>{collection.name}</span>
+              <Badge variant="secondary" size="sm">{collection.gameIds.length}</Badge>
+            </Link>
+          ))}
+        </nav>
+      )}
+
+      {isEmpty ? (
+        <div className="favorites-empty">
+          <Heart className="favorites-empty-icon" />
+          <p>No favorites yet. Tap the heart on any game to keep it here.</p>
+          <Link href={ROUTES.GAMES}>
+            <Button variant="primary" size="sm">
+              Browse games
+              <ArrowRight className="w-4 h-4" />
+            </Button>
+          </Link>
+        </div>
+      ) : (
+        <>
+          <GameGrid
+            games={games.map(game => ({ ...game, isFavorite: true }))}
+            layout="grid"
+            isLoading={!isSignedIn || isLoading}
+            skeletonCount={8}
+            columns={GRID_COLUMNS}
+            onGameClick={handleGameClick}
+            onFavoriteToggle={toggleFavorite}
+            collections={collections}
+            onCollectionToggle={toggleGameInCollection}
+            onCollectionCreate={handleCollectionCreate}
+          />
+          {isSignedIn && !isLoading && (
+            <Link href={ROUTE_VARIANTS.GAMES_WITH_FAVORITES} className="favorites-filter-link">
+              <Button variant="ghost" size="sm">
+                Filter and sort in the catalogue
+                <ArrowRight className="w-4 h-4" />
+              </Button>
+            </Link>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+/**
+ * Favorites Page
+ * The signed-in user's favorite games and collections
+ */
+
+import type { Metadata } from 'next';
+import { ROUTES } from '@/lib/core/config/constants/routes.constants';
+import { pageMetadata } from '@/lib/core/config/seo.config';
+import { FavoritesPageContent } from './FavoritesPageContent';
+
+// Export metadata for the favorites page
+export const metadata: Metadata = pageMetadata[ROUTES.FAVORITES];
+
+export default function FavoritesPage() {
+  return <FavoritesPageContent />;
+}
@@ -0,0 +1,52 @@
+'use client';
+
+/**
+ * Game Page Content
+ * Client wrapper that connects the server-rendered game to favorites and toasts
+ */
+
+import React, { useCallback } from 'react';
+import { GameDetails } from '@/components/features/GameDetails';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useToastStore } from '@/lib/core/frontend/stores/toast/useToastStore';
+import { usePlayMutation } from '@/lib/core/frontend/api/games/hooks/usePlayMutation';
+import type { Game } from '@/lib/core/domain/entities';
+
+export interface GamePageContentProps {
+  game: Game;
+}
+
+export function GamePageContent({ game }: GamePageContentProps) {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const showToast = useToastStore((state) => state.showToast);
+  const { mutate: recordPlay } = usePlayMutation();
+
+  /**
+   * Handle game play
+   */
+  const handlePlay = useCallback((playedGame: Game) => {
+    recordPlay(playedGame.id);
+    showToast({
+      message: `Starting ${playedGame.title}...`,
+      variant: 'success',
+      duration: 3000
+    });
+  }, [recordPlay, showToast]);
+
+  /**
+   * Handle favorite toggle with backend sync
+   */
+  const handleFavorite = useCallback((favoriteGame: Game) => {
+    toggleFavorite(favoriteGame.id);
+  }, [toggleFavorite]);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <GameDetails
+        game={{ ...game, isFavorite: isFavorite(game.id) }}
+        onPlay={handlePlay}
+        onFavorite={handleFavorite}
+      />
+    </div>
+  );
+}
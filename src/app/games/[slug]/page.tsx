@@ -0,0 +1,63 @@
+/**
+ * Game Page
+ * Server-rendered, indexable page for a single game
+ */
+
+import type { Metadata } from 'next';
+import { notFound, permanentRedirect } from 'next/navigation';
+import { gameService } from '@/lib/core/backend/services/GameService';
+import { generateGameMetadata, jsonLdData, serializeJsonLd } from '@/lib/core/config/seo.config';
+import { ROUTES } from '@/lib/core/config/constants/routes.constants';
+import { GamePageContent } from './GamePageContent';
+
+interface GamePageProps {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * Look up the game for the requested slug (IDs are accepted for old links)
+ */
+async function getGame(params: GamePageProps['params']) {
+  const { slug } = await params;
+  return gameService.getGameByIdOrSlug(slug);
+}
+
+export async function generateMetadata({ params }: GamePageProps): Promise<Metadata> {
+  const game = await getGame(params);
+
+  if (!game) {
+    return {
+      title: 'Game Not Found',
+      robots: { index: false, follow: true }
+    };
+  }
+
+  return generateGameMetadata(game);
+}
+
+export default async function GamePage({ params }: GamePageProps) {
+  const game = await getGame(params);
+
+  if (!game) {
+    notFound();
+  }
+
+  // Send ID-based links to the canonical slug URL
+  const { slug } = await params;
+  if (slug !== game.slug) {
+    permanentRedirect(`${ROUTES.GAMES}/${game.slug}`);
+  }
+
+  return (
+    <>
+      {/* Game structured data for rich snippets */}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: serializeJsonLd(jsonLdData.generateGame(game)),
+        }}
+      />
+      <GamePageContent game={game} />
+    </>
+  );
+}
@@ -8,7 +8,7 @@
 
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { SearchBar } from '@/components/features/SearchBar';
+import { SearchBar, type SearchSuggestion } from '@/components/features/SearchBar';
 import { FilterPanel } from '@/components/features/FilterPanel';
 import { GameGrid } from '@/components/features/GameGrid';
 import { Button } from '@/components/ui/Button';
@@ -17,20 +17,38 @@ import { Alert } from '@/components/ui/Alert';
 import { Tooltip } from '@/components/ui/Tooltip';
 import { Pagination } from '@/components/ui/Pagination';
 import { GameDetailsModal } from '@/components/features/GameDetailsModal';
+import { SearchResults, type SearchResultGroupType } from '@/components/features/SearchResults';
 
 // Import hooks for data fetching and state management
 import { useGamesQuery } from '@/lib/core/frontend/api/games/hooks/useGamesQuery';
+import { usePlayMutation } from '@/lib/core/frontend/api/games/hooks/usePlayMutation';
 import { useProvidersQuery } from '@/lib/core/frontend/api/providers/hooks/useProvidersQuery';
+import { useSearchResultsQuery } from '@/lib/core/frontend/api/search/hooks/useSearchResults';
 import { useGamesStore } from '@/lib/core/frontend/stores/games/useGamesStore';
 import { useToastStore } from '@/lib/core/frontend/stores/toast/useToastStore';
 import { usePreferencesStore } from '@/lib/core/frontend/stores/preferences/usePreferencesStore';
 import { useFavoritesStore } from '@/lib/core/frontend/stores/favorites/useFavoritesStore';
-import { useFavorites } from '@/hooks/useFavorites';
+import {
+  useFavorites,
+  useFavoriteCollections,
+  useFollowedProviders,
+  useFollowedTags
+} from '@/hooks/useFavorites';
+import { useGameReviews } from '@/hooks/useReviews';
+import { useRecentFilterIds } from '@/hooks/useRecentlyPlayed';
+import { useSearchSuggestions } from '@/hooks/useSearchSuggestions';
 
-import type { Game, GameType } from '@/lib/core/domain/entities';
+import type { Game, GameType, Provider, Tag } from '@/lib/core/domain/entities';
 import type { SortOption, SearchType } from '@/lib/core/domain/models';
-import { parseFilterParams, updateURLWithFilters, getShareableURL } from '@/lib/core/shared/utils';
-import type { FilterQueryParams } from '@/lib/core/shared/types';
+import {
+  parseFilterParams,
+  pickRangeFilters,
+  updateURLWithFilters,
+  getShareableURL,
+  getDefaultSort
+} from '@/lib/core/shared/utils';
+import type { FilterQueryParams, RangeFilters, TagMatchMode } from '@/lib/core/shared/types';
+import { RANGE_FILTER_KEYS, SEARCH_RESULTS_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
 
 export default function GamesPage() {
   // ========================================
@@ -47,7 +65,7 @@ export default function GamesPage() {
   const [isGameModalOpen, setIsGameModalOpen] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'compact'>('grid');
   const [searchType, setSearchType] = useState<SearchType>('all');
-  const [rtpRange, setRtpRange] = useState<{ min?: number; max?: number }>({});
+  const [rangeFilters, setRangeFilters] = useState<RangeFilters>({});
 
   // ========================================
   // GLOBAL STORE HOOKS
@@ -61,8 +79,14 @@ export default function GamesPage() {
     setProviders,
     setTypes,
     setTags,
+    setTagMode,
+    setExcludedProviders,
+    setExcludedTypes,
+    setExcludedTags,
     setSortBy,
     toggleFavorites,
+    setFavoritesCollection,
+    toggleRecent,
     toggleNew,
     toggleHot,
     toggleComingSoon,
@@ -84,30 +108,42 @@ export default function GamesPage() {
   // ========================================
   // DATA FETCHING (React Query)
   // ========================================
-  
+
+  // Range filters compared by value (unset bounds are dropped), so re-parsing the URL doesn't refetch
+  const rangeFiltersKey = JSON.stringify(rangeFilters);
+
+  // Guests' recently played history stays in local storage, so the recent filter sends it along
+  const recentIds = useRecentFilterIds();
+
   // Build search criteria from store state
   // Use useMemo to ensure stable reference for React Query
   const searchCriteria = useMemo(() => ({
     ...getSearchCriteria(),
     searchType,
-    minRtp: rtpRange.min,
-    maxRtp: rtpRange.max
+    recentIds: filters.showRecent ? recentIds : undefined,
+    ...rangeFilters
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }), [
     filters.search,
     filters.selectedProviders,
     filters.selectedTypes,
     filters.selectedTags,
+    filters.tagMode,
+    filters.excludedProviders,
+    filters.excludedTypes,
+    filters.excludedTags,
     filters.sortBy,
     filters.showFavorites,
+    filters.favoritesCollection,
+    filters.showRecent,
     filters.showNew,
     filters.showHot,
     filters.showComingSoon,
     pagination.page,
     pagination.pageSize,
     searchType,
-    rtpRange.min,
-    rtpRange.max
+    recentIds,
+    rangeFiltersKey
   ]);
 
   // Fetch games with React Query
@@ -125,6 +161,16 @@ export default function GamesPage() {
     error: providersError
   } = useProvidersQuery();
 
+  // Searching everything shows games, providers and tags as separate groups
+  const isSearchResultsView = !!filters.search && searchType === 'all';
+  const {
+    data: searchResults,
+    isFetching: isFetchingSearchResults
+  } = useSearchResultsQuery(
+    { query: filters.search, pageSize: SEARCH_RESULTS_PAGE_SIZE },
+    { enabled: isSearchResultsView }
+  );
+
   // ========================================
   // EVENT HANDLERS
   // ========================================
@@ -136,10 +182,98 @@ export default function GamesPage() {
     setSearch(query);
     setPage(1); // Reset to first page on new search
     
+    // Searches are ranked by relevance unless the user picked another sort
+    if (filters.sortBy === getDefaultSort(filters.search)) {
+      setSortBy(getDefaultSort(query));
+    }
+    
     if (type && type !== searchType) {
       setSearchType(type);
     }
-  }, [setSearch, setPage, searchType]);
+  }, [setSearch, setPage, setSortBy, filters.sortBy, filters.search, searchType]);
+
+  /**
+   * Search bar suggestions follow the debounced query, recent searches are kept locally
+   */
+  const {
+    suggestions,
+    isLoading: isLoadingSuggestions,
+    recentSearches,
+    addRecentSearch,
+    removeRecentSearch
+  } = useSearchSuggestions(filters.search);
+
+  /**
+   * Add a provider to the provider filter (and drop it from the exclusions)
+   */
+  const applyProviderFilter = useCallback((provider: Provider) => {
+    if (!filters.selectedProviders.includes(provider.id)) {
+      setProviders([...filters.selectedProviders, provider.id]);
+    }
+    setExcludedProviders(filters.excludedProviders.filter(id => id !== provider.id));
+    setPage(1);
+    showToast({
+      message: `Showing games by ${provider.name}`,
+      variant: 'info',
+      duration: 2000
+    });
+  }, [filters.selectedProviders, filters.excludedProviders, setProviders, setExcludedProviders, setPage, showToast]);
+
+  /**
+   * Add a tag to the tag filter (and drop it from the exclusions)
+   */
+  const applyTagFilter = useCallback((tag: Tag) => {
+    if (!filters.selectedTags.includes(tag.slug)) {
+      setTags([...filters.selectedTags, tag.slug]);
+    }
+    setExcludedTags(filters.excludedTags.filter(slug => slug !== tag.slug));
+    setPage(1);
+    showToast({
+      message: `Showing games tagged ${tag.name}`,
+      variant: 'info',
+      duration: 2000
+    });
+  }, [filters.selectedTags, filters.excludedTags, setTags, setExcludedTags, setPage, showToast]);
+
+  /**
+   * Handle a picked search suggestion
+   * Providers and tags are applied as filters (the search bar clears the typed text), games open their details
+   */
+  const handleSuggestionSelect = useCallback((suggestion: SearchSuggestion) => {
+    switch (suggestion.kind) {
+      case 'provider':
+        applyProviderFilter(suggestion.provider);
+        break;
+      case 'tag':
+        applyTagFilter(suggestion.tag);
+        break;
+      case 'game':
+        setSelectedGame(suggestion.game);
+        setIsGameModalOpen(true);
+        break;
+    }
+  }, [applyProviderFilter, applyTagFilter]);
+
+  /**
+   * Handle a provider or tag picked from the search results: filter by it instead of the query
+   */
+  const handleResultProviderClick = useCallback((provider: Provider) => {
+    handleSearch('');
+    applyProviderFilter(provider);
+  }, [handleSearch, applyProviderFilter]);
+
+  const handleResultTagClick = useCallback((tag: Tag) => {
+    handleSearch('');
+    applyTagFilter(tag);
+  }, [handleSearch, applyTagFilter]);
+
+  /**
+   * Handle a result group's "see all": list the games matching the query in that field
+   */
+  const handleSeeAllResults = useCallback((type: SearchResultGroupType) => {
+    setSearchType(type);
+    setPage(1);
+  }, [setPage]);
 
   /**
    * Handle search type change
@@ -156,15 +290,19 @@ export default function GamesPage() {
     providers?: string[];
     types?: GameType[];
     tags?: string[];
+    tagMode?: TagMatchMode;
+    excludeProviders?: string[];
+    excludeTypes?: GameType[];
+    excludeTags?: string[];
     favorites?: boolean;
+    favoritesCollection?: string;
+    recent?: boolean;
     isNew?: boolean;
     isHot?: boolean;
     isComingSoon?: boolean;
     sort?: SortOption;
     viewMode?: 'grid' | 'compact';
-    minRtp?: number;
-    maxRtp?: number;
-  }) => {
+  } & RangeFilters) => {
     
     // Apply all filter changes
     if (newFilters.providers !== undefined) {
@@ -176,11 +314,31 @@ export default function GamesPage() {
     if (newFilters.tags !== undefined) {
       setTags(newFilters.tags);
     }
+    if (newFilters.tagMode !== undefined) {
+      setTagMode(newFilters.tagMode);
+    }
+    if (newFilters.excludeProviders !== undefined) {
+      setExcludedProviders(newFilters.excludeProviders);
+    }
+    if (newFilters.excludeTypes !== undefined) {
+      setExcludedTypes(newFilters.excludeTypes);
+    }
+    if (newFilters.excludeTags !== undefined) {
+      setExcludedTags(newFilters.excludeTags);
+    }
     if (newFilters.favorites !== undefined) {
       if (newFilters.favorites !== filters.showFavorites) {
         toggleFavorites();
       }
     }
+    if (newFilters.favorites && newFilters.favoritesCollection !== filters.favoritesCollection) {
+      setFavoritesCollection(newFilters.favoritesCollection);
+    }
+    if (newFilters.recent !== undefined) {
+      if (newFilters.recent !== filters.showRecent) {
+        toggleRecent();
+      }
+    }
     if (newFilters.isNew !== undefined) {
       if (newFilters.isNew !== filters.showNew) {
         toggleNew();
@@ -202,12 +360,9 @@ export default function GamesPage() {
     if (newFilters.viewMode !== undefined) {
       setViewMode(newFilters.viewMode);
     }
-    if (newFilters.minRtp !== undefined || newFilters.maxRtp !== undefined) {
-      setRtpRange(prev => ({
-        ...prev,
-        ...(newFilters.minRtp !== undefined && { min: newFilters.minRtp }),
-        ...(newFilters.maxRtp !== undefined && { max: newFilters.maxRtp })
-      }));
+    // FilterPanel sends every range bound, with cleared ones set to undefined
+    if (RANGE_FILTER_KEYS.some(key => key in newFilters)) {
+      setRangeFilters(pickRangeFilters(newFilters));
     }
 
     // Reset pagination when filters change
@@ -218,13 +373,14 @@ export default function GamesPage() {
       setTimeout(() => setIsFilterPanelOpen(false), 300);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filters, setProviders, setTypes, setTags, toggleFavorites, setSortBy, setPage, isFilterPanelOpen]);
+  }, [filters, setProviders, setTypes, setTags, setTagMode, setExcludedProviders, setExcludedTypes, setExcludedTags, toggleFavorites, setFavoritesCollection, toggleRecent, setSortBy, setPage, isFilterPanelOpen]);
 
   /**
    * Handle clear all filters
    */
   const handleClearFilters = useCallback(() => {
     resetFilters();
+    setRangeFilters({});
     showToast({
       message: 'All filters cleared',
       variant: 'success',
@@ -243,7 +399,9 @@ export default function GamesPage() {
   /**
    * Handle game play from modal
    */
+  const { mutate: recordPlay } = usePlayMutation();
   const handleGamePlay = useCallback((game: Game) => {
+    recordPlay(game.id);
     showToast({
       message: `Starting ${game.title}...`,
       variant: 'success',
@@ -253,7 +411,7 @@ export default function GamesPage() {
     setTimeout(() => {
       router.push(`/games/${game.slug}`);
     }, 1000);
-  }, [showToast, router]);
+  }, [recordPlay, showToast, router]);
 
   /**
    * Handle favorite toggle with backend sync
@@ -264,6 +422,26 @@ export default function GamesPage() {
     toggleFavorite(gameId); 
   }, [toggleFavorite]);
 
+  /**
+   * Handle favorite collection membership with backend sync
+   */
+  const { collections, toggleGameInCollection, createCollection } = useFavoriteCollections();
+
+  const handleCollectionCreate = useCallback((name: string, gameId: string) => {
+    createCollection(name, [gameId]);
+  }, [createCollection]);
+
+  /**
+   * Followed providers and tags are pinned in the filter panel
+   */
+  const { providerIds: followedProviderIds, toggleFollow: toggleProviderFollow } = useFollowedProviders();
+  const { tagIds: followedTags, toggleFollow: toggleTagFollow } = useFollowedTags();
+
+  /**
+   * Reviews of the game open in the details modal
+   */
+  const gameReviews = useGameReviews(isGameModalOpen ? selectedGame?.id : undefined);
+
   /**
    * Handle game share
    */
@@ -329,9 +507,14 @@ export default function GamesPage() {
     if (urlFilters.tags !== undefined) {
       setTags(urlFilters.tags);
     }
-    if (urlFilters.sort !== undefined) {
-      setSortBy(urlFilters.sort);
-    }
+    
+    // Tag matching and exclusions are absent from the URL when unused
+    setTagMode(urlFilters.tagMode ?? 'any');
+    setExcludedProviders(urlFilters.excludeProviders ?? []);
+    setExcludedTypes(urlFilters.excludeTypes ?? []);
+    setExcludedTags(urlFilters.excludeTags ?? []);
+    // Without a sort in the URL use the server's default, relevance when there is a query
+    setSortBy(urlFilters.sort ?? getDefaultSort(urlFilters.search));
     if (urlFilters.page !== undefined) {
       setPage(urlFilters.page);
     }
@@ -342,13 +525,8 @@ export default function GamesPage() {
       setViewMode(urlFilters.view);
     }
     
-    // Initialize RTP range from URL
-    if (urlFilters.minRtp !== undefined || urlFilters.maxRtp !== undefined) {
-      setRtpRange({
-        min: urlFilters.minRtp,
-        max: urlFilters.maxRtp
-      });
-    }
+    // Range filters (RTP, rating, max win, bet) from URL
+    setRangeFilters(pickRangeFilters(urlFilters));
     
     // For boolean filters, we need a different approach
     // We'll use a timeout to ensure the store is ready
@@ -362,6 +540,16 @@ export default function GamesPage() {
         toggleFavorites();
       }
       
+      if (urlFilters.favoritesCollection !== currentFilters.favoritesCollection) {
+        setFavoritesCollection(urlFilters.favoritesCollection);
+      }
+      
+      if (urlFilters.recent && !currentFilters.showRecent) {
+        toggleRecent();
+      } else if (!urlFilters.recent && currentFilters.showRecent) {
+        toggleRecent();
+      }
+      
       if (urlFilters.isNew && !currentFilters.showNew) {
         toggleNew();
       } else if (!urlFilters.isNew && currentFilters.showNew) {
@@ -395,13 +583,19 @@ export default function GamesPage() {
       providers: filters.selectedProviders?.length ? filters.selectedProviders : undefined,
       types: filters.selectedTypes?.length ? filters.selectedTypes : undefined,
       tags: filters.selectedTags?.length ? filters.selectedTags : undefined,
-      sort: filters.sortBy !== 'popular' ? filters.sortBy : undefined,
+      tagMode: filters.tagMode === 'all' ? filters.tagMode : undefined,
+      excludeProviders: filters.excludedProviders?.length ? filters.excludedProviders : undefined,
+      excludeTypes: filters.excludedTypes?.length ? filters.excludedTypes : undefined,
+      excludeTags: filters.excludedTags?.length ? filters.excludedTags : undefined,
+      // buildFilterParams leaves out the default for the query, so popular is kept on searches
+      sort: filters.sortBy,
       favorites: filters.showFavorites || undefined,
+      favoritesCollection: filters.showFavorites ? filters.favoritesCollection : undefined,
+      recent: filters.showRecent || undefined,
       isNew: filters.showNew || undefined,
       isHot: filters.showHot || undefined,
       isComingSoon: filters.showComingSoon || undefined,
-      minRtp: rtpRange.min,
-      maxRtp: rtpRange.max,
+      ...rangeFilters,
       page: pagination.page > 1 ? pagination.page : undefined,
       pageSize: pagination.pageSize !== 20 ? pagination.pageSize : undefined,
       view: viewMode !== 'grid' ? viewMode : undefined
@@ -414,13 +608,18 @@ export default function GamesPage() {
     filters.selectedProviders,
     filters.selectedTypes,
     filters.selectedTags,
+    filters.tagMode,
+    filters.excludedProviders,
+    filters.excludedTypes,
+    filters.excludedTags,
     filters.sortBy,
     filters.showFavorites,
+    filters.favoritesCollection,
+    filters.showRecent,
     filters.showNew,
     filters.showHot,
     filters.showComingSoon,
-    rtpRange.min,
-    rtpRange.max,
+    rangeFiltersKey,
     pagination.page,
     pagination.pageSize,
     viewMode,
@@ -453,14 +652,26 @@ export default function GamesPage() {
     (filters.selectedProviders?.length || 0) + 
     (filters.selectedTypes?.length || 0) + 
     (filters.selectedTags?.length || 0) +
+    (filters.excludedProviders?.length || 0) +
+    (filters.excludedTypes?.length || 0) +
+    (filters.excludedTags?.length || 0) +
     (filters.showFavorites ? 1 : 0) +
+    (filters.showRecent ? 1 : 0) +
     (filters.showNew ? 1 : 0) +
     (filters.showHot ? 1 : 0) +
-    (filters.search ? 1 : 0);
+    (filters.search ? 1 : 0) +
+    RANGE_FILTER_KEYS.filter(key => rangeFilters[key] !== undefined).length;
 
   // Get tags from API response meta (already filtered and sorted)
   const availableTags = React.useMemo(() => {
-    // Tags come from the API meta response which includes all unique tags from the current filtered games
+    // Prefer facet tags so options without matches stay visible (greyed out) with their counts
+    const facetTags = gamesResponse?.meta?.facets?.tags;
+    if (facetTags) {
+      return Object.values(facetTags)
+        .flatMap(group => Object.keys(group))
+        .sort();
+    }
+    // Otherwise fall back to the unique tags from the current filtered games
     return gamesResponse?.meta?.tags || [];
   }, [gamesResponse?.meta]);
 
@@ -603,13 +814,18 @@ export default function GamesPage() {
                             providers: filters.selectedProviders,
                             types: filters.selectedTypes,
                             tags: filters.selectedTags,
+                            tagMode: filters.tagMode,
+                            excludeProviders: filters.excludedProviders,
+                            excludeTypes: filters.excludedTypes,
+                            excludeTags: filters.excludedTags,
                             sort: filters.sortBy,
                             favorites: filters.showFavorites,
+                            favoritesCollection: filters.showFavorites ? filters.favoritesCollection : undefined,
+                            recent: filters.showRecent,
                             isNew: filters.showNew,
                             isHot: filters.showHot,
                             isComingSoon: filters.showComingSoon,
-                            minRtp: filters.minRtp,
-                            maxRtp: filters.maxRtp,
+                            ...rangeFilters,
                             view: viewMode
                           });
                           
@@ -655,6 +871,13 @@ export default function GamesPage() {
             initialValue={filters?.search || ''}
             onSearch={handleSearch}
             onSearchTypeChange={handleSearchTypeChange}
+            searchType={searchType}
+            onSubmit={addRecentSearch}
+            suggestions={suggestions}
+            isLoadingSuggestions={isLoadingSuggestions}
+            recentSearches={recentSearches}
+            onSuggestionSelect={handleSuggestionSelect}
+            onRemoveRecentSearch={removeRecentSearch}
             enableTypeDropdown={true}
             defaultSearchType="all"
             className="w-full"
@@ -673,26 +896,51 @@ export default function GamesPage() {
                 providers: filters?.selectedProviders || [],
                 types: filters?.selectedTypes || [],
                 tags: filters?.selectedTags || [],
+                tagMode: filters?.tagMode,
+                excludeProviders: filters?.excludedProviders || [],
+                excludeTypes: filters?.excludedTypes || [],
+                excludeTags: filters?.excludedTags || [],
                 favorites: filters?.showFavorites || false,
+                favoritesCollection: filters?.favoritesCollection,
+                recent: filters?.showRecent || false,
                 isNew: filters?.showNew || false,
                 isHot: filters?.showHot || false,
                 isComingSoon: filters?.showComingSoon || false,
                 sort: filters?.sortBy || 'popular',
                 viewMode: viewMode,
-                minRtp: rtpRange.min,
-                maxRtp: rtpRange.max
+                ...rangeFilters
               }}
               providers={providers || []}
               tags={availableTags}
+              collections={collections}
+              followedProviderIds={followedProviderIds}
+              followedTags={followedTags}
+              onProviderFollowToggle={toggleProviderFollow}
+              onTagFollowToggle={toggleTagFollow}
+              facets={gamesResponse?.meta?.facets}
               onFilterChange={handleFilterChange}
+              hasSearch={!!filters.search}
               className="sticky"
             />
           </aside>
 
           {/* Games Display */}
           <main className="flex-1">
-            {/* Show skeleton while fetching, but not if we have no results */}
-            {isFetchingGames && games.length > 0 ? (
+            {/* Searching everything shows grouped results, otherwise the filtered games */}
+            {isSearchResultsView ? (
+              <SearchResults
+                results={searchResults}
+                isLoading={isFetchingSearchResults}
+                onGameClick={handleGameClick}
+                onFavoriteToggle={handleFavoriteToggle}
+                collections={collections}
+                onCollectionToggle={toggleGameInCollection}
+                onCollectionCreate={handleCollectionCreate}
+                onProviderClick={handleResultProviderClick}
+                onTagClick={handleResultTagClick}
+                onSeeAll={handleSeeAllResults}
+              />
+            ) : isFetchingGames && games.length > 0 ? (
               <GameGrid
                 games={[]}
                 layout='grid'
@@ -737,6 +985,9 @@ export default function GamesPage() {
                   variant={viewMode === 'compact' ? 'compact' : 'default'}
                   onGameClick={handleGameClick}
                   onFavoriteToggle={handleFavoriteToggle}
+                  collections={collections}
+                  onCollectionToggle={toggleGameInCollection}
+                  onCollectionCreate={handleCollectionCreate}
                 />
 
                 {/* Pagination */}
@@ -785,18 +1036,30 @@ export default function GamesPage() {
                   providers: filters?.selectedProviders || [],
                   types: filters?.selectedTypes || [],
                   tags: filters?.selectedTags || [],
+                  tagMode: filters?.tagMode,
+                  excludeProviders: filters?.excludedProviders || [],
+                  excludeTypes: filters?.excludedTypes || [],
+                  excludeTags: filters?.excludedTags || [],
                   favorites: filters?.showFavorites || false,
+                  favoritesCollection: filters?.favoritesCollection,
+                  recent: filters?.showRecent || false,
                   isNew: filters?.showNew || false,
                   isHot: filters?.showHot || false,
                   isComingSoon: filters?.showComingSoon || false,
                   sort: filters?.sortBy || 'popular',
                   viewMode: viewMode,
-                  minRtp: rtpRange.min,
-                  maxRtp: rtpRange.max
+                  ...rangeFilters
                 }}
                 providers={providers || []}
                 tags={availableTags}
+                collections={collections}
+                followedProviderIds={followedProviderIds}
+                followedTags={followedTags}
+                onProviderFollowToggle={toggleProviderFollow}
+                onTagFollowToggle={toggleTagFollow}
+                facets={gamesResponse?.meta?.facets}
                 onFilterChange={handleFilterChange}
+                hasSearch={!!filters.search}
                 mobileMode="inline"
               />
             </div>
@@ -818,6 +1081,10 @@ export default function GamesPage() {
         onPlay={handleGamePlay}
         onFavorite={(game) => handleFavoriteToggle(game.id)}
         onShare={handleGameShare}
+        collections={collections}
+        onCollectionToggle={toggleGameInCollection}
+        onCollectionCreate={handleCollectionCreate}
+        reviews={gameReviews}
       />
     </div>
   );
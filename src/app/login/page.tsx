@@ -1,30 +1,27 @@
 /**
  * Login Page
- * Sign In - Coming Soon
+ * Sign in with email and password
  */
 
-import { ComingSoon } from '@/components/features/ComingSoon';
-import { ROUTES, getComingSoonConfig } from '@/lib/core/config/constants/routes.constants';
+import { AuthForm } from '@/components/features/AuthForm';
+import { ROUTES, getSafeReturnTo } from '@/lib/core/config/constants/routes.constants';
 import type { Metadata } from 'next';
 import { pageMetadata } from '@/lib/core/config/seo.config';
 
 // Export metadata for the login page
 export const metadata: Metadata = pageMetadata[ROUTES.LOGIN];
 
-export default function LoginPage() {
-  const config = getComingSoonConfig(ROUTES.LOGIN);
+interface LoginPageProps {
+  searchParams: Promise<{ returnTo?: string | string[] }>;
+}
 
-  if (!config) {
-    throw new Error('Login page configuration not found');
-  }
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  // Set by the middleware when a guest opens a protected page
+  const { returnTo } = await searchParams;
 
   return (
-    <ComingSoon
-      title={config.title}
-      description={config.description}
-      icon={config.icon}
-      gradientFrom={config.gradientFrom}
-      gradientTo={config.gradientTo}
-    />
+    <div className="auth-form-page">
+      <AuthForm mode="login" redirectTo={getSafeReturnTo(typeof returnTo === 'string' ? returnTo : undefined)} />
+    </div>
   );
-}
\ No newline at end of file
+}
@@ -13,7 +13,10 @@ import {
   ArrowRight,
   Gamepad2,
   Users,
-  Crown
+  Crown,
+  Heart,
+  History,
+  X
 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
@@ -21,9 +24,11 @@ import { GameCarousel } from '@/components/features/GameCarousel';
 import { GameCard } from '@/components/features/GameCard';
 import { PromotionBanner } from '@/components/features/PromotionBanner';
 import { GameDetailsModal } from '@/components/features/GameDetailsModal';
-import { useGamesQuery } from '@/hooks/useGames';
+import { useGamesQuery, usePlayMutation } from '@/hooks/useGames';
 import { useProvidersQuery } from '@/hooks/useProviders';
-import { useFavorites } from '@/hooks/useFavorites';
+import { useFavorites, useFollowedProviders } from '@/hooks/useFavorites';
+import { useGameReviews } from '@/hooks/useReviews';
+import { useRecentlyPlayed } from '@/hooks/useRecentlyPlayed';
 import type { Game } from '@/lib/core/domain/entities';
 import './home.css';
 
@@ -50,6 +55,10 @@ export default function HomePage() {
   const [isGameModalOpen, setIsGameModalOpen] = React.useState(false);
   
   const { toggleFavorite } = useFavorites();
+  const { mutate: recordPlay } = usePlayMutation();
+
+  // Reviews of the game open in the details modal
+  const gameReviews = useGameReviews(isGameModalOpen ? selectedGame?.id : undefined);
   
   const { data: hotGames } = useGamesQuery({ 
     isHot: true, 
@@ -73,6 +82,20 @@ export default function HomePage() {
 
   const { data: providers } = useProvidersQuery();
 
+  // Recently played games, most recent first
+  const {
+    games: recentGames,
+    remove: removeRecentGame,
+    clear: clearRecentGames
+  } = useRecentlyPlayed();
+
+  // Latest games from followed providers (only fetched once the visitor follows someone)
+  const { providers: followedProviders, providerIds: followedProviderIds } = useFollowedProviders();
+  const { data: followedProviderGames } = useGamesQuery(
+    { providers: followedProviderIds, sort: 'new', pageSize: 20 },
+    { enabled: followedProviderIds.length > 0 }
+  );
+
   // Memoize providers for carousel to prevent re-renders
   const providersForCarousel = useMemo(() => {
     if (!providers || providers.length === 0) return [];
@@ -91,10 +114,9 @@ export default function HomePage() {
   }, []);
 
   const handleGamePlay = useCallback((game: Game) => {
-    // Navigate to game or open in modal
-    console.log('Playing game:', game.title);
+    recordPlay(game.id);
     router.push(`/games/${game.slug}`);
-  }, [router]);
+  }, [recordPlay, router]);
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const handleFavoriteToggle = useCallback((gameId: string, _isFavorite: boolean) => {
@@ -202,6 +224,65 @@ export default function HomePage() {
         </div>
       </section>
 
+      {/* Continue Playing Carousel */}
+      {recentGames.length > 0 && (
+        <section className="carousel-section">
+          <div className="container">
+            <div className="section-header">
+              <div className="section-title-group">
+                <History className="section-icon section-icon-recent" />
+                <h2 className="section-title">Continue Playing</h2>
+                <Badge variant="secondary" size="sm" gap="sm">
+                  {recentGames.length} Games
+                </Badge>
+              </div>
+              <div className="section-actions">
+                <Button variant="ghost" size="sm" onClick={clearRecentGames}>
+                  Clear history
+                </Button>
+                <Link href="/games?recent=true">
+                  <Button variant="ghost" size="sm">
+                    View All
+                    <ArrowRight className="w-4 h-4" />
+                  </Button>
+                </Link>
+              </div>
+            </div>
+            
+            <GameCarousel
+              showArrows
+              showDots
+              variant="elevated"
+              slidesPerView={5}
+              slideSpacing={1.5}
+              infinite={false}
+            >
+              {recentGames.map((game: Game) => (
+                <div key={game.id} className="recent-game">
+                  <GameCard
+                    game={game}
+                    onClick={handleGameClick}
+                    onPlay={handleGamePlay}
+                    onFavoriteToggle={handleFavoriteToggle}
+                    size="grid-md"
+                    showPlayOnHover={true}
+                  />
+                  <button
+                    type="button"
+                    className="recent-game-remove"
+                    onClick={() => removeRecentGame(game.id)}
+                    aria-label={`Remove ${game.title} from recently played`}
+                    title="Remove from history"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </GameCarousel>
+          </div>
+        </section>
+      )}
+
       {/* Hot Games Carousel */}
       {hotGames?.games && hotGames.games.length > 0 && (
         <section className="carousel-section">
@@ -248,6 +329,50 @@ export default function HomePage() {
         </section>
       )}
 
+      {/* Games From Followed Providers */}
+      {followedProviderIds.length > 0 && followedProviderGames?.games && followedProviderGames.games.length > 0 && (
+        <section className="carousel-section">
+          <div className="container">
+            <div className="section-header">
+              <div className="section-title-group">
+                <Heart className="section-icon section-icon-followed" />
+                <h2 className="section-title">From Providers You Follow</h2>
+                <Badge variant="primary" size="sm" gap="sm">
+                  {followedProviders.length || followedProviderIds.length} Providers
+                </Badge>
+              </div>
+              <Link href={`/games?providers=${followedProviderIds.join(',')}&sort=new`}>
+                <Button variant="ghost" size="sm">
+                  View All
+                  <ArrowRight className="w-4 h-4" />
+                </Button>
+              </Link>
+            </div>
+            
+            <GameCarousel 
+              showArrows 
+              showDots
+              variant="elevated"
+              slidesPerView={5}
+              slideSpacing={1.5}
+              infinite={false}
+            >
+              {followedProviderGames.games.map((game: Game) => (
+                <GameCard
+                  key={game.id}
+                  game={game}
+                  onClick={handleGameClick}
+                  onPlay={handleGamePlay}
+                  onFavoriteToggle={handleFavoriteToggle}
+                  size="grid-md"
+                  showPlayOnHover={true}
+                />
+              ))}
+            </GameCarousel>
+          </div>
+        </section>
+      )}
+
       {/* Promotional Banner */}
       <section className="promotion-section">
         <div className="container">
@@ -527,6 +652,7 @@ export default function HomePage() {
         onClose={handleModalClose}
         onPlay={handleGamePlay}
         onFavorite={(game) => handleFavoriteToggle(game.id, game.isFavorite || false)}
+        reviews={gameReviews}
       />
     </div>
   );
@@ -0,0 +1,90 @@
+'use client';
+
+/**
+ * Profile Page Content
+ * Client wrapper showing the signed-in user's account, activity and session
+ */
+
+import React from 'react';
+import Link from 'next/link';
+import { Clock, FolderHeart, Heart, History, LogOut, Settings } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { ProfileCard } from '@/components/features/ProfileCard';
+import { useAuthStore } from '@/lib/core/frontend/stores/auth/useAuthStore';
+import { useFavoriteCollections, useFavorites } from '@/hooks/useFavorites';
+import { useRecentlyPlayed } from '@/hooks/useRecentlyPlayed';
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { ROUTES, ROUTE_VARIANTS } from '@/lib/core/config/constants/routes.constants';
+import './profile.css';
+
+export function ProfilePageContent() {
+  const isSignedIn = useRequireAuth();
+  const { user, expiresAt, logout } = useAuthStore();
+  const { favoriteCount } = useFavorites();
+  const { collections } = useFavoriteCollections();
+  const { games: recentGames } = useRecentlyPlayed();
+
+  if (!isSignedIn || !user) {
+    return (
+      <div className="profile-page container mx-auto px-4 py-8">
+        <p className="profile-loading">Loading your account...</p>
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: 'Favorite games', value: favoriteCount, icon: <Heart />, href: ROUTES.FAVORITES },
+    { label: 'Collections', value: collections.length, icon: <FolderHeart />, href: ROUTES.FAVORITES },
+    { label: 'Recently played', value: recentGames.length, icon: <History />, href: ROUTE_VARIANTS.GAMES_RECENT }
+  ];
+
+  return (
+    <div className="profile-page container mx-auto px-4 py-8">
+      <header className="profile-header">
+        <h1 className="profile-title">Profile</h1>
+      </header>
+
+      <ProfileCard
+        name={user.name}
+        email={user.email}
+        avatar={user.avatar}
+        balance={user.balance}
+        showBalanceChange={false}
+        className="profile-card-summary"
+      />
+
+      <section className="profile-stats" aria-label="Activity">
+        {stats.map(stat => (
+          <Link key={stat.label} href={stat.href} className="profile-stat">
+            <span className="profile-stat-icon">{stat.icon}</span>
+            <span className="profile-stat-value">{stat.value}</span>
+            <span className="profile-stat-label">{stat.label}</span>
+          </Link>
+        ))}
+      </section>
+
+      {expiresAt && (
+        <p className="profile-session">
+          <Clock className="w-4 h-4" />
+          Session expires {new Date(expiresAt).toLocaleString()} unless you stay active
+        </p>
+      )}
+
+      <div className="profile-actions">
+        <Link href={ROUTES.SETTINGS}>
+          <Button variant="secondary" size="sm" leftIcon={<Settings className="w-4 h-4" />}>
+            Settings
+          </Button>
+        </Link>
+        <Link href={ROUTE_VARIANTS.GAMES_WITH_FAVORITES}>
+          <Button variant="ghost" size="sm" leftIcon={<Heart className="w-4 h-4" />}>
+            Browse favorites
+          </Button>
+        </Link>
+        <Button variant="ghost" size="sm" leftIcon={<LogOut className="w-4 h-4" />} onClick={logout}>
+          Sign out
+        </Button>
+      </div>
+    </div>
+  );
+}
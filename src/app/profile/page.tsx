@@ -0,0 +1,16 @@
+/**
+ * Profile Page
+ * The signed-in user's account overview
+ */
+
+import type { Metadata } from 'next';
+import { ROUTES } from '@/lib/core/config/constants/routes.constants';
+import { pageMetadata } from '@/lib/core/config/seo.config';
+import { ProfilePageContent } from './ProfilePageContent';
+
+// Export metadata for the profile page
+export const metadata: Metadata = pageMetadata[ROUTES.PROFILE];
+
+export default function ProfilePage() {
+  return <ProfilePageContent />;
+}
@@ -1,30 +1,27 @@
 /**
  * Register Page
- * Create Account - Coming Soon
+ * Create an account
  */
 
-import { ComingSoon } from '@/components/features/ComingSoon';
-import { ROUTES, getComingSoonConfig } from '@/lib/core/config/constants/routes.constants';
+import { AuthForm } from '@/components/features/AuthForm';
+import { ROUTES, getSafeReturnTo } from '@/lib/core/config/constants/routes.constants';
 import type { Metadata } from 'next';
 import { pageMetadata } from '@/lib/core/config/seo.config';
 
 // Export metadata for the register page
 export const metadata: Metadata = pageMetadata[ROUTES.REGISTER];
 
-export default function RegisterPage() {
-  const config = getComingSoonConfig(ROUTES.REGISTER);
+interface RegisterPageProps {
+  searchParams: Promise<{ returnTo?: string | string[] }>;
+}
 
-  if (!config) {
-    throw new Error('Register page configuration not found');
-  }
+export default async function RegisterPage({ searchParams }: RegisterPageProps) {
+  // Carried over from sign in when a guest was sent there from a protected page
+  const { returnTo } = await searchParams;
 
   return (
-    <ComingSoon
-      title={config.title}
-      description={config.description}
-      icon={config.icon}
-      gradientFrom={config.gradientFrom}
-      gradientTo={config.gradientTo}
-    />
+    <div className="auth-form-page">
+      <AuthForm mode="register" redirectTo={getSafeReturnTo(typeof returnTo === 'string' ? returnTo : undefined)} />
+    </div>
   );
-}
\ No newline at end of file
+}
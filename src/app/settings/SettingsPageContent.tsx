@@ -0,0 +1,151 @@
+'use client';
+
+/**
+ * Settings Page Content
+ * Client wrapper for editing the signed-in user's account and display preferences
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { FormFieldInput } from '@/components/ui/FormField/FormFieldInput';
+import { FormFieldCheckbox } from '@/components/ui/FormField/FormFieldCheckbox';
+import { ValidationRules, validateValue } from '@/components/ui/FormField/types';
+import { useAuthStore } from '@/lib/core/frontend/stores/auth/useAuthStore';
+import { usePreferencesStore } from '@/lib/core/frontend/stores/preferences/usePreferencesStore';
+import { useToastStore } from '@/lib/core/frontend/stores/toast/useToastStore';
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { ApiError, type FieldViolation } from '@/lib/core/shared/errors';
+import { USER_NAME_MAX_LENGTH } from '@/lib/core/domain/entities';
+import './settings.css';
+
+const NAME_RULES = [
+  ValidationRules.required('Enter your name'),
+  ValidationRules.maxLength(USER_NAME_MAX_LENGTH)
+];
+
+/**
+ * Accessibility preferences applied by the StoreProvider
+ */
+const DISPLAY_PREFERENCES = [
+  { key: 'reducedMotion', label: 'Reduce motion', helperText: 'Turn off animations and transitions' },
+  { key: 'highContrast', label: 'High contrast', helperText: 'Stronger colors for text and borders' },
+  { key: 'largeText', label: 'Larger text', helperText: 'Increase the base font size' }
+] as const;
+
+export function SettingsPageContent() {
+  const isSignedIn = useRequireAuth();
+  const user = useAuthStore(state => state.user);
+  const updateAccount = useAuthStore(state => state.updateAccount);
+  const preferences = usePreferencesStore();
+  const showToast = useToastStore(state => state.showToast);
+  const [name, setName] = useState('');
+  const [nameError, setNameError] = useState<string>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved name once the session is known
+  useEffect(() => {
+    if (user?.name && !user.isGuest) {
+      setName(user.name);
+    }
+  }, [user?.name, user?.isGuest]);
+
+  if (!isSignedIn || !user) {
+    return (
+      <div className="settings-page container mx-auto px-4 py-8">
+        <p className="settings-loading">Loading your settings...</p>
+      </div>
+    );
+  }
+
+  const isUnchanged = name.trim() === user.name;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const error = validateValue(name, NAME_RULES);
+    setNameError(error);
+    if (error || isUnchanged) return;
+
+    setIsSaving(true);
+    try {
+      await updateAccount({ name: name.trim() });
+      showToast({ message: 'Your name was updated', variant: 'success' });
+    } catch (error) {
+      const violations = error instanceof ApiError
+        ? (error.details as { violations?: FieldViolation[] } | undefined)?.violations
+        : undefined;
+      const violation = violations?.find(item => item.field === 'name');
+      if (violation) {
+        const message = violation.constraints.join(', ');
+        setNameError(message.charAt(0).toUpperCase() + message.slice(1));
+      } else {
+        showToast({
+          title: 'Could not save',
+          message: error instanceof Error ? error.message : 'Something went wrong, please try again',
+          variant: 'error'
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="settings-page container mx-auto px-4 py-8">
+      <header className="settings-header">
+        <h1 className="settings-title">Settings</h1>
+      </header>
+
+      <section className="settings-section">
+        <h2 className="settings-section-title">Account</h2>
+        <form className="settings-form" onSubmit={handleSubmit} noValidate>
+          <FormFieldInput
+            label="Name"
+            required
+            value={name}
+            onChange={event => {
+              setName(event.target.value);
+              setNameError(undefined);
+            }}
+            error={nameError}
+            maxLength={USER_NAME_MAX_LENGTH}
+            autoComplete="name"
+            disabled={isSaving}
+            testId="settings-name"
+          />
+          <FormFieldInput
+            label="Email"
+            type="email"
+            value={user.email ?? ''}
+            helperText="Your email is used to sign in and cannot be changed"
+            readOnly
+            disabled
+            testId="settings-email"
+          />
+          <div className="settings-form-actions">
+            <Button type="submit" variant="primary" size="sm" disabled={isSaving || isUnchanged}>
+              {isSaving ? 'Saving...' : 'Save changes'}
+            </Button>
+          </div>
+        </form>
+      </section>
+
+      <section className="settings-section">
+        <h2 className="settings-section-title">Display</h2>
+        <p className="settings-section-description">Saved on this device</p>
+        <div className="settings-preferences">
+          {DISPLAY_PREFERENCES.map(({ key, label, helperText }) => (
+            <FormFieldCheckbox
+              key={key}
+              checkboxLabel={label}
+              helperText={helperText}
+              checked={preferences[key]}
+              onChange={checked => preferences.setPreference(key, checked)}
+              testId={`settings-${key}`}
+            />
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
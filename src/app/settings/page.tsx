@@ -0,0 +1,16 @@
+/**
+ * Settings Page
+ * Account details and preferences for the signed-in user
+ */
+
+import type { Metadata } from 'next';
+import { ROUTES } from '@/lib/core/config/constants/routes.constants';
+import { pageMetadata } from '@/lib/core/config/seo.config';
+import { SettingsPageContent } from './SettingsPageContent';
+
+// Export metadata for the settings page
+export const metadata: Metadata = pageMetadata[ROUTES.SETTINGS];
+
+export default function SettingsPage() {
+  return <SettingsPageContent />;
+}
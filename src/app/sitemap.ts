@@ -1,9 +1,12 @@
 import type { MetadataRoute } from 'next';
 import { ROUTES, ROUTE_CONFIGS, type RouteValue } from '@/lib/core/config/constants/routes.constants';
-import { fetchGames } from '@/lib/core/frontend/api/games/fetchers/GET';
+import { gameService } from '@/lib/core/backend/services/GameService';
 
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://redgame.dev';
 
+// Regenerate hourly so game pages stay in sync with the catalogue
+export const revalidate = 3600;
+
 /**
  * Union types are imported from routes.constants for type safety
  * This ensures TypeScript will error if we forget to add SEO config for any route
@@ -120,22 +123,6 @@ const EXCLUDED_ROUTE_PATTERNS = [
   'favorites'
 ];
 
-/**
- * Fetch all games from API for sitemap generation using existing fetcher
- */
-async function fetchAllGames() {
-  try {
-    const response = await fetchGames({
-      page: 1,
-      pageSize: 1000, // Get all games for sitemap
-    });
-    return response.games;
-  } catch (error) {
-    console.warn('Failed to fetch games for sitemap:', error);
-    return [];
-  }
-}
-
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   // Generate sitemap entries automatically from ROUTE_CONFIGS
   const staticPages: MetadataRoute.Sitemap = Object.entries(ROUTE_CONFIGS)
@@ -156,10 +143,10 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       };
     });
 
-  // TODO: Add dynamic pages when implementing game slug routes
-  // We already have APIs for games - implementing dynamic game pages
+  // Dynamic game pages: /games/[slug]
   try {
-    const games = await fetchAllGames();
+    // Read the catalogue directly, like the game pages, rather than paging through our own API
+    const games = gameService.getAllGames();
     const dynamicPages = games
       .filter(game => game.slug) // Only include games with slugs
       .map(game => ({
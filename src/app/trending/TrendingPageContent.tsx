@@ -0,0 +1,213 @@
+'use client';
+
+/**
+ * Trending Page Content
+ * Client wrapper that loads the trending rankings and links entries to the catalogue
+ */
+
+import React, { useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowRight, CalendarDays, Flame, Hash, Building2, TrendingUp } from 'lucide-react';
+import { Alert } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import { TrendingList, type TrendingListItem } from '@/components/features/TrendingList';
+import { useTrendingQuery } from '@/lib/core/frontend/api/trending/hooks/useTrendingQuery';
+import { GAME_TYPE_CONFIG } from '@/lib/core/config/constants/app.constants';
+import { ROUTES } from '@/lib/core/config/constants/routes.constants';
+import { formatCompactNumber } from '@/lib/core/shared/utils';
+import type { TrendingGame, TrendingProvider, TrendingTag } from '@/lib/core/shared/types';
+import './trending.css';
+
+/**
+ * Describe the activity behind a game's rank, falling back to all-time plays when it has none
+ */
+function describeActivity({ plays, favorites, game }: TrendingGame): string {
+  if (plays === 0 && favorites === 0) {
+    return `${formatCompactNumber(game.playCount || 0)} total plays`;
+  }
+
+  const parts = [`${formatCompactNumber(plays)} ${plays === 1 ? 'play' : 'plays'}`];
+  if (favorites > 0) {
+    parts.push(`${formatCompactNumber(favorites)} ${favorites === 1 ? 'favorite' : 'favorites'}`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Map ranked games to list entries
+ */
+function toGameItems(games: TrendingGame[]): TrendingListItem[] {
+  return games.map(entry => ({
+    id: entry.game.slug,
+    rank: entry.rank,
+    previousRank: entry.previousRank,
+    title: entry.game.title,
+    subtitle: entry.game.provider.name,
+    imageUrl: entry.game.thumbnail,
+    metric: describeActivity(entry)
+  }));
+}
+
+/**
+ * Map ranked tags to list entries
+ */
+function toTagItems(tags: TrendingTag[]): TrendingListItem[] {
+  return tags.map(entry => ({
+    id: entry.tag.id,
+    rank: entry.rank,
+    previousRank: entry.previousRank,
+    title: entry.tag.name,
+    subtitle: `${formatCompactNumber(entry.tag.count || 0)} games`,
+    metric: entry.score > 0 ? `${formatCompactNumber(entry.score)} activity` : undefined
+  }));
+}
+
+/**
+ * Map ranked providers to list entries
+ */
+function toProviderItems(providers: TrendingProvider[]): TrendingListItem[] {
+  return providers.map(entry => ({
+    id: entry.provider.id,
+    rank: entry.rank,
+    previousRank: entry.previousRank,
+    title: entry.provider.name,
+    imageUrl: entry.provider.logo,
+    metric: entry.score > 0 ? `${formatCompactNumber(entry.score)} activity` : undefined
+  }));
+}
+
+export function TrendingPageContent() {
+  const router = useRouter();
+  const { data: rankings, isLoading, error, refetch } = useTrendingQuery();
+
+  // Rank changes are only meaningful once there is a snapshot to compare against
+  const showChanges = Boolean(rankings?.comparedTo);
+
+  const handleGameClick = useCallback((slug: string) => {
+    router.push(`${ROUTES.GAMES}/${slug}`);
+  }, [router]);
+
+  const handleTagClick = useCallback((tagId: string) => {
+    router.push(`${ROUTES.GAMES}?tags=${encodeURIComponent(tagId)}&sort=trending`);
+  }, [router]);
+
+  const handleProviderClick = useCallback((providerId: string) => {
+    router.push(`${ROUTES.GAMES}?providers=${encodeURIComponent(providerId)}&sort=trending`);
+  }, [router]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-8">
+        <Alert
+          variant="error"
+          title="Failed to load trending games"
+          type="card"
+          className="max-w-md"
+        >
+          {error instanceof Error ? error.message : 'Failed to load trending games'}
+          <div className="mt-4">
+            <Button variant="primary" size="sm" onClick={() => refetch()}>
+              Try Again
+            </Button>
+          </div>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="trending-page container mx-auto px-4 py-8">
+      <header className="trending-header">
+        <h1 className="trending-title">Trending</h1>
+        <p className="trending-subtitle">
+          What players are launching and favoriting right now
+        </p>
+      </header>
+
+      {/* Ranked lists */}
+      <div className="trending-grid trending-grid-3">
+        <TrendingList
+          title="Today"
+          icon={<Flame />}
+          items={toGameItems(rankings?.today || [])}
+          showChanges={showChanges}
+          onItemClick={handleGameClick}
+          isLoading={isLoading}
+          testId="trending-today"
+        />
+        <TrendingList
+          title="This Week"
+          icon={<CalendarDays />}
+          items={toGameItems(rankings?.week || [])}
+          showChanges={showChanges}
+          onItemClick={handleGameClick}
+          isLoading={isLoading}
+          testId="trending-week"
+        />
+        <TrendingList
+          title="Rising"
+          icon={<TrendingUp />}
+          items={toGameItems(rankings?.rising || [])}
+          showChanges={showChanges}
+          onItemClick={handleGameClick}
+          emptyMessage="No games are rising right now. Check back after a few plays!"
+          isLoading={isLoading}
+          testId="trending-rising"
+        />
+      </div>
+
+      {/* Per-type breakdowns */}
+      <section className="trending-section">
+        <h2 className="trending-section-title">By Game Type</h2>
+        <div className="trending-grid trending-grid-types">
+          {GAME_TYPE_CONFIG.map(({ value, label, icon }) => (
+            <div key={value} className="trending-type">
+              <TrendingList
+                title={label}
+                icon={<span aria-hidden="true">{icon}</span>}
+                items={toGameItems(rankings?.byType.find(breakdown => breakdown.type === value)?.games || [])}
+                showChanges={showChanges}
+                onItemClick={handleGameClick}
+                emptyMessage={`No ${label.toLowerCase()} yet.`}
+                isLoading={isLoading}
+                testId={`trending-type-${value}`}
+              />
+              <Link href={`${ROUTES.GAMES}?types=${value}&sort=trending`} className="trending-type-link">
+                <Button variant="ghost" size="sm">
+                  View all
+                  <ArrowRight className="w-4 h-4" />
+                </Button>
+              </Link>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Tags and providers */}
+      <section className="trending-section">
+        <div className="trending-grid trending-grid-2">
+          <TrendingList
+            title="Trending Tags"
+            icon={<Hash />}
+            items={toTagItems(rankings?.tags || [])}
+            showChanges={showChanges}
+            showImages={false}
+            onItemClick={handleTagClick}
+            isLoading={isLoading}
+            testId="trending-tags"
+          />
+          <TrendingList
+            title="Trending Providers"
+            icon={<Building2 />}
+            items={toProviderItems(rankings?.providers || [])}
+            showChanges={showChanges}
+            onItemClick={handleProviderClick}
+            isLoading={isLoading}
+            testId="trending-providers"
+          />
+        </div>
+      </section>
+    </div>
+  );
+}
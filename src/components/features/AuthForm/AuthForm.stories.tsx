@@ -0,0 +1,62 @@
+/**
+ * AuthForm Stories
+ * Storybook stories for the AuthForm component
+ */
+
+import type { Meta, StoryObj } from '@storybook/nextjs';
+import { AuthForm } from './AuthForm';
+
+const meta = {
+  title: 'Features/AuthForm',
+  component: AuthForm,
+  parameters: {
+    layout: 'centered',
+    nextjs: {
+      appDirectory: true
+    },
+    docs: {
+      description: {
+        component: 'Sign-in and registration form. Fields are validated on blur and submit; submitting calls the auth API, so without it running the form shows the request error.'
+      }
+    }
+  },
+  argTypes: {
+    mode: {
+      control: 'radio',
+      options: ['login', 'register'],
+      description: 'Sign in to an existing account or create a new one'
+    },
+    redirectTo: {
+      control: 'text',
+      description: 'Where to go once signed in'
+    }
+  },
+  decorators: [
+    (Story) => (
+      <div style={{ width: '28rem', maxWidth: '100%' }}>
+        <Story />
+      </div>
+    )
+  ]
+} satisfies Meta<typeof AuthForm>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+/**
+ * Sign in with email and password
+ */
+export const Login: Story = {
+  args: {
+    mode: 'login'
+  }
+};
+
+/**
+ * Create an account with name, email and password
+ */
+export const Register: Story = {
+  args: {
+    mode: 'register'
+  }
+};
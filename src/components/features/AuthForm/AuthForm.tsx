@@ -0,0 +1,247 @@
+/**
+ * @fileoverview AuthForm component for signing in and creating an account
+ * @module components/features/AuthForm
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LogIn, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Alert } from '@/components/ui/Alert';
+import { Link } from '@/components/ui/Link';
+import { FormFieldInput } from '@/components/ui/FormField/FormFieldInput';
+import { FormFieldCheckbox } from '@/components/ui/FormField/FormFieldCheckbox';
+import { ValidationRules, validateValue, type ValidationRule } from '@/components/ui/FormField/types';
+import { useAuthStore } from '@/lib/core/frontend/stores/auth/useAuthStore';
+import { ApiError, type FieldViolation } from '@/lib/core/shared/errors';
+import { ErrorCodes } from '@/lib/core/shared/errors/constants';
+import {
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH,
+  USER_NAME_MAX_LENGTH
+} from '@/lib/core/domain/entities';
+import { ROUTES } from '@/lib/core/config/constants/routes.constants';
+import { SESSION_REMEMBER_MAX_AGE } from '@/lib/core/config/constants/app.constants';
+import '@/styles/components/features/auth-form.css';
+
+type AuthField = 'name' | 'email' | 'password';
+
+type FieldErrors = Partial<Record<AuthField, string>>;
+
+const REMEMBER_DAYS = Math.floor(SESSION_REMEMBER_MAX_AGE / (60 * 60 * 24));
+
+/**
+ * Props for the AuthForm component
+ * @interface AuthFormProps
+ */
+export interface AuthFormProps {
+  /** Sign in to an existing account or create a new one */
+  mode: 'login' | 'register';
+  /** Where to go once signed in (a path on this site, see getSafeReturnTo) */
+  redirectTo?: string;
+  /** Custom className for additional styling */
+  className?: string;
+  /** Test ID for testing */
+  testId?: string;
+}
+
+/**
+ * Client-side rules, mirroring what the API enforces
+ */
+const FIELD_RULES: Record<AuthField, ValidationRule[]> = {
+  name: [
+    ValidationRules.required('Enter your name'),
+    ValidationRules.maxLength(USER_NAME_MAX_LENGTH)
+  ],
+  email: [
+    ValidationRules.required('Enter your email'),
+    ValidationRules.email()
+  ],
+  password: [
+    ValidationRules.required('Enter your password'),
+    ValidationRules.minLength(PASSWORD_MIN_LENGTH),
+    ValidationRules.maxLength(PASSWORD_MAX_LENGTH)
+  ]
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Field errors reported by the API, e.g. an email that is already registered
+ */
+const toFieldErrors = (error: ApiError): FieldErrors => {
+  if (error.code === ErrorCodes.CONFLICT) {
+    return { email: error.message };
+  }
+
+  const violations = (error.details as { violations?: FieldViolation[] } | undefined)?.violations ?? [];
+  return Object.fromEntries(
+    violations
+      .filter(violation => violation.field in FIELD_RULES)
+      .map(violation => [violation.field, capitalize(violation.constraints.join(', '))])
+  );
+};
+
+/**
+ * AuthForm component
+ * @description Sign-in or registration form. Fields are checked on blur and submit, then the
+ * API's answer (wrong credentials, email taken) is shown next to the field it concerns.
+ * Sign in offers "remember me" for a longer session that survives closing the browser.
+ *
+ * @example
+ * ```tsx
+ * <AuthForm mode="register" redirectTo="/games" />
+ * ```
+ */
+export const AuthForm: React.FC<AuthFormProps> = ({
+  mode,
+  redirectTo = ROUTES.HOME,
+  className = '',
+  testId = 'auth-form'
+}) => {
+  const router = useRouter();
+  const { login, register, isLoading } = useAuthStore();
+  const [values, setValues] = useState<Record<AuthField, string>>({ name: '', email: '', password: '' });
+  const [remember, setRemember] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState<string>();
+
+  const isRegister = mode === 'register';
+  const switchPath = isRegister ? ROUTES.LOGIN : ROUTES.REGISTER;
+  // Switching between sign in and sign up keeps the page to return to
+  const switchHref = redirectTo === ROUTES.HOME
+    ? switchPath
+    : `${switchPath}?returnTo=${encodeURIComponent(redirectTo)}`;
+  const fields: AuthField[] = isRegister ? ['name', 'email', 'password'] : ['email', 'password'];
+
+  // Sign in only needs a password, its length is checked when it was chosen
+  const rulesFor = (field: AuthField) =>
+    field === 'password' && !isRegister ? FIELD_RULES.password.slice(0, 1) : FIELD_RULES[field];
+
+  const validateField = (field: AuthField) => {
+    const error = validateValue(values[field], rulesFor(field));
+    setFieldErrors(previous => ({ ...previous, [field]: error }));
+    return error;
+  };
+
+  const handleChange = (field: AuthField) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setValues(previous => ({ ...previous, [field]: event.target.value }));
+    setFieldErrors(previous => ({ ...previous, [field]: undefined }));
+    setFormError(undefined);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const errors = fields.map(validateField);
+    if (errors.some(Boolean)) return;
+
+    try {
+      if (isRegister) {
+        await register({ name: values.name.trim(), email: values.email, password: values.password });
+      } else {
+        await login({ email: values.email, password: values.password, remember });
+      }
+      router.push(redirectTo);
+    } catch (error) {
+      const apiFieldErrors = error instanceof ApiError ? toFieldErrors(error) : {};
+      if (Object.keys(apiFieldErrors).length > 0) {
+        setFieldErrors(apiFieldErrors);
+      } else {
+        setFormError(error instanceof Error ? error.message : 'Something went wrong, please try again');
+      }
+    }
+  };
+
+  return (
+    <div className={`auth-form ${className}`} data-testid={testId}>
+      <div className="auth-form-header">
+        <div className="auth-form-icon">
+          {isRegister ? <UserPlus className="w-6 h-6" /> : <LogIn className="w-6 h-6" />}
+        </div>
+        <h1 className="auth-form-title">{isRegister ? 'Create Account' : 'Sign In'}</h1>
+        <p className="auth-form-subtitle">
+          {isRegister
+            ? 'Save favorites, follow providers and keep your history on every device.'
+            : 'Welcome back. Sign in to pick up where you left off.'}
+        </p>
+      </div>
+
+      {formError && (
+        <Alert variant="error" className="auth-form-alert">
+          {formError}
+        </Alert>
+      )}
+
+      <form className="auth-form-fields" onSubmit={handleSubmit} noValidate>
+        {isRegister && (
+          <FormFieldInput
+            label="Name"
+            required
+            value={values.name}
+            onChange={handleChange('name')}
+            onBlur={() => values.name && validateField('name')}
+            error={fieldErrors.name}
+            maxLength={USER_NAME_MAX_LENGTH}
+            autoComplete="name"
+            disabled={isLoading}
+            testId={`${testId}-name`}
+          />
+        )}
+        <FormFieldInput
+          label="Email"
+          type="email"
+          required
+          value={values.email}
+          onChange={handleChange('email')}
+          onBlur={() => values.email && validateField('email')}
+          error={fieldErrors.email}
+          autoComplete="email"
+          disabled={isLoading}
+          testId={`${testId}-email`}
+        />
+        <FormFieldInput
+          label="Password"
+          type="password"
+          required
+          value={values.password}
+          onChange={handleChange('password')}
+          onBlur={() => values.password && validateField('password')}
+          error={fieldErrors.password}
+          helperText={isRegister ? `At least ${PASSWORD_MIN_LENGTH} characters` : undefined}
+          autoComplete={isRegister ? 'new-password' : 'current-password'}
+          disabled={isLoading}
+          testId={`${testId}-password`}
+        />
+        {!isRegister && (
+          <FormFieldCheckbox
+            checkboxLabel="Keep me signed in"
+            checked={remember}
+            onChange={setRemember}
+            helperText={`Stay signed in on this device for ${REMEMBER_DAYS} days instead of until the browser closes`}
+            disabled={isLoading}
+            testId={`${testId}-remember`}
+          />
+        )}
+        <Button type="submit" variant="primary" fullWidth disabled={isLoading}>
+          {isLoading
+            ? (isRegister ? 'Creating account...' : 'Signing in...')
+            : (isRegister ? 'Create account' : 'Sign in')}
+        </Button>
+      </form>
+
+      <p className="auth-form-switch">
+        {isRegister ? 'Already have an account?' : 'New here?'}{' '}
+        <Link href={switchHref}>
+          {isRegister ? 'Sign in' : 'Create an account'}
+        </Link>
+      </p>
+    </div>
+  );
+};
+
+AuthForm.displayName = 'AuthForm';
+
+export default AuthForm;
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview AuthForm component exports
+ * @module components/features/AuthForm
+ */
+
+export { AuthForm } from './AuthForm';
+export type { AuthFormProps } from './AuthForm';
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Storybook stories for ChaosPanel component
+ * @module components/features/ChaosPanel/stories
+ */
+
+import type { Meta, StoryObj } from '@storybook/nextjs';
+import { ChaosPanel } from './ChaosPanel';
+
+const meta = {
+  title: 'Features/ChaosPanel',
+  component: ChaosPanel,
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component: 'Dev-only panel for the mock API fault injection. Settings are stored in a cookie the API reads, so they apply from the next request.'
+      }
+    }
+  },
+  argTypes: {
+    defaultOpen: {
+      control: 'boolean',
+      description: 'Open the panel on mount'
+    }
+  }
+} satisfies Meta<typeof ChaosPanel>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {
+  args: {}
+};
+
+export const Open: Story = {
+  args: {
+    defaultOpen: true
+  }
+};
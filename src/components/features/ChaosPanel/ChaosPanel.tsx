@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Zap } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Drawer } from '@/components/ui/Drawer';
+import { Dropdown, type DropdownOption } from '@/components/ui/Dropdown';
+import { Input } from '@/components/ui/Input';
+import { useChaosConfig } from '@/hooks/useChaosConfig';
+import { CHAOS_CONFIG, LATENCY_PROFILES } from '@/lib/core/config/constants/app.constants';
+import { FAULT_STATUS_CODES } from '@/lib/core/shared/validation';
+import type { ChaosConfig, ChaosRouteRule, LatencyProfileName } from '@/lib/core/shared/types';
+import '@/styles/components/features/chaos-panel.css';
+
+export interface ChaosPanelProps {
+  /** Open the panel on mount */
+  defaultOpen?: boolean;
+  /** Custom className for the toggle button */
+  className?: string;
+}
+
+const PROFILE_OPTIONS: DropdownOption[] = Object.entries(LATENCY_PROFILES).map(([value, profile]) => ({
+  value,
+  label: profile.label
+}));
+
+const STATUS_OPTIONS: DropdownOption[] = [
+  { value: '', label: 'Default (500)' },
+  ...FAULT_STATUS_CODES.map(status => ({ value: String(status), label: String(status) }))
+];
+
+// Rates are stored from 0 to 1 but edited as percentages
+const toPercent = (rate?: number) => (rate === undefined ? '' : String(Math.round(rate * 100)));
+
+const fromPercent = (value: string) => {
+  const percent = parseFloat(value);
+  return isNaN(percent) ? undefined : Math.min(100, Math.max(0, percent)) / 100;
+};
+
+const toStatus = (value: string) => (value ? Number(value) as ChaosConfig['status'] : undefined);
+
+/**
+ * Dev-only panel for the mock API's fault injection
+ * Picks a latency profile, error and timeout rates, a forced status code and per-route overrides,
+ * stored in a cookie the API reads on every request
+ */
+export function ChaosPanel({ defaultOpen = false, className = '' }: ChaosPanelProps) {
+  const { config, setConfig, resetConfig, isActive } = useChaosConfig();
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [draft, setDraft] = useState<ChaosConfig>(config);
+
+  // Edit a copy of the stored config, refreshed whenever the panel opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(config);
+    }
+  }, [isOpen, config]);
+
+  const routes = draft.routes ?? [];
+
+  const updateDraft = (changes: Partial<ChaosConfig>) => {
+    setDraft(current => ({ ...current, ...changes }));
+  };
+
+  const updateRoute = (index: number, changes: Partial<ChaosRouteRule>) => {
+    updateDraft({
+      routes: routes.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...changes } : rule))
+    });
+  };
+
+  const handleApply = () => {
+    const validRoutes = routes.filter(rule => rule.route.trim());
+    setConfig({
+      ...draft,
+      profile: draft.profile === 'default' ? undefined : draft.profile,
+      routes: validRoutes.length ? validRoutes : undefined
+    });
+    setIsOpen(false);
+  };
+
+  const handleReset = () => {
+    resetConfig();
+    setDraft({});
+  };
+
+  const footer = (
+    <div className="chaos-panel-actions">
+      <Button variant="ghost" size="sm" onClick={handleReset}>
+        Reset
+      </Button>
+      <Button variant="primary" size="sm" onClick={handleApply}>
+        Apply
+      </Button>
+    </div>
+  );
+
+  return (
+    <>
+      <button
+        type="button"
+        className={`chaos-panel-toggle ${isActive ? 'chaos-panel-toggle-active' : ''} ${className}`}
+        onClick={() => setIsOpen(true)}
+        aria-label={isActive ? 'Mock API chaos (active)' : 'Mock API chaos'}
+      >
+        <Zap aria-hidden="true" />
+        <span>Chaos</span>
+      </button>
+
+      <Drawer
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        position="left"
+        size="sm"
+        title="Mock API chaos"
+        footer={footer}
+        testId="chaos-panel"
+      >
+        <div className="chaos-panel">
+          <p className="chaos-panel-hint">
+            Applies from the next API request. The {CHAOS_CONFIG.HEADER} header and
+            the MOCK_API_CHAOS env variable take the same settings.
+          </p>
+
+          <div className="chaos-panel-field">
+            <span className="chaos-panel-label">Latency profile</span>
+            <Dropdown
+              options={PROFILE_OPTIONS}
+              value={draft.profile ?? 'default'}
+              onChange={value => updateDraft({ profile: value as LatencyProfileName })}
+              size="sm"
+              fullWidth
+            />
+          </div>
+
+          <div className="chaos-panel-row">
+            <Input
+              type="number"
+              label="Error rate (%)"
+              min={0}
+              max={100}
+              size="sm"
+              value={toPercent(draft.errorRate)}
+              onChange={event => updateDraft({ errorRate: fromPercent(event.target.value) })}
+            />
+            <Input
+              type="number"
+              label="Timeout rate (%)"
+              min={0}
+              max={100}
+              size="sm"
+              value={toPercent(draft.timeoutRate)}
+              onChange={event => updateDraft({ timeoutRate: fromPercent(event.target.value) })}
+            />
+          </div>
+
+          <div className="chaos-panel-field">
+            <span className="chaos-panel-label">Failure status</span>
+            <Dropdown
+              options={STATUS_OPTIONS}
+              value={draft.status ? String(draft.status) : ''}
+              onChange={value => updateDraft({ status: toStatus(value) })}
+              size="sm"
+              fullWidth
+            />
+            <span className="chaos-panel-hint">A status without an error rate fails every request</span>
+          </div>
+
+          <div className="chaos-panel-field">
+            <span className="chaos-panel-label">Route overrides</span>
+            {routes.map((rule, index) => (
+              <div key={index} className="chaos-panel-route">
+                <Input
+                  aria-label="Route prefix"
+                  placeholder="/api/games"
+                  size="sm"
+                  value={rule.route}
+                  onChange={event => updateRoute(index, { route: event.target.value })}
+                />
+                <Input
+                  type="number"
+                  aria-label="Route error rate (%)"
+                  placeholder="%"
+                  min={0}
+                  max={100}
+                  size="sm"
+                  value={toPercent(rule.errorRate)}
+                  onChange={event => updateRoute(index, { errorRate: fromPercent(event.target.value) })}
+                />
+                <Dropdown
+                  options={STATUS_OPTIONS}
+                  value={rule.status ? String(rule.status) : ''}
+                  onChange={value => updateRoute(index, { status: toStatus(value) })}
+                  size="sm"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  iconOnly
+                  onClick={() => updateDraft({ routes: routes.filter((_, ruleIndex) => ruleIndex !== index) })}
+                  aria-label={`Remove ${rule.route || 'route'} override`}
+                >
+                  <Trash2 />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={<Plus />}
+              onClick={() => updateDraft({ routes: [...routes, { route: '' }] })}
+            >
+              Add route
+            </Button>
+          </div>
+        </div>
+      </Drawer>
+    </>
+  );
+}
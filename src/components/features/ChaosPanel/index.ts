@@ -0,0 +1,7 @@
+/**
+ * @fileoverview ChaosPanel component exports
+ * @module components/features/ChaosPanel
+ */
+
+export { ChaosPanel } from './ChaosPanel';
+export type { ChaosPanelProps } from './ChaosPanel';
@@ -0,0 +1,91 @@
+/**
+ * CollectionPicker Stories
+ * Storybook stories for the CollectionPicker component
+ */
+
+import type { Meta, StoryObj } from '@storybook/nextjs';
+import { CollectionPicker } from './CollectionPicker';
+import type { FavoriteCollection } from '@/lib/core/domain/entities';
+
+const meta = {
+  title: 'Features/CollectionPicker',
+  component: CollectionPicker,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component: 'Menu for adding a game to named favorite collections, with an inline form to create a new one.'
+      }
+    }
+  },
+  argTypes: {
+    onToggle: {
+      action: 'toggle',
+      description: 'Callback when a collection is checked or unchecked'
+    },
+    onCreate: {
+      action: 'create',
+      description: 'Callback to create a collection containing the game'
+    },
+    align: {
+      control: 'radio',
+      options: ['left', 'right']
+    }
+  }
+} satisfies Meta<typeof CollectionPicker>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Sample collections
+const sampleCollections: FavoriteCollection[] = [
+  {
+    id: 'collection-1',
+    name: 'Weekend slots',
+    gameIds: ['game-1', 'game-2'],
+    createdAt: '2024-01-15T00:00:00.000Z',
+    updatedAt: '2024-01-15T00:00:00.000Z'
+  },
+  {
+    id: 'collection-2',
+    name: 'High RTP',
+    gameIds: ['game-3'],
+    createdAt: '2024-01-20T00:00:00.000Z',
+    updatedAt: '2024-01-20T00:00:00.000Z'
+  }
+];
+
+export const Default: Story = {
+  args: {
+    gameId: 'game-1',
+    collections: sampleCollections,
+    onToggle: () => {},
+    onCreate: () => {}
+  }
+};
+
+export const NotInAnyCollection: Story = {
+  args: {
+    gameId: 'game-9',
+    collections: sampleCollections,
+    onToggle: () => {},
+    onCreate: () => {}
+  }
+};
+
+export const NoCollections: Story = {
+  args: {
+    gameId: 'game-1',
+    collections: [],
+    onToggle: () => {},
+    onCreate: () => {}
+  }
+};
+
+export const WithoutCreate: Story = {
+  args: {
+    gameId: 'game-1',
+    collections: sampleCollections,
+    onToggle: () => {}
+  }
+};
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview CollectionPicker component for adding a game to named favorite collections
+ * @module components/features/CollectionPicker
+ */
+
+'use client';
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { FolderHeart, FolderPlus, Check, Plus } from 'lucide-react';
+import { Button, type ButtonSize } from '@/components/ui/Button';
+import { Tooltip } from '@/components/ui/Tooltip';
+import type { FavoriteCollection } from '@/lib/core/domain/entities';
+import { FAVORITE_COLLECTION_NAME_MAX_LENGTH } from '@/lib/core/domain/entities';
+import { UI_DELAYS } from '@/lib/core/config/constants/app.constants';
+import '@/styles/components/features/collection-picker.css';
+
+/**
+ * Props for the CollectionPicker component
+ * @interface CollectionPickerProps
+ */
+export interface CollectionPickerProps {
+  /** Game the picker manages membership for */
+  gameId: string;
+  /** Visitor's collections in display order */
+  collections: FavoriteCollection[];
+  /** Callback when a collection is checked or unchecked */
+  onToggle: (collectionId: string, gameId: string) => void;
+  /** Callback to create a collection containing the game (hides the create form when omitted) */
+  onCreate?: (name: string, gameId: string) => void;
+  /** Size of the trigger button */
+  size?: ButtonSize;
+  /** Position of the menu relative to the trigger */
+  align?: 'left' | 'right';
+  /** Custom className for additional styling */
+  className?: string;
+  /** Test ID for testing */
+  testId?: string;
+}
+
+/**
+ * CollectionPicker Component
+ * 
+ * @description Trigger button with a menu of checkable collections and an inline form to create one.
+ * Clicks inside the picker do not propagate, so it can sit inside clickable cards.
+ * 
+ * @example
+ * ```tsx
+ * <CollectionPicker
+ *   gameId={game.id}
+ *   collections={collections}
+ *   onToggle={toggleGameInCollection}
+ *   onCreate={(name, gameId) => createCollection(name, [gameId])}
+ * />
+ * ```
+ */
+export const CollectionPicker: React.FC<CollectionPickerProps> = ({
+  gameId,
+  collections,
+  onToggle,
+  onCreate,
+  size = 'sm',
+  align = 'right',
+  className = '',
+  testId = 'collection-picker'
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const pickerRef = useRef<HTMLDivElement>(null);
+  
+  const isInAnyCollection = collections.some(collection => collection.gameIds.includes(gameId));
+  const trimmedName = newName.trim();
+  const isNameTaken = collections.some(collection => 
+    collection.name.toLowerCase() === trimmedName.toLowerCase()
+  );
+
+  /**
+   * Close the menu on outside click or Escape
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+    
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  /**
+   * Handle trigger click
+   */
+  const handleTriggerClick = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsOpen(open => !open);
+  }, []);
+
+  /**
+   * Handle create form submit
+   */
+  const handleCreate = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    
+    if (!onCreate || !trimmedName || isNameTaken) return;
+    
+    onCreate(trimmedName, gameId);
+    setNewName('');
+  }, [onCreate, trimmedName, isNameTaken, gameId]);
+
+  return (
+    <div 
+      ref={pickerRef}
+      className={`collection-picker ${className}`}
+      onClick={(e) => e.stopPropagation()}
+      data-testid={testId}
+    >
+      <Tooltip content="Add to collection" delay={UI_DELAYS.TOOLTIP_DELAY_LONG}>
+        <Button
+          variant="ghost"
+          size={size}
+          iconOnly
+          onClick={handleTriggerClick}
+          aria-label="Add to collection"
+          aria-haspopup="menu"
+          aria-expanded={isOpen}
+        >
+          {isInAnyCollection ? (
+            <FolderHeart className="w-4 h-4 collection-picker-icon-active" />
+          ) : (
+            <FolderPlus className="w-4 h-4" />
+          )}
+        </Button>
+      </Tooltip>
+      
+      {isOpen && (
+        <div 
+          className={`collection-picker-menu collection-picker-menu-${align}`}
+          role="menu"
+          data-testid={`${testId}-menu`}
+        >
+          <div className="collection-picker-title">Collections</div>
+          
+          {collections.length === 0 ? (
+            <p className="collection-picker-empty">No collections yet</p>
+          ) : (
+            <ul className="collection-picker-list">
+              {collections.map(collection => {
+                const isChecked = collection.gameIds.includes(gameId);
+                
+                return (
+                  <li key={collection.id}>
+                    <button
+                      type="button"
+                      role="menuitemcheckbox"
+                      aria-checked={isChecked}
+                      className={`collection-picker-option ${isChecked ? 'collection-picker-option-checked' : ''}`}
+                      onClick={() => onToggle(collection.id, gameId)}
+                    >
+                      <span className="collection-picker-checkbox">
+                        {isChecked && <Check className="w-3 h-3" />}
+                      </span>
+                      <span className="collection-picker-name">{collection.name}</span>
+                      <span className="collection-picker-count">{collection.gameIds.length}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          
+          {onCreate && (
+            <form className="collection-picker-create" onSubmit={handleCreate}>
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New collection"
+                maxLength={FAVORITE_COLLECTION_NAME_MAX_LENGTH}
+                className="collection-picker-input"
+                aria-label="New collection name"
+              />
+              <Button
+                type="submit"
+                variant="primary"
+                size="sm"
+                iconOnly
+                disabled={!trimmedName || isNameTaken}
+                aria-label="Create collection"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+CollectionPicker.displayName = 'CollectionPicker';
+
+export default CollectionPicker;
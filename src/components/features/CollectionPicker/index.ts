@@ -0,0 +1,7 @@
+/**
+ * @fileoverview CollectionPicker component exports
+ * @module components/features/CollectionPicker
+ */
+
+export { CollectionPicker } from './CollectionPicker';
+export type { CollectionPickerProps } from './CollectionPicker';
@@ -27,6 +27,7 @@ FilterPanel component for comprehensive game filtering.
 - 🏢 Provider filtering
 - 🏷️ Tag filtering
 - ⭐ Special filters (favorites, new, hot)
+- 📌 Followed providers and tags pinned first
 - 📱 Mobile responsive
 - 🎨 Theme support
 - 🔢 Active filter count
@@ -133,6 +134,35 @@ export const Collapsed: Story = {
   }
 };
 
+/**
+ * Followed providers and tags pinned to the top, with follow toggles
+ */
+export const WithFollowed: Story = {
+  render: function WithFollowedStory(args) {
+    const [followedProviderIds, setFollowedProviderIds] = useState<string[]>([sampleProviders[3].id]);
+    const [followedTags, setFollowedTags] = useState<string[]>([sampleTags[2].toLowerCase()]);
+    
+    const toggle = (ids: string[], id: string) => 
+      ids.includes(id) ? ids.filter(item => item !== id) : [...ids, id];
+    
+    return (
+      <FilterPanel
+        {...args}
+        followedProviderIds={followedProviderIds}
+        followedTags={followedTags}
+        onProviderFollowToggle={(providerId) => setFollowedProviderIds(ids => toggle(ids, providerId))}
+        onTagFollowToggle={(tag) => setFollowedTags(tags => toggle(tags, tag.toLowerCase()))}
+      />
+    );
+  },
+  args: {
+    providers: sampleProviders,
+    tags: sampleTags,
+    collapsible: false,
+    showCount: true
+  }
+};
+
 /**
  * Non-collapsible
  */
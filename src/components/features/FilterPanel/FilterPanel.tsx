@@ -12,17 +12,33 @@ import {
   Filter, 
   X, 
   Check,
-  ArrowRight
+  ArrowRight,
+  Star,
+  Ban
 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Card } from '@/components/ui/Card';
 import { FormFieldCheckbox } from '@/components/ui/FormField/FormFieldCheckbox';
 import { FormFieldDualRange } from '@/components/ui/FormField/FormFieldDualRange';
-import { GAME_TYPE_CONFIG, SORT_OPTIONS, VIEW_MODES, RTP_PRESETS } from '@/lib/core/config/constants/app.constants';
+import {
+  GAME_TYPE_CONFIG,
+  SORT_OPTIONS,
+  VIEW_MODES,
+  RTP_PRESETS,
+  RANGE_FILTERS,
+  RANGE_FILTER_KEYS,
+  TAG_MATCH_MODES
+} from '@/lib/core/config/constants/app.constants';
 import type { GameType } from '@/lib/core/domain/entities/Game';
 import type { Provider } from '@/lib/core/domain/entities/Provider';
-import type { FilterState as SharedFilterState } from '@/lib/core/shared/types';
+import type { FavoriteCollection } from '@/lib/core/domain/entities/FavoriteCollection';
+import type {
+  FilterState as SharedFilterState,
+  FilterFacets,
+  RangeFilters,
+  TagMatchMode
+} from '@/lib/core/shared/types';
 import type { SortOption } from '@/lib/core/domain/models';
 import { useDebounce } from '@/lib/core/frontend/hooks/useDebounce';
 import '@/styles/components/features/filter-panel.css';
@@ -58,6 +74,16 @@ export interface FilterPanelProps {
   providers?: Provider[];
   /** Available tags */
   tags?: string[];
+  /** Favorite collections offered as a sub-filter of Favorites */
+  collections?: FavoriteCollection[];
+  /** Followed provider IDs, pinned to the top of the providers list */
+  followedProviderIds?: string[];
+  /** Followed tag IDs (lowercase), pinned to the top of the tags list */
+  followedTags?: string[];
+  /** Callback to follow/unfollow a provider (shows a follow toggle per provider) */
+  onProviderFollowToggle?: (providerId: string) => void;
+  /** Callback to follow/unfollow a tag (shows a follow toggle per tag) */
+  onTagFollowToggle?: (tag: string) => void;
   /** Current filter state */
   filters?: FilterState;
   /** Callback when filters change */
@@ -66,8 +92,12 @@ export interface FilterPanelProps {
   collapsible?: boolean;
   /** Default collapsed state */
   defaultCollapsed?: boolean;
-  /** Show filter count badge */
+  /** Show filter count badge and per-option facet counts */
   showCount?: boolean;
+  /** Facet counts per option, computed against the other active filters */
+  facets?: FilterFacets;
+  /** Whether a search query is active (enables relevance sorting) */
+  hasSearch?: boolean;
   /** Mobile responsive mode */
   mobileMode?: 'drawer' | 'accordion' | 'inline';
   /** Control padding for drawer mode */
@@ -92,6 +122,72 @@ export interface FilterPanelProps {
  */
 const gameTypes = GAME_TYPE_CONFIG;
 
+/**
+ * Include/exclude state of a filter chip
+ */
+type ChipState = 'included' | 'excluded' | 'off';
+
+/**
+ * Cycle a chip value: off → included → excluded → off
+ */
+function cycleChip<T>(included: T[], excluded: T[], value: T): { included: T[]; excluded: T[] } {
+  if (included.includes(value)) {
+    return { included: included.filter(item => item !== value), excluded: [...excluded, value] };
+  }
+  if (excluded.includes(value)) {
+    return { included, excluded: excluded.filter(item => item !== value) };
+  }
+  return { included: [...included, value], excluded };
+}
+
+/**
+ * Chip state of a value
+ */
+function getChipState<T>(included: T[], excluded: T[] = [], value: T): ChipState {
+  if (included.includes(value)) return 'included';
+  if (excluded.includes(value)) return 'excluded';
+  return 'off';
+}
+
+/**
+ * Tooltip describing what clicking a chip does next
+ */
+const CHIP_TITLES: Record<ChipState, string> = {
+  off: 'Click to include',
+  included: 'Included: click to exclude',
+  excluded: 'Excluded: click to clear'
+};
+
+/**
+ * Range filter (RTP, rating, max win, bet) configuration
+ */
+type RangeFilterConfig = typeof RANGE_FILTERS[number];
+type RangeFilterName = RangeFilterConfig['name'];
+type RangeValues = Record<RangeFilterName, [number, number]>;
+
+/**
+ * Slider values for each range filter, defaulting to the slider bounds
+ */
+function getRangeValues(filters: RangeFilters): RangeValues {
+  return Object.fromEntries(RANGE_FILTERS.map(range => [
+    range.name,
+    [filters[range.minParam] ?? range.min, filters[range.maxParam] ?? range.max]
+  ])) as RangeValues;
+}
+
+/**
+ * Range filters for slider values; a range left at its bounds is cleared
+ */
+function toRangeFilters(values: RangeValues): RangeFilters {
+  return RANGE_FILTERS.reduce<RangeFilters>((ranges, range) => {
+    const [min, max] = values[range.name];
+    const isDefault = min === range.min && max === range.max;
+    ranges[range.minParam] = isDefault ? undefined : min;
+    ranges[range.maxParam] = isDefault ? undefined : max;
+    return ranges;
+  }, {});
+}
+
 /**
  * FilterPanel Component
  * 
@@ -110,6 +206,11 @@ const gameTypes = GAME_TYPE_CONFIG;
 export const FilterPanel: React.FC<FilterPanelProps> = ({
   providers = [],
   tags = [],
+  collections = [],
+  followedProviderIds = [],
+  followedTags = [],
+  onProviderFollowToggle,
+  onTagFollowToggle,
   filters = {
     providers: [],
     types: [],
@@ -125,6 +226,8 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
   collapsible = true,
   defaultCollapsed = false,
   showCount = true,
+  facets,
+  hasSearch = false,
   mobileMode = 'accordion',
   drawerPadding = 'md',
   disabled = false,
@@ -140,46 +243,42 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
     viewMode: true
   });
 
-  // Local state for immediate RTP updates (before debouncing)
-  const [localRtpRange, setLocalRtpRange] = useState<[number, number]>([
-    filters.minRtp ?? 0, 
-    filters.maxRtp ?? 100
-  ]);
+  // Local state for immediate range updates (before debouncing)
+  const [localRanges, setLocalRanges] = useState<RangeValues>(() => getRangeValues(filters));
 
   // Track when local state was last updated by user vs external changes
   const lastUserUpdateRef = useRef<number>(0);
   const isExternalUpdateRef = useRef(false);
 
-  // Debounce local RTP changes
-  const debouncedRtpRange = useDebounce(localRtpRange, 500);
+  // Debounce local range changes
+  const debouncedRanges = useDebounce(localRanges, 500);
+
+  // Range filter values as a stable dependency
+  const rangeFiltersKey = RANGE_FILTER_KEYS.map(key => filters[key] ?? '').join(',');
 
   // Update local state when filters change externally (URL, clear filters, etc.)
   useEffect(() => {
     if (!isExternalUpdateRef.current) {
       // This is likely an external change, update local state
-      const newMin = filters.minRtp ?? 0;
-      const newMax = filters.maxRtp ?? 100;
-      setLocalRtpRange([newMin, newMax]);
+      setLocalRanges(getRangeValues(filters));
     }
     isExternalUpdateRef.current = false;
-  }, [filters.minRtp, filters.maxRtp]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rangeFiltersKey]);
 
-  // Trigger filter change when debounced RTP range changes from user input
+  // Trigger filter change when debounced ranges change from user input
   useEffect(() => {
     // Only trigger if this was from user input (not from external filter changes)
     if (Date.now() - lastUserUpdateRef.current < 1000) {
-      const [min, max] = debouncedRtpRange;
       isExternalUpdateRef.current = true; // Mark as our own update
       
       onFilterChange?.({
         ...filters,
-        // Only set to undefined if both are at default (0-100)
-        minRtp: min === 0 && max === 100 ? undefined : min,
-        maxRtp: min === 0 && max === 100 ? undefined : max
+        ...toRangeFilters(debouncedRanges)
       });
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [debouncedRtpRange]);
+  }, [debouncedRanges]);
 
   /**
    * Helper to check if a section is disabled
@@ -191,6 +290,55 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
     return disabled?.[section] ?? false;
   }, [disabled]);
 
+  /**
+   * Tag facet counts flattened across categories
+   */
+  const tagFacetCounts = useMemo<Record<string, number> | undefined>(() => {
+    if (!facets) return undefined;
+    return Object.values(facets.tags).reduce((all, group) => ({ ...all, ...group }), {});
+  }, [facets]);
+
+  /**
+   * Get the facet count for an option (undefined when counts are hidden or unavailable)
+   */
+  const getFacetCount = useCallback((
+    dimension: 'providers' | 'types' | 'tags' | 'flags',
+    value: string
+  ): number | undefined => {
+    if (!showCount || !facets) return undefined;
+    
+    switch (dimension) {
+      case 'tags':
+        return tagFacetCounts?.[value.toLowerCase()] ?? 0;
+      case 'flags':
+        return facets.flags[value as keyof FilterFacets['flags']] ?? 0;
+      default:
+        return facets[dimension][value] ?? 0;
+    }
+  }, [showCount, facets, tagFacetCounts]);
+
+  /**
+   * Providers with followed ones pinned first (original order kept within each group)
+   */
+  const sortedProviders = useMemo(() => [
+    ...providers.filter(provider => followedProviderIds.includes(provider.id)),
+    ...providers.filter(provider => !followedProviderIds.includes(provider.id))
+  ], [providers, followedProviderIds]);
+
+  /**
+   * Tags with followed ones pinned first (original order kept within each group)
+   */
+  const sortedTags = useMemo(() => {
+    const isFollowedTag = (tag: string) => followedTags.includes(tag.toLowerCase());
+    return [...tags.filter(isFollowedTag), ...tags.filter(tag => !isFollowedTag(tag))];
+  }, [tags, followedTags]);
+
+  /**
+   * Options that would return no results are greyed out unless already selected
+   */
+  const isFacetEmpty = (count: number | undefined, isSelected: boolean) => 
+    count === 0 && !isSelected;
+
   /**
    * Check if entire panel is disabled
    */
@@ -208,78 +356,119 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
   }, [isAllDisabled]);
 
   /**
-   * Toggle provider filter
+   * Cycle provider filter: include, exclude, off
    */
   const toggleProvider = useCallback((providerId: string) => {
     if (isSectionDisabled('providers')) return;
     
-    const newProviders = filters.providers.includes(providerId)
-      ? filters.providers.filter(id => id !== providerId)
-      : [...filters.providers, providerId];
+    const { included, excluded } = cycleChip(filters.providers, filters.excludeProviders ?? [], providerId);
     
     onFilterChange?.({
       ...filters,
-      providers: newProviders
+      providers: included,
+      excludeProviders: excluded
     });
   }, [filters, onFilterChange, isSectionDisabled]);
 
   /**
-   * Toggle game type filter
+   * Cycle game type filter: include, exclude, off
    */
   const toggleType = useCallback((type: GameType) => {
     if (isSectionDisabled('types')) return;
     
-    const newTypes = filters.types.includes(type)
-      ? filters.types.filter(t => t !== type)
-      : [...filters.types, type];
+    const { included, excluded } = cycleChip(filters.types, filters.excludeTypes ?? [], type);
     
     onFilterChange?.({
       ...filters,
-      types: newTypes
+      types: included,
+      excludeTypes: excluded
     });
   }, [filters, onFilterChange, isSectionDisabled]);
 
   /**
-   * Toggle tag filter
+   * Cycle tag filter: include, exclude, off
    */
   const toggleTag = useCallback((tag: string) => {
     if (isSectionDisabled('tags')) return;
     
-    const newTags = filters.tags.includes(tag)
-      ? filters.tags.filter(t => t !== tag)
-      : [...filters.tags, tag];
+    const { included, excluded } = cycleChip(filters.tags, filters.excludeTags ?? [], tag);
+    
+    onFilterChange?.({
+      ...filters,
+      tags: included,
+      excludeTags: excluded
+    });
+  }, [filters, onFilterChange, isSectionDisabled]);
+
+  /**
+   * Switch between matching any or all of the included tags
+   */
+  const handleTagModeChange = useCallback((tagMode: TagMatchMode) => {
+    if (isSectionDisabled('tags')) return;
     
     onFilterChange?.({
       ...filters,
-      tags: newTags
+      tagMode
     });
   }, [filters, onFilterChange, isSectionDisabled]);
 
   /**
    * Toggle special filters
    */
-  const toggleSpecial = useCallback((key: 'favorites' | 'isNew' | 'isHot' | 'isComingSoon') => {
+  const toggleSpecial = useCallback((key: 'favorites' | 'recent' | 'isNew' | 'isHot' | 'isComingSoon') => {
     if (isSectionDisabled('special')) return;
     
     onFilterChange?.({
       ...filters,
-      [key]: !filters[key]
+      [key]: !filters[key],
+      ...(key === 'favorites' && { favoritesCollection: undefined })
+    });
+  }, [filters, onFilterChange, isSectionDisabled]);
+
+  /**
+   * Narrow the favorites filter to a collection (undefined means all favorites)
+   */
+  const selectCollection = useCallback((collectionId?: string) => {
+    if (isSectionDisabled('special')) return;
+    
+    onFilterChange?.({
+      ...filters,
+      favorites: true,
+      favoritesCollection: collectionId
     });
   }, [filters, onFilterChange, isSectionDisabled]);
 
   /**
    * Handle RTP range change (updates local state for immediate UI feedback)
    */
-  const handleRtpChange = useCallback((value: [number, number]) => {
+  const handleRangeChange = useCallback((name: RangeFilterName, value: [number, number]) => {
     if (isSectionDisabled('special')) return;
     
     // Track that this was a user update
     lastUserUpdateRef.current = Date.now();
     
     // Update local state immediately for responsive UI
-    setLocalRtpRange(value);
+    setLocalRanges(prev => ({ ...prev, [name]: value }));
   }, [isSectionDisabled]);
 
+  /**
+   * Quick-pick suggestions for a range filter
+   * RTP uses the bounded RTP presets with their facet counts
+   */
+  const getRangeSuggestions = (range: RangeFilterConfig) => {
+    if (range.name !== 'rtp') {
+      return range.presets.map(preset => ({ label: preset.label, value: [preset.min, preset.max] }));
+    }
+    
+    return RTP_PRESETS.filter(preset => preset.min !== undefined && preset.max !== undefined).map(preset => {
+      const rtpFacet = showCount ? facets?.rtp.find(bucket => bucket.label === preset.label) : undefined;
+      return {
+        label: rtpFacet ? `${preset.label} (${rtpFacet.count})` : preset.label,
+        value: [preset.min!, preset.max!]
+      };
+    });
+  };
+
 
   /**
    * Toggle sort option
@@ -315,14 +504,19 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
       providers: [],
       types: [],
       tags: [],
+      tagMode: 'any',
+      excludeProviders: [],
+      excludeTypes: [],
+      excludeTags: [],
       favorites: false,
+      favoritesCollection: undefined,
+      recent: false,
       isNew: false,
       isHot: false,
       isComingSoon: false,
       sort: 'popular',
       viewMode: 'grid',
-      minRtp: undefined,
-      maxRtp: undefined
+      ...toRangeFilters(getRangeValues({}))
     });
   }, [onFilterChange, isAllDisabled]);
 
@@ -333,14 +527,42 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
     return filters.providers.length + 
            filters.types.length + 
            filters.tags.length +
+           (filters.excludeProviders?.length ?? 0) +
+           (filters.excludeTypes?.length ?? 0) +
+           (filters.excludeTags?.length ?? 0) +
            (filters.favorites ? 1 : 0) +
+           (filters.recent ? 1 : 0) +
            (filters.isNew ? 1 : 0) +
            (filters.isHot ? 1 : 0) +
            (filters.isComingSoon ? 1 : 0) +
-           (filters.minRtp !== undefined ? 1 : 0) +
-           (filters.maxRtp !== undefined ? 1 : 0);
+           RANGE_FILTER_KEYS.filter(key => filters[key] !== undefined).length;
   }, [filters]);
 
+  /**
+   * Render the follow star for a provider or tag
+   * Read-only marker when no toggle callback is given
+   */
+  const renderFollowToggle = (label: string, isFollowed: boolean, onToggle?: () => void) => {
+    if (!onToggle) {
+      return isFollowed ? (
+        <Star className="filter-follow-icon filter-follow-active" aria-label="Followed" />
+      ) : null;
+    }
+    
+    return (
+      <button
+        type="button"
+        className={`filter-follow-btn ${isFollowed ? 'filter-follow-active' : ''}`}
+        onClick={onToggle}
+        aria-pressed={isFollowed}
+        aria-label={isFollowed ? `Unfollow ${label}` : `Follow ${label}`}
+        title={isFollowed ? 'Unfollow' : 'Follow'}
+      >
+        <Star className="filter-follow-icon" />
+      </button>
+    );
+  };
+
   /**
    * Render filter section
    */
@@ -477,76 +699,130 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
                 <Button
                   variant="outline"
                   size="sm"
-                  className={`filter-special-item ${filters.isNew ? 'filter-special-active' : ''} ${isSectionDisabled('special') ? 'filter-item-disabled' : ''}`}
-                  onClick={() => toggleSpecial('isNew')}
+                  className={`filter-special-item ${filters.recent ? 'filter-special-active' : ''} ${isSectionDisabled('special') ? 'filter-item-disabled' : ''}`}
+                  onClick={() => toggleSpecial('recent')}
                   disabled={isSectionDisabled('special')}
+                >
+                  <span className="filter-special-icon">🕒</span>
+                  <span>Recently Played</span>
+                  {filters.recent && <Check className="filter-special-check" />}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={`filter-special-item ${filters.isNew ? 'filter-special-active' : ''} ${isSectionDisabled('special') ? 'filter-item-disabled' : ''} ${isFacetEmpty(getFacetCount('flags', 'isNew'), filters.isNew) ? 'filter-item-empty' : ''}`}
+                  onClick={() => toggleSpecial('isNew')}
+                  disabled={isSectionDisabled('special') || isFacetEmpty(getFacetCount('flags', 'isNew'), filters.isNew)}
                 >
                   <span className="filter-special-icon">✨</span>
                   <span>New</span>
+                  {getFacetCount('flags', 'isNew') !== undefined && (
+                    <span className="filter-facet-count">{getFacetCount('flags', 'isNew')}</span>
+                  )}
                   {filters.isNew && <Check className="filter-special-check" />}
                 </Button>
                 <Button
                   variant="outline"
                   size="sm"
-                  className={`filter-special-item ${filters.isHot ? 'filter-special-active' : ''} ${isSectionDisabled('special') ? 'filter-item-disabled' : ''}`}
+                  className={`filter-special-item ${filters.isHot ? 'filter-special-active' : ''} ${isSectionDisabled('special') ? 'filter-item-disabled' : ''} ${isFacetEmpty(getFacetCount('flags', 'isHot'), filters.isHot) ? 'filter-item-empty' : ''}`}
                   onClick={() => toggleSpecial('isHot')}
-                  disabled={isSectionDisabled('special')}
+                  disabled={isSectionDisabled('special') || isFacetEmpty(getFacetCount('flags', 'isHot'), filters.isHot)}
                 >
                   <span className="filter-special-icon">🔥</span>
                   <span>Hot</span>
+                  {getFacetCount('flags', 'isHot') !== undefined && (
+                    <span className="filter-facet-count">{getFacetCount('flags', 'isHot')}</span>
+                  )}
                   {filters.isHot && <Check className="filter-special-check" />}
                 </Button>
                 <Button
                   variant="outline"
                   size="sm"
-                  className={`filter-special-item filter-special-flashy ${filters.isComingSoon ? 'filter-special-active' : ''} ${isSectionDisabled('special') ? 'filter-item-disabled' : ''}`}
+                  className={`filter-special-item filter-special-flashy ${filters.isComingSoon ? 'filter-special-active' : ''} ${isSectionDisabled('special') ? 'filter-item-disabled' : ''} ${isFacetEmpty(getFacetCount('flags', 'isComingSoon'), !!filters.isComingSoon) ? 'filter-item-empty' : ''}`}
                   onClick={() => toggleSpecial('isComingSoon')}
-                  disabled={isSectionDisabled('special')}
+                  disabled={isSectionDisabled('special') || isFacetEmpty(getFacetCount('flags', 'isComingSoon'), !!filters.isComingSoon)}
                 >
                   <span className="filter-special-icon">🚀</span>
                   <span>Coming Soon</span>
+                  {getFacetCount('flags', 'isComingSoon') !== undefined && (
+                    <span className="filter-facet-count">{getFacetCount('flags', 'isComingSoon')}</span>
+                  )}
                   {filters.isComingSoon && <Check className="filter-special-check" />}
                 </Button>
               </div>
             </div>
+
+            {filters.favorites && collections.length > 0 && (
+              <div className="filter-subsection">
+                <h4 className="filter-subsection-title">Collections</h4>
+                <div className="filter-collection-list">
+                  <button
+                    type="button"
+                    className={`filter-collection-item ${!filters.favoritesCollection ? 'filter-collection-active' : ''}`}
+                    onClick={() => selectCollection(undefined)}
+                    disabled={isSectionDisabled('special')}
+                  >
+                    <span className="filter-collection-name">All favorites</span>
+                    {!filters.favoritesCollection && <Check className="filter-collection-check" />}
+                  </button>
+                  {collections.map(collection => (
+                    <button
+                      key={collection.id}
+                      type="button"
+                      className={`filter-collection-item ${filters.favoritesCollection === collection.id ? 'filter-collection-active' : ''}`}
+                      onClick={() => selectCollection(collection.id)}
+                      disabled={isSectionDisabled('special')}
+                    >
+                      <span className="filter-collection-name">{collection.name}</span>
+                      <span className="filter-facet-count">{collection.gameIds.length}</span>
+                      {filters.favoritesCollection === collection.id && <Check className="filter-collection-check" />}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             
-            <div className="filter-subsection">
-              <div className="filter-rtp-section">
-                <FormFieldDualRange
-                  label="RTP Range (%)"
-                  config={{
-                    min: 0,
-                    max: 100,
-                    step: 0.1,
-                    suffix: '%'
-                  }}
-                  value={localRtpRange}
-                  onChange={handleRtpChange}
-                  minLabel="Min"
-                  maxLabel="Max"
-                  separator={<ArrowRight className="w-4 h-4" />}
-                  disabled={isSectionDisabled('special')}
-                  suggestions={RTP_PRESETS.filter(preset => preset.min !== undefined && preset.max !== undefined).map(preset => ({
-                    label: preset.label,
-                    value: [preset.min!, preset.max!]
-                  }))}
-                  showSuggestions={true}
-                  className="filter-rtp-inputs"
-                />
+            {RANGE_FILTERS.map(range => (
+              <div key={range.name} className="filter-subsection">
+                <div className="filter-range-section">
+                  <FormFieldDualRange
+                    label={range.label}
+                    config={{
+                      min: range.min,
+                      max: range.max,
+                      step: range.step,
+                      suffix: range.suffix
+                    }}
+                    value={localRanges[range.name]}
+                    onChange={value => handleRangeChange(range.name, value)}
+                    minLabel="Min"
+                    maxLabel="Max"
+                    separator={<ArrowRight className="w-4 h-4" />}
+                    disabled={isSectionDisabled('special')}
+                    suggestions={getRangeSuggestions(range)}
+                    showSuggestions={true}
+                    className="filter-range-inputs"
+                  />
+                </div>
               </div>
-            </div>
+            ))}
             
             <div className="filter-subsection">
               <h4 className="filter-subsection-title">Sort By</h4>
               <div className="filter-sort-grid">
                 {SORT_OPTIONS.filter(option => 
                   // Skip 'popular' and 'new' as they're covered by Quick Filters
-                  option.value !== 'popular' && option.value !== 'new'
+                  option.value !== 'popular' && option.value !== 'new' &&
+                  // Relevance only applies while searching
+                  (option.value !== 'relevance' || hasSearch)
                 ).map(option => {
                   const icons: Record<string, string> = {
+                    'relevance': '🎯',
+                    'trending': '🚀',
                     'az': '⬆️',
                     'za': '⬇️',
-                    'rating': '⭐'
+                    'rating': '⭐',
+                    'rtp': '📈'
                   };
                   
                   return (
@@ -574,22 +850,35 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
         {/* Game Types */}
         {renderSection('Game Types', 'types', (
           <div className="filter-types-grid">
-            {gameTypes.map(type => (
-              <Button
-                key={type.value}
-                variant="outline"
-                size="sm"
-                className={`filter-type-item ${filters.types.includes(type.value) ? 'filter-type-active' : ''} ${isSectionDisabled('types') ? 'filter-item-disabled' : ''}`}
-                onClick={() => toggleType(type.value)}
-                disabled={isSectionDisabled('types')}
-              >
-                <span className="filter-type-icon">{type.icon}</span>
-                <span className="filter-type-label">{type.label}</span>
-                {filters.types.includes(type.value) && (
-                  <Check className="filter-type-check" />
-                )}
-              </Button>
-            ))}
+            {gameTypes.map(type => {
+              const state = getChipState<GameType>(filters.types, filters.excludeTypes, type.value);
+              const count = getFacetCount('types', type.value);
+              const isEmpty = isFacetEmpty(count, state !== 'off');
+              
+              return (
+                <Button
+                  key={type.value}
+                  variant="outline"
+                  size="sm"
+                  className={`filter-type-item ${state === 'included' ? 'filter-type-active' : ''} ${state === 'excluded' ? 'filter-type-excluded' : ''} ${isSectionDisabled('types') ? 'filter-item-disabled' : ''} ${isEmpty ? 'filter-item-empty' : ''}`}
+                  onClick={() => toggleType(type.value)}
+                  disabled={isSectionDisabled('types') || isEmpty}
+                  title={CHIP_TITLES[state]}
+                >
+                  <span className="filter-type-icon">{type.icon}</span>
+                  <span className="filter-type-label">{type.label}</span>
+                  {count !== undefined && (
+                    <span className="filter-facet-count">{count}</span>
+                  )}
+                  {state === 'included' && (
+                    <Check className="filter-type-check" />
+                  )}
+                  {state === 'excluded' && (
+                    <Ban className="filter-type-check filter-exclude-icon" />
+                  )}
+                </Button>
+              );
+            })}
           </div>
         ))}
 
@@ -628,38 +917,84 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({
         {/* Providers */}
         {providers.length > 0 && renderSection('Providers', 'providers', (
           <div className="filter-providers-list">
-            {providers.map(provider => (
-              <FormFieldCheckbox
-                key={provider.id}
-                checkboxLabel={provider.name}
-                checked={filters.providers.includes(provider.id)}
-                onChange={() => toggleProvider(provider.id)}
-                disabled={isSectionDisabled('providers')}
-                rightContent={provider.gameCount ? (
-                  <span className="filter-provider-count">({provider.gameCount})</span>
-                ) : undefined}
-                testId={`filter-provider-${provider.id}`}
-              />
-            ))}
+            {sortedProviders.map(provider => {
+              const state = getChipState(filters.providers, filters.excludeProviders, provider.id);
+              const isFollowed = followedProviderIds.includes(provider.id);
+              const count = getFacetCount('providers', provider.id) ?? provider.gameCount;
+              const showCountLabel = count !== undefined && (count > 0 || !!facets);
+              
+              return (
+                <FormFieldCheckbox
+                  key={provider.id}
+                  checkboxLabel={provider.name}
+                  checked={state !== 'off'}
+                  indeterminate={state === 'excluded'}
+                  onChange={() => toggleProvider(provider.id)}
+                  disabled={isSectionDisabled('providers') || isFacetEmpty(getFacetCount('providers', provider.id), state !== 'off')}
+                  className={state === 'excluded' ? 'filter-provider-excluded' : ''}
+                  rightContent={showCountLabel || onProviderFollowToggle || isFollowed ? (
+                    <>
+                      {showCountLabel && <span className="filter-provider-count">({count})</span>}
+                      {renderFollowToggle(provider.name, isFollowed, onProviderFollowToggle && (() => onProviderFollowToggle(provider.id)))}
+                    </>
+                  ) : undefined}
+                  testId={`filter-provider-${provider.id}`}
+                />
+              );
+            })}
           </div>
         ))}
 
         {/* Tags */}
         {tags.length > 0 && renderSection('Tags', 'tags', (
+          <>
+          {filters.tags.length > 1 && (
+            <div className="filter-tag-mode" role="group" aria-label="Tag matching">
+              <span className="filter-tag-mode-label">Match</span>
+              {TAG_MATCH_MODES.map(mode => (
+                <Button
+                  key={mode.value}
+                  variant="outline"
+                  size="sm"
+                  className={`filter-tag-mode-item ${(filters.tagMode ?? 'any') === mode.value ? 'filter-tag-mode-active' : ''}`}
+                  onClick={() => handleTagModeChange(mode.value)}
+                  disabled={isSectionDisabled('tags')}
+                  aria-pressed={(filters.tagMode ?? 'any') === mode.value}
+                >
+                  {mode.label}
+                </Button>
+              ))}
+            </div>
+          )}
           <div className="filter-tags-grid">
-            {tags.map(tag => (
-              <Button
-                key={tag}
-                variant="outline"
-                size="sm"
-                className={`filter-tag-item ${filters.tags.includes(tag) ? 'filter-tag-active' : ''} ${isSectionDisabled('tags') ? 'filter-item-disabled' : ''}`}
-                onClick={() => toggleTag(tag)}
-                disabled={isSectionDisabled('tags')}
-              >
-                {tag}
-              </Button>
-            ))}
+            {sortedTags.map(tag => {
+              const state = getChipState(filters.tags, filters.excludeTags, tag);
+              const isFollowed = followedTags.includes(tag.toLowerCase());
+              const count = getFacetCount('tags', tag);
+              const isEmpty = isFacetEmpty(count, state !== 'off');
+              
+              return (
+                <span key={tag} className={`filter-tag-chip ${isFollowed ? 'filter-tag-followed' : ''}`}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={`filter-tag-item ${state === 'included' ? 'filter-tag-active' : ''} ${state === 'excluded' ? 'filter-tag-excluded' : ''} ${isSectionDisabled('tags') ? 'filter-item-disabled' : ''} ${isEmpty ? 'filter-item-empty' : ''}`}
+                    onClick={() => toggleTag(tag)}
+                    disabled={isSectionDisabled('tags') || isEmpty}
+                    title={CHIP_TITLES[state]}
+                  >
+                    {state === 'excluded' && <Ban className="filter-exclude-icon" />}
+                    {tag}
+                    {count !== undefined && (
+                      <span className="filter-facet-count">{count}</span>
+                    )}
+                  </Button>
+                  {renderFollowToggle(tag, isFollowed, onTagFollowToggle && (() => onTagFollowToggle(tag)))}
+                </span>
+              );
+            })}
           </div>
+          </>
         ))}
       </div>
     </>
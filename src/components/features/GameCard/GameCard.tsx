@@ -18,8 +18,10 @@ import {
 import { Badge, BadgeGroup, type BadgeSize } from '@/components/ui/Badge';
 import { Button, type ButtonSize } from '@/components/ui/Button';
 import { Tooltip } from '@/components/ui/Tooltip';
+import { CollectionPicker } from '../CollectionPicker';
 import { Heart, Play, Info, TrendingUp, Users } from 'lucide-react';
 import type { Game } from '@/lib/types';
+import type { FavoriteCollection } from '@/lib/core/domain/entities';
 import { UI_DELAYS } from '@/lib/core/config/constants/app.constants';
 import '@/styles/components/features/game-card.css';
 
@@ -41,6 +43,12 @@ export interface GameCardProps {
   variant?: 'default' | 'primary' | 'secondary' | 'accent' | 'success' | 'error' | 'warning' | 'info';
   /** Callback when favorite button is clicked */
   onFavoriteToggle?: (gameId: string, isFavorite: boolean) => void;
+  /** Favorite collections for the collection picker (shown when onCollectionToggle is set) */
+  collections?: FavoriteCollection[];
+  /** Callback when the game is added to or removed from a collection */
+  onCollectionToggle?: (collectionId: string, gameId: string) => void;
+  /** Callback to create a collection containing the game */
+  onCollectionCreate?: (name: string, gameId: string) => void;
   /** Callback when play button is clicked */
   onPlay?: (game: Game) => void;
   /** Callback when info button is clicked */
@@ -123,6 +131,9 @@ export const GameCard = memo<GameCardProps>(({
   size = 'grid-md',
   variant = 'default',
   onFavoriteToggle,
+  collections = [],
+  onCollectionToggle,
+  onCollectionCreate,
   onPlay,
   onInfo,
   onClick,
@@ -226,6 +237,15 @@ export const GameCard = memo<GameCardProps>(({
         </Button>
       </Tooltip>
       
+      {onCollectionToggle && (
+        <CollectionPicker
+          gameId={game.id}
+          collections={collections}
+          onToggle={onCollectionToggle}
+          onCreate={onCollectionCreate}
+        />
+      )}
+      
       {onInfo && (
         <Tooltip content="Game details" delay={UI_DELAYS.TOOLTIP_DELAY_LONG}>
           <Button
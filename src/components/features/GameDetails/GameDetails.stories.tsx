@@ -0,0 +1,87 @@
+/**
+ * GameDetails Stories
+ * Storybook stories for the GameDetails component
+ */
+
+import type { Meta, StoryObj } from '@storybook/nextjs';
+import { GameDetails } from './GameDetails';
+import type { Game } from '@/lib/core/domain/entities';
+
+const meta = {
+  title: 'Features/GameDetails',
+  component: GameDetails,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: 'Full-page game view used by the /games/[slug] route, with stats, tags and actions.'
+      }
+    }
+  },
+  argTypes: {
+    onPlay: {
+      action: 'play',
+      description: 'Callback when play button is clicked'
+    },
+    onFavorite: {
+      action: 'favorite',
+      description: 'Callback when favorite button is clicked'
+    },
+    onShare: {
+      action: 'share',
+      description: 'Callback when share button is clicked'
+    }
+  }
+} satisfies Meta<typeof GameDetails>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Sample game data
+const sampleGame: Game = {
+  id: 'game-1',
+  title: 'Mega Fortune Dreams',
+  slug: 'mega-fortune-dreams',
+  thumbnail: 'https://picsum.photos/seed/mega-fortune/400/300',
+  description: 'Experience the luxury lifestyle with Mega Fortune Dreams! This exciting slot game features progressive jackpots, free spins with multipliers, and a thrilling bonus wheel.',
+  provider: {
+    id: 'netent',
+    name: 'NetEnt',
+    logo: 'https://api.dicebear.com/7.x/shapes/svg?seed=netent'
+  },
+  type: 'slots',
+  tags: ['progressive', 'jackpot', 'free spins', 'bonus wheel'],
+  isNew: true,
+  isHot: true,
+  isFavorite: false,
+  playCount: 1250000,
+  releaseDate: '2024-01-15',
+  rtp: 96.4
+};
+
+/**
+ * Default page with full game details
+ */
+export const Default: Story = {
+  args: {
+    game: sampleGame
+  }
+};
+
+/**
+ * Favorited game
+ */
+export const FavoritedGame: Story = {
+  args: {
+    game: { ...sampleGame, isFavorite: true }
+  }
+};
+
+/**
+ * Upcoming/unreleased game
+ */
+export const UpcomingGame: Story = {
+  args: {
+    game: { ...sampleGame, isNew: false, isHot: false, isComingSoon: true }
+  }
+};
@@ -0,0 +1,247 @@
+/**
+ * GameDetails Component
+ * Full-page view of a single game with stats, tags and actions
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Card } from '@/components/ui/Card';
+import { Tooltip } from '@/components/ui/Tooltip';
+import { Image } from '@/components/ui/Image';
+import type { Game } from '@/lib/core/domain/entities';
+import { getGameTypeDisplayName } from '@/lib/core/domain/entities';
+import { formatCompactNumber, shareContent } from '@/lib/core/shared/utils';
+import { ROUTES } from '@/lib/core/config/constants/routes.constants';
+import { DEFAULT_PLACEHOLDER } from '@/lib/core/config/constants/app.constants';
+import '@/styles/components/features/game-details.css';
+
+export interface GameDetailsProps {
+  game: Game;
+  onPlay?: (game: Game) => void;
+  onFavorite?: (game: Game) => void;
+  onShare?: (game: Game) => void;
+  className?: string;
+}
+
+export function GameDetails({
+  game,
+  onPlay,
+  onFavorite,
+  onShare,
+  className = ''
+}: GameDetailsProps) {
+  const [imageError, setImageError] = useState(false);
+  const [justCopied, setJustCopied] = useState(false);
+
+  const handleShare = async () => {
+    const result = await shareContent({
+      title: game.title,
+      text: `Check out ${game.title}!`,
+      url: window.location.href
+    });
+    
+    if (result.success) {
+      if (result.method === 'clipboard') {
+        setJustCopied(true);
+        setTimeout(() => setJustCopied(false), 2000);
+      }
+      onShare?.(game);
+    }
+  };
+
+  // Format RTP percentage
+  const rtpDisplay = game.rtp ? `${game.rtp}%` : 'N/A';
+  
+  // Format play count
+  const playCountDisplay = game.playCount 
+    ? formatCompactNumber(game.playCount)
+    : '0';
+
+  // Format release date
+  const releaseDateDisplay = game.releaseDate 
+    ? new Date(game.releaseDate).toLocaleDateString('en-US', { 
+        year: 'numeric', 
+        month: 'short', 
+        day: 'numeric' 
+      })
+    : 'Unknown';
+  
+  const isComingSoon = game.isComingSoon || false;
+
+  return (
+    <article className={`game-details ${className}`}>
+      {/* Breadcrumbs */}
+      <nav className="game-details-breadcrumbs" aria-label="Breadcrumb">
+        <Link href={ROUTES.HOME}>Home</Link>
+        <span aria-hidden="true">/</span>
+        <Link href={ROUTES.GAMES}>Games</Link>
+        <span aria-hidden="true">/</span>
+        <span aria-current="page">{game.title}</span>
+      </nav>
+
+      <div className="game-details-layout">
+        {/* Hero Image */}
+        <div className="game-details-hero">
+          {!imageError && game.thumbnail ? (
+            <Image
+              src={game.thumbnail}
+              alt={game.title}
+              fallbackSrc={DEFAULT_PLACEHOLDER(
+                game.provider.name,
+                '8b5cf6',
+                'ffffff'
+              )}
+              fill
+              objectFit="cover"
+              sizes="(max-width: 768px) 100vw, 50vw"
+              priority
+              onError={() => setImageError(true)}
+              containerClassName="w-full h-full"
+              showDefaultFallback={false}
+            />
+          ) : (
+            <div className="game-details-hero-fallback">
+              <span>🎮</span>
+            </div>
+          )}
+          
+          {/* Status badges */}
+          <div className="game-details-badges">
+            {isComingSoon && (
+              <Badge variant="info" size="sm" className="shadow-lg badge-flashy" gap="sm">
+                🚀 COMING SOON
+              </Badge>
+            )}
+            {game.isNew && !isComingSoon && (
+              <Badge variant="success" size="sm" className="shadow-lg" gap="sm">
+                NEW
+              </Badge>
+            )}
+            {game.isHot && (
+              <Badge variant="error" size="sm" className="shadow-lg" gap="sm">
+                🔥 HOT
+              </Badge>
+            )}
+            {game.isOnSale && (
+              <Badge variant="warning" size="sm" className="shadow-lg" gap="sm">
+                SALE
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="game-details-content">
+          <header className="game-details-header">
+            <div className="game-details-title-row">
+              <h1 className="game-details-title">{game.title}</h1>
+              <div className="game-details-icon-actions">
+                <Tooltip content={game.isFavorite ? "Remove from favorites" : "Add to favorites"}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    iconOnly
+                    onClick={() => onFavorite?.(game)}
+                    className={game.isFavorite ? 'text-error' : ''}
+                    aria-label={game.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                  >
+                    {game.isFavorite ? '❤️' : '🤍'}
+                  </Button>
+                </Tooltip>
+                <Tooltip content={justCopied ? "Link copied!" : "Share game"}>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    iconOnly
+                    onClick={handleShare}
+                    className={justCopied ? 'text-success' : ''}
+                    aria-label="Share game"
+                  >
+                    {justCopied ? '✓' : '🔗'}
+                  </Button>
+                </Tooltip>
+              </div>
+            </div>
+            <div className="game-details-meta">
+              <Badge variant="secondary" size="sm" gap="sm">
+                {getGameTypeDisplayName(game.type)}
+              </Badge>
+              <span>
+                by{' '}
+                <Link href={`${ROUTES.GAMES}?providers=${encodeURIComponent(game.provider.id)}`}>
+                  {game.provider.name}
+                </Link>
+              </span>
+            </div>
+          </header>
+
+          {/* Description */}
+          {game.description && (
+            <p className="game-details-description">
+              {game.description}
+            </p>
+          )}
+
+          {/* Stats */}
+          <div className="game-details-stats">
+            <Card className="p-3 text-center">
+              <div className="text-2xl mb-1">🎯</div>
+              <div className="text-xs text-secondary mb-1">RTP</div>
+              <div className="font-semibold">{rtpDisplay}</div>
+            </Card>
+            
+            <Card className="p-3 text-center">
+              <div className="text-2xl mb-1">🎮</div>
+              <div className="text-xs text-secondary mb-1">Plays</div>
+              <div className="font-semibold">{playCountDisplay}</div>
+            </Card>
+            
+            <Card className="p-3 text-center">
+              <div className="text-2xl mb-1">📅</div>
+              <div className="text-xs text-secondary mb-1">Released</div>
+              <div className="font-semibold text-sm">{releaseDateDisplay}</div>
+            </Card>
+          </div>
+
+          {/* Tags link back to the filtered library */}
+          {game.tags && game.tags.length > 0 && (
+            <div className="game-details-tags">
+              <h2 className="text-sm font-medium text-secondary mb-2">Features</h2>
+              <div className="flex flex-wrap gap-2">
+                {game.tags.map(tag => (
+                  <Link key={tag} href={`${ROUTES.GAMES}?tags=${encodeURIComponent(tag)}`}>
+                    <Badge variant="outline" size="sm" gap="sm">
+                      {tag}
+                    </Badge>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="game-details-actions">
+            {isComingSoon ? (
+              <Button variant="primary" size="lg" disabled>
+                🔒 Coming Soon
+              </Button>
+            ) : (
+              <>
+                <Button variant="primary" size="lg" onClick={() => onPlay?.(game)}>
+                  ▶ Play Now
+                </Button>
+                <Button variant="outline" size="lg" onClick={() => onPlay?.(game)}>
+                  🎮 Demo
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,2 @@
+export { GameDetails } from './GameDetails';
+export type { GameDetailsProps } from './GameDetails';
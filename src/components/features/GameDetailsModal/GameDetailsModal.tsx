@@ -10,9 +10,11 @@ import { Badge } from '@/components/ui/Badge';
 import { Card } from '@/components/ui/Card';
 import { Tooltip } from '@/components/ui/Tooltip';
 import { Image } from '@/components/ui/Image';
-import type { Game } from '@/lib/core/domain/entities';
+import { CollectionPicker } from '../CollectionPicker';
+import { GameReviews, type GameReviewsProps } from '../GameReviews';
+import type { FavoriteCollection, Game } from '@/lib/core/domain/entities';
 import { getGameTypeDisplayName } from '@/lib/core/domain/entities';
-import { formatCompactNumber, shareContent } from '@/lib/core/shared/utils';
+import { formatCompactNumber, formatNumber, formatWithSeparators, shareContent } from '@/lib/core/shared/utils';
 import '@/styles/components/features/game-details-modal.css';
 import { DEFAULT_PLACEHOLDER } from '@/lib/core/config/constants/app.constants';
 
@@ -23,6 +25,12 @@ export interface GameDetailsModalProps {
   onPlay?: (game: Game) => void;
   onFavorite?: (game: Game) => void;
   onShare?: (game: Game) => void;
+  /** Favorite collections for the collection picker (shown when onCollectionToggle is set) */
+  collections?: FavoriteCollection[];
+  onCollectionToggle?: (collectionId: string, gameId: string) => void;
+  onCollectionCreate?: (name: string, gameId: string) => void;
+  /** Reviews section (shown when set, e.g. from useGameReviews) */
+  reviews?: Omit<GameReviewsProps, 'className' | 'testId'>;
 }
 
 export function GameDetailsModal({
@@ -31,7 +39,11 @@ export function GameDetailsModal({
   onClose,
   onPlay,
   onFavorite,
-  onShare
+  onShare,
+  collections = [],
+  onCollectionToggle,
+  onCollectionCreate,
+  reviews
 }: GameDetailsModalProps) {
   const [imageError, setImageError] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -74,6 +86,18 @@ export function GameDetailsModal({
   // Format RTP percentage
   const rtpDisplay = game.rtp ? `${game.rtp}%` : 'N/A';
   
+  // Format player rating, preferring the live aggregate from the reviews section
+  const rating = reviews?.rating ?? game.rating;
+  const ratingDisplay = rating !== undefined ? `${rating.toFixed(1)}/5` : 'N/A';
+
+  // Format max win as a stake multiplier
+  const maxWinDisplay = game.maxWin !== undefined ? `${formatWithSeparators(game.maxWin)}x` : 'N/A';
+
+  // Format bet limits
+  const betRangeDisplay = game.minBet !== undefined && game.maxBet !== undefined
+    ? `${formatNumber(game.minBet)} - ${formatNumber(game.maxBet)}`
+    : 'N/A';
+  
   // Format play count
   const playCountDisplay = game.playCount 
     ? formatCompactNumber(game.playCount)
@@ -198,6 +222,14 @@ export function GameDetailsModal({
                     {game.isFavorite ? '❤️' : '🤍'}
                   </Button>
                 </Tooltip>
+                {onCollectionToggle && (
+                  <CollectionPicker
+                    gameId={game.id}
+                    collections={collections}
+                    onToggle={onCollectionToggle}
+                    onCreate={onCollectionCreate}
+                  />
+                )}
                 <Tooltip content={justCopied ? "Link copied!" : "Share game"}>
                   <Button
                     variant="ghost"
@@ -250,7 +282,19 @@ export function GameDetailsModal({
             <Card className="p-3 text-center">
               <div className="text-2xl mb-1">⭐</div>
               <div className="text-xs text-secondary mb-1">Rating</div>
-              <div className="font-semibold">4.5/5</div>
+              <div className="font-semibold">{ratingDisplay}</div>
+            </Card>
+            
+            <Card className="p-3 text-center">
+              <div className="text-2xl mb-1">🏆</div>
+              <div className="text-xs text-secondary mb-1">Max Win</div>
+              <div className="font-semibold">{maxWinDisplay}</div>
+            </Card>
+            
+            <Card className="p-3 text-center">
+              <div className="text-2xl mb-1">🪙</div>
+              <div className="text-xs text-secondary mb-1">Bet Range</div>
+              <div className="font-semibold text-sm">{betRangeDisplay}</div>
             </Card>
           </div>
 
@@ -309,6 +353,13 @@ export function GameDetailsModal({
               </>
             )}
           </div>
+
+          {/* Reviews */}
+          {reviews && (
+            <div className="mt-8">
+              <GameReviews {...reviews} />
+            </div>
+          )}
         </div>
       </div>
     </Modal>
@@ -11,6 +11,7 @@ import { Carousel } from '@/components/ui/Carousel';
 import { VirtualGrid } from '@/components/ui/VirtualGrid';
 import { Inbox } from 'lucide-react';
 import type { Game } from '@/lib/types';
+import type { FavoriteCollection } from '@/lib/core/domain/entities';
 import '@/styles/components/features/game-grid.css';
 
 /**
@@ -28,6 +29,12 @@ export interface GameGridProps {
   onGameClick?: (game: Game) => void;
   /** Callback when favorite is toggled */
   onFavoriteToggle?: (gameId: string, isFavorite: boolean) => void;
+  /** Favorite collections for the card collection pickers */
+  collections?: FavoriteCollection[];
+  /** Callback when a game is added to or removed from a collection */
+  onCollectionToggle?: (collectionId: string, gameId: string) => void;
+  /** Callback to create a collection containing a game */
+  onCollectionCreate?: (name: string, gameId: string) => void;
   /** Layout mode - grid or flex */
   layout?: 'grid' | 'flex' | 'carousel';
   /** Grid variant for different layouts */
@@ -85,6 +92,9 @@ export const GameGrid = memo<GameGridProps>(({
   skeletonCount = 12,
   onGameClick,
   onFavoriteToggle,
+  collections,
+  onCollectionToggle,
+  onCollectionCreate,
   layout = 'grid',
   variant = 'default',
   columns,
@@ -163,11 +173,14 @@ export const GameGrid = memo<GameGridProps>(({
       onClick={onGameClick}
       onPlay={onGameClick}
       onFavoriteToggle={onFavoriteToggle}
+      collections={collections}
+      onCollectionToggle={onCollectionToggle}
+      onCollectionCreate={onCollectionCreate}
       size={getCardVariant()}
       showPlayOnHover={true}
       testId={`${testId}-card-${game.id}`}
     />
-  ), [onGameClick, onFavoriteToggle, getCardVariant, testId]);
+  ), [onGameClick, onFavoriteToggle, collections, onCollectionToggle, onCollectionCreate, getCardVariant, testId]);
 
   /**
    * Get grid columns based on variant
@@ -219,6 +232,9 @@ export const GameGrid = memo<GameGridProps>(({
       onClick={onGameClick}
       onPlay={onGameClick}
       onFavoriteToggle={onFavoriteToggle}
+      collections={collections}
+      onCollectionToggle={onCollectionToggle}
+      onCollectionCreate={onCollectionCreate}
       size={getCardVariant()}
       showPlayOnHover={true}
       testId={`${testId}-card-${game.id}`}
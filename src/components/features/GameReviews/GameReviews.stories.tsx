@@ -0,0 +1,112 @@
+/**
+ * GameReviews Stories
+ * Storybook stories for the GameReviews component
+ */
+
+import type { Meta, StoryObj } from '@storybook/nextjs';
+import { GameReviews } from './GameReviews';
+import type { GameReview } from '@/lib/core/domain/entities';
+
+const meta = {
+  title: 'Features/GameReviews',
+  component: GameReviews,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: 'Rating summary, a form to rate the game (one review per visitor) and a paginated list of reviews.'
+      }
+    }
+  },
+  argTypes: {
+    onSubmit: {
+      action: 'submit',
+      description: 'Callback to rate the game'
+    },
+    onPageChange: {
+      action: 'pageChange',
+      description: 'Callback when the reviews page changes'
+    }
+  }
+} satisfies Meta<typeof GameReviews>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Sample reviews
+const sampleReviews: GameReview[] = [
+  {
+    id: 'review-1',
+    gameId: 'game-1',
+    rating: 5,
+    text: 'Great bonus rounds and the free spins hit often.',
+    isOwn: false,
+    createdAt: '2024-03-02T10:00:00.000Z',
+    updatedAt: '2024-03-02T10:00:00.000Z'
+  },
+  {
+    id: 'review-2',
+    gameId: 'game-1',
+    rating: 3,
+    isOwn: false,
+    createdAt: '2024-02-20T18:30:00.000Z',
+    updatedAt: '2024-02-20T18:30:00.000Z'
+  }
+];
+
+const ownReview: GameReview = {
+  id: 'review-3',
+  gameId: 'game-1',
+  rating: 4,
+  text: 'Fun theme, a bit slow on mobile.',
+  isOwn: true,
+  createdAt: '2024-03-05T09:15:00.000Z',
+  updatedAt: '2024-03-05T09:15:00.000Z'
+};
+
+export const Default: Story = {
+  args: {
+    reviews: sampleReviews,
+    rating: 4.3,
+    ratingCount: 128,
+    onSubmit: () => {}
+  }
+};
+
+export const WithOwnReview: Story = {
+  args: {
+    reviews: [ownReview, ...sampleReviews],
+    rating: 4.2,
+    ratingCount: 129,
+    ownReview,
+    onSubmit: () => {}
+  }
+};
+
+export const Paginated: Story = {
+  args: {
+    reviews: sampleReviews,
+    rating: 4.3,
+    ratingCount: 128,
+    page: 2,
+    totalPages: 5,
+    onPageChange: () => {},
+    onSubmit: () => {}
+  }
+};
+
+export const NotRated: Story = {
+  args: {
+    reviews: [],
+    ratingCount: 0,
+    onSubmit: () => {}
+  }
+};
+
+export const ReadOnly: Story = {
+  args: {
+    reviews: sampleReviews,
+    rating: 4.3,
+    ratingCount: 128
+  }
+};
@@ -0,0 +1,227 @@
+/**
+ * @fileoverview GameReviews component for a game's player ratings and reviews
+ * @module components/features/GameReviews
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Pagination } from '@/components/ui/Pagination';
+import { FormFieldTextarea } from '@/components/ui/FormField/FormFieldTextarea';
+import type { GameReview } from '@/lib/core/domain/entities';
+import { REVIEW_RATING_MAX, REVIEW_TEXT_MAX_LENGTH } from '@/lib/core/domain/entities';
+import { formatCompactNumber } from '@/lib/core/shared/utils';
+import '@/styles/components/features/game-reviews.css';
+
+/**
+ * Star ratings from 1 to REVIEW_RATING_MAX
+ */
+const STARS = Array.from({ length: REVIEW_RATING_MAX }, (_, index) => index + 1);
+
+/**
+ * Props for the GameReviews component
+ * @interface GameReviewsProps
+ */
+export interface GameReviewsProps {
+  /** Current page of reviews, most recent first */
+  reviews: GameReview[];
+  /** Average player rating (undefined until the game is rated) */
+  rating?: number;
+  /** Number of player ratings */
+  ratingCount?: number;
+  /** The visitor's own review, used to prefill the form */
+  ownReview?: GameReview | null;
+  /** Current reviews page (1-indexed) */
+  page?: number;
+  /** Total number of review pages */
+  totalPages?: number;
+  /** Callback when the reviews page changes */
+  onPageChange?: (page: number) => void;
+  /** Callback to rate the game (hides the form when omitted) */
+  onSubmit?: (review: { rating: number; text?: string }) => void;
+  /** Whether a review is being submitted */
+  isSubmitting?: boolean;
+  /** Whether reviews are loading */
+  isLoading?: boolean;
+  /** Custom className for additional styling */
+  className?: string;
+  /** Test ID for testing */
+  testId?: string;
+}
+
+/**
+ * Read-only row of stars
+ */
+const StarRow: React.FC<{ rating: number }> = ({ rating }) => (
+  <span className="game-reviews-stars" aria-label={`${rating} out of ${REVIEW_RATING_MAX} stars`}>
+    {STARS.map(star => (
+      <Star
+        key={star}
+        className={`game-reviews-star ${star <= Math.round(rating) ? 'game-reviews-star-filled' : ''}`}
+      />
+    ))}
+  </span>
+);
+
+/**
+ * Form to rate the game, prefilled with the visitor's earlier review
+ */
+const ReviewForm: React.FC<{
+  ownReview?: GameReview | null;
+  onSubmit: (review: { rating: number; text?: string }) => void;
+  isSubmitting: boolean;
+}> = ({ ownReview, onSubmit, isSubmitting }) => {
+  const [rating, setRating] = useState(ownReview?.rating ?? 0);
+  const [hovered, setHovered] = useState(0);
+  const [text, setText] = useState(ownReview?.text ?? '');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (rating === 0) return;
+    onSubmit({ rating, text: text.trim() || undefined });
+  };
+
+  return (
+    <form className="game-reviews-form" onSubmit={handleSubmit}>
+      <div className="game-reviews-picker" role="radiogroup" aria-label="Your rating">
+        {STARS.map(star => (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={rating === star}
+            aria-label={`${star} star${star > 1 ? 's' : ''}`}
+            className="game-reviews-picker-star"
+            onClick={() => setRating(star)}
+            onMouseEnter={() => setHovered(star)}
+            onMouseLeave={() => setHovered(0)}
+            disabled={isSubmitting}
+          >
+            <Star
+              className={`game-reviews-star ${star <= (hovered || rating) ? 'game-reviews-star-filled' : ''}`}
+            />
+          </button>
+        ))}
+      </div>
+      <FormFieldTextarea
+        label={ownReview ? 'Your review' : 'Write a review (optional)'}
+        value={text}
+        onChange={event => setText(event.target.value)}
+        maxLength={REVIEW_TEXT_MAX_LENGTH}
+        showCount
+        rows={3}
+        placeholder="What did you think of this game?"
+        disabled={isSubmitting}
+      />
+      <Button
+        type="submit"
+        variant="primary"
+        size="sm"
+        disabled={rating === 0 || isSubmitting}
+      >
+        {isSubmitting ? 'Submitting...' : ownReview ? 'Update review' : 'Submit review'}
+      </Button>
+    </form>
+  );
+};
+
+/**
+ * GameReviews Component
+ *
+ * @description Rating summary, a form to rate the game (one review per visitor) and a paginated review list.
+ *
+ * @example
+ * ```tsx
+ * <GameReviews
+ *   reviews={reviews}
+ *   rating={4.3}
+ *   ratingCount={128}
+ *   onSubmit={({ rating, text }) => submitReview(rating, text)}
+ * />
+ * ```
+ */
+export const GameReviews: React.FC<GameReviewsProps> = ({
+  reviews,
+  rating,
+  ratingCount = 0,
+  ownReview,
+  page = 1,
+  totalPages = 1,
+  onPageChange,
+  onSubmit,
+  isSubmitting = false,
+  isLoading = false,
+  className = '',
+  testId = 'game-reviews'
+}) => {
+  return (
+    <section className={`game-reviews ${className}`} data-testid={testId}>
+      <div className="game-reviews-header">
+        <h3 className="game-reviews-title">Reviews</h3>
+        {rating !== undefined && ratingCount > 0 ? (
+          <div className="game-reviews-summary">
+            <span className="game-reviews-average">{rating.toFixed(1)}</span>
+            <StarRow rating={rating} />
+            <span className="game-reviews-count">
+              {formatCompactNumber(ratingCount)} {ratingCount === 1 ? 'rating' : 'ratings'}
+            </span>
+          </div>
+        ) : (
+          <span className="game-reviews-count">Not rated yet</span>
+        )}
+      </div>
+
+      {onSubmit && (
+        // Remount when the saved review changes so the form shows it
+        <ReviewForm
+          key={ownReview?.updatedAt ?? 'new'}
+          ownReview={ownReview}
+          onSubmit={onSubmit}
+          isSubmitting={isSubmitting}
+        />
+      )}
+
+      {isLoading ? (
+        <p className="game-reviews-empty">Loading reviews...</p>
+      ) : reviews.length === 0 ? (
+        <p className="game-reviews-empty">No reviews yet. Be the first to review this game!</p>
+      ) : (
+        <ul className="game-reviews-list">
+          {reviews.map(review => (
+            <li key={review.id} className="game-reviews-item">
+              <div className="game-reviews-item-header">
+                <StarRow rating={review.rating} />
+                {review.isOwn && (
+                  <Badge variant="secondary" size="sm">You</Badge>
+                )}
+                <time className="game-reviews-date" dateTime={review.updatedAt}>
+                  {new Date(review.updatedAt).toLocaleDateString('en-US', {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric'
+                  })}
+                </time>
+              </div>
+              {review.text && <p className="game-reviews-text">{review.text}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {onPageChange && totalPages > 1 && (
+        <Pagination
+          currentPage={page}
+          totalPages={totalPages}
+          onPageChange={onPageChange}
+          size="sm"
+          variant="minimal"
+          disabled={isLoading}
+          className="game-reviews-pagination"
+        />
+      )}
+    </section>
+  );
+};
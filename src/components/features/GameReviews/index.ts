@@ -0,0 +1,7 @@
+/**
+ * @fileoverview GameReviews component exports
+ * @module components/features/GameReviews
+ */
+
+export { GameReviews } from './GameReviews';
+export type { GameReviewsProps } from './GameReviews';
@@ -85,6 +85,18 @@ export const WithAvatar: Story = {
   }
 };
 
+/**
+ * Signed-in account with email
+ */
+export const WithEmail: Story = {
+  args: {
+    name: 'Ada Lovelace',
+    email: 'ada@example.com',
+    balance: 1000,
+    showBalanceChange: false
+  }
+};
+
 /**
  * Compact variant for header
  */
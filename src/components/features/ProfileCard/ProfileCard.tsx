@@ -14,6 +14,8 @@ import '@/styles/components/features/profile-card.css';
 export interface ProfileCardProps {
   /** User name */
   name: string;
+  /** User email, shown below the name outside the compact variant */
+  email?: string;
   /** User avatar URL */
   avatar?: string;
   /** User balance */
@@ -41,6 +43,7 @@ export interface ProfileCardProps {
  */
 export const ProfileCard: React.FC<ProfileCardProps> = ({
   name,
+  email,
   avatar,
   balance,
   previousBalance,
@@ -114,6 +117,11 @@ export const ProfileCard: React.FC<ProfileCardProps> = ({
         <div className="profile-card-name">
           {name}
         </div>
+        {email && variant !== 'compact' && (
+          <div className="profile-card-email">
+            {email}
+          </div>
+        )}
         
         {balance !== undefined && (
           <div className="profile-card-balance-container">
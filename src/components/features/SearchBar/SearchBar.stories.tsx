@@ -7,7 +7,7 @@ import type { Meta, StoryObj } from '@storybook/nextjs';
 import { SearchBar } from './SearchBar';
 import { useState } from 'react';
 import { Card } from '@/components/ui/Card';
-import { generateMockGames } from '@/lib/core/test';
+import { generateMockGames, generateMockProviders } from '@/lib/core/test';
 
 const meta: Meta<typeof SearchBar> = {
   title: 'Features/SearchBar',
@@ -23,6 +23,7 @@ SearchBar component for game search functionality with debouncing, loading state
 - 🔍 Search with debouncing
 - 🎮 Search type toggle (games/providers/tags/all)
 - ⏱️ Configurable debounce delay
+- 💡 Keyboard-navigable suggestions and recent searches
 - 🔄 Loading state indicator
 - ❌ Clear button
 - 📱 Responsive design
@@ -144,6 +145,46 @@ export const WithSearchResults: Story = {
   }
 };
 
+/**
+ * With suggestion dropdown and recent searches
+ */
+export const WithSuggestions: Story = {
+  render: () => {
+    const [query, setQuery] = useState('');
+    const [recent, setRecent] = useState(['book of dead', 'megaways', 'starburst']);
+    const [picked, setPicked] = useState('');
+    
+    const games = generateMockGames(10);
+    const providers = generateMockProviders(5);
+    const matches = (text: string) => !!query && text.toLowerCase().includes(query.toLowerCase());
+    
+    return (
+      <div className="space-y-4">
+        <SearchBar
+          placeholder="Focus to see recent searches, type to see suggestions..."
+          onSearch={setQuery}
+          onSubmit={(submitted) => setRecent(prev => [submitted, ...prev.filter(item => item !== submitted)].slice(0, 5))}
+          recentSearches={recent}
+          onRemoveRecentSearch={(removed) => setRecent(prev => prev.filter(item => item !== removed))}
+          suggestions={{
+            query,
+            games: games.filter(game => matches(game.title)).slice(0, 5),
+            providers: providers.filter(provider => matches(provider.name)).slice(0, 3),
+            tags: [],
+            completions: []
+          }}
+          onSuggestionSelect={(suggestion) => setPicked(suggestion.kind)}
+          showClear
+        />
+        
+        {picked && (
+          <p className="text-sm text-secondary">Last picked suggestion: {picked}</p>
+        )}
+      </div>
+    );
+  }
+};
+
 /**
  * Different sizes
  */
@@ -5,16 +5,82 @@
 
 'use client';
 
-import React, { memo, useState, useCallback, useEffect, useRef } from 'react';
-import { Search, X, Loader2, Gamepad2, Building2, Tag, Layers } from 'lucide-react';
+import React, { memo, useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Search, X, Loader2, Gamepad2, Building2, Tag, Layers, History, CornerDownLeft } from 'lucide-react';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
 import { Dropdown, type DropdownOption } from '@/components/ui/Dropdown';
 import { useDebounce } from '@/lib/core/frontend';
 import { UI_DELAYS } from '@/lib/core/config/constants/app.constants';
 import type { SearchType } from '@/lib/core/domain/models';
+import type { Game, Provider, Tag as GameTag } from '@/lib/core/domain/entities';
+import type { SearchSuggestions } from '@/lib/core/shared/types';
 import '@/styles/components/features/search-bar.css';
 
+/**
+ * A selectable entry in the suggestion dropdown
+ * Recent searches and completions are text; games, providers and tags are entities
+ */
+export type SearchSuggestion =
+  | { kind: 'recent'; query: string }
+  | { kind: 'completion'; query: string }
+  | { kind: 'game'; game: Game }
+  | { kind: 'provider'; provider: Provider }
+  | { kind: 'tag'; tag: GameTag };
+
+/**
+ * Dropdown icon for each suggestion kind
+ */
+const SUGGESTION_ICONS: Record<SearchSuggestion['kind'], React.ReactNode> = {
+  recent: <History className="w-4 h-4" />,
+  completion: <Search className="w-4 h-4" />,
+  game: <Gamepad2 className="w-4 h-4" />,
+  provider: <Building2 className="w-4 h-4" />,
+  tag: <Tag className="w-4 h-4" />
+};
+
+/**
+ * Trailing label for each suggestion kind (recent searches show a delete button instead)
+ */
+const SUGGESTION_KIND_LABELS: Record<Exclude<SearchSuggestion['kind'], 'recent'>, React.ReactNode> = {
+  completion: <CornerDownLeft className="w-3 h-3" />,
+  game: 'Game',
+  provider: 'Provider',
+  tag: 'Tag'
+};
+
+/**
+ * Text shown for a suggestion
+ */
+const getSuggestionLabel = (suggestion: SearchSuggestion): string => {
+  switch (suggestion.kind) {
+    case 'game':
+      return suggestion.game.title;
+    case 'provider':
+      return suggestion.provider.name;
+    case 'tag':
+      return suggestion.tag.name;
+    default:
+      return suggestion.query;
+  }
+};
+
+/**
+ * Stable React key for a suggestion
+ */
+const getSuggestionKey = (suggestion: SearchSuggestion): string => {
+  switch (suggestion.kind) {
+    case 'game':
+      return `game-${suggestion.game.id}`;
+    case 'provider':
+      return `provider-${suggestion.provider.id}`;
+    case 'tag':
+      return `tag-${suggestion.tag.id}`;
+    default:
+      return `${suggestion.kind}-${suggestion.query}`;
+  }
+};
+
 /**
  * Props for the SearchBar component
  * @interface SearchBarProps
@@ -46,6 +112,20 @@ export interface SearchBarProps {
   enableTypeDropdown?: boolean;
   /** Default search type */
   defaultSearchType?: SearchType;
+  /** Controlled search type (e.g. when a results view switches it) */
+  searchType?: SearchType;
+  /** Suggestions for the current query, shown in a dropdown while focused */
+  suggestions?: SearchSuggestions;
+  /** Show loading indicator in the suggestion dropdown */
+  isLoadingSuggestions?: boolean;
+  /** Recent searches, shown in the dropdown while the input is empty */
+  recentSearches?: string[];
+  /** Callback when a query is submitted (Enter, a recent search or a completion) */
+  onSubmit?: (query: string) => void;
+  /** Callback when a suggestion is picked; game, provider and tag suggestions clear the typed text */
+  onSuggestionSelect?: (suggestion: SearchSuggestion) => void;
+  /** Callback to delete a recent search */
+  onRemoveRecentSearch?: (query: string) => void;
   /** Custom className */
   className?: string;
   /** Test ID for testing */
@@ -57,6 +137,7 @@ export interface SearchBarProps {
  * 
  * @description A search input component with debouncing, loading states, and clear functionality.
  * Built on top of the Input base component for consistency.
+ * When suggestions or recent searches are passed, a keyboard-navigable dropdown lists them while focused.
  * 
  * @example
  * ```tsx
@@ -85,14 +166,68 @@ export const SearchBar = memo<SearchBarProps>(({
   size = 'md',
   enableTypeDropdown = false,
   defaultSearchType = 'all',
+  searchType: controlledSearchType,
+  suggestions,
+  isLoadingSuggestions = false,
+  recentSearches = [],
+  onSubmit,
+  onSuggestionSelect,
+  onRemoveRecentSearch,
   className = '',
   testId = 'search-bar'
 }) => {
   const [value, setValue] = useState(initialValue);
   const [searchType, setSearchType] = useState<SearchType>(defaultSearchType);
   const [isFocused, setIsFocused] = useState(false);
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const debouncedValue = useDebounce(value, debounceDelay);
+  const listboxId = `${testId}-suggestions`;
+
+  /**
+   * Flatten the dropdown entries in display order, for keyboard navigation
+   * Recent searches while the input is empty, suggestions for the current query otherwise
+   */
+  const suggestionItems = useMemo<SearchSuggestion[]>(() => {
+    if (!value.trim()) {
+      return recentSearches.map(query => ({ kind: 'recent', query }));
+    }
+    if (!suggestions) return [];
+
+    return [
+      ...suggestions.completions.map(query => ({ kind: 'completion', query }) as const),
+      ...suggestions.games.map(game => ({ kind: 'game', game }) as const),
+      ...suggestions.providers.map(provider => ({ kind: 'provider', provider }) as const),
+      ...suggestions.tags.map(tag => ({ kind: 'tag', tag }) as const)
+    ];
+  }, [value, recentSearches, suggestions]);
+
+  const showSuggestions = isFocused && isSuggestionsOpen && !disabled &&
+    (suggestionItems.length > 0 || (!!value.trim() && isLoadingSuggestions));
+
+  /**
+   * Reset the highlighted entry whenever the entries change
+   */
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [suggestionItems]);
+
+  /**
+   * Keep the input in step when the owner changes the query (e.g. a filter applied from the results)
+   */
+  useEffect(() => {
+    setValue(initialValue);
+  }, [initialValue]);
+
+  /**
+   * Keep the type dropdown in step with a controlled search type
+   */
+  useEffect(() => {
+    if (controlledSearchType) {
+      setSearchType(controlledSearchType);
+    }
+  }, [controlledSearchType]);
 
   /**
    * Handle search value changes after debouncing
@@ -109,6 +244,7 @@ export const SearchBar = memo<SearchBarProps>(({
   const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
     setValue(newValue);
+    setIsSuggestionsOpen(true);
     
     // Call immediate onChange if provided
     if (onChange) {
@@ -137,6 +273,7 @@ export const SearchBar = memo<SearchBarProps>(({
    */
   const handleClear = useCallback(() => {
     setValue('');
+    setIsSuggestionsOpen(true);
     inputRef.current?.focus();
     
     if (onChange) {
@@ -149,24 +286,105 @@ export const SearchBar = memo<SearchBarProps>(({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [onChange, onSearch]);
 
+  /**
+   * Run a text query right away and record it as submitted
+   */
+  const submitQuery = useCallback((query: string) => {
+    setValue(query);
+    setIsSuggestionsOpen(false);
+    
+    if (onSearch) {
+      onSearch(query, searchType);
+    }
+    
+    if (onSubmit && query.trim()) {
+      onSubmit(query);
+    }
+  }, [onSearch, onSubmit, searchType]);
+
+  /**
+   * Handle a picked suggestion
+   * Text suggestions become the query; entity suggestions replace the typed text
+   */
+  const handleSuggestionSelect = useCallback((suggestion: SearchSuggestion) => {
+    if (suggestion.kind === 'recent' || suggestion.kind === 'completion') {
+      submitQuery(suggestion.query);
+    } else {
+      setValue('');
+      setIsSuggestionsOpen(false);
+      
+      if (onSearch) {
+        onSearch('', searchType);
+      }
+    }
+    
+    if (onSuggestionSelect) {
+      onSuggestionSelect(suggestion);
+    }
+  }, [submitQuery, onSearch, onSuggestionSelect, searchType]);
+
+  /**
+   * Handle deleting a recent search without closing the dropdown
+   */
+  const handleRemoveRecentSearch = useCallback((query: string) => {
+    if (onRemoveRecentSearch) {
+      onRemoveRecentSearch(query);
+    }
+    inputRef.current?.focus();
+  }, [onRemoveRecentSearch]);
+
   /**
    * Handle keyboard shortcuts
    */
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Move through the dropdown entries, wrapping back to the typed text
+    if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && suggestionItems.length > 0) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      
+      if (!showSuggestions) {
+        setIsSuggestionsOpen(true);
+        setActiveIndex(step === 1 ? 0 : suggestionItems.length - 1);
+        return;
+      }
+      
+      // -1 is the typed text itself, so the cycle is one longer than the list
+      const positions = suggestionItems.length + 1;
+      setActiveIndex(index => ((index + 1 + step + positions) % positions) - 1);
+      return;
+    }
+    
+    // Delete the highlighted recent search
+    const activeItem = showSuggestions ? suggestionItems[activeIndex] : undefined;
+    if (e.key === 'Delete' && e.shiftKey && activeItem?.kind === 'recent') {
+      e.preventDefault();
+      handleRemoveRecentSearch(activeItem.query);
+      return;
+    }
+    
+    // Close the dropdown first, then clear on a second Escape
+    if (e.key === 'Escape' && showSuggestions) {
+      e.preventDefault();
+      setIsSuggestionsOpen(false);
+      return;
+    }
+    
     // Clear on Escape
     if (e.key === 'Escape' && value) {
       e.preventDefault();
       handleClear();
     }
     
-    // Submit on Enter (optional - could trigger immediate search)
+    // Submit on Enter, or pick the highlighted suggestion
     if (e.key === 'Enter') {
       e.preventDefault();
-      if (onSearch) {
-        onSearch(value, searchType);
+      if (activeItem) {
+        handleSuggestionSelect(activeItem);
+      } else {
+        submitQuery(value);
       }
     }
-  }, [value, searchType, handleClear, onSearch]);
+  }, [value, suggestionItems, showSuggestions, activeIndex, handleClear, handleRemoveRecentSearch, handleSuggestionSelect, submitQuery]);
 
   /**
    * Search type dropdown options
@@ -264,7 +482,10 @@ export const SearchBar = memo<SearchBarProps>(({
         value={value}
         onChange={handleChange}
         onKeyDown={handleKeyDown}
-        onFocus={() => setIsFocused(true)}
+        onFocus={() => {
+          setIsFocused(true);
+          setIsSuggestionsOpen(true);
+        }}
         onBlur={() => setIsFocused(false)}
         placeholder={getPlaceholder()}
         disabled={disabled}
@@ -276,13 +497,80 @@ export const SearchBar = memo<SearchBarProps>(({
         fullWidth
         className={`search-bar-input ${isFocused ? 'search-bar-focused' : ''}`}
         containerClassName="search-bar-container"
+        role="combobox"
         aria-label="Search"
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+        aria-controls={showSuggestions ? listboxId : undefined}
+        aria-activedescendant={showSuggestions && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
         aria-describedby={isLoading ? `${testId}-loading` : undefined}
         data-testid={`${testId}-input`}
       />
 
+      {/* Suggestion dropdown (mouse down is prevented so picking doesn't blur the input first) */}
+      {showSuggestions && (
+        <div
+          className="search-bar-suggestions"
+          onMouseDown={(e) => e.preventDefault()}
+          data-testid={listboxId}
+        >
+          {!value.trim() && (
+            <div className="search-bar-suggestions-heading">Recent searches</div>
+          )}
+          
+          {suggestionItems.length === 0 ? (
+            <div className="search-bar-suggestions-empty">
+              <Loader2 className="search-bar-spinner" />
+              Finding suggestions...
+            </div>
+          ) : (
+            <ul id={listboxId} role="listbox" aria-label="Search suggestions" className="search-bar-suggestions-list">
+              {suggestionItems.map((item, index) => (
+                <li
+                  key={getSuggestionKey(item)}
+                  id={`${listboxId}-${index}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  className={`search-bar-suggestion ${index === activeIndex ? 'search-bar-suggestion-active' : ''}`}
+                  onClick={() => handleSuggestionSelect(item)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                >
+                  <span className="search-bar-suggestion-icon">
+                    {SUGGESTION_ICONS[item.kind]}
+                  </span>
+                  <span className="search-bar-suggestion-label">
+                    {getSuggestionLabel(item)}
+                  </span>
+                  {item.kind === 'recent' ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRemoveRecentSearch(item.query);
+                      }}
+                      className="search-bar-suggestion-remove"
+                      aria-label={`Remove "${item.query}" from recent searches`}
+                      data-testid={`${testId}-recent-remove`}
+                      tabIndex={-1}
+                      iconOnly
+                    >
+                      <X className="search-bar-clear-icon" />
+                    </Button>
+                  ) : (
+                    <span className="search-bar-suggestion-kind">
+                      {SUGGESTION_KIND_LABELS[item.kind]}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Keyboard shortcut hint */}
-      {isFocused && value && (
+      {isFocused && value && !showSuggestions && (
         <div className="search-bar-hint">
           Press <kbd className="search-bar-kbd">ESC</kbd> to clear
         </div>
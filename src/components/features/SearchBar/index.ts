@@ -4,4 +4,4 @@
  */
 
 export { SearchBar } from './SearchBar';
-export type { SearchBarProps } from './SearchBar';
\ No newline at end of file
+export type { SearchBarProps, SearchSuggestion } from './SearchBar';
\ No newline at end of file
@@ -0,0 +1,78 @@
+/**
+ * SearchResults Stories
+ * Storybook stories for the SearchResults component
+ */
+
+import type { Meta, StoryObj } from '@storybook/nextjs';
+import { SearchResults } from './SearchResults';
+import { generateMockGames, generateMockProviders } from '@/lib/core/test';
+import { createPaginationMeta } from '@/lib/core/domain/models';
+import type { SearchResults as SearchResultsData } from '@/lib/core/shared/types';
+
+const meta = {
+  title: 'Features/SearchResults',
+  component: SearchResults,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: 'Games, providers and tags matching a query as separate groups, each with a "see all" link when it has more results.'
+      }
+    }
+  },
+  argTypes: {
+    onSeeAll: {
+      action: 'seeAll',
+      description: 'Callback for a group\'s "see all" link'
+    },
+    onProviderClick: {
+      action: 'providerClick',
+      description: 'Callback when a provider is clicked'
+    },
+    onTagClick: {
+      action: 'tagClick',
+      description: 'Callback when a tag is clicked'
+    }
+  }
+} satisfies Meta<typeof SearchResults>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Sample results with more games than fit on the first page
+const sampleResults: SearchResultsData = {
+  query: 'book',
+  games: {
+    items: generateMockGames(8),
+    pagination: createPaginationMeta(1, 8, 23)
+  },
+  providers: {
+    items: generateMockProviders(2),
+    pagination: createPaginationMeta(1, 8, 2)
+  },
+  tags: {
+    items: [
+      { id: 'tag_book', name: 'Book', slug: 'book', count: 18 },
+      { id: 'tag_bookmakers', name: 'Bookmakers', slug: 'bookmakers', count: 4 }
+    ],
+    pagination: createPaginationMeta(1, 8, 2)
+  }
+};
+
+export const Default: Story = {
+  args: {
+    results: sampleResults
+  }
+};
+
+export const Loading: Story = {
+  args: {
+    isLoading: true
+  }
+};
+
+export const NoResults: Story = {
+  args: {
+    results: { query: 'zzz' }
+  }
+};
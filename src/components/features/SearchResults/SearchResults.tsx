@@ -0,0 +1,239 @@
+/**
+ * @fileoverview SearchResults component for grouped game, provider and tag search results
+ * @module components/features/SearchResults
+ */
+
+'use client';
+
+import React from 'react';
+import { ArrowRight, Building2, Gamepad2, Tag as TagIcon } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Image } from '@/components/ui/Image';
+import { GameGrid } from '@/components/features/GameGrid';
+import { DEFAULT_PLACEHOLDER } from '@/lib/core/config/constants/app.constants';
+import type { FavoriteCollection, Game, Provider, Tag } from '@/lib/core/domain/entities';
+import type { SearchType } from '@/lib/core/domain/models';
+import type { SearchResults as SearchResultsData } from '@/lib/core/shared/types';
+import '@/styles/components/features/search-results.css';
+
+/**
+ * A result group that can be opened in full
+ */
+export type SearchResultGroupType = Exclude<SearchType, 'all'>;
+
+/**
+ * Props for the SearchResults component
+ * @interface SearchResultsProps
+ */
+export interface SearchResultsProps {
+  /** Grouped results for the current query */
+  results?: SearchResultsData;
+  /** Whether the results are loading */
+  isLoading?: boolean;
+  /** Callback when a game is clicked */
+  onGameClick?: (game: Game) => void;
+  /** Callback when a game's favorite button is toggled */
+  onFavoriteToggle?: (gameId: string, isFavorite: boolean) => void;
+  /** Favorite collections for the game card picker */
+  collections?: FavoriteCollection[];
+  /** Callback when a game is added to or removed from a collection */
+  onCollectionToggle?: (collectionId: string, gameId: string) => void;
+  /** Callback when a collection is created from a game card */
+  onCollectionCreate?: (name: string, gameId: string) => void;
+  /** Callback when a provider is clicked */
+  onProviderClick?: (provider: Provider) => void;
+  /** Callback when a tag is clicked */
+  onTagClick?: (tag: Tag) => void;
+  /** Callback for a group's "see all" link */
+  onSeeAll?: (type: SearchResultGroupType) => void;
+  /** Custom className for additional styling */
+  className?: string;
+  /** Test ID for testing */
+  testId?: string;
+}
+
+/**
+ * Group heading with the total match count and a "see all" link when there are more
+ */
+const GroupHeader: React.FC<{
+  title: string;
+  icon: React.ReactNode;
+  total: number;
+  shown: number;
+  onSeeAll?: () => void;
+  testId: string;
+}> = ({ title, icon, total, shown, onSeeAll, testId }) => (
+  <div className="search-results-group-header">
+    <h2 className="search-results-group-title">
+      <span className="search-results-group-icon">{icon}</span>
+      {title}
+      <Badge variant="secondary" size="sm">{total}</Badge>
+    </h2>
+    {onSeeAll && total > shown && (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onSeeAll}
+        rightIcon={<ArrowRight className="w-4 h-4" />}
+        data-testid={`${testId}-see-all`}
+      >
+        See all {total}
+      </Button>
+    )}
+  </div>
+);
+
+/**
+ * SearchResults Component
+ * 
+ * @description Shows the games, providers and tags matching a query as separate groups.
+ * Each group shows its first page; "see all" hands over to the matching filtered view.
+ * 
+ * @example
+ * ```tsx
+ * <SearchResults
+ *   results={data}
+ *   onGameClick={openGame}
+ *   onProviderClick={filterByProvider}
+ *   onSeeAll={(type) => setSearchType(type)}
+ * />
+ * ```
+ */
+export const SearchResults: React.FC<SearchResultsProps> = ({
+  results,
+  isLoading = false,
+  onGameClick,
+  onFavoriteToggle,
+  collections,
+  onCollectionToggle,
+  onCollectionCreate,
+  onProviderClick,
+  onTagClick,
+  onSeeAll,
+  className = '',
+  testId = 'search-results'
+}) => {
+  const games = results?.games;
+  const providers = results?.providers;
+  const tags = results?.tags;
+  const hasResults = !!(games?.items.length || providers?.items.length || tags?.items.length);
+
+  if (isLoading && !results) {
+    return (
+      <div className={`search-results ${className}`} data-testid={testId}>
+        <GameGrid games={[]} layout="grid" isLoading skeletonCount={4} />
+      </div>
+    );
+  }
+
+  if (!hasResults) {
+    return (
+      <div className={`search-results search-results-empty ${className}`} data-testid={testId}>
+        <div className="text-6xl mb-4">🔍</div>
+        <h2 className="text-2xl font-semibold mb-2">No results</h2>
+        <p className="text-secondary">
+          Nothing matches &quot;{results?.query}&quot;. Try another spelling or a shorter query.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`search-results ${isLoading ? 'search-results-updating' : ''} ${className}`}
+      data-testid={testId}
+    >
+      {providers && providers.items.length > 0 && (
+        <section className="search-results-group" data-testid={`${testId}-providers`}>
+          <GroupHeader
+            title="Providers"
+            icon={<Building2 />}
+            total={providers.pagination.total}
+            shown={providers.items.length}
+            onSeeAll={onSeeAll && (() => onSeeAll('providers'))}
+            testId={`${testId}-providers`}
+          />
+          <div className="search-results-chips">
+            {providers.items.map(provider => (
+              <button
+                key={provider.id}
+                type="button"
+                className="search-results-chip"
+                onClick={() => onProviderClick?.(provider)}
+                disabled={!onProviderClick}
+              >
+                <span className="search-results-chip-logo">
+                  <Image
+                    src={provider.logo || DEFAULT_PLACEHOLDER(provider.name, '8b5cf6', 'ffffff')}
+                    alt={provider.name}
+                    fallbackSrc={DEFAULT_PLACEHOLDER(provider.name, '8b5cf6', 'ffffff')}
+                    fill
+                    objectFit="cover"
+                    sizes="32px"
+                    containerClassName="w-full h-full"
+                    showDefaultFallback={false}
+                  />
+                </span>
+                <span className="search-results-chip-name">{provider.name}</span>
+                <span className="search-results-chip-count">{provider.gameCount ?? 0} games</span>
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {tags && tags.items.length > 0 && (
+        <section className="search-results-group" data-testid={`${testId}-tags`}>
+          <GroupHeader
+            title="Tags"
+            icon={<TagIcon />}
+            total={tags.pagination.total}
+            shown={tags.items.length}
+            onSeeAll={onSeeAll && (() => onSeeAll('tags'))}
+            testId={`${testId}-tags`}
+          />
+          <div className="search-results-chips">
+            {tags.items.map(tag => (
+              <button
+                key={tag.id}
+                type="button"
+                className="search-results-chip"
+                onClick={() => onTagClick?.(tag)}
+                disabled={!onTagClick}
+              >
+                <span className="search-results-chip-name">{tag.name}</span>
+                <span className="search-results-chip-count">{tag.count ?? 0} games</span>
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {games && games.items.length > 0 && (
+        <section className="search-results-group" data-testid={`${testId}-games`}>
+          <GroupHeader
+            title="Games"
+            icon={<Gamepad2 />}
+            total={games.pagination.total}
+            shown={games.items.length}
+            onSeeAll={onSeeAll && (() => onSeeAll('games'))}
+            testId={`${testId}-games`}
+          />
+          <GameGrid
+            games={games.items}
+            layout="grid"
+            columns={{ mobile: 1, tablet: 2, desktop: 3, wide: 4 }}
+            onGameClick={onGameClick}
+            onFavoriteToggle={onFavoriteToggle}
+            collections={collections}
+            onCollectionToggle={onCollectionToggle}
+            onCollectionCreate={onCollectionCreate}
+          />
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default SearchResults;
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview SearchResults component exports
+ * @module components/features/SearchResults
+ */
+
+export { SearchResults } from './SearchResults';
+export type { SearchResultsProps, SearchResultGroupType } from './SearchResults';
@@ -17,10 +17,6 @@ const meta = {
     }
   },
   argTypes: {
-    sessionTimeout: {
-      control: { type: 'number', min: 10000, max: 3600000, step: 10000 },
-      description: 'Total session timeout in milliseconds'
-    },
     warningTime: {
       control: { type: 'number', min: 5000, max: 600000, step: 5000 },
       description: 'Time before timeout to show warning in milliseconds'
@@ -40,12 +36,13 @@ const meta = {
       useEffect(() => {
         const store = useAuthStore.getState();
         if (!store.isAuthenticated) {
-          store.initializeGuestMode();
-          store.login({
+          store.setUser({
             name: 'Demo User',
             email: 'demo@example.com',
             balance: 1000
           });
+          // A session close enough to expiry for the enabled stories to warn
+          useAuthStore.setState({ expiresAt: new Date(Date.now() + 4 * 60 * 1000).toISOString() });
         }
       }, []);
       
@@ -58,7 +55,7 @@ const meta = {
               <strong>How to test:</strong>
               <ul style={{ marginTop: '0.5rem', marginLeft: '1.5rem', listStyle: 'disc' }}>
                 <li>Stories with demo mode show the modal immediately</li>
-                <li>Click &quot;Extend Session&quot; or &quot;I Understand&quot; to dismiss</li>
+                <li>Click &quot;Stay signed in&quot; or &quot;I Understand&quot; to dismiss</li>
                 <li>The modal will reappear after 1 second in demo mode</li>
                 <li>Enable the &quot;Enabled&quot; story for real timeout behavior</li>
               </ul>
@@ -78,7 +75,6 @@ type Story = StoryObj<typeof meta>;
 export const Default: Story = {
   args: {
     enabled: false,
-    sessionTimeout: 30 * 60 * 1000,
     warningTime: 5 * 60 * 1000
   }
 };
@@ -88,7 +84,6 @@ export const DemoMode: Story = {
   args: {
     enabled: true,
     demoMode: true,
-    sessionTimeout: 30000,
     warningTime: 5000 // 5 second countdown
   },
   parameters: {
@@ -104,7 +99,6 @@ export const DemoMode: Story = {
 export const Enabled: Story = {
   args: {
     enabled: true,
-    sessionTimeout: 30 * 60 * 1000,
     warningTime: 5 * 60 * 1000
   }
 };
@@ -114,13 +108,12 @@ export const QuickDemo: Story = {
   args: {
     enabled: true,
     demoMode: true,  // Demo mode shows immediately
-    sessionTimeout: 30000, // 30 seconds total
     warningTime: 10000 // 10 seconds countdown
   },
   parameters: {
     docs: {
       description: {
-        story: 'Quick demonstration - warning appears immediately. Click "Extend Session" or "I Understand" to see it reappear after 1 second.'
+        story: 'Quick demonstration - warning appears immediately. Click "Stay signed in" or "I Understand" to see it reappear after 1 second.'
       }
     }
   }
@@ -131,7 +124,6 @@ export const ImmediateWarning: Story = {
   args: {
     enabled: true,
     demoMode: true,  // Demo mode shows immediately
-    sessionTimeout: 60000, // 60 seconds total
     warningTime: 60000 // 60 seconds countdown
   },
   parameters: {
@@ -148,7 +140,6 @@ export const Mobile: Story = {
   args: {
     enabled: true,
     demoMode: true,  // Demo mode shows immediately
-    sessionTimeout: 30000,
     warningTime: 15000
   },
   parameters: {
@@ -168,7 +159,6 @@ export const DarkMode: Story = {
   args: {
     enabled: true,
     demoMode: true,  // Demo mode shows immediately
-    sessionTimeout: 30000,
     warningTime: 20000
   },
   parameters: {
@@ -197,7 +187,6 @@ export const WithInteraction: Story = {
   args: {
     enabled: true,
     demoMode: true,  // Demo mode shows immediately
-    sessionTimeout: 30000, // 30 seconds
     warningTime: 15000 // 15 seconds countdown
   },
   parameters: {
@@ -240,7 +229,6 @@ export const AccessibilityFocus: Story = {
   args: {
     enabled: true,
     demoMode: true,  // Demo mode shows immediately
-    sessionTimeout: 20000,
     warningTime: 15000
   },
   parameters: {
@@ -11,12 +11,11 @@ import { Button } from '@/components/ui/Button';
 import { Alert } from '@/components/ui/Alert';
 import { AlertTriangle } from 'lucide-react';
 import { useAuthStore } from '@/lib/core/frontend/stores/auth/useAuthStore';
+import { SESSION_MAX_AGE } from '@/lib/core/config/constants/app.constants';
 import '@/styles/components/features/session-timeout.css';
 
 export interface SessionTimeoutProps {
-  /** Session timeout in milliseconds (default: 30 minutes) */
-  sessionTimeout?: number;
-  /** Warning time before timeout in milliseconds (default: 5 minutes) */
+  /** Warning time before the session expires in milliseconds (default: 5 minutes) */
   warningTime?: number;
   /** Enable session timeout */
   enabled?: boolean;
@@ -24,20 +23,19 @@ export interface SessionTimeoutProps {
   demoMode?: boolean;
 }
 
+// Session lifetime in minutes, slid forward by "Stay signed in"
+const SESSION_MINUTES = Math.floor(SESSION_MAX_AGE / 60);
+
 export const SessionTimeout: React.FC<SessionTimeoutProps> = ({
-  sessionTimeout = 30 * 60 * 1000, // 30 minutes
   warningTime = 5 * 60 * 1000, // 5 minutes
   enabled = true,
   demoMode = false
 }) => {
   const [showWarning, setShowWarning] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState(warningTime);
-  const { isAuthenticated, refreshSession } = useAuthStore();
-  
-  // Track last activity time - in demo mode, set to past to trigger immediately
-  const [lastActivity, setLastActivity] = useState(
-    demoMode ? Date.now() - sessionTimeout + 1000 : Date.now()
-  );
+  // Expiry the user chose not to extend; the warning stays hidden until the session changes
+  const [dismissedExpiry, setDismissedExpiry] = useState<string | null>(null);
+  const { isAuthenticated, expiresAt, refreshSession } = useAuthStore();
   
   // Demo mode: show warning immediately on mount
   useEffect(() => {
@@ -47,26 +45,21 @@ export const SessionTimeout: React.FC<SessionTimeoutProps> = ({
     }
   }, [demoMode, enabled, isAuthenticated, warningTime]);
   
-  // Update last activity on user interaction
-  const updateActivity = useCallback(() => {
-    if (!demoMode) {
-      setLastActivity(Date.now());
-      setShowWarning(false);
-    }
-  }, [demoMode]);
+  // In demo mode, show again after 1 second
+  const replayDemo = useCallback(() => {
+    setTimeout(() => {
+      setShowWarning(true);
+      setTimeRemaining(Math.floor(warningTime / 1000));
+    }, 1000);
+  }, [warningTime]);
   
-  // Extend session
+  // Extend session (the server slides it and every tab picks up the new expiry)
   const extendSession = useCallback(() => {
-    refreshSession?.();
-    setLastActivity(Date.now());
+    refreshSession();
     setShowWarning(false);
     
-    // In demo mode, show again after 1 second
     if (demoMode) {
-      setTimeout(() => {
-        setShowWarning(true);
-        setTimeRemaining(Math.floor(warningTime / 1000));
-      }, 1000);
+      replayDemo();
     }
     
     // Announce to screen readers
@@ -77,52 +70,35 @@ export const SessionTimeout: React.FC<SessionTimeoutProps> = ({
     announcement.textContent = 'Session extended successfully';
     document.body.appendChild(announcement);
     setTimeout(() => document.body.removeChild(announcement), 1000);
-  }, [refreshSession, demoMode, warningTime]);
-  
-  // Monitor activity (disabled in demo mode)
-  useEffect(() => {
-    if (!enabled || !isAuthenticated || demoMode) return;
-    
-    const events = ['mousedown', 'keydown', 'scroll', 'touchstart'];
-    
-    events.forEach(event => {
-      window.addEventListener(event, updateActivity);
-    });
-    
-    return () => {
-      events.forEach(event => {
-        window.removeEventListener(event, updateActivity);
-      });
-    };
-  }, [enabled, isAuthenticated, updateActivity, demoMode]);
+  }, [refreshSession, demoMode, replayDemo]);
   
-  // Check for timeout (disabled in demo mode)
+  // Follow the server expiry (disabled in demo mode); signing out at expiry is handled by the app layout
   useEffect(() => {
-    if (!enabled || !isAuthenticated || demoMode) return;
+    if (!enabled || !isAuthenticated || !expiresAt || demoMode) {
+      if (!demoMode) setShowWarning(false);
+      return;
+    }
     
-    const checkTimeout = setInterval(() => {
-      const timeSinceActivity = Date.now() - lastActivity;
-      const timeUntilTimeout = sessionTimeout - timeSinceActivity;
+    const checkExpiry = () => {
+      const timeUntilExpiry = Date.parse(expiresAt) - Date.now();
       
-      if (timeUntilTimeout <= warningTime && timeUntilTimeout > 0) {
+      if (timeUntilExpiry <= warningTime && timeUntilExpiry > 0 && dismissedExpiry !== expiresAt) {
         setShowWarning(true);
-        setTimeRemaining(Math.floor(timeUntilTimeout / 1000));
-      } else if (timeUntilTimeout <= 0) {
-        // Session expired - handle logout
-        setShowWarning(false);
-        // In a real app, this would trigger logout
-        console.log('Session expired');
+        setTimeRemaining(Math.floor(timeUntilExpiry / 1000));
       } else {
         setShowWarning(false);
       }
-    }, 1000);
+    };
+    
+    checkExpiry();
+    const interval = setInterval(checkExpiry, 1000);
     
-    return () => clearInterval(checkTimeout);
-  }, [enabled, isAuthenticated, lastActivity, sessionTimeout, warningTime, demoMode]);
+    return () => clearInterval(interval);
+  }, [enabled, isAuthenticated, expiresAt, warningTime, dismissedExpiry, demoMode]);
   
-  // Update countdown
+  // Count down in demo mode (otherwise the expiry check keeps the time current)
   useEffect(() => {
-    if (!showWarning) return;
+    if (!showWarning || !demoMode) return;
     
     const countdown = setInterval(() => {
       setTimeRemaining(prev => {
@@ -135,7 +111,7 @@ export const SessionTimeout: React.FC<SessionTimeoutProps> = ({
     }, 1000);
     
     return () => clearInterval(countdown);
-  }, [showWarning]);
+  }, [showWarning, demoMode]);
   
   if (!showWarning || !isAuthenticated) return null;
   
@@ -201,7 +177,7 @@ export const SessionTimeout: React.FC<SessionTimeoutProps> = ({
             <p className="font-semibold mb-2">Your session is about to expire!</p>
             <p className="text-sm">
               You will be automatically logged out in {timeDisplay}. 
-              Please save any unsaved work and click &rdquo;Extend Session&rdquo; to continue working.
+              Please save any unsaved work and click &ldquo;Stay signed in&rdquo; to continue.
             </p>
           </div>
         </Alert>
@@ -230,26 +206,21 @@ export const SessionTimeout: React.FC<SessionTimeoutProps> = ({
             variant="primary"
             size="lg"
             onClick={extendSession}
-            aria-label="Extend session by 30 minutes"
+            aria-label={`Stay signed in for another ${SESSION_MINUTES} minutes`}
             fullWidth
             className="font-semibold"
           >
-            Extend Session
+            Stay signed in
           </Button>
           <Button
             variant="outline"
             size="lg"
             onClick={() => {
               setShowWarning(false);
-              // Still reset activity to give them more time
-              setLastActivity(Date.now());
+              setDismissedExpiry(expiresAt);
               
-              // In demo mode, show again after 1 second
               if (demoMode) {
-                setTimeout(() => {
-                  setShowWarning(true);
-                  setTimeRemaining(Math.floor(warningTime / 1000));
-                }, 1000);
+                replayDemo();
               }
             }}
             aria-label="Continue without extending"
@@ -261,7 +232,7 @@ export const SessionTimeout: React.FC<SessionTimeoutProps> = ({
 
         {/* Additional Info */}
         <p className="text-xs text-secondary mt-4">
-          For security reasons, sessions expire after {Math.floor(sessionTimeout / 60000)} minutes of inactivity.
+          For security reasons, sessions expire after {SESSION_MINUTES} minutes of inactivity.
         </p>
       </div>
     </Modal>
@@ -0,0 +1,81 @@
+/**
+ * TrendingList Stories
+ * Storybook stories for the TrendingList component
+ */
+
+import type { Meta, StoryObj } from '@storybook/nextjs';
+import { Flame } from 'lucide-react';
+import { TrendingList } from './TrendingList';
+import type { TrendingListItem } from './TrendingList';
+
+const meta = {
+  title: 'Features/TrendingList',
+  component: TrendingList,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component: 'Numbered ranking where each entry shows how many places it moved since the last snapshot.'
+      }
+    }
+  },
+  argTypes: {
+    onItemClick: {
+      action: 'itemClick',
+      description: 'Callback when an entry is clicked'
+    }
+  }
+} satisfies Meta<typeof TrendingList>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// Sample rankings covering every kind of rank change
+const sampleItems: TrendingListItem[] = [
+  { id: 'game-1', rank: 1, previousRank: 4, title: 'Starburst', subtitle: 'NetEnt', metric: '128 plays' },
+  { id: 'game-2', rank: 2, previousRank: 2, title: 'Book of Dead', subtitle: "Play'n GO", metric: '97 plays' },
+  { id: 'game-3', rank: 3, previousRank: null, title: 'Gates of Olympus', subtitle: 'Pragmatic Play', metric: '85 plays' },
+  { id: 'game-4', rank: 4, previousRank: 1, title: 'Lightning Roulette', subtitle: 'Evolution', metric: '64 plays' },
+  { id: 'game-5', rank: 5, previousRank: 7, title: 'Sweet Bonanza', subtitle: 'Pragmatic Play', metric: '51 plays' }
+];
+
+export const Default: Story = {
+  args: {
+    title: 'Today',
+    icon: <Flame />,
+    items: sampleItems,
+    onItemClick: () => {}
+  }
+};
+
+export const WithoutSnapshot: Story = {
+  args: {
+    title: 'This Week',
+    items: sampleItems,
+    showChanges: false
+  }
+};
+
+export const WithoutImages: Story = {
+  args: {
+    title: 'Trending Tags',
+    items: sampleItems.map(item => ({ ...item, subtitle: undefined })),
+    showImages: false
+  }
+};
+
+export const Empty: Story = {
+  args: {
+    title: 'Rising',
+    items: [],
+    emptyMessage: 'No games are rising right now.'
+  }
+};
+
+export const Loading: Story = {
+  args: {
+    title: 'Today',
+    items: [],
+    isLoading: true
+  }
+};
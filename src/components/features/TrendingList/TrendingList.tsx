@@ -0,0 +1,182 @@
+/**
+ * @fileoverview TrendingList component for a ranked list with rank-change arrows
+ * @module components/features/TrendingList
+ */
+
+'use client';
+
+import React from 'react';
+import { ArrowDown, ArrowUp, Minus } from 'lucide-react';
+import { Badge } from '@/components/ui/Badge';
+import { Image } from '@/components/ui/Image';
+import { DEFAULT_PLACEHOLDER } from '@/lib/core/config/constants/app.constants';
+import '@/styles/components/features/trending-list.css';
+
+/**
+ * A ranked entry of the list
+ * @interface TrendingListItem
+ */
+export interface TrendingListItem {
+  id: string;
+  rank: number;
+  /** Rank in the compared snapshot, null when the entry was not ranked there */
+  previousRank: number | null;
+  title: string;
+  subtitle?: string;
+  /** Thumbnail or logo (a placeholder is shown when missing) */
+  imageUrl?: string;
+  /** Short activity summary, e.g. "42 plays" */
+  metric?: string;
+}
+
+/**
+ * Props for the TrendingList component
+ * @interface TrendingListProps
+ */
+export interface TrendingListProps {
+  /** List heading */
+  title: string;
+  /** Icon shown before the heading */
+  icon?: React.ReactNode;
+  /** Entries in rank order */
+  items: TrendingListItem[];
+  /** Whether rank changes are known (false until there is a snapshot to compare against) */
+  showChanges?: boolean;
+  /** Show thumbnails next to the entries */
+  showImages?: boolean;
+  /** Callback when an entry is clicked */
+  onItemClick?: (id: string) => void;
+  /** Message shown when the list is empty */
+  emptyMessage?: string;
+  /** Whether the rankings are loading */
+  isLoading?: boolean;
+  /** Custom className for additional styling */
+  className?: string;
+  /** Test ID for testing */
+  testId?: string;
+}
+
+/**
+ * Arrow and number of places moved since the compared snapshot
+ */
+const RankChange: React.FC<{ rank: number; previousRank: number | null; showChanges: boolean }> = ({
+  rank,
+  previousRank,
+  showChanges
+}) => {
+  if (!showChanges) {
+    return <span className="trending-list-change trending-list-change-same" aria-hidden="true" />;
+  }
+
+  if (previousRank === null) {
+    return (
+      <Badge variant="primary" size="sm" className="trending-list-change-new">
+        New
+      </Badge>
+    );
+  }
+
+  const moved = previousRank - rank;
+
+  if (moved > 0) {
+    return (
+      <span className="trending-list-change trending-list-change-up" title={`Up ${moved} from #${previousRank}`}>
+        <ArrowUp className="trending-list-change-icon" aria-label="Up" />
+        {moved}
+      </span>
+    );
+  }
+
+  if (moved < 0) {
+    return (
+      <span className="trending-list-change trending-list-change-down" title={`Down ${-moved} from #${previousRank}`}>
+        <ArrowDown className="trending-list-change-icon" aria-label="Down" />
+        {-moved}
+      </span>
+    );
+  }
+
+  return (
+    <span className="trending-list-change trending-list-change-same" title="No change">
+      <Minus className="trending-list-change-icon" aria-label="No change" />
+    </span>
+  );
+};
+
+/**
+ * TrendingList Component
+ *
+ * @description Numbered ranking where each entry shows how many places it moved since the last snapshot.
+ *
+ * @example
+ * ```tsx
+ * <TrendingList
+ *   title="Today"
+ *   items={[{ id: 'game-1', rank: 1, previousRank: 3, title: 'Starburst', metric: '42 plays' }]}
+ *   showChanges
+ *   onItemClick={openGame}
+ * />
+ * ```
+ */
+export const TrendingList: React.FC<TrendingListProps> = ({
+  title,
+  icon,
+  items,
+  showChanges = true,
+  showImages = true,
+  onItemClick,
+  emptyMessage = 'Nothing trending yet.',
+  isLoading = false,
+  className = '',
+  testId = 'trending-list'
+}) => {
+  return (
+    <section className={`trending-list ${className}`} data-testid={testId}>
+      <h3 className="trending-list-title">
+        {icon && <span className="trending-list-icon">{icon}</span>}
+        {title}
+      </h3>
+
+      {isLoading ? (
+        <p className="trending-list-empty">Loading...</p>
+      ) : items.length === 0 ? (
+        <p className="trending-list-empty">{emptyMessage}</p>
+      ) : (
+        <ol className="trending-list-items">
+          {items.map(item => (
+            <li key={item.id}>
+              <button
+                type="button"
+                className="trending-list-item"
+                onClick={() => onItemClick?.(item.id)}
+                disabled={!onItemClick}
+              >
+                <span className="trending-list-rank">{item.rank}</span>
+                {showImages && (
+                  <span className="trending-list-image">
+                    <Image
+                      src={item.imageUrl || DEFAULT_PLACEHOLDER(item.title, '8b5cf6', 'ffffff')}
+                      alt={item.title}
+                      fallbackSrc={DEFAULT_PLACEHOLDER(item.title, '8b5cf6', 'ffffff')}
+                      fill
+                      objectFit="cover"
+                      sizes="40px"
+                      containerClassName="w-full h-full"
+                      showDefaultFallback={false}
+                    />
+                  </span>
+                )}
+                <span className="trending-list-text">
+                  <span className="trending-list-name">{item.title}</span>
+                  {item.subtitle && <span className="trending-list-subtitle">{item.subtitle}</span>}
+                </span>
+                {item.metric && <span className="trending-list-metric">{item.metric}</span>}
+                <RankChange rank={item.rank} previousRank={item.previousRank} showChanges={showChanges} />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
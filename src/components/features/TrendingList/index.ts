@@ -0,0 +1,7 @@
+/**
+ * @fileoverview TrendingList component exports
+ * @module components/features/TrendingList
+ */
+
+export { TrendingList } from './TrendingList';
+export type { TrendingListProps, TrendingListItem } from './TrendingList';
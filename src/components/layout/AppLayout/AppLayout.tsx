@@ -11,7 +11,9 @@ import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
 import { CookieConsent } from '@/components/features/CookieConsent';
 import { SessionTimeout } from '@/components/features/SessionTimeout';
+import { ChaosPanel } from '@/components/features/ChaosPanel';
 import { useAuthStore } from '@/lib/core/frontend/stores/auth/useAuthStore';
+import { useSessionActivity } from '@/hooks/useSessionActivity';
 import { NAVIGATION_ITEMS } from '@/lib/core/config/constants/routes.constants';
 import '@/styles/components/layout/app-layout.css';
 
@@ -20,14 +22,15 @@ interface AppLayoutProps {
 }
 
 export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
-  const { user, isAuthenticated, initializeGuestMode, addToBalance, subtractFromBalance } = useAuthStore();
+  const { user, isAuthenticated, hydrate, logout, addToBalance, subtractFromBalance } = useAuthStore();
 
-  // Initialize guest mode on mount if not authenticated
+  // Load the signed-in user from the session cookie, falling back to guest mode
   useEffect(() => {
-    if (!user && !isAuthenticated) {
-      initializeGuestMode();
-    }
-  }, [user, isAuthenticated, initializeGuestMode]);
+    hydrate();
+  }, [hydrate]);
+
+  // Slide the session while the user is active, sign out once it expires
+  useSessionActivity();
 
   // Simulate demo balance changes for guest users
   useEffect(() => {
@@ -46,9 +49,10 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
     }
   }, [user?.isGuest, addToBalance, subtractFromBalance]);
 
-  // Format user for Header component
-  const headerUser = user ? {
+  // Format user for Header component (guests get the login and sign up actions)
+  const headerUser = user && isAuthenticated ? {
     name: user.name,
+    email: user.email,
     avatar: user.avatar,
     balance: user.balance
   } : undefined;
@@ -58,7 +62,9 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
       <Header
         showUser={true}
         user={headerUser}
+        onSignOut={logout}
         navigationItems={NAVIGATION_ITEMS}
+        protectedLinks="badge"
         showSearch={true}
         showThemeSwitcher={true}
         fixed={true}
@@ -76,9 +82,10 @@ export const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
         compact={false}
       />
       <CookieConsent />
+      {/* Mock API fault injection controls for QA */}
+      {process.env.NODE_ENV === 'development' && <ChaosPanel />}
       <SessionTimeout 
         enabled={process.env.NEXT_PUBLIC_ENABLE_SESSION_TIMEOUT === 'true'}
-        sessionTimeout={parseInt(process.env.NEXT_PUBLIC_SESSION_TIMEOUT || '1800000')} // 30 minutes default
         warningTime={parseInt(process.env.NEXT_PUBLIC_SESSION_WARNING_TIME || '300000')} // 5 minutes default
       />
     </div>
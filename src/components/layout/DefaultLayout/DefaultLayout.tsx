@@ -10,7 +10,7 @@ import { usePathname } from 'next/navigation';
 import Script from 'next/script';
 import { Providers } from '@/components/providers';
 import { AppLayout } from '@/components/layout/AppLayout';
-import { getStructuredDataForPage } from '@/lib/core/config/seo.config';
+import { getStructuredDataForPage, serializeJsonLd } from '@/lib/core/config/seo.config';
 
 export interface DefaultLayoutProps {
   children: React.ReactNode;
@@ -39,7 +39,7 @@ export function DefaultLayout({
           id={`jsonld-${index}`}
           type="application/ld+json"
           dangerouslySetInnerHTML={{
-            __html: JSON.stringify(data),
+            __html: serializeJsonLd(data),
           }}
           strategy="afterInteractive"
         />
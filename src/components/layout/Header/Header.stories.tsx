@@ -79,10 +79,19 @@ import { Header } from '@/components/layout/Header';
       control: 'object',
       description: 'User data for authenticated state'
     },
+    onSignOut: {
+      action: 'signOut',
+      description: 'Sign out handler, shows a sign out action for the user'
+    },
     navigationItems: {
       control: 'object',
       description: 'Custom navigation items'
     },
+    protectedLinks: {
+      control: 'radio',
+      options: ['badge', 'hide'],
+      description: 'How links that require signing in are shown to guests'
+    },
     showSearch: {
       control: 'boolean',
       description: 'Show search button'
@@ -147,6 +156,20 @@ export const Authenticated: Story = {
   }
 };
 
+/**
+ * Signed-in user with a sign out action
+ */
+export const WithSignOut: Story = {
+  args: {
+    ...Default.args,
+    user: {
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      balance: 1000
+    }
+  }
+};
+
 /**
  * Header without user section
  */
@@ -343,6 +366,57 @@ export const WithBadges: Story = {
   }
 };
 
+const protectedNavItems = [
+  {
+    id: 'home',
+    label: 'Home',
+    href: '/',
+    icon: <Home className="w-4 h-4" />
+  },
+  {
+    id: 'games',
+    label: 'Games',
+    href: '/games',
+    icon: <Gamepad2 className="w-4 h-4" />
+  },
+  {
+    id: 'favorites',
+    label: 'Favorites',
+    href: '/favorites',
+    icon: <Star className="w-4 h-4" />,
+    requiresAuth: true
+  },
+  {
+    id: 'community',
+    label: 'Community',
+    href: '/community',
+    icon: <Users className="w-4 h-4" />,
+    requiresAuth: true
+  }
+];
+
+/**
+ * Guests see a lock on links that require signing in
+ */
+export const ProtectedLinksBadged: Story = {
+  args: {
+    ...Default.args,
+    navigationItems: protectedNavItems,
+    protectedLinks: 'badge'
+  }
+};
+
+/**
+ * Links that require signing in are left out for guests
+ */
+export const ProtectedLinksHidden: Story = {
+  args: {
+    ...Default.args,
+    navigationItems: protectedNavItems,
+    protectedLinks: 'hide'
+  }
+};
+
 /**
  * Custom logo
  */
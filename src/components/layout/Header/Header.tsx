@@ -5,7 +5,7 @@
 
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import { Link } from '@/components/ui/Link';
 import { ROUTES, ROUTE_VARIANTS } from '@/lib/core/config/constants/routes.constants';
@@ -21,7 +21,9 @@ import {
   Search,
   Moon,
   Sun,
-  Palette
+  Palette,
+  LogOut,
+  Lock
 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
@@ -42,6 +44,8 @@ export interface NavigationItem {
   badgeVariant?: 'default' | 'primary' | 'secondary' | 'success' | 'warning' | 'error';
   isNew?: boolean;
   isHot?: boolean;
+  /** Only for signed-in users, see HeaderProps.protectedLinks */
+  requiresAuth?: boolean;
   children?: NavigationItem[];
 }
 
@@ -51,11 +55,16 @@ export interface HeaderProps {
   /** User data for authenticated state */
   user?: {
     name: string;
+    email?: string;
     avatar?: string;
     balance?: number;
   };
+  /** Sign out handler, shows a sign out action for the user */
+  onSignOut?: () => void;
   /** Custom navigation items */
   navigationItems?: NavigationItem[];
+  /** How links that require signing in are shown to guests: hidden, or badged with a lock */
+  protectedLinks?: 'hide' | 'badge';
   /** Show search button */
   showSearch?: boolean;
   /** Show theme switcher */
@@ -122,7 +131,9 @@ const defaultNavItems: NavigationItem[] = [
 export const Header: React.FC<HeaderProps> = ({
   showUser = true,
   user,
+  onSignOut,
   navigationItems = defaultNavItems,
+  protectedLinks = 'badge',
   showSearch = true,
   showThemeSwitcher = true,
   fixed = true,
@@ -142,6 +153,25 @@ export const Header: React.FC<HeaderProps> = ({
   const { setMobileMenuOpen } = useNavigationStore();
   const favoriteCount = useFavoritesStore(state => state.getFavoriteCount());
   
+  /**
+   * Navigation for guests leaves out or locks links that require signing in
+   */
+  const visibleNavItems = useMemo(() => {
+    if (user || protectedLinks === 'badge') return navigationItems;
+
+    return navigationItems
+      .filter(item => !item.requiresAuth)
+      .map(item => item.children
+        ? { ...item, children: item.children.filter(child => !child.requiresAuth) }
+        : item);
+  }, [navigationItems, protectedLinks, user]);
+
+  const renderLockBadge = (item: NavigationItem) => !user && item.requiresAuth && (
+    <span className="header-nav-lock" role="img" aria-label="Sign in required" title="Sign in required">
+      <Lock className="w-3 h-3" aria-hidden="true" />
+    </span>
+  );
+  
   /**
    * Handle scroll to add background to transparent header
    */
@@ -244,7 +274,7 @@ export const Header: React.FC<HeaderProps> = ({
           
           {/* Desktop Navigation */}
           <nav className="header-nav">
-            {navigationItems.map(item => (
+            {visibleNavItems.map(item => (
               <div
                 key={item.id}
                 className="header-nav-item"
@@ -260,6 +290,7 @@ export const Header: React.FC<HeaderProps> = ({
                     >
                       {item.icon}
                       <span>{item.label}</span>
+                      {renderLockBadge(item)}
                       {item.badge && (
                         <Badge 
                           variant={item.badgeVariant || 'primary'} 
@@ -289,6 +320,7 @@ export const Header: React.FC<HeaderProps> = ({
                           >
                             {child.icon}
                             <span>{child.label}</span>
+                            {renderLockBadge(child)}
                             {child.isNew && (
                               <Badge variant="success" size="sm" gap="sm">NEW</Badge>
                             )}
@@ -307,6 +339,7 @@ export const Header: React.FC<HeaderProps> = ({
                   >
                     {item.icon}
                     <span>{item.label}</span>
+                    {renderLockBadge(item)}
                     {item.badge && (
                       <Badge 
                         variant={item.badgeVariant || 'primary'} 
@@ -380,14 +413,28 @@ export const Header: React.FC<HeaderProps> = ({
             {showUser && (
               <div className="header-user">
                 {user ? (
-                  <ProfileCard
-                    name={user.name}
-                    avatar={user.avatar}
-                    balance={user.balance}
-                    variant="compact"
-                    showBalanceChange={false}
-                    onClick={() => router.push(ROUTES.PROFILE)}
-                  />
+                  <>
+                    <ProfileCard
+                      name={user.name}
+                      avatar={user.avatar}
+                      balance={user.balance}
+                      variant="compact"
+                      showBalanceChange={false}
+                      onClick={() => router.push(ROUTES.PROFILE)}
+                    />
+                    {onSignOut && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        iconOnly
+                        onClick={onSignOut}
+                        className="header-action-btn"
+                        aria-label="Sign out"
+                      >
+                        <LogOut className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </>
                 ) : (
                   <>
                     <Button
@@ -440,11 +487,11 @@ export const Header: React.FC<HeaderProps> = ({
               {user ? (
                 <ProfileCard
                   name={user.name}
+                  email={user.email}
                   avatar={user.avatar}
                   balance={user.balance}
                   variant="drawer"
-                  showBalanceChange={true}
-                  previousBalance={user.balance ? user.balance - (Math.random() - 0.5) * 100 : undefined}
+                  showBalanceChange={false}
                   onClick={() => {
                     router.push(ROUTES.PROFILE);
                     toggleDrawer();
@@ -481,6 +528,20 @@ export const Header: React.FC<HeaderProps> = ({
         footer={
           <div className="header-drawer-footer">
             <div className="header-drawer-actions">
+              {user && onSignOut && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  fullWidth
+                  leftIcon={<LogOut className="w-4 h-4" />}
+                  onClick={() => {
+                    onSignOut();
+                    toggleDrawer();
+                  }}
+                >
+                  Sign out
+                </Button>
+              )}
               {showThemeSwitcher && (
                 <div className="header-drawer-theme">
                   <span className="header-drawer-theme-label">Theme:</span>
@@ -526,7 +587,7 @@ export const Header: React.FC<HeaderProps> = ({
       >
         {/* Drawer Navigation */}
         <nav className="header-drawer-nav">
-              {navigationItems.map(item => (
+              {visibleNavItems.map(item => (
                 <div key={item.id} className="header-drawer-nav-item">
                   <Link
                     href={item.href}
@@ -538,6 +599,7 @@ export const Header: React.FC<HeaderProps> = ({
                   >
                     {item.icon}
                     <span>{item.label}</span>
+                    {renderLockBadge(item)}
                     {item.badge && (
                       <Badge 
                         variant={item.badgeVariant || 'primary'} 
@@ -571,6 +633,7 @@ export const Header: React.FC<HeaderProps> = ({
                         >
                           {child.icon}
                           <span>{child.label}</span>
+                          {renderLockBadge(child)}
                           {child.isNew && (
                             <Badge variant="success" size="sm" gap="sm">NEW</Badge>
                           )}
@@ -0,0 +1,64 @@
+/**
+ * useChaosConfig hook
+ * Reads and writes the mock API fault injection config kept in the chaos cookie
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { COOKIE_KEYS } from '@/lib/core/config/constants/app.constants';
+import { chaosConfigSchema } from '@/lib/core/shared/validation';
+import type { ChaosConfig } from '@/lib/core/shared/types';
+
+// Short-lived so a forgotten fault setup does not outlast the QA session
+const CHAOS_COOKIE_MAX_AGE = 60 * 60 * 24;
+
+function readChaosCookie(): ChaosConfig {
+  const entry = document.cookie
+    .split('; ')
+    .find(cookie => cookie.startsWith(`${COOKIE_KEYS.CHAOS}=`));
+
+  if (!entry) {
+    return {};
+  }
+
+  try {
+    const value = JSON.parse(decodeURIComponent(entry.slice(COOKIE_KEYS.CHAOS.length + 1)));
+    return chaosConfigSchema.parse(value).data;
+  } catch {
+    return {};
+  }
+}
+
+function writeChaosCookie(config: ChaosConfig): void {
+  const isEmpty = Object.values(config).every(value => value === undefined);
+  const value = isEmpty ? '' : encodeURIComponent(JSON.stringify(config));
+  const maxAge = isEmpty ? 0 : CHAOS_COOKIE_MAX_AGE;
+
+  document.cookie = `${COOKIE_KEYS.CHAOS}=${value}; path=/; max-age=${maxAge}; samesite=lax`;
+}
+
+/**
+ * Hook for the dev chaos panel
+ * The cookie is sent with every API request, so changes apply from the next request on
+ */
+export function useChaosConfig() {
+  const [config, setConfigState] = useState<ChaosConfig>({});
+
+  // document is only available after mount
+  useEffect(() => {
+    setConfigState(readChaosCookie());
+  }, []);
+
+  const setConfig = useCallback((next: ChaosConfig) => {
+    writeChaosCookie(next);
+    setConfigState(next);
+  }, []);
+
+  const resetConfig = useCallback(() => setConfig({}), [setConfig]);
+
+  return {
+    config,
+    setConfig,
+    resetConfig,
+    isActive: Object.values(config).some(value => value !== undefined),
+  };
+}
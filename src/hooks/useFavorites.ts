@@ -1,6 +1,6 @@
 /**
  * useFavorites hook
- * Provides favorite games functionality with session persistence and backend sync
+ * Provides favorite games, collections and followed providers/tags with backend sync
  */
 
 import { useMemo, useCallback } from 'react';
@@ -8,6 +8,22 @@ import { useFavoritesStore } from '@/lib/core/frontend/stores/favorites/useFavor
 import { useGamesQuery } from './useGames';
 import { useToggleFavoriteMutation } from '@/lib/core/frontend/api/favorites/hooks/useFavoriteMutation';
 import { useFavoritesQuery } from '@/lib/core/frontend/api/favorites/hooks/useFavoritesQuery';
+import {
+  useCreateCollectionMutation,
+  useDeleteCollectionMutation,
+  useFavoriteCollectionsQuery,
+  useReorderCollectionsMutation,
+  useToggleCollectionGameMutation,
+  useUpdateCollectionMutation
+} from '@/lib/core/frontend/api/favorites/hooks/useFavoriteCollections';
+import {
+  useFavoriteProvidersQuery,
+  useFavoriteTagsQuery,
+  useToggleProviderFavoriteMutation,
+  useToggleTagFavoriteMutation
+} from '@/lib/core/frontend/api/favorites/hooks/useFollowedFavorites';
+import { FavoriteType } from '@/lib/core/shared/transformers';
+import { MAX_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
 
 /**
  * Hook for managing favorite games with backend sync
@@ -45,7 +61,7 @@ export function useFavoriteGames() {
   // Fetch games that are favorites
   const { data, ...queryResult } = useGamesQuery({
     favorites: true,
-    pageSize: 100, // Get all favorites
+    pageSize: MAX_PAGE_SIZE, // Get all favorites
   });
 
   // Filter games to only include favorites from session
@@ -78,4 +94,100 @@ export function useGameFavorite(gameId: string) {
     isFavorite: isFavorited,
     toggleFavorite: toggle,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Hook for managing named favorite collections with backend sync
+ */
+export function useFavoriteCollections() {
+  const collections = useFavoritesStore(state => state.collections);
+  const getCollectionsForGame = useFavoritesStore(state => state.getCollectionsForGame);
+  const { mutate: createMutation } = useCreateCollectionMutation();
+  const { mutate: updateMutation } = useUpdateCollectionMutation();
+  const { mutate: deleteMutation } = useDeleteCollectionMutation();
+  const { mutate: reorderMutation } = useReorderCollectionsMutation();
+  const { mutate: toggleGameMutation } = useToggleCollectionGameMutation();
+  
+  // Load collections from backend
+  useFavoriteCollectionsQuery();
+  
+  const createCollection = useCallback((name: string, gameIds?: string[]) => {
+    createMutation({ name, gameIds });
+  }, [createMutation]);
+  
+  const renameCollection = useCallback((collectionId: string, name: string) => {
+    updateMutation({ collectionId, changes: { name } });
+  }, [updateMutation]);
+  
+  const deleteCollection = useCallback((collectionId: string) => {
+    deleteMutation(collectionId);
+  }, [deleteMutation]);
+  
+  const reorderCollections = useCallback((collectionIds: string[]) => {
+    reorderMutation(collectionIds);
+  }, [reorderMutation]);
+  
+  const toggleGameInCollection = useCallback((collectionId: string, gameId: string) => {
+    toggleGameMutation({ collectionId, gameId });
+  }, [toggleGameMutation]);
+  
+  return {
+    collections,
+    getCollectionsForGame,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    reorderCollections,
+    toggleGameInCollection,
+  };
+}
+
+/**
+ * Hook for followed providers with backend sync
+ */
+export function useFollowedProviders() {
+  const favorites = useFavoritesStore(state => state.favorites);
+  const { data: providers = [] } = useFavoriteProvidersQuery();
+  const { mutate: toggleMutation } = useToggleProviderFavoriteMutation();
+  
+  const providerIds = useMemo(() => 
+    favorites.filter(fav => fav.type === FavoriteType.PROVIDER).map(fav => fav.id),
+    [favorites]
+  );
+  
+  const toggleFollow = useCallback((providerId: string) => {
+    toggleMutation(providerId);
+  }, [toggleMutation]);
+  
+  return {
+    providers,
+    providerIds,
+    isFollowed: (providerId: string) => providerIds.includes(providerId),
+    toggleFollow,
+  };
+}
+
+/**
+ * Hook for followed tags with backend sync
+ */
+export function useFollowedTags() {
+  const favorites = useFavoritesStore(state => state.favorites);
+  const { data: tags = [] } = useFavoriteTagsQuery();
+  const { mutate: toggleMutation } = useToggleTagFavoriteMutation();
+  
+  const tagIds = useMemo(() => 
+    favorites.filter(fav => fav.type === FavoriteType.TAG).map(fav => fav.id),
+    [favorites]
+  );
+  
+  const toggleFollow = useCallback((tagId: string) => {
+    toggleMutation(tagId.toLowerCase());
+  }, [toggleMutation]);
+  
+  return {
+    tags,
+    tagIds,
+    isFollowed: (tagId: string) => tagIds.includes(tagId.toLowerCase()),
+    toggleFollow,
+  };
+}
@@ -1,8 +1,11 @@
 /**
  * useGames hook  
- * Simple wrapper around useGamesQuery
+ * Simple wrappers around the games query and play hooks
  */
 
 import { useGamesQuery as useQuery } from '@/lib/core/frontend/api/games/hooks/useGamesQuery';
+import { usePlayMutation as usePlay } from '@/lib/core/frontend/api/games/hooks/usePlayMutation';
 
-export const useGamesQuery = useQuery;
\ No newline at end of file
+export const useGamesQuery = useQuery;
+
+export const usePlayMutation = usePlay;
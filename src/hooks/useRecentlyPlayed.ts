@@ -0,0 +1,87 @@
+/**
+ * useRecentlyPlayed hook
+ * Provides the recently played history, kept locally for guests and on the server for signed-in users
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useAuthStore } from '@/lib/core/frontend/stores/auth/useAuthStore';
+import { useRecentlyPlayedStore } from '@/lib/core/frontend/stores/recentlyPlayed/useRecentlyPlayedStore';
+import {
+  useClearRecentGamesMutation,
+  useMergeRecentGamesMutation,
+  useRecentGamesQuery,
+  useRemoveRecentGameMutation
+} from '@/lib/core/frontend/api/recent/hooks/useRecentGames';
+
+/**
+ * Hook for the IDs the recent filter should match
+ * Guests send their local history; undefined for signed-in users, whose history the server holds
+ */
+export function useRecentFilterIds(): string[] | undefined {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const entries = useRecentlyPlayedStore(state => state.entries);
+
+  return useMemo(
+    () => (isAuthenticated ? undefined : entries.map(entry => entry.gameId)),
+    [isAuthenticated, entries]
+  );
+}
+
+/**
+ * Hook for the recently played games, most recent first
+ * A guest's local history is merged into the stored history once they sign in
+ */
+export function useRecentlyPlayed() {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const entries = useRecentlyPlayedStore(state => state.entries);
+  const removeLocal = useRecentlyPlayedStore(state => state.removeGame);
+  const clearLocal = useRecentlyPlayedStore(state => state.clear);
+  const { mutate: merge } = useMergeRecentGamesMutation();
+  const { mutate: removeStored } = useRemoveRecentGameMutation();
+  const { mutate: clearStored } = useClearRecentGamesMutation();
+  const isMerging = useRef(false);
+
+  const recentIds = useRecentFilterIds();
+
+  // Guests send their local history, signed-in users read the stored one
+  const { data: games = [], isLoading } = useRecentGamesQuery(recentIds, {
+    enabled: !recentIds || recentIds.length > 0
+  });
+
+  // Merge the guest history on sign in, keeping it locally until the server has it
+  useEffect(() => {
+    if (!isAuthenticated || entries.length === 0 || isMerging.current) return;
+
+    isMerging.current = true;
+    merge(entries, {
+      onSuccess: () => clearLocal(),
+      onSettled: () => {
+        isMerging.current = false;
+      }
+    });
+  }, [isAuthenticated, entries, merge, clearLocal]);
+
+  const remove = useCallback((gameId: string) => {
+    if (isAuthenticated) {
+      removeStored(gameId);
+    } else {
+      removeLocal(gameId);
+    }
+  }, [isAuthenticated, removeStored, removeLocal]);
+
+  const clear = useCallback(() => {
+    if (isAuthenticated) {
+      clearStored();
+    } else {
+      clearLocal();
+    }
+  }, [isAuthenticated, clearStored, clearLocal]);
+
+  return {
+    // A guest without history skips the query, which may still hold an earlier result
+    games: !recentIds || recentIds.length > 0 ? games : [],
+    isLoading,
+    remove,
+    clear,
+  };
+}
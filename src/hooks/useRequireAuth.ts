@@ -0,0 +1,32 @@
+/**
+ * useRequireAuth hook
+ * Keeps guests off pages that need a signed-in user
+ */
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuthStore } from '@/lib/core/frontend/stores/auth/useAuthStore';
+import { getLoginRoute } from '@/lib/core/config/constants/routes.constants';
+
+/**
+ * Hook for protected pages
+ * The middleware only sees that a session cookie exists; once the session has been checked with
+ * the server, guests (expired sessions, sign-out in this or another tab) are sent to sign in and
+ * come back here afterwards
+ *
+ * @returns Whether the page can render its signed-in content
+ */
+export function useRequireAuth(): boolean {
+  const router = useRouter();
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const isHydrated = useAuthStore(state => state.isHydrated);
+
+  useEffect(() => {
+    if (!isHydrated || isAuthenticated) return;
+
+    const { pathname, search } = window.location;
+    router.replace(getLoginRoute(`${pathname}${search}`));
+  }, [isHydrated, isAuthenticated, router]);
+
+  return isHydrated && isAuthenticated;
+}
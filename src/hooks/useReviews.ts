@@ -0,0 +1,48 @@
+/**
+ * useReviews hook
+ * Provides a game's reviews page by page and rating it, with backend sync
+ */
+
+import { useState, useCallback } from 'react';
+import {
+  useGameReviewsQuery,
+  useSubmitReviewMutation
+} from '@/lib/core/frontend/api/games/hooks/useGameReviews';
+
+/**
+ * Hook for a game's reviews, starting from the first page whenever the game changes
+ * The result can be passed as-is to GameReviews (or GameDetailsModal's `reviews` prop)
+ */
+export function useGameReviews(gameId: string | undefined) {
+  // The page is remembered per game, so opening another game starts on page 1
+  const [pageState, setPageState] = useState({ gameId, page: 1 });
+  const page = pageState.gameId === gameId ? pageState.page : 1;
+
+  const { data, isLoading } = useGameReviewsQuery(gameId, page);
+  const { mutate: submitReviewMutation, isPending } = useSubmitReviewMutation();
+
+  const onPageChange = useCallback((nextPage: number) => {
+    setPageState({ gameId, page: nextPage });
+  }, [gameId]);
+
+  const onSubmit = useCallback((review: { rating: number; text?: string }) => {
+    if (!gameId) return;
+    submitReviewMutation({ gameId, ...review }, {
+      // Show the new or updated review at the top of the list
+      onSuccess: () => setPageState({ gameId, page: 1 })
+    });
+  }, [gameId, submitReviewMutation]);
+
+  return {
+    reviews: data?.reviews || [],
+    rating: data?.rating,
+    ratingCount: data?.ratingCount,
+    ownReview: data?.ownReview,
+    page,
+    totalPages: data?.pagination.totalPages || 1,
+    onPageChange,
+    onSubmit,
+    isSubmitting: isPending,
+    isLoading
+  };
+}
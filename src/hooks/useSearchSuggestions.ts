@@ -0,0 +1,38 @@
+/**
+ * useSearchSuggestions hook
+ * Provides autocomplete suggestions for a query and the visitor's recent searches
+ */
+
+import { useMemo } from 'react';
+import { useSearchHistoryStore } from '@/lib/core/frontend/stores/searchHistory/useSearchHistoryStore';
+import { useSearchSuggestionsQuery } from '@/lib/core/frontend/api/search/hooks/useSearchSuggestions';
+import { UI_LIMITS } from '@/lib/core/config/constants/app.constants';
+
+/**
+ * Hook for search bar suggestions
+ * Suggestions are only fetched once the query reaches UI_LIMITS.MIN_SEARCH_LENGTH
+ * 
+ * @param query - The (debounced) text typed in the search bar
+ */
+export function useSearchSuggestions(query: string) {
+  const queries = useSearchHistoryStore(state => state.queries);
+  const addRecentSearch = useSearchHistoryStore(state => state.addQuery);
+  const removeRecentSearch = useSearchHistoryStore(state => state.removeQuery);
+
+  const isQueryLongEnough = query.trim().length >= UI_LIMITS.MIN_SEARCH_LENGTH;
+  const { data, isFetching } = useSearchSuggestionsQuery(query);
+
+  const recentSearches = useMemo(
+    () => queries.slice(0, UI_LIMITS.MAX_RECENT_SEARCHES),
+    [queries]
+  );
+
+  return {
+    // A short query skips the query, which may still hold an earlier result
+    suggestions: isQueryLongEnough ? data : undefined,
+    isLoading: isQueryLongEnough && isFetching,
+    recentSearches,
+    addRecentSearch,
+    removeRecentSearch,
+  };
+}
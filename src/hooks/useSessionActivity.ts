@@ -0,0 +1,65 @@
+/**
+ * useSessionActivity hook
+ * Keeps the signed-in session alive while the user is active, and signs out once it expires
+ */
+
+import { useEffect } from 'react';
+import { useAuthStore } from '@/lib/core/frontend/stores/auth/useAuthStore';
+import { useToastStore } from '@/lib/core/frontend/stores/toast/useToastStore';
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+// Longest delay setTimeout supports; "remember me" sessions last longer, so the check is re-armed
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Hook for session upkeep, mounted once by the app layout
+ * Activity is reported to the auth store, which shares it with other tabs and refreshes the session.
+ * When the session runs out the user is signed out here and in every other tab
+ */
+export function useSessionActivity() {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const expiresAt = useAuthStore(state => state.expiresAt);
+  const recordActivity = useAuthStore(state => state.recordActivity);
+  const expireSession = useAuthStore(state => state.expireSession);
+  const showToast = useToastStore(state => state.showToast);
+
+  // Report activity while signed in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    ACTIVITY_EVENTS.forEach(event => {
+      window.addEventListener(event, recordActivity, { passive: true });
+    });
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => {
+        window.removeEventListener(event, recordActivity);
+      });
+    };
+  }, [isAuthenticated, recordActivity]);
+
+  // Forced logout at expiry (a refresh from any tab moves expiresAt and re-arms the timer)
+  useEffect(() => {
+    if (!isAuthenticated || !expiresAt) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const check = () => {
+      const remaining = Date.parse(expiresAt) - Date.now();
+      if (remaining > 0) {
+        timer = setTimeout(check, Math.min(remaining, MAX_TIMER_DELAY));
+        return;
+      }
+
+      expireSession();
+      showToast({
+        title: 'Session expired',
+        message: 'You were signed out after a period of inactivity.',
+        variant: 'warning'
+      });
+    };
+    check();
+
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, expiresAt, expireSession, showToast]);
+}
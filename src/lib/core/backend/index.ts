@@ -10,7 +10,38 @@
 export { GameService, gameService } from './services/GameService';
 export { ProviderService, providerService } from './services/ProviderService';
 export { FavoriteService, favoriteService } from './services/FavoriteService';
+export { ReviewService, reviewService } from './services/ReviewService';
+export { PlayService, playService } from './services/PlayService';
+export { TrendingService, trendingService } from './services/TrendingService';
+export { SearchService, searchService } from './services/SearchService';
+export type { SearchSuggestions } from './services/SearchService';
+export { VisitorService, visitorService } from './services/VisitorService';
+export type { Visitor } from './services/VisitorService';
+export { AuthService, authService } from './services/AuthService';
+export type { AuthContext, StartedSession } from './services/AuthService';
 export { CacheService, cacheService } from './services/CacheService';
+export { ChaosService, chaosService } from './services/ChaosService';
+export type { ApiRequestKind } from './services/ChaosService';
+
+/* ============================================
+   REPOSITORIES (Storage adapters)
+   ============================================ */
+
+export { getRepositories, createRepositories, getDataAdapter } from './repositories';
+export type {
+  DataAdapter,
+  Repositories,
+  GameRepository,
+  ProviderRepository,
+  FavoriteRepository,
+  FavoriteCollectionRepository,
+  ReviewRepository,
+  PlayEventRepository,
+  FavoriteEventRepository,
+  TrendingSnapshotRepository,
+  UserRepository,
+  SessionRepository
+} from './repositories';
 
 /* ============================================
    DOMAIN TYPES (Backend can use all domain types)
@@ -89,7 +120,8 @@ export {
 
 export {
   simulateApiDelay,
-  simulateMutationDelay
+  simulateMutationDelay,
+  simulateSearchDelay
 } from '../shared/utils/delay';
 
 export {
@@ -0,0 +1,359 @@
+/**
+ * JSON File Repository
+ * File-backed adapter that keeps data in memory and writes every change to disk (play events in batches)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type {
+  AuthSession,
+  FavoriteCollection,
+  FavoriteEvent,
+  PlayEvent,
+  RecentGame,
+  Review,
+  TrendingSnapshot,
+  UserAccount
+} from '@/lib/core/domain/entities';
+import type { Repositories } from './types';
+import {
+  MemoryCatalogRepository,
+  MemoryFavoriteCollectionRepository,
+  MemoryFavoriteEventRepository,
+  MemoryFavoriteRepository,
+  MemoryPlayEventRepository,
+  MemoryRecentGameRepository,
+  MemoryReviewRepository,
+  MemorySessionRepository,
+  MemoryTrendingSnapshotRepository,
+  MemoryUserRepository,
+  seedData
+} from './MemoryRepository';
+
+/**
+ * Read a JSON file, seeding it with the fallback when it does not exist yet
+ */
+function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    writeJsonFile(filePath, fallback);
+    return fallback;
+  }
+  
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename) so a crash never leaves a partial file
+ */
+function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Catalogue repository persisted as a JSON array
+ */
+export class JsonFileCatalogRepository<T extends { id: string }> extends MemoryCatalogRepository<T> {
+  constructor(private readonly filePath: string, seed: T[]) {
+    super(readJsonFile(filePath, seed));
+  }
+
+  save(entity: T): void {
+    super.save(entity);
+    this.persist();
+  }
+
+  saveMany(entities: T[]): void {
+    super.saveMany(entities);
+    this.persist();
+  }
+
+  delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, this.findAll());
+  }
+}
+
+/**
+ * Favorites repository persisted in the same shape as the bundled favorites.json
+ */
+export class JsonFileFavoriteRepository extends MemoryFavoriteRepository {
+  constructor(private readonly filePath: string, seed: Record<string, string[]> = {}) {
+    super(readJsonFile(filePath, { favorites: seed, lastUpdated: new Date().toISOString() }).favorites);
+  }
+
+  saveForUser(userId: string, itemIds: string[]): void {
+    super.saveForUser(userId, itemIds);
+    writeJsonFile(this.filePath, {
+      favorites: Object.fromEntries(this.favorites),
+      lastUpdated: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Favorite collections repository persisted as collections per user
+ */
+export class JsonFileFavoriteCollectionRepository extends MemoryFavoriteCollectionRepository {
+  constructor(private readonly filePath: string) {
+    super(readJsonFile<{ collections: Record<string, FavoriteCollection[]> }>(
+      filePath,
+      { collections: {} }
+    ).collections);
+  }
+
+  saveForUser(userId: string, collections: FavoriteCollection[]): void {
+    super.saveForUser(userId, collections);
+    writeJsonFile(this.filePath, {
+      collections: Object.fromEntries(this.collections),
+      lastUpdated: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Recently played repository persisted as history per user
+ */
+export class JsonFileRecentGameRepository extends MemoryRecentGameRepository {
+  constructor(private readonly filePath: string) {
+    super(readJsonFile<{ recentGames: Record<string, RecentGame[]> }>(
+      filePath,
+      { recentGames: {} }
+    ).recentGames);
+  }
+
+  saveForUser(userId: string, entries: RecentGame[]): void {
+    super.saveForUser(userId, entries);
+    writeJsonFile(this.filePath, {
+      recentGames: Object.fromEntries(this.entries),
+      lastUpdated: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Reviews repository persisted as reviews per game
+ */
+export class JsonFileReviewRepository extends MemoryReviewRepository {
+  constructor(private readonly filePath: string) {
+    super(readJsonFile<{ reviews: Record<string, Review[]> }>(filePath, { reviews: {} }).reviews);
+  }
+
+  save(review: Review): void {
+    super.save(review);
+    writeJsonFile(this.filePath, {
+      reviews: Object.fromEntries(this.reviews),
+      lastUpdated: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * How long play changes are buffered before one write covers them all
+ */
+const PLAY_EVENT_WRITE_DELAY_MS = 1000;
+
+/**
+ * Play event repository persisted as a JSON array of events and the play counts per game
+ * Plays are the hottest write path, so changes are batched into one write per delay
+ * instead of rewriting the file on every play; pending changes are written on exit
+ */
+export class JsonFilePlayEventRepository extends MemoryPlayEventRepository {
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly flushPending = () => this.flush();
+
+  constructor(private readonly filePath: string) {
+    const { events, counts } = readJsonFile<{ events: PlayEvent[]; counts?: Record<string, number> }>(
+      filePath,
+      { events: [], counts: {} }
+    );
+    super(events, counts);
+  }
+
+  record(event: PlayEvent): void {
+    super.record(event);
+    this.schedulePersist();
+  }
+
+  deleteBefore(before: string): number {
+    const deleted = super.deleteBefore(before);
+    if (deleted > 0) {
+      this.schedulePersist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Write pending changes now
+   */
+  flush(): void {
+    if (!this.writeTimer) return;
+
+    clearTimeout(this.writeTimer);
+    this.writeTimer = null;
+    process.off('exit', this.flushPending);
+    this.persist();
+  }
+
+  private schedulePersist(): void {
+    if (this.writeTimer) return;
+
+    this.writeTimer = setTimeout(this.flushPending, PLAY_EVENT_WRITE_DELAY_MS);
+    // A pending write should not keep the process alive; the exit handler covers it
+    this.writeTimer.unref();
+    process.once('exit', this.flushPending);
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, {
+      events: this.events,
+      counts: this.counts,
+      lastUpdated: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Favorite event repository persisted as a JSON array of events
+ */
+export class JsonFileFavoriteEventRepository extends MemoryFavoriteEventRepository {
+  constructor(private readonly filePath: string) {
+    super(readJsonFile<{ events: FavoriteEvent[] }>(filePath, { events: [] }).events);
+  }
+
+  record(event: FavoriteEvent): void {
+    super.record(event);
+    this.persist();
+  }
+
+  deleteBefore(before: string): number {
+    const deleted = super.deleteBefore(before);
+    if (deleted > 0) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, {
+      events: this.events,
+      lastUpdated: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Trending snapshot repository persisted as a JSON array of snapshots
+ */
+export class JsonFileTrendingSnapshotRepository extends MemoryTrendingSnapshotRepository {
+  constructor(private readonly filePath: string) {
+    super(readJsonFile<{ snapshots: TrendingSnapshot[] }>(filePath, { snapshots: [] }).snapshots);
+  }
+
+  save(snapshot: TrendingSnapshot): void {
+    super.save(snapshot);
+    this.persist();
+  }
+
+  deleteBefore(before: string): number {
+    const deleted = super.deleteBefore(before);
+    if (deleted > 0) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, {
+      snapshots: this.snapshots,
+      lastUpdated: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * User account repository persisted as a JSON array of accounts
+ */
+export class JsonFileUserRepository extends MemoryUserRepository {
+  constructor(private readonly filePath: string) {
+    super(readJsonFile<{ users: UserAccount[] }>(filePath, { users: [] }).users);
+  }
+
+  save(user: UserAccount): void {
+    super.save(user);
+    writeJsonFile(this.filePath, {
+      users: Array.from(this.users.values()),
+      lastUpdated: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Session repository persisted as a JSON array of sessions
+ */
+export class JsonFileSessionRepository extends MemorySessionRepository {
+  constructor(private readonly filePath: string) {
+    super(readJsonFile<{ sessions: AuthSession[] }>(filePath, { sessions: [] }).sessions);
+  }
+
+  save(session: AuthSession): void {
+    super.save(session);
+    this.persist();
+  }
+
+  delete(id: string): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  deleteExpired(before: string): number {
+    const deleted = super.deleteExpired(before);
+    if (deleted > 0) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  private persist(): void {
+    writeJsonFile(this.filePath, {
+      sessions: Array.from(this.sessions.values()),
+      lastUpdated: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Create JSON file repositories under the given data directory
+ */
+export function createJsonFileRepositories(dataDir: string): Repositories {
+  return {
+    adapter: 'json',
+    games: new JsonFileCatalogRepository(path.join(dataDir, 'games.json'), seedData.games),
+    providers: new JsonFileCatalogRepository(path.join(dataDir, 'providers.json'), seedData.providers),
+    tags: new JsonFileCatalogRepository(path.join(dataDir, 'tags.json'), seedData.tags),
+    favorites: new JsonFileFavoriteRepository(path.join(dataDir, 'favorites.json'), seedData.favorites),
+    providerFavorites: new JsonFileFavoriteRepository(path.join(dataDir, 'provider-favorites.json')),
+    tagFavorites: new JsonFileFavoriteRepository(path.join(dataDir, 'tag-favorites.json')),
+    collections: new JsonFileFavoriteCollectionRepository(path.join(dataDir, 'collections.json')),
+    reviews: new JsonFileReviewRepository(path.join(dataDir, 'reviews.json')),
+    plays: new JsonFilePlayEventRepository(path.join(dataDir, 'play-events.json')),
+    favoriteEvents: new JsonFileFavoriteEventRepository(path.join(dataDir, 'favorite-events.json')),
+    trendingSnapshots: new JsonFileTrendingSnapshotRepository(path.join(dataDir, 'trending-snapshots.json')),
+    recentGames: new JsonFileRecentGameRepository(path.join(dataDir, 'recent-games.json')),
+    users: new JsonFileUserRepository(path.join(dataDir, 'users.json')),
+    sessions: new JsonFileSessionRepository(path.join(dataDir, 'sessions.json'))
+  };
+}
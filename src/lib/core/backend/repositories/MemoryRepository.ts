@@ -0,0 +1,324 @@
+/**
+ * Memory Repository
+ * In-memory adapter seeded from the bundled JSON data
+ */
+
+import type {
+  AuthSession,
+  FavoriteCollection,
+  FavoriteEvent,
+  Game,
+  PlayEvent,
+  Provider,
+  RecentGame,
+  Review,
+  TagDefinition,
+  TrendingSnapshot,
+  UserAccount
+} from '@/lib/core/domain/entities';
+import type {
+  CatalogRepository,
+  FavoriteCollectionRepository,
+  FavoriteEventRepository,
+  FavoriteRepository,
+  PlayEventRepository,
+  RecentGameRepository,
+  Repositories,
+  ReviewRepository,
+  SessionRepository,
+  TrendingSnapshotRepository,
+  UserRepository
+} from './types';
+import gamesData from '../data/games.json';
+import providersData from '../data/providers.json';
+import tagsData from '../data/tags.json';
+import favoritesData from '../data/favorites.json';
+
+/**
+ * Bundled seed data shared by all adapters
+ */
+export const seedData = {
+  games: gamesData as Game[],
+  providers: providersData as Provider[],
+  tags: tagsData as TagDefinition[],
+  favorites: (favoritesData as { favorites: Record<string, string[]> }).favorites
+};
+
+/**
+ * Map-backed catalogue repository
+ */
+export class MemoryCatalogRepository<T extends { id: string }> implements CatalogRepository<T> {
+  protected items: Map<string, T>;
+
+  constructor(seed: T[]) {
+    this.items = new Map(seed.map(item => [item.id, item]));
+  }
+
+  findAll(): T[] {
+    return Array.from(this.items.values());
+  }
+
+  findById(id: string): T | undefined {
+    return this.items.get(id);
+  }
+
+  save(entity: T): void {
+    this.items.set(entity.id, entity);
+  }
+
+  saveMany(entities: T[]): void {
+    entities.forEach(entity => this.items.set(entity.id, entity));
+  }
+
+  delete(id: string): boolean {
+    return this.items.delete(id);
+  }
+}
+
+/**
+ * Map-backed favorites repository
+ */
+export class MemoryFavoriteRepository implements FavoriteRepository {
+  protected favorites: Map<string, string[]>;
+
+  constructor(seed: Record<string, string[]> = {}) {
+    this.favorites = new Map(Object.entries(seed).map(([userId, ids]) => [userId, [...ids]]));
+  }
+
+  findByUser(userId: string): string[] {
+    return [...(this.favorites.get(userId) || [])];
+  }
+
+  saveForUser(userId: string, itemIds: string[]): void {
+    this.favorites.set(userId, [...itemIds]);
+  }
+}
+
+/**
+ * Map-backed favorite collections repository
+ */
+export class MemoryFavoriteCollectionRepository implements FavoriteCollectionRepository {
+  protected collections: Map<string, FavoriteCollection[]>;
+
+  constructor(seed: Record<string, FavoriteCollection[]> = {}) {
+    this.collections = new Map(Object.entries(seed));
+  }
+
+  findByUser(userId: string): FavoriteCollection[] {
+    return (this.collections.get(userId) || []).map(collection => ({
+      ...collection,
+      gameIds: [...collection.gameIds]
+    }));
+  }
+
+  saveForUser(userId: string, collections: FavoriteCollection[]): void {
+    this.collections.set(userId, collections.map(collection => ({
+      ...collection,
+      gameIds: [...collection.gameIds]
+    })));
+  }
+}
+
+/**
+ * Map-backed recently played repository
+ */
+export class MemoryRecentGameRepository implements RecentGameRepository {
+  protected entries: Map<string, RecentGame[]>;
+
+  constructor(seed: Record<string, RecentGame[]> = {}) {
+    this.entries = new Map(Object.entries(seed));
+  }
+
+  findByUser(userId: string): RecentGame[] {
+    return (this.entries.get(userId) || []).map(entry => ({ ...entry }));
+  }
+
+  saveForUser(userId: string, entries: RecentGame[]): void {
+    this.entries.set(userId, entries.map(entry => ({ ...entry })));
+  }
+}
+
+/**
+ * Map-backed reviews repository
+ */
+export class MemoryReviewRepository implements ReviewRepository {
+  protected reviews: Map<string, Review[]>;
+
+  constructor(seed: Record<string, Review[]> = {}) {
+    this.reviews = new Map(Object.entries(seed));
+  }
+
+  findByGame(gameId: string): Review[] {
+    return (this.reviews.get(gameId) || []).map(review => ({ ...review }));
+  }
+
+  save(review: Review): void {
+    const reviews = this.reviews.get(review.gameId) || [];
+    const index = reviews.findIndex(existing => existing.id === review.id);
+    
+    this.reviews.set(review.gameId, index >= 0
+      ? reviews.map((existing, i) => i === index ? { ...review } : existing)
+      : [...reviews, { ...review }]);
+  }
+}
+
+/**
+ * Array-backed play event repository
+ */
+export class MemoryPlayEventRepository implements PlayEventRepository {
+  protected events: PlayEvent[];
+  protected counts: Record<string, number>;
+
+  constructor(seed: PlayEvent[] = [], counts: Record<string, number> = {}) {
+    this.events = [...seed];
+    this.counts = { ...counts };
+  }
+
+  findSince(since: string): PlayEvent[] {
+    return this.events.filter(event => event.playedAt >= since);
+  }
+
+  record(event: PlayEvent): void {
+    this.events.push({ ...event });
+    this.counts[event.gameId] = (this.counts[event.gameId] || 0) + 1;
+  }
+
+  deleteBefore(before: string): number {
+    const count = this.events.length;
+    this.events = this.events.filter(event => event.playedAt >= before);
+    return count - this.events.length;
+  }
+
+  countByGame(): Record<string, number> {
+    return { ...this.counts };
+  }
+}
+
+/**
+ * Array-backed favorite event repository
+ */
+export class MemoryFavoriteEventRepository implements FavoriteEventRepository {
+  protected events: FavoriteEvent[];
+
+  constructor(seed: FavoriteEvent[] = []) {
+    this.events = [...seed];
+  }
+
+  findSince(since: string): FavoriteEvent[] {
+    return this.events.filter(event => event.favoritedAt >= since);
+  }
+
+  record(event: FavoriteEvent): void {
+    this.events.push({ ...event });
+  }
+
+  deleteBefore(before: string): number {
+    const count = this.events.length;
+    this.events = this.events.filter(event => event.favoritedAt >= before);
+    return count - this.events.length;
+  }
+}
+
+/**
+ * Array-backed trending snapshot repository, oldest first
+ */
+export class MemoryTrendingSnapshotRepository implements TrendingSnapshotRepository {
+  protected snapshots: TrendingSnapshot[];
+
+  constructor(seed: TrendingSnapshot[] = []) {
+    this.snapshots = [...seed];
+  }
+
+  findLatestBefore(before: string): TrendingSnapshot | undefined {
+    return this.snapshots.filter(snapshot => snapshot.takenAt < before).pop();
+  }
+
+  save(snapshot: TrendingSnapshot): void {
+    this.snapshots.push(snapshot);
+  }
+
+  deleteBefore(before: string): number {
+    const count = this.snapshots.length;
+    this.snapshots = this.snapshots.filter(snapshot => snapshot.takenAt >= before);
+    return count - this.snapshots.length;
+  }
+}
+
+/**
+ * Map-backed user account repository
+ */
+export class MemoryUserRepository implements UserRepository {
+  protected users: Map<string, UserAccount>;
+
+  constructor(seed: UserAccount[] = []) {
+    this.users = new Map(seed.map(user => [user.id, user]));
+  }
+
+  findById(id: string): UserAccount | undefined {
+    const user = this.users.get(id);
+    return user ? { ...user } : undefined;
+  }
+
+  findByEmail(email: string): UserAccount | undefined {
+    const normalized = email.trim().toLowerCase();
+    const user = Array.from(this.users.values()).find(existing => existing.email === normalized);
+    return user ? { ...user } : undefined;
+  }
+
+  save(user: UserAccount): void {
+    this.users.set(user.id, { ...user });
+  }
+}
+
+/**
+ * Map-backed session repository
+ */
+export class MemorySessionRepository implements SessionRepository {
+  protected sessions: Map<string, AuthSession>;
+
+  constructor(seed: AuthSession[] = []) {
+    this.sessions = new Map(seed.map(session => [session.id, session]));
+  }
+
+  findById(id: string): AuthSession | undefined {
+    const session = this.sessions.get(id);
+    return session ? { ...session } : undefined;
+  }
+
+  save(session: AuthSession): void {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  delete(id: string): boolean {
+    return this.sessions.delete(id);
+  }
+
+  deleteExpired(before: string): number {
+    const expired = Array.from(this.sessions.values()).filter(session => session.expiresAt < before);
+    expired.forEach(session => this.sessions.delete(session.id));
+    return expired.length;
+  }
+}
+
+/**
+ * Create in-memory repositories (changes are lost on restart)
+ */
+export function createMemoryRepositories(): Repositories {
+  return {
+    adapter: 'memory',
+    games: new MemoryCatalogRepository(seedData.games),
+    providers: new MemoryCatalogRepository(seedData.providers),
+    tags: new MemoryCatalogRepository(seedData.tags),
+    favorites: new MemoryFavoriteRepository(seedData.favorites),
+    providerFavorites: new MemoryFavoriteRepository(),
+    tagFavorites: new MemoryFavoriteRepository(),
+    collections: new MemoryFavoriteCollectionRepository(),
+    reviews: new MemoryReviewRepository(),
+    plays: new MemoryPlayEventRepository(),
+    favoriteEvents: new MemoryFavoriteEventRepository(),
+    trendingSnapshots: new MemoryTrendingSnapshotRepository(),
+    recentGames: new MemoryRecentGameRepository(),
+    users: new MemoryUserRepository(),
+    sessions: new MemorySessionRepository()
+  };
+}
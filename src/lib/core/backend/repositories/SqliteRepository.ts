@@ -0,0 +1,518 @@
+/**
+ * SQLite Repository
+ * Embedded SQLite adapter (better-sqlite3)
+ * Entities are stored as JSON documents keyed by id
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type {
+  AuthSession,
+  FavoriteCollection,
+  FavoriteEvent,
+  PlayEvent,
+  RecentGame,
+  Review,
+  TrendingSnapshot,
+  UserAccount
+} from '@/lib/core/domain/entities';
+import type {
+  CatalogRepository,
+  FavoriteCollectionRepository,
+  FavoriteEventRepository,
+  FavoriteRepository,
+  PlayEventRepository,
+  RecentGameRepository,
+  Repositories,
+  ReviewRepository,
+  SessionRepository,
+  TrendingSnapshotRepository,
+  UserRepository
+} from './types';
+import { seedData } from './MemoryRepository';
+
+type CatalogTable = 'games' | 'providers' | 'tags';
+
+type FavoriteTable = 'favorites' | 'provider_favorites' | 'tag_favorites';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS games (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS providers (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS tags (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS favorites (
+    user_id TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (user_id, item_id)
+  );
+  CREATE TABLE IF NOT EXISTS provider_favorites (
+    user_id TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (user_id, item_id)
+  );
+  CREATE TABLE IF NOT EXISTS tag_favorites (
+    user_id TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (user_id, item_id)
+  );
+  CREATE TABLE IF NOT EXISTS favorite_collections (
+    user_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (user_id, id)
+  );
+  CREATE TABLE IF NOT EXISTS recent_games (
+    user_id TEXT NOT NULL,
+    game_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    played_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, game_id)
+  );
+  CREATE TABLE IF NOT EXISTS reviews (
+    id TEXT PRIMARY KEY,
+    game_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS reviews_game_id ON reviews (game_id);
+  CREATE TABLE IF NOT EXISTS play_events (
+    game_id TEXT NOT NULL,
+    owner_id TEXT NOT NULL,
+    played_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS play_events_played_at ON play_events (played_at);
+  CREATE TABLE IF NOT EXISTS play_counts (
+    game_id TEXT PRIMARY KEY,
+    count INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS favorite_events (
+    game_id TEXT NOT NULL,
+    owner_id TEXT NOT NULL,
+    favorited_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS favorite_events_favorited_at ON favorite_events (favorited_at);
+  CREATE TABLE IF NOT EXISTS trending_snapshots (
+    taken_at TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS sessions_expires_at ON sessions (expires_at);
+`;
+
+/**
+ * Open the database file and make sure the schema exists
+ */
+function openDatabase(filePath: string): Database.Database {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  
+  return db;
+}
+
+/**
+ * Catalogue repository backed by a SQLite table
+ * Rows keep their rowid on update, so results stay in insertion order
+ */
+export class SqliteCatalogRepository<T extends { id: string }> implements CatalogRepository<T> {
+  private readonly statements;
+
+  constructor(private readonly db: Database.Database, table: CatalogTable, seed: T[]) {
+    this.statements = {
+      findAll: db.prepare<[], { data: string }>(`SELECT data FROM ${table} ORDER BY rowid`),
+      findById: db.prepare<[string], { data: string }>(`SELECT data FROM ${table} WHERE id = ?`),
+      upsert: db.prepare<[string, string]>(
+        `INSERT INTO ${table} (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data`
+      ),
+      delete: db.prepare<[string]>(`DELETE FROM ${table} WHERE id = ?`),
+      count: db.prepare<[], { count: number }>(`SELECT COUNT(*) AS count FROM ${table}`)
+    };
+
+    // Seed empty tables with the bundled data
+    if (this.statements.count.get()!.count === 0) {
+      this.saveMany(seed);
+    }
+  }
+
+  findAll(): T[] {
+    return this.statements.findAll.all().map(row => JSON.parse(row.data) as T);
+  }
+
+  findById(id: string): T | undefined {
+    const row = this.statements.findById.get(id);
+    return row ? JSON.parse(row.data) as T : undefined;
+  }
+
+  save(entity: T): void {
+    this.statements.upsert.run(entity.id, JSON.stringify(entity));
+  }
+
+  saveMany(entities: T[]): void {
+    this.db.transaction((items: T[]) => {
+      items.forEach(item => this.save(item));
+    })(entities);
+  }
+
+  delete(id: string): boolean {
+    return this.statements.delete.run(id).changes > 0;
+  }
+}
+
+/**
+ * Favorites repository backed by a SQLite table
+ */
+export class SqliteFavoriteRepository implements FavoriteRepository {
+  private readonly statements;
+
+  constructor(private readonly db: Database.Database, table: FavoriteTable, seed: Record<string, string[]> = {}) {
+    this.statements = {
+      findByUser: db.prepare<[string], { item_id: string }>(
+        `SELECT item_id FROM ${table} WHERE user_id = ? ORDER BY position`
+      ),
+      deleteByUser: db.prepare<[string]>(`DELETE FROM ${table} WHERE user_id = ?`),
+      insert: db.prepare<[string, string, number]>(
+        `INSERT INTO ${table} (user_id, item_id, position) VALUES (?, ?, ?)`
+      ),
+      count: db.prepare<[], { count: number }>(`SELECT COUNT(*) AS count FROM ${table}`)
+    };
+
+    // Seed empty tables with the bundled data
+    if (this.statements.count.get()!.count === 0) {
+      Object.entries(seed).forEach(([userId, itemIds]) => this.saveForUser(userId, itemIds));
+    }
+  }
+
+  findByUser(userId: string): string[] {
+    return this.statements.findByUser.all(userId).map(row => row.item_id);
+  }
+
+  saveForUser(userId: string, itemIds: string[]): void {
+    this.db.transaction(() => {
+      this.statements.deleteByUser.run(userId);
+      Array.from(new Set(itemIds)).forEach((itemId, position) => {
+        this.statements.insert.run(userId, itemId, position);
+      });
+    })();
+  }
+}
+
+/**
+ * Favorite collections repository backed by a SQLite table
+ * Collections are stored as JSON documents ordered by position
+ */
+export class SqliteFavoriteCollectionRepository implements FavoriteCollectionRepository {
+  private readonly statements;
+
+  constructor(private readonly db: Database.Database) {
+    this.statements = {
+      findByUser: db.prepare<[string], { data: string }>(
+        'SELECT data FROM favorite_collections WHERE user_id = ? ORDER BY position'
+      ),
+      deleteByUser: db.prepare<[string]>('DELETE FROM favorite_collections WHERE user_id = ?'),
+      insert: db.prepare<[string, string, number, string]>(
+        'INSERT INTO favorite_collections (user_id, id, position, data) VALUES (?, ?, ?, ?)'
+      )
+    };
+  }
+
+  findByUser(userId: string): FavoriteCollection[] {
+    return this.statements.findByUser.all(userId).map(row => JSON.parse(row.data) as FavoriteCollection);
+  }
+
+  saveForUser(userId: string, collections: FavoriteCollection[]): void {
+    this.db.transaction(() => {
+      this.statements.deleteByUser.run(userId);
+      collections.forEach((collection, position) => {
+        this.statements.insert.run(userId, collection.id, position, JSON.stringify(collection));
+      });
+    })();
+  }
+}
+
+/**
+ * Recently played repository backed by a SQLite table
+ */
+export class SqliteRecentGameRepository implements RecentGameRepository {
+  private readonly statements;
+
+  constructor(private readonly db: Database.Database) {
+    this.statements = {
+      findByUser: db.prepare<[string], { game_id: string; played_at: string }>(
+        'SELECT game_id, played_at FROM recent_games WHERE user_id = ? ORDER BY position'
+      ),
+      deleteByUser: db.prepare<[string]>('DELETE FROM recent_games WHERE user_id = ?'),
+      insert: db.prepare<[string, string, number, string]>(
+        'INSERT INTO recent_games (user_id, game_id, position, played_at) VALUES (?, ?, ?, ?)'
+      )
+    };
+  }
+
+  findByUser(userId: string): RecentGame[] {
+    return this.statements.findByUser.all(userId).map(row => ({ gameId: row.game_id, playedAt: row.played_at }));
+  }
+
+  saveForUser(userId: string, entries: RecentGame[]): void {
+    this.db.transaction(() => {
+      this.statements.deleteByUser.run(userId);
+      entries.forEach((entry, position) => {
+        this.statements.insert.run(userId, entry.gameId, position, entry.playedAt);
+      });
+    })();
+  }
+}
+
+/**
+ * Reviews repository backed by a SQLite table
+ * Rows keep their rowid on update, so reviews stay in submission order
+ */
+export class SqliteReviewRepository implements ReviewRepository {
+  private readonly statements;
+
+  constructor(db: Database.Database) {
+    this.statements = {
+      findByGame: db.prepare<[string], { data: string }>(
+        'SELECT data FROM reviews WHERE game_id = ? ORDER BY rowid'
+      ),
+      upsert: db.prepare<[string, string, string]>(
+        'INSERT INTO reviews (id, game_id, data) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data'
+      )
+    };
+  }
+
+  findByGame(gameId: string): Review[] {
+    return this.statements.findByGame.all(gameId).map(row => JSON.parse(row.data) as Review);
+  }
+
+  save(review: Review): void {
+    this.statements.upsert.run(review.id, review.gameId, JSON.stringify(review));
+  }
+}
+
+/**
+ * Play event repository backed by a SQLite table, indexed by play time
+ * Play counts per game are kept in their own table so they outlive deleted events
+ */
+export class SqlitePlayEventRepository implements PlayEventRepository {
+  private readonly statements;
+
+  constructor(private readonly db: Database.Database) {
+    this.statements = {
+      findSince: db.prepare<[string], { game_id: string; owner_id: string; played_at: string }>(
+        'SELECT game_id, owner_id, played_at FROM play_events WHERE played_at >= ? ORDER BY rowid'
+      ),
+      insert: db.prepare<[string, string, string]>(
+        'INSERT INTO play_events (game_id, owner_id, played_at) VALUES (?, ?, ?)'
+      ),
+      deleteBefore: db.prepare<[string]>('DELETE FROM play_events WHERE played_at < ?'),
+      increment: db.prepare<[string]>(
+        'INSERT INTO play_counts (game_id, count) VALUES (?, 1) ON CONFLICT (game_id) DO UPDATE SET count = count + 1'
+      ),
+      counts: db.prepare<[], { game_id: string; count: number }>('SELECT game_id, count FROM play_counts')
+    };
+  }
+
+  findSince(since: string): PlayEvent[] {
+    return this.statements.findSince.all(since).map(row => ({
+      gameId: row.game_id,
+      ownerId: row.owner_id,
+      playedAt: row.played_at
+    }));
+  }
+
+  record(event: PlayEvent): void {
+    this.db.transaction(() => {
+      this.statements.insert.run(event.gameId, event.ownerId, event.playedAt);
+      this.statements.increment.run(event.gameId);
+    })();
+  }
+
+  deleteBefore(before: string): number {
+    return this.statements.deleteBefore.run(before).changes;
+  }
+
+  countByGame(): Record<string, number> {
+    return Object.fromEntries(this.statements.counts.all().map(row => [row.game_id, row.count]));
+  }
+}
+
+/**
+ * Favorite event repository backed by a SQLite table, indexed by time
+ */
+export class SqliteFavoriteEventRepository implements FavoriteEventRepository {
+  private readonly statements;
+
+  constructor(db: Database.Database) {
+    this.statements = {
+      findSince: db.prepare<[string], { game_id: string; owner_id: string; favorited_at: string }>(
+        'SELECT game_id, owner_id, favorited_at FROM favorite_events WHERE favorited_at >= ? ORDER BY rowid'
+      ),
+      insert: db.prepare<[string, string, string]>(
+        'INSERT INTO favorite_events (game_id, owner_id, favorited_at) VALUES (?, ?, ?)'
+      ),
+      deleteBefore: db.prepare<[string]>('DELETE FROM favorite_events WHERE favorited_at < ?')
+    };
+  }
+
+  findSince(since: string): FavoriteEvent[] {
+    return this.statements.findSince.all(since).map(row => ({
+      gameId: row.game_id,
+      ownerId: row.owner_id,
+      favoritedAt: row.favorited_at
+    }));
+  }
+
+  record(event: FavoriteEvent): void {
+    this.statements.insert.run(event.gameId, event.ownerId, event.favoritedAt);
+  }
+
+  deleteBefore(before: string): number {
+    return this.statements.deleteBefore.run(before).changes;
+  }
+}
+
+/**
+ * Trending snapshot repository backed by a SQLite table keyed by snapshot time
+ */
+export class SqliteTrendingSnapshotRepository implements TrendingSnapshotRepository {
+  private readonly statements;
+
+  constructor(db: Database.Database) {
+    this.statements = {
+      findLatestBefore: db.prepare<[string], { data: string }>(
+        'SELECT data FROM trending_snapshots WHERE taken_at < ? ORDER BY taken_at DESC LIMIT 1'
+      ),
+      upsert: db.prepare<[string, string]>(
+        'INSERT INTO trending_snapshots (taken_at, data) VALUES (?, ?) ON CONFLICT(taken_at) DO UPDATE SET data = excluded.data'
+      ),
+      deleteBefore: db.prepare<[string]>('DELETE FROM trending_snapshots WHERE taken_at < ?')
+    };
+  }
+
+  findLatestBefore(before: string): TrendingSnapshot | undefined {
+    const row = this.statements.findLatestBefore.get(before);
+    return row ? JSON.parse(row.data) as TrendingSnapshot : undefined;
+  }
+
+  save(snapshot: TrendingSnapshot): void {
+    this.statements.upsert.run(snapshot.takenAt, JSON.stringify(snapshot));
+  }
+
+  deleteBefore(before: string): number {
+    return this.statements.deleteBefore.run(before).changes;
+  }
+}
+
+/**
+ * User account repository backed by a SQLite table with a unique email column
+ */
+export class SqliteUserRepository implements UserRepository {
+  private readonly statements;
+
+  constructor(db: Database.Database) {
+    this.statements = {
+      findById: db.prepare<[string], { data: string }>('SELECT data FROM users WHERE id = ?'),
+      findByEmail: db.prepare<[string], { data: string }>('SELECT data FROM users WHERE email = ?'),
+      upsert: db.prepare<[string, string, string]>(
+        'INSERT INTO users (id, email, data) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET email = excluded.email, data = excluded.data'
+      )
+    };
+  }
+
+  findById(id: string): UserAccount | undefined {
+    const row = this.statements.findById.get(id);
+    return row ? JSON.parse(row.data) as UserAccount : undefined;
+  }
+
+  findByEmail(email: string): UserAccount | undefined {
+    const row = this.statements.findByEmail.get(email.trim().toLowerCase());
+    return row ? JSON.parse(row.data) as UserAccount : undefined;
+  }
+
+  save(user: UserAccount): void {
+    this.statements.upsert.run(user.id, user.email, JSON.stringify(user));
+  }
+}
+
+/**
+ * Session repository backed by a SQLite table, indexed by expiry
+ */
+export class SqliteSessionRepository implements SessionRepository {
+  private readonly statements;
+
+  constructor(db: Database.Database) {
+    this.statements = {
+      findById: db.prepare<[string], { data: string }>('SELECT data FROM sessions WHERE id = ?'),
+      upsert: db.prepare<[string, string, string, string]>(
+        'INSERT INTO sessions (id, user_id, expires_at, data) VALUES (?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET expires_at = excluded.expires_at, data = excluded.data'
+      ),
+      delete: db.prepare<[string]>('DELETE FROM sessions WHERE id = ?'),
+      deleteExpired: db.prepare<[string]>('DELETE FROM sessions WHERE expires_at < ?')
+    };
+  }
+
+  findById(id: string): AuthSession | undefined {
+    const row = this.statements.findById.get(id);
+    return row ? JSON.parse(row.data) as AuthSession : undefined;
+  }
+
+  save(session: AuthSession): void {
+    this.statements.upsert.run(session.id, session.userId, session.expiresAt, JSON.stringify(session));
+  }
+
+  delete(id: string): boolean {
+    return this.statements.delete.run(id).changes > 0;
+  }
+
+  deleteExpired(before: string): number {
+    return this.statements.deleteExpired.run(before).changes;
+  }
+}
+
+/**
+ * Create SQLite repositories using a database file under the given data directory
+ */
+export function createSqliteRepositories(dataDir: string): Repositories {
+  const db = openDatabase(path.join(dataDir, 'library.db'));
+  
+  return {
+    adapter: 'sqlite',
+    games: new SqliteCatalogRepository(db, 'games', seedData.games),
+    providers: new SqliteCatalogRepository(db, 'providers', seedData.providers),
+    tags: new SqliteCatalogRepository(db, 'tags', seedData.tags),
+    favorites: new SqliteFavoriteRepository(db, 'favorites', seedData.favorites),
+    providerFavorites: new SqliteFavoriteRepository(db, 'provider_favorites'),
+    tagFavorites: new SqliteFavoriteRepository(db, 'tag_favorites'),
+    collections: new SqliteFavoriteCollectionRepository(db),
+    reviews: new SqliteReviewRepository(db),
+    plays: new SqlitePlayEventRepository(db),
+    favoriteEvents: new SqliteFavoriteEventRepository(db),
+    trendingSnapshots: new SqliteTrendingSnapshotRepository(db),
+    recentGames: new SqliteRecentGameRepository(db),
+    users: new SqliteUserRepository(db),
+    sessions: new SqliteSessionRepository(db)
+  };
+}
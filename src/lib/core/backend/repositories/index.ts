@@ -0,0 +1,64 @@
+/**
+ * Repositories
+ * Storage adapter selection for backend services
+ *
+ * Configure with environment variables:
+ * - DATA_ADAPTER: 'memory' (default), 'json' or 'sqlite'
+ * - DATA_DIR: directory for the json/sqlite adapters (default: .data)
+ */
+
+import path from 'path';
+import { DATA_ADAPTERS, type DataAdapter, type Repositories } from './types';
+import { createMemoryRepositories } from './MemoryRepository';
+import { createJsonFileRepositories } from './JsonFileRepository';
+import { createSqliteRepositories } from './SqliteRepository';
+
+export * from './types';
+export { seedData } from './MemoryRepository';
+
+const DEFAULT_DATA_DIR = '.data';
+
+let repositories: Repositories | null = null;
+
+/**
+ * Resolve the configured data adapter
+ */
+export function getDataAdapter(): DataAdapter {
+  const adapter = process.env.DATA_ADAPTER || 'memory';
+  
+  if (!DATA_ADAPTERS.includes(adapter as DataAdapter)) {
+    throw new Error(
+      `Unknown DATA_ADAPTER '${adapter}'. Expected one of: ${DATA_ADAPTERS.join(', ')}`
+    );
+  }
+  
+  return adapter as DataAdapter;
+}
+
+/**
+ * Create repositories for an adapter
+ */
+export function createRepositories(
+  adapter: DataAdapter,
+  dataDir: string = path.resolve(process.cwd(), process.env.DATA_DIR || DEFAULT_DATA_DIR)
+): Repositories {
+  switch (adapter) {
+    case 'json':
+      return createJsonFileRepositories(dataDir);
+    case 'sqlite':
+      return createSqliteRepositories(dataDir);
+    default:
+      return createMemoryRepositories();
+  }
+}
+
+/**
+ * Get the repositories for the configured adapter (created once per server process)
+ */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = createRepositories(getDataAdapter());
+  }
+  
+  return repositories;
+}
@@ -0,0 +1,163 @@
+/**
+ * Repository Types
+ * Storage contracts implemented by every data adapter
+ */
+
+import type {
+  AuthSession,
+  FavoriteCollection,
+  FavoriteEvent,
+  Game,
+  PlayEvent,
+  Provider,
+  RecentGame,
+  Review,
+  TagDefinition,
+  TrendingSnapshot,
+  UserAccount
+} from '@/lib/core/domain/entities';
+
+/**
+ * Available data adapters (selected with the DATA_ADAPTER env variable)
+ * - memory: bundled JSON data, changes are lost on restart (default)
+ * - json: JSON files on disk under DATA_DIR
+ * - sqlite: embedded SQLite database under DATA_DIR
+ */
+export const DATA_ADAPTERS = ['memory', 'json', 'sqlite'] as const;
+
+export type DataAdapter = typeof DATA_ADAPTERS[number];
+
+/**
+ * Catalogue repository for entities keyed by id
+ * Results keep insertion order
+ */
+export interface CatalogRepository<T extends { id: string }> {
+  findAll(): T[];
+  findById(id: string): T | undefined;
+  /** Create or replace an entity */
+  save(entity: T): void;
+  /** Create or replace several entities in one write */
+  saveMany(entities: T[]): void;
+  /** Returns false when the entity did not exist */
+  delete(id: string): boolean;
+}
+
+export type GameRepository = CatalogRepository<Game>;
+
+export type ProviderRepository = CatalogRepository<Provider>;
+
+export type TagRepository = CatalogRepository<TagDefinition>;
+
+/**
+ * Favorite item ids per user, in the order they were favorited
+ * Used for games, followed providers and followed tags alike
+ */
+export interface FavoriteRepository {
+  findByUser(userId: string): string[];
+  saveForUser(userId: string, itemIds: string[]): void;
+}
+
+/**
+ * Favorite collections per user, in display order
+ */
+export interface FavoriteCollectionRepository {
+  findByUser(userId: string): FavoriteCollection[];
+  saveForUser(userId: string, collections: FavoriteCollection[]): void;
+}
+
+/**
+ * Recently played history per user, most recent first
+ */
+export interface RecentGameRepository {
+  findByUser(userId: string): RecentGame[];
+  saveForUser(userId: string, entries: RecentGame[]): void;
+}
+
+/**
+ * Reviews per game, in the order they were first submitted
+ */
+export interface ReviewRepository {
+  findByGame(gameId: string): Review[];
+  /** Create or replace a review (matched by id) */
+  save(review: Review): void;
+}
+
+/**
+ * Play events, in the order they were recorded
+ */
+export interface PlayEventRepository {
+  /** Events played at or after the given ISO timestamp */
+  findSince(since: string): PlayEvent[];
+  record(event: PlayEvent): void;
+  /** Delete events played before the given ISO timestamp, returning how many were removed */
+  deleteBefore(before: string): number;
+  /** Plays recorded per game ID, including events that were already deleted */
+  countByGame(): Record<string, number>;
+}
+
+/**
+ * Favorite events (games added to favorites), in the order they were recorded
+ */
+export interface FavoriteEventRepository {
+  /** Events recorded at or after the given ISO timestamp */
+  findSince(since: string): FavoriteEvent[];
+  record(event: FavoriteEvent): void;
+  /** Delete events recorded before the given ISO timestamp, returning how many were removed */
+  deleteBefore(before: string): number;
+}
+
+/**
+ * Trending snapshots, one per point in time
+ */
+export interface TrendingSnapshotRepository {
+  /** Most recent snapshot taken before the given ISO timestamp */
+  findLatestBefore(before: string): TrendingSnapshot | undefined;
+  save(snapshot: TrendingSnapshot): void;
+  /** Delete snapshots taken before the given ISO timestamp, returning how many were removed */
+  deleteBefore(before: string): number;
+}
+
+/**
+ * Registered user accounts
+ */
+export interface UserRepository {
+  findById(id: string): UserAccount | undefined;
+  /** Emails are matched lowercased */
+  findByEmail(email: string): UserAccount | undefined;
+  /** Create or replace an account (matched by id) */
+  save(user: UserAccount): void;
+}
+
+/**
+ * Signed-in sessions, keyed by the hash of their token
+ */
+export interface SessionRepository {
+  findById(id: string): AuthSession | undefined;
+  /** Create or replace a session (matched by id) */
+  save(session: AuthSession): void;
+  /** Returns false when the session did not exist */
+  delete(id: string): boolean;
+  /** Delete sessions that expired before the given ISO timestamp, returning how many were removed */
+  deleteExpired(before: string): number;
+}
+
+/**
+ * Repositories provided by a data adapter
+ */
+export interface Repositories {
+  adapter: DataAdapter;
+  games: GameRepository;
+  providers: ProviderRepository;
+  tags: TagRepository;
+  favorites: FavoriteRepository;
+  providerFavorites: FavoriteRepository;
+  tagFavorites: FavoriteRepository;
+  collections: FavoriteCollectionRepository;
+  reviews: ReviewRepository;
+  plays: PlayEventRepository;
+  favoriteEvents: FavoriteEventRepository;
+  trendingSnapshots: TrendingSnapshotRepository;
+  recentGames: RecentGameRepository;
+  users: UserRepository;
+  sessions: SessionRepository;
+}
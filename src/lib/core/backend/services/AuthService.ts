@@ -0,0 +1,289 @@
+/**
+ * Auth Service
+ * Registers accounts, checks credentials and manages signed-in sessions
+ *
+ * Passwords are stored as salted scrypt hashes. A session is a random token in an HTTP-only
+ * cookie; only its SHA-256 hash is stored, so the session store cannot be replayed as cookies.
+ * Sessions expire SESSION_MAX_AGE after they were last refreshed (SESSION_REMEMBER_MAX_AGE with
+ * "remember me"); only "remember me" sessions outlive the browser
+ *
+ * The admin API is limited to the accounts listed in ADMIN_USER_IDS (comma-separated account IDs).
+ * IDs rather than emails, since anyone can register an account with any email address
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { AuthSession, UserAccount } from '@/lib/core/domain/entities';
+import {
+  createAuthSession,
+  createUserAccount,
+  extendAuthSession,
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH
+} from '@/lib/core/domain/entities';
+import type {
+  ApiAccountUpdateRequest,
+  ApiLoginRequest,
+  ApiRegisterRequest
+} from '@/lib/core/backend/types/authTypes';
+import { getRepositories } from '@/lib/core/backend/repositories';
+import {
+  ConflictError,
+  ForbiddenError,
+  UnauthorizedError,
+  ValidationError
+} from '@/lib/core/shared/errors/AppError';
+import {
+  COOKIE_KEYS,
+  SESSION_MAX_AGE,
+  SESSION_REMEMBER_MAX_AGE
+} from '@/lib/core/config/constants/app.constants';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+const TOKEN_LENGTH = 32;
+
+/**
+ * A signed-in user with their session
+ */
+export interface AuthContext {
+  user: UserAccount;
+  session: AuthSession;
+}
+
+/**
+ * A started or refreshed session, with the token to put in the cookie
+ */
+export interface StartedSession extends AuthContext {
+  token: string;
+}
+
+export class AuthService {
+  /**
+   * Create an account and sign it in
+   * @throws ValidationError when the name is blank or the password is too short or too long
+   * @throws ConflictError when the email is already registered
+   */
+  static async register(input: ApiRegisterRequest): Promise<StartedSession> {
+    if (!input.name.trim()) {
+      throw new ValidationError('name', input.name, ['required']);
+    }
+    this.validatePassword(input.password);
+
+    const { users } = getRepositories();
+    if (users.findByEmail(input.email)) {
+      throw new ConflictError('An account with this email already exists', { field: 'email' });
+    }
+
+    const user = createUserAccount({
+      id: crypto.randomUUID(),
+      email: input.email,
+      name: input.name,
+      passwordHash: await this.hashPassword(input.password)
+    });
+    users.save(user);
+
+    return this.startSession(user);
+  }
+
+  /**
+   * Check credentials and start a session
+   * Unknown emails and wrong passwords fail alike, so accounts cannot be probed
+   * @throws UnauthorizedError when the credentials do not match
+   */
+  static async login(input: ApiLoginRequest): Promise<StartedSession> {
+    const user = getRepositories().users.findByEmail(input.email);
+
+    // Hash against a throwaway salt for unknown emails so both failures take as long
+    const isValid = user
+      ? await this.verifyPassword(input.password, user.passwordHash)
+      : (await this.hashPassword(input.password), false);
+
+    if (!user || !isValid) {
+      throw new UnauthorizedError('Invalid email or password');
+    }
+
+    return this.startSession(user, input.remember);
+  }
+
+  /**
+   * Resolve the signed-in user from the session cookie
+   * @returns undefined for guests and for unknown or expired sessions
+   */
+  static getSession(request: NextRequest): AuthContext | undefined {
+    const token = request.cookies.get(COOKIE_KEYS.SESSION)?.value;
+    if (!token) {
+      return undefined;
+    }
+
+    const { sessions, users } = getRepositories();
+    const session = sessions.findById(this.hashToken(token));
+    if (!session || session.expiresAt <= new Date().toISOString()) {
+      return undefined;
+    }
+
+    const user = users.findById(session.userId);
+    return user ? { user, session } : undefined;
+  }
+
+  /**
+   * Resolve the signed-in admin for the admin API
+   * @throws UnauthorizedError for guests
+   * @throws ForbiddenError when the account is not listed in ADMIN_USER_IDS
+   */
+  static requireAdmin(request: NextRequest): AuthContext {
+    const auth = this.getSession(request);
+    if (!auth) {
+      throw new UnauthorizedError();
+    }
+    if (!this.isAdmin(auth.user)) {
+      throw new ForbiddenError('Admin access required');
+    }
+
+    return auth;
+  }
+
+  /**
+   * Whether the account may use the admin API
+   */
+  static isAdmin(user: UserAccount): boolean {
+    return (process.env.ADMIN_USER_IDS || '')
+      .split(',')
+      .map(id => id.trim())
+      .includes(user.id);
+  }
+
+  /**
+   * Slide the session in the request's cookie a full lifetime ahead
+   * @returns undefined when there is no live session to refresh
+   */
+  static refresh(request: NextRequest): StartedSession | undefined {
+    const token = request.cookies.get(COOKIE_KEYS.SESSION)?.value;
+    const auth = this.getSession(request);
+    if (!token || !auth) {
+      return undefined;
+    }
+
+    const session = extendAuthSession(auth.session, this.maxAge(auth.session.remember));
+    getRepositories().sessions.save(session);
+
+    return { user: auth.user, session, token };
+  }
+
+  /**
+   * End the session in the request's cookie, if any
+   */
+  static logout(request: NextRequest): void {
+    const token = request.cookies.get(COOKIE_KEYS.SESSION)?.value;
+    if (token) {
+      getRepositories().sessions.delete(this.hashToken(token));
+    }
+  }
+
+  /**
+   * Update the signed-in user's account details
+   * @throws ValidationError when the name is blank
+   */
+  static updateAccount(user: UserAccount, input: ApiAccountUpdateRequest): UserAccount {
+    const name = input.name.trim();
+    if (!name) {
+      throw new ValidationError('name', input.name, ['required']);
+    }
+
+    const updated: UserAccount = { ...user, name, updatedAt: new Date().toISOString() };
+    getRepositories().users.save(updated);
+
+    return updated;
+  }
+
+  /**
+   * Set the session cookie on a response
+   * Without "remember me" it is a browser-session cookie, dropped when the browser closes
+   */
+  static attachSession<T extends NextResponse>(response: T, started: StartedSession): T {
+    response.cookies.set(COOKIE_KEYS.SESSION, started.token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      ...(started.session.remember && { expires: new Date(started.session.expiresAt) })
+    });
+
+    return response;
+  }
+
+  /**
+   * Remove the session cookie from the browser
+   */
+  static clearSession<T extends NextResponse>(response: T): T {
+    response.cookies.set(COOKIE_KEYS.SESSION, '', { path: '/', maxAge: 0 });
+    return response;
+  }
+
+  private static startSession(user: UserAccount, remember = false): StartedSession {
+    const { sessions } = getRepositories();
+    const token = randomBytes(TOKEN_LENGTH).toString('base64url');
+    const session = createAuthSession({
+      id: this.hashToken(token),
+      userId: user.id,
+      maxAge: this.maxAge(remember),
+      remember
+    });
+
+    sessions.deleteExpired(session.createdAt);
+    sessions.save(session);
+
+    return { user, session, token };
+  }
+
+  /**
+   * Session lifetime in milliseconds
+   */
+  private static maxAge(remember: boolean): number {
+    return (remember ? SESSION_REMEMBER_MAX_AGE : SESSION_MAX_AGE) * 1000;
+  }
+
+  /**
+   * Reported without the value so the password never ends up in responses or logs
+   */
+  private static validatePassword(password: string): void {
+    if (password.length < PASSWORD_MIN_LENGTH) {
+      throw new ValidationError('password', undefined, [`at least ${PASSWORD_MIN_LENGTH} characters`]);
+    }
+    if (password.length > PASSWORD_MAX_LENGTH) {
+      throw new ValidationError('password', undefined, [`at most ${PASSWORD_MAX_LENGTH} characters`]);
+    }
+  }
+
+  /**
+   * Hash as `scrypt$<salt>$<key>` (base64url)
+   */
+  private static async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const key = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+  }
+
+  private static async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [algorithm, salt, key] = passwordHash.split('$');
+    if (algorithm !== 'scrypt' || !salt || !key) {
+      return false;
+    }
+
+    const expected = Buffer.from(key, 'base64url');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'base64url'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+
+  private static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const authService = AuthService;
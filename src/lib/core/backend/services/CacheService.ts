@@ -1,99 +1,365 @@
 /**
  * Cache Service
- * Simple caching layer for backend services
+ * Bounded LRU caching layer for backend services
+ *
+ * - Entries are evicted least-recently-used first once maxEntries or maxBytes is exceeded
+ * - Entries can declare the tags they depend on (see cacheTags) and be invalidated by tag
+ * - swr() serves expired entries within their stale window while recomputing in the background
  */
 
-import { CACHE_TTL } from '@/lib/core/config/constants/app.constants';
+import { CACHE_LIMITS, CACHE_TTL } from '@/lib/core/config/constants/app.constants';
 
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
   ttl: number;
+  /** Extra time after the TTL during which swr() may still serve the entry */
+  staleTtl: number;
+  tags: string[];
+  /** Estimated size in bytes (0 when no byte bound is configured) */
+  size: number;
 }
 
 /**
- * Simple cache service for backend data
+ * Options for cached entries
+ */
+export interface CacheSetOptions<T = unknown> {
+  /** Tags the entry depends on, invalidated with invalidateTags(); a function derives them from the data */
+  tags?: string[] | ((data: T) => string[]);
+  /** Extra time after the TTL during which swr() may serve the stale entry */
+  staleTtl?: number;
+}
+
+/**
+ * Cache bounds (0 disables a bound)
+ */
+export interface CacheLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+/**
+ * Cache counters since start (or the last resetStats)
+ */
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  expirations: number;
+  invalidations: number;
+  revalidations: number;
+}
+
+/**
+ * Tag builders for cache dependencies
+ */
+export const cacheTags = {
+  /** Entries that include a specific game */
+  game: (gameId: string) => `game:${gameId}`,
+  /** Entries scoped to a provider or its games */
+  provider: (providerId: string) => `provider:${providerId}`,
+  /** Entries derived from the content of every game (stats, tag counts, full lists) */
+  gameCatalog: () => 'catalog:games',
+  /** Entries that depend on which games exist, dropped when games are added or removed */
+  gameMembership: () => 'catalog:games:membership',
+  /** Entries derived from the whole provider catalogue */
+  providerCatalog: () => 'catalog:providers',
+  /** Entries derived from recorded play events */
+  plays: () => 'plays',
+  /** Entries scoped to a favorites owner */
+  owner: (ownerId: string) => `owner:${ownerId}`,
+} as const;
+
+/**
+ * Read a numeric bound from the environment, falling back to the default
+ */
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Bounded LRU cache for backend data
  */
 export class CacheService {
   private static instance: CacheService;
+  // Map iteration order doubles as recency order (oldest first)
   private cache: Map<string, CacheEntry<unknown>> = new Map();
-  
-  private constructor() {}
-  
+  private keysByTag: Map<string, Set<string>> = new Map();
+  private revalidating: Set<string> = new Set();
+  private bytes = 0;
+  private counters = this.emptyCounters();
+
+  private constructor(private limits: CacheLimits) {}
+
   /**
    * Get singleton instance
+   * Kept on globalThis so route bundles share one cache (and see each other's invalidations)
    */
   static getInstance(): CacheService {
     if (!CacheService.instance) {
-      CacheService.instance = new CacheService();
+      const globalCache = globalThis as typeof globalThis & { __cacheService?: CacheService };
+      globalCache.__cacheService ??= new CacheService({
+        maxEntries: readLimit(process.env.CACHE_MAX_ENTRIES, CACHE_LIMITS.MAX_ENTRIES),
+        maxBytes: readLimit(process.env.CACHE_MAX_BYTES, CACHE_LIMITS.MAX_BYTES)
+      });
+      CacheService.instance = globalCache.__cacheService;
     }
     return CacheService.instance;
   }
-  
+
   /**
-   * Get item from cache
+   * Get item from cache (expired entries count as misses)
    */
   get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    
-    if (!entry) return null;
-    
-    // Check if expired
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
+    const entry = this.lookup<T>(key);
+
+    if (!entry || this.isExpired(entry)) {
+      this.counters.misses++;
       return null;
     }
-    
-    return entry.data as T;
+
+    this.counters.hits++;
+    return entry.data;
   }
-  
+
   /**
-   * Set item in cache
+   * Set item in cache, evicting least recently used entries when over a bound
    */
-  set<T>(key: string, data: T, ttl: number = CACHE_TTL.MEDIUM): void {
-    this.cache.set(key, {
+  set<T>(key: string, data: T, ttl: number = CACHE_TTL.MEDIUM, options: CacheSetOptions<T> = {}): void {
+    this.delete(key);
+
+    const entry: CacheEntry<T> = {
       data,
       timestamp: Date.now(),
-      ttl
+      ttl,
+      staleTtl: options.staleTtl ?? 0,
+      tags: typeof options.tags === 'function' ? options.tags(data) : options.tags ?? [],
+      size: this.limits.maxBytes > 0 ? this.estimateSize(data) : 0
+    };
+
+    // Never cache a single entry larger than the whole budget
+    if (this.limits.maxBytes > 0 && entry.size > this.limits.maxBytes) {
+      return;
+    }
+
+    this.cache.set(key, entry);
+    this.bytes += entry.size;
+    entry.tags.forEach(tag => {
+      if (!this.keysByTag.has(tag)) {
+        this.keysByTag.set(tag, new Set());
+      }
+      this.keysByTag.get(tag)!.add(key);
     });
+
+    this.evict();
   }
-  
+
+  /**
+   * Read through the cache with stale-while-revalidate semantics
+   * - fresh entry: returned as is
+   * - expired but within staleTtl: returned, and recomputed in the background
+   * - missing or too old: computed, cached and returned
+   */
+  swr<T>(key: string, compute: () => T, ttl: number = CACHE_TTL.MEDIUM, options: CacheSetOptions<T> = {}): T {
+    const entry = this.lookup<T>(key);
+
+    if (entry && !this.isExpired(entry)) {
+      this.counters.hits++;
+      return entry.data;
+    }
+
+    if (entry) {
+      this.counters.staleHits++;
+      this.revalidate(key, compute, ttl, options);
+      return entry.data;
+    }
+
+    this.counters.misses++;
+    const data = compute();
+    this.set(key, data, ttl, options);
+    return data;
+  }
+
   /**
    * Remove item from cache
    */
   delete(key: string): void {
+    const entry = this.cache.get(key);
+    if (!entry) return;
+
     this.cache.delete(key);
+    this.bytes -= entry.size;
+    entry.tags.forEach(tag => {
+      const keys = this.keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.keysByTag.delete(tag);
+      }
+    });
   }
-  
+
   /**
-   * Invalidate cache entries matching pattern
+   * Invalidate cache entries whose key contains the pattern
+   * Prefer invalidateTags() so unrelated entries survive
    */
   invalidate(pattern: string): void {
-    const keysToDelete: string[] = [];
-    
-    for (const key of this.cache.keys()) {
-      if (key.includes(pattern)) {
-        keysToDelete.push(key);
-      }
-    }
-    
-    keysToDelete.forEach(key => this.cache.delete(key));
+    const keysToDelete = Array.from(this.cache.keys()).filter(key => key.includes(pattern));
+
+    keysToDelete.forEach(key => this.delete(key));
+    this.counters.invalidations += keysToDelete.length;
   }
-  
+
+  /**
+   * Invalidate every entry that declared any of the tags
+   */
+  invalidateTags(tags: string[]): void {
+    const keysToDelete = new Set<string>();
+    tags.forEach(tag => this.keysByTag.get(tag)?.forEach(key => keysToDelete.add(key)));
+
+    keysToDelete.forEach(key => this.delete(key));
+    this.counters.invalidations += keysToDelete.size;
+  }
+
   /**
    * Clear all cache
    */
   clear(): void {
     this.cache.clear();
+    this.keysByTag.clear();
+    this.bytes = 0;
   }
-  
+
   /**
    * Get cache size
    */
   size(): number {
     return this.cache.size;
   }
+
+  /**
+   * Get cache counters and current usage
+   */
+  getStats(): CacheStats {
+    const lookups = this.counters.hits + this.counters.staleHits + this.counters.misses;
+
+    return {
+      entries: this.cache.size,
+      bytes: this.bytes,
+      maxEntries: this.limits.maxEntries,
+      maxBytes: this.limits.maxBytes,
+      ...this.counters,
+      hitRate: lookups > 0 ? (this.counters.hits + this.counters.staleHits) / lookups : 0
+    };
+  }
+
+  /**
+   * Reset the counters (entries are kept)
+   */
+  resetStats(): void {
+    this.counters = this.emptyCounters();
+  }
+
+  /**
+   * Change the bounds at runtime, evicting immediately if needed
+   */
+  configure(limits: Partial<CacheLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+    this.evict();
+  }
+
+  /**
+   * Get a live entry and mark it as most recently used
+   * Entries past their stale window are dropped
+   */
+  private lookup<T>(key: string): CacheEntry<T> | undefined {
+    const entry = this.cache.get(key) as CacheEntry<T> | undefined;
+    if (!entry) return undefined;
+
+    if (Date.now() - entry.timestamp > entry.ttl + entry.staleTtl) {
+      this.delete(key);
+      this.counters.expirations++;
+      return undefined;
+    }
+
+    // Re-insert to move the key to the most recently used end
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    return entry;
+  }
+
+  private isExpired(entry: CacheEntry<unknown>): boolean {
+    return Date.now() - entry.timestamp > entry.ttl;
+  }
+
+  /**
+   * Recompute an entry after the current request, once per key at a time
+   */
+  private revalidate<T>(key: string, compute: () => T, ttl: number, options: CacheSetOptions<T>): void {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+
+    setTimeout(() => {
+      try {
+        // Skip if the entry was invalidated or replaced in the meantime
+        const entry = this.cache.get(key);
+        if (entry && this.isExpired(entry)) {
+          this.set(key, compute(), ttl, options);
+          this.counters.revalidations++;
+        }
+      } catch (error) {
+        console.error(`Cache revalidation failed for ${key}:`, error);
+      } finally {
+        this.revalidating.delete(key);
+      }
+    }, 0);
+  }
+
+  /**
+   * Evict least recently used entries until both bounds are met
+   */
+  private evict(): void {
+    const { maxEntries, maxBytes } = this.limits;
+
+    for (const key of this.cache.keys()) {
+      const overEntries = maxEntries > 0 && this.cache.size > maxEntries;
+      const overBytes = maxBytes > 0 && this.bytes > maxBytes;
+      if (!overEntries && !overBytes) break;
+
+      this.delete(key);
+      this.counters.evictions++;
+    }
+  }
+
+  /**
+   * Estimate the memory footprint of a value from its serialized length (UTF-16)
+   */
+  private estimateSize(data: unknown): number {
+    try {
+      return (JSON.stringify(data)?.length ?? 0) * 2;
+    } catch {
+      return 0;
+    }
+  }
+
+  private emptyCounters() {
+    return {
+      hits: 0,
+      staleHits: 0,
+      misses: 0,
+      evictions: 0,
+      expirations: 0,
+      invalidations: 0,
+      revalidations: 0
+    };
+  }
 }
 
 // Export singleton instance
-export const cacheService = CacheService.getInstance();
\ No newline at end of file
+export const cacheService = CacheService.getInstance();
@@ -0,0 +1,451 @@
+/**
+ * Catalogue Transfer Service
+ * Bulk import and export of games, providers and tags as CSV or JSON
+ *
+ * - Imports upsert by id and are all-or-nothing: every row is validated first and
+ *   nothing is written unless all rows are valid (or when running a dry run)
+ * - Game rows are validated like the admin API (see GameAdminService.prepareGame)
+ * - In CSV files tags are separated with `|` and empty cells leave a field unset
+ */
+
+import type { Game, Provider, TagDefinition } from '@/lib/core/domain/entities';
+import type { ApiGameRequest } from '@/lib/core/backend/types/gameTypes';
+import {
+  CATALOG_ENTITIES,
+  type ApiCatalogImportError,
+  type ApiCatalogImportReport,
+  type ApiCatalogImportRow,
+  type ApiProviderRecord,
+  type ApiTagRecord,
+  type CatalogEntity,
+  type CatalogFormat
+} from '@/lib/core/backend/types/catalogTypes';
+import type { FilterQueryParams } from '@/lib/core/shared/types/filters';
+import { GameService } from './GameService';
+import { GameAdminService } from './GameAdminService';
+import { ProviderService } from './ProviderService';
+import { TagService } from './TagService';
+import { parseCsv, toCsv } from '@/lib/core/shared/utils/csv';
+import { ValidationError } from '@/lib/core/shared/errors/AppError';
+
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const CSV_LIST_SEPARATOR = '|';
+
+/**
+ * Column order of exported files
+ */
+const COLUMNS: Record<CatalogEntity, string[]> = {
+  games: [
+    'id', 'title', 'slug', 'providerId', 'type', 'thumbnail', 'description', 'tags',
+    'isNew', 'isHot', 'isOnSale', 'isComingSoon', 'playCount', 'releaseDate', 'rtp',
+    'maxWin', 'minBet', 'maxBet'
+  ],
+  providers: ['id', 'name', 'logo', 'description', 'website'],
+  tags: ['id', 'name', 'category']
+};
+
+const CSV_NUMBER_FIELDS = new Set(['playCount', 'rtp', 'maxWin', 'minBet', 'maxBet']);
+const CSV_BOOLEAN_FIELDS = new Set(['isNew', 'isHot', 'isOnSale', 'isComingSoon']);
+const CSV_LIST_FIELDS = new Set(['tags']);
+
+/**
+ * Row of an exported file
+ */
+type CatalogRecord = ApiGameRequest | ApiProviderRecord | ApiTagRecord;
+
+/**
+ * A validated row waiting to be written
+ */
+interface PreparedRow<T> {
+  report: ApiCatalogImportRow;
+  entity?: T;
+}
+
+/**
+ * Content types of exported files
+ */
+export const CATALOG_CONTENT_TYPES: Record<CatalogFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+export class CatalogTransferService {
+  /**
+   * Validate a catalogue entity name
+   */
+  static parseEntity(value: unknown): CatalogEntity {
+    if (!CATALOG_ENTITIES.includes(value as CatalogEntity)) {
+      throw new ValidationError('entity', value, [`must be one of: ${CATALOG_ENTITIES.join(', ')}`]);
+    }
+
+    return value as CatalogEntity;
+  }
+
+  /**
+   * Export an entity as a CSV or JSON document
+   * Games are filtered and sorted by the criteria; providers and tags are narrowed
+   * to criteria.providers / criteria.tags when set
+   */
+  static exportCatalog(
+    entity: CatalogEntity,
+    format: CatalogFormat,
+    criteria: FilterQueryParams = {},
+    favoriteIds: string[] = []
+  ): string {
+    const records = this.getExportRecords(entity, criteria, favoriteIds);
+
+    if (format === 'json') {
+      return JSON.stringify(records, null, 2);
+    }
+
+    return toCsv(
+      records.map(record => Object.fromEntries(
+        Object.entries(record).map(([field, value]) => [
+          field,
+          Array.isArray(value) ? value.join(CSV_LIST_SEPARATOR) : value
+        ])
+      )),
+      COLUMNS[entity]
+    );
+  }
+
+  /**
+   * Validate and (unless dryRun) apply an import document
+   */
+  static importCatalog(
+    entity: CatalogEntity,
+    format: CatalogFormat,
+    content: string,
+    dryRun: boolean = false
+  ): ApiCatalogImportReport {
+    const records = this.parseRecords(format, content);
+
+    switch (entity) {
+      case 'providers': {
+        const rows = this.prepareProviders(records);
+        return this.finish(entity, format, dryRun, rows, providers => this.applyProviders(providers));
+      }
+      case 'tags': {
+        const rows = this.prepareTags(records);
+        return this.finish(entity, format, dryRun, rows, tags => TagService.saveTagDefinitions(tags));
+      }
+      default: {
+        const rows = this.prepareGames(records);
+        return this.finish(entity, format, dryRun, rows, games => {
+          GameService.saveGames(games);
+          TagService.refresh();
+        });
+      }
+    }
+  }
+
+  /**
+   * Build the report and apply the rows when allowed
+   */
+  private static finish<T>(
+    entity: CatalogEntity,
+    format: CatalogFormat,
+    dryRun: boolean,
+    rows: PreparedRow<T>[],
+    apply: (entities: T[]) => void
+  ): ApiCatalogImportReport {
+    const reports = rows.map(row => row.report);
+    const invalid = reports.filter(report => report.action === 'invalid').length;
+    const applied = !dryRun && invalid === 0 && rows.length > 0;
+
+    if (applied) {
+      apply(rows.map(row => row.entity!));
+    }
+
+    return {
+      entity,
+      format,
+      dryRun,
+      applied,
+      total: reports.length,
+      created: reports.filter(report => report.action === 'create').length,
+      updated: reports.filter(report => report.action === 'update').length,
+      invalid,
+      rows: reports
+    };
+  }
+
+  /**
+   * Parse an import document into raw records
+   */
+  private static parseRecords(format: CatalogFormat, content: string): Record<string, unknown>[] {
+    if (format === 'csv') {
+      return parseCsv(content).map(record => this.fromCsvRecord(record));
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new ValidationError('body', undefined, ['must be valid JSON']);
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new ValidationError('body', undefined, ['must be a JSON array of records']);
+    }
+
+    // Non-object entries become empty records, reported as missing their required fields
+    return parsed.map(record =>
+      typeof record === 'object' && record !== null && !Array.isArray(record) ? record : {}
+    );
+  }
+
+  /**
+   * Convert CSV cells to typed values
+   * Cells that do not parse are kept as text so validation reports them
+   */
+  private static fromCsvRecord(record: Record<string, string>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    Object.entries(record).forEach(([field, cell]) => {
+      const value = cell.trim();
+      if (value === '') return;
+
+      if (CSV_NUMBER_FIELDS.has(field)) {
+        result[field] = Number.isNaN(Number(value)) ? value : Number(value);
+      } else if (CSV_BOOLEAN_FIELDS.has(field)) {
+        const lower = value.toLowerCase();
+        result[field] = lower === 'true' ? true : lower === 'false' ? false : value;
+      } else if (CSV_LIST_FIELDS.has(field)) {
+        result[field] = value.split(CSV_LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+      } else {
+        result[field] = value;
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Validate game rows, tracking IDs and slugs claimed by earlier rows
+   */
+  private static prepareGames(records: Record<string, unknown>[]): PreparedRow<Game>[] {
+    const reservedIds = new Set<string>();
+    const reservedSlugs = new Set<string>();
+
+    return records.map((record, index) => {
+      const id = typeof record.id === 'string' ? record.id : undefined;
+      const existing = id ? GameService.getGameById(id) : undefined;
+
+      if (id && reservedIds.has(id)) {
+        return this.invalidRow(index, id, [new ValidationError('id', id, ['duplicated in file'])]);
+      }
+
+      const { game, errors } = GameAdminService.prepareGame(record as ApiGameRequest, {
+        existing,
+        reservedIds,
+        reservedSlugs
+      });
+
+      if (!game) {
+        return this.invalidRow(index, id, errors);
+      }
+
+      reservedIds.add(game.id);
+      reservedSlugs.add(game.slug);
+      return {
+        entity: game,
+        report: { row: index + 1, id: game.id, action: existing ? 'update' : 'create', errors: [] }
+      };
+    });
+  }
+
+  /**
+   * Validate provider rows
+   */
+  private static prepareProviders(records: Record<string, unknown>[]): PreparedRow<Provider>[] {
+    const seenIds = new Set<string>();
+
+    return records.map((record, index) => {
+      const errors: ValidationError[] = [];
+      const { id, existing } = this.validateRecordId(record, seenIds, errors, providerId =>
+        ProviderService.providerExists(providerId) ? ProviderService.getProviderById(providerId) : undefined
+      );
+      const fields = this.validateTextFields<ApiProviderRecord>(
+        record, ['name', 'logo', 'description', 'website'], existing ? [] : ['name'], errors
+      );
+
+      if (errors.length > 0) {
+        return this.invalidRow(index, id, errors);
+      }
+
+      // getProviderById adds a computed gameCount, which is never stored
+      const base: Provider = existing ? { ...existing, gameCount: undefined } : { id: id!, name: fields.name! };
+      return {
+        entity: { ...base, ...fields },
+        report: { row: index + 1, id, action: existing ? 'update' : 'create', errors: [] }
+      };
+    });
+  }
+
+  /**
+   * Validate tag catalogue rows (IDs are normalized to lowercase)
+   */
+  private static prepareTags(records: Record<string, unknown>[]): PreparedRow<TagDefinition>[] {
+    const seenIds = new Set<string>();
+    const definitions = new Map(TagService.getTagDefinitions().map(tag => [tag.id, tag]));
+
+    return records.map((record, index) => {
+      const errors: ValidationError[] = [];
+      const normalized = typeof record.id === 'string' ? { ...record, id: record.id.toLowerCase().trim() } : record;
+      const { id, existing } = this.validateRecordId(normalized, seenIds, errors, tagId => definitions.get(tagId));
+      const fields = this.validateTextFields<ApiTagRecord>(
+        record, ['name', 'category'], existing ? [] : ['name'], errors
+      );
+
+      if (errors.length > 0) {
+        return this.invalidRow(index, id, errors);
+      }
+
+      return {
+        entity: { ...(existing ?? { id: id!, name: fields.name! }), ...fields },
+        report: { row: index + 1, id, action: existing ? 'update' : 'create', errors: [] }
+      };
+    });
+  }
+
+  /**
+   * Validate a record ID (required, URL-safe and unique within the file)
+   */
+  private static validateRecordId<T>(
+    record: Record<string, unknown>,
+    seenIds: Set<string>,
+    errors: ValidationError[],
+    findExisting: (id: string) => T | undefined
+  ): { id?: string; existing?: T } {
+    const id = typeof record.id === 'string' ? record.id.trim() : undefined;
+
+    if (!id) {
+      errors.push(new ValidationError('id', record.id, ['required']));
+      return {};
+    }
+    if (!ID_PATTERN.test(id)) {
+      errors.push(new ValidationError('id', id, ['lowercase letters, digits and hyphens only']));
+      return { id };
+    }
+    if (seenIds.has(id)) {
+      errors.push(new ValidationError('id', id, ['duplicated in file']));
+      return { id };
+    }
+
+    seenIds.add(id);
+    return { id, existing: findExisting(id) };
+  }
+
+  /**
+   * Validate optional text fields, returning the trimmed values that were provided
+   */
+  private static validateTextFields<T>(
+    record: Record<string, unknown>,
+    fields: (keyof T & string)[],
+    required: (keyof T & string)[],
+    errors: ValidationError[]
+  ): Partial<T> {
+    const result: Partial<T> = {};
+
+    fields.forEach(field => {
+      const value = record[field];
+
+      if (value === undefined || value === null) {
+        if (required.includes(field)) {
+          errors.push(new ValidationError(field, value, ['required']));
+        }
+        return;
+      }
+      if (typeof value !== 'string' || !value.trim()) {
+        errors.push(new ValidationError(field, value, ['must be a non-empty string']));
+        return;
+      }
+
+      result[field] = value.trim() as T[keyof T & string];
+    });
+
+    return result;
+  }
+
+  /**
+   * Save providers and refresh the provider reference stored on their games
+   */
+  private static applyProviders(providers: Provider[]): void {
+    ProviderService.saveProviders(providers);
+
+    const providersById = new Map(providers.map(provider => [provider.id, provider]));
+    const changedGames = GameService.getAllGames()
+      .filter(game => {
+        const provider = providersById.get(game.provider.id);
+        return provider && (provider.name !== game.provider.name || provider.logo !== game.provider.logo);
+      })
+      .map(game => {
+        const { id, name, logo } = providersById.get(game.provider.id)!;
+        return { ...game, provider: { id, name, logo } };
+      });
+
+    if (changedGames.length > 0) {
+      GameService.saveGames(changedGames);
+    }
+  }
+
+  private static invalidRow<T>(index: number, id: string | undefined, errors: ValidationError[]): PreparedRow<T> {
+    return {
+      report: {
+        row: index + 1,
+        id,
+        action: 'invalid',
+        errors: errors.map(error => error.details as ApiCatalogImportError)
+      }
+    };
+  }
+
+  /**
+   * Build the exported records for an entity
+   */
+  private static getExportRecords(
+    entity: CatalogEntity,
+    criteria: FilterQueryParams,
+    favoriteIds: string[]
+  ): CatalogRecord[] {
+    switch (entity) {
+      case 'providers':
+        return ProviderService.getAllProviders()
+          .filter(provider => !criteria.providers?.length || criteria.providers.includes(provider.id))
+          .map(({ id, name, logo, description, website }): ApiProviderRecord => ({
+            id, name, logo, description, website
+          }));
+      case 'tags':
+        return TagService.getTagDefinitions()
+          .filter(tag => !criteria.tags?.length || criteria.tags.includes(tag.id))
+          .map(({ id, name, category }): ApiTagRecord => ({ id, name, category }));
+      default:
+        return GameService.getSortedGames(criteria, favoriteIds).map((game): ApiGameRequest => ({
+          id: game.id,
+          title: game.title,
+          slug: game.slug,
+          providerId: game.provider.id,
+          type: game.type,
+          thumbnail: game.thumbnail,
+          description: game.description,
+          tags: game.tags,
+          isNew: game.isNew,
+          isHot: game.isHot,
+          isOnSale: game.isOnSale,
+          isComingSoon: game.isComingSoon,
+          playCount: game.playCount,
+          releaseDate: game.releaseDate,
+          rtp: game.rtp,
+          maxWin: game.maxWin,
+          minBet: game.minBet,
+          maxBet: game.maxBet
+        }));
+    }
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const catalogTransferService = CatalogTransferService;
@@ -0,0 +1,142 @@
+/**
+ * Chaos Service
+ * Simulates network latency and injects failures into the mock API so error,
+ * timeout and partial-failure states can be reproduced
+ */
+
+import type { NextRequest } from 'next/server';
+import {
+  API_DELAYS,
+  API_TIMEOUT,
+  CHAOS_CONFIG,
+  COOKIE_KEYS,
+  LATENCY_PROFILES
+} from '@/lib/core/config/constants/app.constants';
+import { InjectedFaultError, ValidationError } from '@/lib/core/shared/errors/AppError';
+import { HttpStatusCodes } from '@/lib/core/shared/errors/constants';
+import { chaosConfigSchema } from '@/lib/core/shared/validation';
+import { simulateDelay, simulateRandomDelay } from '@/lib/core/shared/utils/delay';
+import type { ChaosConfig, ChaosRouteRule, LatencyProfile } from '@/lib/core/shared/types/chaos';
+
+/**
+ * Kind of request, which picks the default latency range
+ */
+export type ApiRequestKind = 'get' | 'mutation' | 'search';
+
+const DEFAULT_DELAYS: Record<ApiRequestKind, { min: number; max: number }> = {
+  get: { min: API_DELAYS.MIN_GET, max: API_DELAYS.MAX_GET },
+  mutation: { min: API_DELAYS.MIN_MUTATION, max: API_DELAYS.MAX_MUTATION },
+  search: { min: API_DELAYS.MIN_SEARCH, max: API_DELAYS.MAX_SEARCH }
+};
+
+export class ChaosService {
+  private static envConfig?: ChaosConfig;
+
+  /**
+   * Delay the request by its latency profile, then fail it if a fault is rolled
+   * Faults are thrown as AppErrors so the route's handleApiError shapes the response
+   */
+  static async simulate(request: NextRequest, kind: ApiRequestKind = 'get'): Promise<void> {
+    const config = this.resolveConfig(request);
+    const route = request.nextUrl.pathname;
+    const profile: LatencyProfile = LATENCY_PROFILES[config.profile ?? 'default'];
+
+    await simulateRandomDelay(
+      profile.minDelay ?? DEFAULT_DELAYS[kind].min,
+      profile.maxDelay ?? DEFAULT_DELAYS[kind].max
+    );
+
+    const rule = this.matchRoute(config.routes, route);
+    const status = rule?.status ?? config.status;
+    const timeoutRate = rule?.timeoutRate ?? config.timeoutRate ?? profile.timeoutRate ?? 0;
+    const errorRate = rule?.errorRate ?? config.errorRate ?? (status ? 1 : profile.errorRate ?? 0);
+
+    if (Math.random() < timeoutRate) {
+      await simulateDelay(API_TIMEOUT + CHAOS_CONFIG.TIMEOUT_MARGIN);
+      throw new InjectedFaultError(HttpStatusCodes.GATEWAY_TIMEOUT, route, 'timeout');
+    }
+
+    if (Math.random() < errorRate) {
+      throw new InjectedFaultError(status ?? HttpStatusCodes.INTERNAL_SERVER_ERROR, route);
+    }
+  }
+
+  /**
+   * Merge the env config with the per-request overrides (cookie, then header)
+   * Overrides are ignored in production unless MOCK_API_CHAOS_OVERRIDES=true
+   */
+  static resolveConfig(request: NextRequest): ChaosConfig {
+    const envConfig = this.getEnvConfig();
+    const allowOverrides = process.env.NODE_ENV !== 'production'
+      || process.env.MOCK_API_CHAOS_OVERRIDES === 'true';
+
+    if (!allowOverrides) {
+      return envConfig;
+    }
+
+    // The cookie is written by the dev panel, so a stale or hand-edited one is skipped
+    const cookieValue = request.cookies.get(COOKIE_KEYS.CHAOS)?.value;
+    const cookieConfig = cookieValue ? this.parseLenient(cookieValue, 'cookie') : {};
+
+    // A bad header is the caller's mistake and is reported as a validation error
+    const headerValue = request.headers.get(CHAOS_CONFIG.HEADER);
+    const headerConfig = headerValue
+      ? chaosConfigSchema.validate(this.decode(headerValue, CHAOS_CONFIG.HEADER))
+      : {};
+
+    return { ...envConfig, ...cookieConfig, ...headerConfig };
+  }
+
+  /**
+   * Config from MOCK_API_CHAOS, read once
+   */
+  private static getEnvConfig(): ChaosConfig {
+    if (!this.envConfig) {
+      const value = process.env.MOCK_API_CHAOS;
+      this.envConfig = value ? this.parseLenient(value, 'MOCK_API_CHAOS') : {};
+    }
+
+    return this.envConfig;
+  }
+
+  private static parseLenient(value: string, source: string): ChaosConfig {
+    try {
+      const { data, violations } = chaosConfigSchema.parse(this.decode(value, source));
+      if (violations.length) {
+        console.warn(`Ignoring invalid chaos settings from ${source}:`, violations);
+      }
+      return data;
+    } catch (error) {
+      console.warn(`Ignoring unreadable chaos config from ${source}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * A config is JSON, or just a latency profile name (e.g. "3g")
+   */
+  private static decode(value: string, source: string): Record<string, unknown> {
+    const trimmed = value.trim();
+
+    if (!trimmed.startsWith('{')) {
+      return { profile: trimmed };
+    }
+
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      throw new ValidationError(source, value, ['Invalid JSON']);
+    }
+  }
+
+  private static matchRoute(routes: ChaosRouteRule[] = [], pathname: string): ChaosRouteRule | undefined {
+    return routes
+      .filter(rule => pathname === rule.route || pathname.startsWith(`${rule.route.replace(/\/$/, '')}/`))
+      .sort((a, b) => b.route.length - a.route.length)[0];
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const chaosService = ChaosService;
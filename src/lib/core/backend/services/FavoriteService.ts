@@ -1,13 +1,28 @@
 /**
  * Favorite Service
- * Handles all favorite-related operations
+ * Handles all favorite-related operations, scoped to a favorites owner
+ * Owners are resolved per request by VisitorService (`guest:<sessionId>` or `user:<userId>`)
  */
 
-import type { Game } from '@/lib/core/domain/entities';
+import type { FavoriteCollection, Game, Provider } from '@/lib/core/domain/entities';
+import {
+  createFavoriteCollection,
+  createFavoriteEvent,
+  FAVORITE_COLLECTION_NAME_MAX_LENGTH
+} from '@/lib/core/domain/entities';
 import { GameService } from './GameService';
-import { cacheService } from '@/lib/core/backend/services/CacheService';
-import { CACHE_TTL } from '@/lib/core/config/constants/app.constants';
-import favoritesData from '../data/favorites.json';
+import { ProviderService } from './ProviderService';
+import { TagService, type Tag } from './TagService';
+import { cacheService, cacheTags } from '@/lib/core/backend/services/CacheService';
+import { CACHE_TTL, PLAY_WINDOWS } from '@/lib/core/config/constants/app.constants';
+import { getRepositories, type FavoriteRepository } from '@/lib/core/backend/repositories';
+import { FAVORITE_ITEM_TYPES, type FavoriteItemType } from '@/lib/core/backend/types/favoriteTypes';
+import {
+  GameNotFoundError,
+  NotFoundError,
+  ProviderNotFoundError,
+  ValidationError
+} from '@/lib/core/shared/errors/AppError';
 
 export interface FavoriteStats {
   totalFavorites: number;
@@ -16,325 +31,561 @@ export interface FavoriteStats {
   recentFavorites: Game[];
 }
 
-interface FavoritesData {
-  favorites: Record<string, string[]>;
-  lastUpdated: string;
-}
+export type CollectionGameAction = 'add' | 'remove' | 'toggle';
 
 export class FavoriteService {
-  private static favoritesCache: Set<string> = new Set();
-  private static favoritesStore: FavoritesData = favoritesData as FavoritesData;
-  private static userId = 'guest'; // Default user for now
-  
   /**
-   * Initialize favorites from JSON data
+   * Get the repository holding favorites of the given type
+   */
+  private static getRepository(itemType: FavoriteItemType): FavoriteRepository {
+    const repositories = getRepositories();
+
+    switch (itemType) {
+      case 'provider':
+        return repositories.providerFavorites;
+      case 'tag':
+        return repositories.tagFavorites;
+      default:
+        return repositories.favorites;
+    }
+  }
+
+  /**
+   * Normalize an item ID to the form it is stored under (tag IDs are lowercase)
+   */
+  private static normalizeItemId(itemId: string, itemType: FavoriteItemType): string {
+    return itemType === 'tag' ? itemId.toLowerCase().trim() : itemId;
+  }
+
+  /**
+   * Get owner favorites from the repository
    */
-  private static initializeFavorites(): void {
-    const userFavorites = this.favoritesStore.favorites[this.userId] || [];
-    userFavorites.forEach(gameId => {
-      const game = GameService.getGameById(gameId);
-      if (game) {
-        game.isFavorite = true;
+  private static getUserFavorites(ownerId: string, itemType: FavoriteItemType = 'game'): string[] {
+    return this.getRepository(itemType).findByUser(ownerId);
+  }
+
+  /**
+   * Save favorites to the repository
+   * Persists across restarts with the json and sqlite data adapters
+   */
+  private static saveFavorites(ownerId: string, favoriteIds: string[], itemType: FavoriteItemType = 'game'): void {
+    this.getRepository(itemType).saveForUser(ownerId, favoriteIds);
+
+    // Collections only hold favorite games, so drop games that are no longer favorited
+    if (itemType === 'game') {
+      const favoriteSet = new Set(favoriteIds);
+      const collections = this.getCollections(ownerId);
+      if (collections.some(collection => collection.gameIds.some(id => !favoriteSet.has(id)))) {
+        this.saveCollections(ownerId, collections.map(collection => ({
+          ...collection,
+          gameIds: collection.gameIds.filter(id => favoriteSet.has(id))
+        })));
       }
-    });
+    }
+
+    // Invalidate the owner's cached favorites and stats
+    cacheService.invalidateTags([cacheTags.owner(ownerId)]);
+  }
+
+  /**
+   * Record a game being favorited for the trending rankings, pruning events older than a week
+   * Re-favoriting a game the owner already favorited in the last day records nothing
+   */
+  private static recordFavoriteEvent(ownerId: string, gameId: string): void {
+    const event = createFavoriteEvent({ gameId, ownerId });
+    const favoriteEvents = getRepositories().favoriteEvents;
+    const dayAgo = new Date(Date.parse(event.favoritedAt) - PLAY_WINDOWS.DAY).toISOString();
+
+    if (favoriteEvents.findSince(dayAgo).some(recent => recent.ownerId === ownerId && recent.gameId === gameId)) {
+      return;
+    }
+
+    favoriteEvents.record(event);
+    favoriteEvents.deleteBefore(new Date(Date.parse(event.favoritedAt) - PLAY_WINDOWS.WEEK).toISOString());
   }
 
   /**
-   * Get user favorites from store
+   * Save collections to the repository
    */
-  private static getUserFavorites(): string[] {
-    if (!this.favoritesStore.favorites[this.userId]) {
-      this.favoritesStore.favorites[this.userId] = [];
+  private static saveCollections(ownerId: string, collections: FavoriteCollection[]): void {
+    getRepositories().collections.saveForUser(ownerId, collections);
+    cacheService.invalidateTags([cacheTags.owner(ownerId)]);
+  }
+
+  /**
+   * Validate a collection name, returning it trimmed
+   * Names must be unique per owner (case-insensitive)
+   */
+  private static validateCollectionName(ownerId: string, name: unknown, collectionId?: string): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+
+    if (!trimmed) {
+      throw new ValidationError('name', name, ['required']);
     }
-    return this.favoritesStore.favorites[this.userId];
+
+    if (trimmed.length > FAVORITE_COLLECTION_NAME_MAX_LENGTH) {
+      throw new ValidationError('name', name, [`at most ${FAVORITE_COLLECTION_NAME_MAX_LENGTH} characters`]);
+    }
+
+    const isTaken = this.getCollections(ownerId).some(collection =>
+      collection.id !== collectionId && collection.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (isTaken) {
+      throw new ValidationError('name', name, ['must be unique']);
+    }
+
+    return trimmed;
   }
 
   /**
-   * Save favorites to store (in-memory simulation of file persistence)
-   * In a real backend, this would write to the JSON file or database
-   * 
-   * NOTE: In Next.js/Vercel, we cannot write to the file system.
-   * This simulates persistence by maintaining state in memory.
-   * For production, use a database or external storage service.
+   * Validate game IDs for a collection, de-duplicated in their original order
    */
-  private static saveFavorites(favoriteIds: string[]): void {
-    // Update in-memory store (simulating file/database write)
-    this.favoritesStore.favorites[this.userId] = favoriteIds;
-    this.favoritesStore.lastUpdated = new Date().toISOString();
-    
-    // Update cache to persist across requests during the session
-    this.favoritesCache = new Set(favoriteIds);
-    
-    // Update games with favorite status
-    GameService.getAllGames().forEach(game => {
-      game.isFavorite = favoriteIds.includes(game.id);
+  private static validateCollectionGameIds(gameIds: unknown): string[] {
+    if (!Array.isArray(gameIds) || gameIds.some(id => typeof id !== 'string')) {
+      throw new ValidationError('gameIds', gameIds, ['must be an array of game IDs']);
+    }
+
+    gameIds.forEach(gameId => {
+      if (!GameService.getGameById(gameId)) {
+        throw new GameNotFoundError(gameId);
+      }
     });
-    
-    // In development, log what would be persisted
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[FavoriteService] Updated favorites for ${this.userId}:`, favoriteIds);
-      console.log('[FavoriteService] In production, this would be saved to:');
-      console.log('  - Database (PostgreSQL, MongoDB, etc.)');
-      console.log('  - Or external storage (Redis, DynamoDB, etc.)');
-      console.log('Current in-memory state:', {
-        favorites: this.favoritesStore.favorites,
-        lastUpdated: this.favoritesStore.lastUpdated
-      });
+
+    return Array.from(new Set(gameIds as string[]));
+  }
+
+  /**
+   * Add games to the favorites list, keeping collections a subset of favorites
+   */
+  private static ensureFavorites(ownerId: string, gameIds: string[]): void {
+    const favorites = this.getUserFavorites(ownerId);
+    const missing = gameIds.filter(id => !favorites.includes(id));
+
+    if (missing.length > 0) {
+      this.saveFavorites(ownerId, [...favorites, ...missing]);
+      missing.forEach(gameId => this.recordFavoriteEvent(ownerId, gameId));
+    }
+  }
+
+  /**
+   * Check that the item to favorite exists
+   * @throws GameNotFoundError, ProviderNotFoundError or NotFoundError when it does not
+   */
+  static assertItemExists(itemId: string, itemType: FavoriteItemType = 'game'): void {
+    switch (itemType) {
+      case 'provider':
+        if (!ProviderService.providerExists(itemId)) {
+          throw new ProviderNotFoundError(itemId);
+        }
+        break;
+      case 'tag':
+        if (!TagService.tagExists(itemId)) {
+          throw new NotFoundError('Tag', itemId);
+        }
+        break;
+      default:
+        if (!GameService.getGameById(itemId)) {
+          throw new GameNotFoundError(itemId);
+        }
     }
   }
 
   /**
    * Toggle favorite status for an item
+   * @param ownerId - Favorites owner
    * @param itemId - ID of the item to toggle
-   * @param itemType - Type of item (game, provider, etc.)
+   * @param itemType - Type of item (game, provider or tag)
    */
-  static toggleFavorite(itemId: string, itemType: 'game' = 'game'): boolean {
-    if (itemType === 'game') {
-      const favorites = this.getUserFavorites();
-      const index = favorites.indexOf(itemId);
-      let isFavorite: boolean;
-      
-      if (index > -1) {
-        // Remove from favorites
-        favorites.splice(index, 1);
-        isFavorite = false;
-      } else {
-        // Add to favorites
-        favorites.push(itemId);
-        isFavorite = true;
-      }
-      
-      // Save updated favorites
-      this.saveFavorites(favorites);
-      
-      // Update the game's favorite status
-      const game = GameService.getGameById(itemId);
-      if (game) {
-        game.isFavorite = isFavorite;
-      }
-      
-      // Invalidate related caches
-      cacheService.invalidate('games:');
-      cacheService.invalidate('favorites:');
-      
-      return isFavorite;
-    }
-    
-    // Handle other item types in the future
-    const isFavorite = this.favoritesCache.has(itemId);
-    if (isFavorite) {
-      this.favoritesCache.delete(itemId);
+  static toggleFavorite(ownerId: string, itemId: string, itemType: FavoriteItemType = 'game'): boolean {
+    const id = this.normalizeItemId(itemId, itemType);
+    const favorites = this.getUserFavorites(ownerId, itemType);
+    const index = favorites.indexOf(id);
+    let isFavorite: boolean;
+
+    if (index > -1) {
+      // Remove from favorites
+      favorites.splice(index, 1);
+      isFavorite = false;
     } else {
-      this.favoritesCache.add(itemId);
+      // Add to favorites
+      favorites.push(id);
+      isFavorite = true;
+    }
+
+    // Save updated favorites
+    this.saveFavorites(ownerId, favorites, itemType);
+
+    if (isFavorite && itemType === 'game') {
+      this.recordFavoriteEvent(ownerId, id);
     }
-    
-    return !isFavorite;
+
+    return isFavorite;
   }
-  
+
   /**
    * Add item to favorites
+   * @param ownerId - Favorites owner
    * @param itemId - ID of the item to add
    * @param itemType - Type of item
    */
-  static addFavorite(itemId: string, itemType: 'game' = 'game'): boolean {
-    if (itemType === 'game') {
-      const game = GameService.getGameById(itemId);
-      if (game && !game.isFavorite) {
-        this.toggleFavorite(itemId);
-      }
-      return true;
+  static addFavorite(ownerId: string, itemId: string, itemType: FavoriteItemType = 'game'): boolean {
+    if (!this.isFavorite(ownerId, itemId, itemType)) {
+      this.toggleFavorite(ownerId, itemId, itemType);
     }
-    
-    this.favoritesCache.add(itemId);
     return true;
   }
-  
+
   /**
    * Remove item from favorites
+   * @param ownerId - Favorites owner
    * @param itemId - ID of the item to remove
    * @param itemType - Type of item
    */
-  static removeFavorite(itemId: string, itemType: 'game' = 'game'): boolean {
-    if (itemType === 'game') {
-      const game = GameService.getGameById(itemId);
-      if (game && game.isFavorite) {
-        this.toggleFavorite(itemId);
-      }
-      return true;
+  static removeFavorite(ownerId: string, itemId: string, itemType: FavoriteItemType = 'game'): boolean {
+    if (this.isFavorite(ownerId, itemId, itemType)) {
+      this.toggleFavorite(ownerId, itemId, itemType);
     }
-    
-    this.favoritesCache.delete(itemId);
     return true;
   }
-  
+
   /**
    * Check if item is favorited
+   * @param ownerId - Favorites owner
    * @param itemId - ID of the item to check
    * @param itemType - Type of item
    */
-  static isFavorite(itemId: string, itemType: 'game' = 'game'): boolean {
-    if (itemType === 'game') {
-      const game = GameService.getGameById(itemId);
-      return game?.isFavorite || false;
-    }
-    
-    return this.favoritesCache.has(itemId);
+  static isFavorite(ownerId: string, itemId: string, itemType: FavoriteItemType = 'game'): boolean {
+    return this.getUserFavorites(ownerId, itemType).includes(this.normalizeItemId(itemId, itemType));
   }
-  
+
   /**
    * Get all favorite games (with caching)
+   * @param ownerId - Favorites owner
    */
-  static getFavoriteGames(): Game[] {
-    const cacheKey = 'favorites:all';
+  static getFavoriteGames(ownerId: string): Game[] {
+    const cacheKey = `favorites:${ownerId}:all`;
     const cached = cacheService.get<Game[]>(cacheKey);
-    
+
     if (cached) return cached;
-    
-    // Initialize favorites if not already done
-    if (!this.favoritesStore.favorites[this.userId]) {
-      this.initializeFavorites();
-    }
-    
-    const favoriteIds = this.getUserFavorites();
+
+    const favoriteIds = this.getUserFavorites(ownerId);
     const favorites = favoriteIds
       .map(id => GameService.getGameById(id))
-      .filter(game => game !== null) as Game[];
-    
-    cacheService.set(cacheKey, favorites, CACHE_TTL.SHORT);
-    
+      .filter(game => game !== undefined) as Game[];
+
+    cacheService.set(cacheKey, favorites, CACHE_TTL.SHORT, {
+      tags: [cacheTags.owner(ownerId), ...favoriteIds.map(id => cacheTags.game(id))]
+    });
+
     return favorites;
   }
-  
+
+  /**
+   * Get followed providers in the order they were followed (with caching)
+   * Providers removed from the catalogue are skipped
+   * @param ownerId - Favorites owner
+   */
+  static getFavoriteProviders(ownerId: string): Provider[] {
+    const cacheKey = `favorites:${ownerId}:providers`;
+    const cached = cacheService.get<Provider[]>(cacheKey);
+
+    if (cached) return cached;
+
+    const providers = this.getUserFavorites(ownerId, 'provider')
+      .filter(id => ProviderService.providerExists(id))
+      .map(id => ProviderService.getProviderById(id));
+
+    cacheService.set(cacheKey, providers, CACHE_TTL.SHORT, {
+      tags: [cacheTags.owner(ownerId), cacheTags.providerCatalog()]
+    });
+
+    return providers;
+  }
+
+  /**
+   * Get followed tags in the order they were followed (with caching)
+   * Tags no longer used by any game are skipped
+   * @param ownerId - Favorites owner
+   */
+  static getFavoriteTags(ownerId: string): Tag[] {
+    const cacheKey = `favorites:${ownerId}:tags`;
+    const cached = cacheService.get<Tag[]>(cacheKey);
+
+    if (cached) return cached;
+
+    const tags = this.getUserFavorites(ownerId, 'tag')
+      .map(id => TagService.getTagById(id))
+      .filter(tag => tag !== undefined) as Tag[];
+
+    cacheService.set(cacheKey, tags, CACHE_TTL.SHORT, {
+      tags: [cacheTags.owner(ownerId), cacheTags.gameCatalog()]
+    });
+
+    return tags;
+  }
+
   /**
    * Get favorite IDs
+   * @param ownerId - Favorites owner
    * @param itemType - Type of items to get
    */
-  static getFavoriteIds(itemType: 'game' = 'game'): string[] {
-    if (itemType === 'game') {
-      return this.getFavoriteGames().map(game => game.id);
+  static getFavoriteIds(ownerId: string, itemType: FavoriteItemType = 'game'): string[] {
+    switch (itemType) {
+      case 'provider':
+        return this.getFavoriteProviders(ownerId).map(provider => provider.id);
+      case 'tag':
+        return this.getFavoriteTags(ownerId).map(tag => tag.id);
+      default:
+        return this.getFavoriteGames(ownerId).map(game => game.id);
     }
-    
-    return Array.from(this.favoritesCache);
   }
-  
+
   /**
    * Get favorite count
+   * @param ownerId - Favorites owner
    * @param itemType - Type of items to count
    */
-  static getFavoriteCount(itemType: 'game' = 'game'): number {
-    if (itemType === 'game') {
-      return this.getFavoriteGames().length;
-    }
-    
-    return this.favoritesCache.size;
+  static getFavoriteCount(ownerId: string, itemType: FavoriteItemType = 'game'): number {
+    return this.getFavoriteIds(ownerId, itemType).length;
   }
-  
+
   /**
    * Clear all favorites
-   * @param itemType - Type of items to clear
+   * @param ownerId - Favorites owner
+   * @param itemType - Type of items to clear (every type when omitted)
    */
-  static clearFavorites(itemType?: 'game'): void {
-    if (!itemType || itemType === 'game') {
-      // Clear all game favorites
-      const favorites = this.getFavoriteGames();
-      favorites.forEach(game => {
-        this.toggleFavorite(game.id);
-      });
-    }
-    
-    // Clear cache
-    this.favoritesCache.clear();
-    cacheService.invalidate('favorites:');
+  static clearFavorites(ownerId: string, itemType?: FavoriteItemType): void {
+    const itemTypes = itemType ? [itemType] : FAVORITE_ITEM_TYPES;
+    itemTypes.forEach(type => this.saveFavorites(ownerId, [], type));
   }
-  
+
   /**
    * Get favorite statistics (with caching)
+   * @param ownerId - Favorites owner
    */
-  static getFavoriteStats(): FavoriteStats {
-    const cacheKey = 'favorites:stats';
+  static getFavoriteStats(ownerId: string): FavoriteStats {
+    const cacheKey = `favorites:${ownerId}:stats`;
     const cached = cacheService.get<FavoriteStats>(cacheKey);
-    
+
     if (cached) return cached;
-    
-    const favoriteGames = this.getFavoriteGames();
-    
+
+    const favoriteGames = this.getFavoriteGames(ownerId);
+
     // Group by type
     const favoritesByType: Record<string, number> = {};
     favoriteGames.forEach(game => {
       favoritesByType[game.type] = (favoritesByType[game.type] || 0) + 1;
     });
-    
+
     // Group by provider
     const favoritesByProvider: Record<string, number> = {};
     favoriteGames.forEach(game => {
       const providerId = game.provider.id;
       favoritesByProvider[providerId] = (favoritesByProvider[providerId] || 0) + 1;
     });
-    
+
     // Get recent favorites (last 5)
     const recentFavorites = favoriteGames.slice(-5).reverse();
-    
+
     const stats: FavoriteStats = {
       totalFavorites: favoriteGames.length,
       favoritesByType,
       favoritesByProvider,
       recentFavorites
     };
-    
-    cacheService.set(cacheKey, stats, CACHE_TTL.MEDIUM);
+
+    cacheService.set(cacheKey, stats, CACHE_TTL.MEDIUM, {
+      tags: [cacheTags.owner(ownerId), ...favoriteGames.map(game => cacheTags.game(game.id))]
+    });
     return stats;
   }
-  
+
   /**
    * Batch toggle favorites
+   * @param ownerId - Favorites owner
    * @param itemIds - Array of item IDs to toggle
    * @param itemType - Type of items
    */
-  static batchToggleFavorites(itemIds: string[], itemType: 'game' = 'game'): Record<string, boolean> {
+  static batchToggleFavorites(
+    ownerId: string,
+    itemIds: string[],
+    itemType: FavoriteItemType = 'game'
+  ): Record<string, boolean> {
     const results: Record<string, boolean> = {};
-    
+
     itemIds.forEach(itemId => {
-      results[itemId] = this.toggleFavorite(itemId, itemType);
+      results[itemId] = this.toggleFavorite(ownerId, itemId, itemType);
     });
-    
+
     return results;
   }
-  
+
   /**
    * Import favorites from JSON
+   * @param ownerId - Favorites owner
    * @param favoriteIds - Array of favorite IDs to import
    * @param itemType - Type of items
    */
-  static importFavorites(favoriteIds: string[], itemType: 'game' = 'game'): void {
-    if (itemType === 'game') {
-      this.saveFavorites(favoriteIds);
-    } else {
-      favoriteIds.forEach(itemId => {
-        this.addFavorite(itemId, itemType);
-      });
+  static importFavorites(ownerId: string, favoriteIds: string[], itemType: FavoriteItemType = 'game'): void {
+    this.saveFavorites(
+      ownerId,
+      favoriteIds.map(itemId => this.normalizeItemId(itemId, itemType)),
+      itemType
+    );
+  }
+
+  /**
+   * Get the owner's collections in display order
+   * @param ownerId - Favorites owner
+   */
+  static getCollections(ownerId: string): FavoriteCollection[] {
+    return getRepositories().collections.findByUser(ownerId);
+  }
+
+  /**
+   * Get a single collection
+   * @param ownerId - Favorites owner
+   * @param collectionId - ID of the collection
+   * @throws NotFoundError when the owner has no such collection
+   */
+  static getCollection(ownerId: string, collectionId: string): FavoriteCollection {
+    const collection = this.getCollections(ownerId).find(item => item.id === collectionId);
+
+    if (!collection) {
+      throw new NotFoundError('Collection', collectionId);
     }
+
+    return collection;
   }
-  
+
   /**
-   * Export favorites to JSON
-   * @param itemType - Type of items to export
+   * Create a collection, appended after the existing ones
+   * Games added to a collection are also added to favorites
+   * @param ownerId - Favorites owner
+   * @param name - Collection name
+   * @param gameIds - Initial games
    */
-  static exportFavorites(itemType: 'game' = 'game'): string[] {
-    return this.getFavoriteIds(itemType);
+  static createCollection(ownerId: string, name: unknown, gameIds: unknown = []): FavoriteCollection {
+    const collection = createFavoriteCollection({
+      id: crypto.randomUUID(),
+      name: this.validateCollectionName(ownerId, name),
+      gameIds: this.validateCollectionGameIds(gameIds)
+    });
+
+    this.ensureFavorites(ownerId, collection.gameIds);
+    this.saveCollections(ownerId, [...this.getCollections(ownerId), collection]);
+
+    return collection;
   }
-  
+
   /**
-   * Initialize service on startup
+   * Rename a collection and/or replace its games
+   * @param ownerId - Favorites owner
+   * @param collectionId - ID of the collection
+   * @param changes - Fields to update
    */
-  static initialize(): void {
-    this.initializeFavorites();
+  static updateCollection(
+    ownerId: string,
+    collectionId: string,
+    changes: { name?: unknown; gameIds?: unknown }
+  ): FavoriteCollection {
+    const collection = this.getCollection(ownerId, collectionId);
+    const updated: FavoriteCollection = {
+      ...collection,
+      ...(changes.name !== undefined && {
+        name: this.validateCollectionName(ownerId, changes.name, collectionId)
+      }),
+      ...(changes.gameIds !== undefined && {
+        gameIds: this.validateCollectionGameIds(changes.gameIds)
+      }),
+      updatedAt: new Date().toISOString()
+    };
+
+    this.ensureFavorites(ownerId, updated.gameIds);
+    this.saveCollections(ownerId, this.getCollections(ownerId).map(item =>
+      item.id === collectionId ? updated : item
+    ));
+
+    return updated;
   }
-}
 
-// Initialize favorites on service load
-FavoriteService.initialize();
+  /**
+   * Delete a collection (its games stay in favorites)
+   * @param ownerId - Favorites owner
+   * @param collectionId - ID of the collection
+   */
+  static deleteCollection(ownerId: string, collectionId: string): void {
+    this.getCollection(ownerId, collectionId);
+    this.saveCollections(ownerId, this.getCollections(ownerId).filter(item => item.id !== collectionId));
+  }
+
+  /**
+   * Reorder collections
+   * @param ownerId - Favorites owner
+   * @param collectionIds - Every collection ID in the new order
+   */
+  static reorderCollections(ownerId: string, collectionIds: unknown): FavoriteCollection[] {
+    const collections = this.getCollections(ownerId);
+    const byId = new Map(collections.map(collection => [collection.id, collection]));
+
+    const isPermutation =
+      Array.isArray(collectionIds) &&
+      collectionIds.length === collections.length &&
+      new Set(collectionIds).size === collections.length &&
+      collectionIds.every(id => byId.has(id));
+    if (!isPermutation) {
+      throw new ValidationError('collectionIds', collectionIds, ['must list every collection ID exactly once']);
+    }
+
+    const reordered = (collectionIds as string[]).map(id => byId.get(id)!);
+    this.saveCollections(ownerId, reordered);
+
+    return reordered;
+  }
+
+  /**
+   * Add, remove or toggle a game in a collection
+   * Adding a game also adds it to favorites
+   * @param ownerId - Favorites owner
+   * @param collectionId - ID of the collection
+   * @param gameId - ID of the game
+   * @param action - What to do with the game
+   * @returns The updated collection and whether the game is now in it
+   */
+  static setCollectionGame(
+    ownerId: string,
+    collectionId: string,
+    gameId: string,
+    action: CollectionGameAction = 'toggle'
+  ): { collection: FavoriteCollection; inCollection: boolean } {
+    const collection = this.getCollection(ownerId, collectionId);
+    const isInCollection = collection.gameIds.includes(gameId);
+    const inCollection = action === 'toggle' ? !isInCollection : action === 'add';
+
+    if (inCollection === isInCollection) {
+      return { collection, inCollection };
+    }
+
+    const updated = this.updateCollection(ownerId, collectionId, {
+      gameIds: inCollection
+        ? [...collection.gameIds, gameId]
+        : collection.gameIds.filter(id => id !== gameId)
+    });
+
+    return { collection: updated, inCollection };
+  }
+
+  /**
+   * Export favorites to JSON
+   * @param ownerId - Favorites owner
+   * @param itemType - Type of items to export
+   */
+  static exportFavorites(ownerId: string, itemType: FavoriteItemType = 'game'): string[] {
+    return this.getFavoriteIds(ownerId, itemType);
+  }
+}
 
 /**
  * Export singleton instance for convenience
  */
-export const favoriteService = FavoriteService;
\ No newline at end of file
+export const favoriteService = FavoriteService;
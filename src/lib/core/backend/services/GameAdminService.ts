@@ -0,0 +1,359 @@
+/**
+ * Game Admin Service
+ * Catalogue administration: validates and applies game create, edit and delete requests
+ * Writes go through GameService so indexes, derived tags and caches stay consistent
+ */
+
+import type { Game } from '@/lib/core/domain/entities';
+import { createGame } from '@/lib/core/domain/entities';
+import type { ApiGameRequest, GameType } from '@/lib/core/backend/types/gameTypes';
+import { GameService } from './GameService';
+import { ProviderService } from './ProviderService';
+import { TagService } from './TagService';
+import { GAME_TYPES } from '@/lib/core/config/constants/app.constants';
+import { slugify } from '@/lib/core/shared/utils/string';
+import { normalizeTagName } from '@/lib/core/shared/utils/tags';
+import { isValidRTP } from '@/lib/core/shared/utils/games';
+import { GameNotFoundError, ValidationError } from '@/lib/core/shared/errors/AppError';
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const RELEASE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const GAME_ID_PREFIX = 'game-';
+const REQUIRED_FIELDS = ['title', 'providerId', 'type', 'thumbnail'] as const;
+
+/**
+ * Game fields an admin request may set, validated and normalized
+ */
+type GameChanges = Partial<Omit<Game, 'id' | 'isFavorite' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * Context for validating a game request
+ */
+export interface GamePreparationOptions {
+  /** Game being edited; omitted when creating */
+  existing?: Game;
+  /** Slugs claimed by other pending writes (e.g. earlier rows of an import) */
+  reservedSlugs?: Set<string>;
+  /** IDs claimed by other pending writes */
+  reservedIds?: Set<string>;
+}
+
+/**
+ * Result of validating a game request: the game to save, or every validation error found
+ */
+export interface GamePreparation {
+  game?: Game;
+  errors: ValidationError[];
+}
+
+export class GameAdminService {
+  /**
+   * Create a game
+   * title, providerId, type and thumbnail are required; the slug defaults to the slugified title
+   */
+  static createGame(request: ApiGameRequest): Game {
+    const game = this.unwrap(this.prepareGame(request));
+
+    GameService.saveGame(game);
+    TagService.refresh();
+    return game;
+  }
+
+  /**
+   * Apply a partial update to a game
+   * The ID cannot be changed; the slug is kept unless explicitly set
+   */
+  static updateGame(gameId: string, request: ApiGameRequest): Game {
+    const existing = GameService.getGameById(gameId);
+    if (!existing) {
+      throw new GameNotFoundError(gameId);
+    }
+
+    const game = this.unwrap(this.prepareGame(request, { existing }));
+
+    GameService.saveGame(game);
+    TagService.refresh();
+    return game;
+  }
+
+  /**
+   * Delete a game from the catalogue
+   * Favorites that reference it are skipped when read
+   */
+  static deleteGame(gameId: string): void {
+    if (!GameService.deleteGame(gameId)) {
+      throw new GameNotFoundError(gameId);
+    }
+
+    TagService.refresh();
+  }
+
+  /**
+   * Validate a create (no existing game) or edit request without saving anything
+   * Collects every field error instead of stopping at the first one
+   */
+  static prepareGame(request: unknown, options: GamePreparationOptions = {}): GamePreparation {
+    const { existing, reservedSlugs, reservedIds } = options;
+    const errors: ValidationError[] = [];
+
+    if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+      return { errors: [new ValidationError('body', request, ['must be a JSON object'])] };
+    }
+    const body = request as Record<string, unknown>;
+
+    if (!existing) {
+      REQUIRED_FIELDS
+        .filter(field => body[field] === undefined || body[field] === null)
+        .forEach(field => errors.push(new ValidationError(field, body[field], ['required'])));
+    }
+
+    const changes = this.validateChanges(body, errors);
+
+    let id = existing?.id;
+    if (existing && body.id !== undefined && body.id !== existing.id) {
+      errors.push(new ValidationError('id', body.id, ['cannot be changed']));
+    } else if (!existing) {
+      id = body.id === undefined
+        ? this.nextGameId(reservedIds)
+        : this.collect(errors, () => this.validateId(body.id, reservedIds));
+    }
+
+    // New games derive their slug from the title; edits keep it unless it is set explicitly
+    const slug = changes.slug ?? existing?.slug ?? (changes.title ? slugify(changes.title) : undefined);
+    if (!existing && changes.title && !slug) {
+      errors.push(new ValidationError('slug', slug, ['required when the title has no letters or digits']));
+    }
+    if (slug && (changes.slug !== undefined || !existing)) {
+      this.collect(errors, () => this.assertSlugAvailable(slug, existing?.id, reservedSlugs));
+    }
+
+    const minBet = changes.minBet ?? existing?.minBet;
+    const maxBet = changes.maxBet ?? existing?.maxBet;
+    if (minBet !== undefined && maxBet !== undefined && minBet > maxBet) {
+      errors.push(new ValidationError('minBet', minBet, [`must not exceed maxBet (${maxBet})`]));
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    const game = existing
+      ? { ...existing, ...changes, updatedAt: new Date() }
+      : createGame({
+        ...changes,
+        id: id!,
+        slug: slug!,
+        title: changes.title!,
+        thumbnail: changes.thumbnail!,
+        provider: changes.provider!,
+        type: changes.type!
+      });
+
+    return { game, errors };
+  }
+
+  /**
+   * Return the prepared game or throw its first validation error
+   */
+  private static unwrap({ game, errors }: GamePreparation): Game {
+    if (errors.length > 0 || !game) {
+      throw errors[0];
+    }
+
+    return game;
+  }
+
+  /**
+   * Run a validator, recording its ValidationError instead of throwing
+   */
+  private static collect<T>(errors: ValidationError[], validate: () => T): T | undefined {
+    try {
+      return validate();
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        errors.push(error);
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate the fields present in a request body
+   */
+  private static validateChanges(body: Record<string, unknown>, errors: ValidationError[]): GameChanges {
+    const changes: GameChanges = {};
+    const set = <K extends keyof GameChanges>(field: K, validate: () => GameChanges[K]) => {
+      const value = this.collect(errors, validate);
+      if (value !== undefined) {
+        changes[field] = value;
+      }
+    };
+
+    if (body.title !== undefined) set('title', () => this.validateText('title', body.title));
+    if (body.thumbnail !== undefined) set('thumbnail', () => this.validateText('thumbnail', body.thumbnail));
+    if (body.description !== undefined) set('description', () => this.validateText('description', body.description));
+    if (body.slug !== undefined) set('slug', () => this.validateSlug(body.slug));
+    if (body.type !== undefined) set('type', () => this.validateType(body.type));
+    if (body.providerId !== undefined) set('provider', () => this.validateProvider(body.providerId));
+    if (body.tags !== undefined) set('tags', () => this.validateTags(body.tags));
+    if (body.releaseDate !== undefined) set('releaseDate', () => this.validateReleaseDate(body.releaseDate));
+    if (body.rtp !== undefined) set('rtp', () => this.validateRtp(body.rtp));
+    if (body.playCount !== undefined) set('playCount', () => this.validatePlayCount(body.playCount));
+    if (body.maxWin !== undefined) set('maxWin', () => this.validatePositiveNumber('maxWin', body.maxWin));
+    if (body.minBet !== undefined) set('minBet', () => this.validatePositiveNumber('minBet', body.minBet));
+    if (body.maxBet !== undefined) set('maxBet', () => this.validatePositiveNumber('maxBet', body.maxBet));
+
+    for (const flag of ['isNew', 'isHot', 'isOnSale', 'isComingSoon'] as const) {
+      if (body[flag] !== undefined) {
+        set(flag, () => {
+          if (typeof body[flag] !== 'boolean') {
+            throw new ValidationError(flag, body[flag], ['must be a boolean']);
+          }
+          return body[flag];
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Validate a non-empty string, returning it trimmed
+   */
+  private static validateText(field: string, value: unknown): string {
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+
+    if (!trimmed) {
+      throw new ValidationError(field, value, ['must be a non-empty string']);
+    }
+
+    return trimmed;
+  }
+
+  private static validateId(value: unknown, reservedIds?: Set<string>): string {
+    const id = this.validateText('id', value);
+
+    if (!SLUG_PATTERN.test(id)) {
+      throw new ValidationError('id', value, ['lowercase letters, digits and hyphens only']);
+    }
+    if (GameService.getGameById(id) || reservedIds?.has(id)) {
+      throw new ValidationError('id', value, ['must be unique']);
+    }
+
+    return id;
+  }
+
+  private static validateSlug(value: unknown): string {
+    const slug = this.validateText('slug', value);
+
+    if (!SLUG_PATTERN.test(slug)) {
+      throw new ValidationError('slug', value, ['lowercase letters, digits and hyphens only']);
+    }
+
+    return slug;
+  }
+
+  /**
+   * Slugs must be unique across the catalogue and any pending writes
+   */
+  private static assertSlugAvailable(slug: string, gameId?: string, reservedSlugs?: Set<string>): void {
+    const owner = GameService.getGameBySlug(slug);
+
+    if ((owner && owner.id !== gameId) || reservedSlugs?.has(slug)) {
+      throw new ValidationError('slug', slug, ['must be unique']);
+    }
+  }
+
+  private static validateType(value: unknown): GameType {
+    if (!GAME_TYPES.includes(value as GameType)) {
+      throw new ValidationError('type', value, [`must be one of: ${GAME_TYPES.join(', ')}`]);
+    }
+
+    return value as GameType;
+  }
+
+  /**
+   * Resolve a provider ID to the provider reference stored on games
+   */
+  private static validateProvider(value: unknown): Game['provider'] {
+    if (typeof value !== 'string' || !ProviderService.providerExists(value)) {
+      throw new ValidationError('providerId', value, ['must be a known provider ID']);
+    }
+
+    const { id, name, logo } = ProviderService.getProviderById(value);
+    return { id, name, logo };
+  }
+
+  /**
+   * Validate tags against the tag catalogue
+   * Tags are normalized to tag IDs (lowercase slugs) and de-duplicated in their original order
+   */
+  private static validateTags(value: unknown): string[] {
+    if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string' || !tag.trim())) {
+      throw new ValidationError('tags', value, ['must be an array of non-empty strings']);
+    }
+
+    const tags = Array.from(new Set(value.map((tag: string) => normalizeTagName(tag))));
+    const unknownTags = tags.filter(tag => !TagService.isKnownTag(tag));
+    if (unknownTags.length > 0) {
+      throw new ValidationError('tags', value, [`unknown tags: ${unknownTags.join(', ')}`]);
+    }
+
+    return tags;
+  }
+
+  private static validateReleaseDate(value: unknown): string {
+    if (
+      typeof value !== 'string' ||
+      !RELEASE_DATE_PATTERN.test(value) ||
+      Number.isNaN(Date.parse(value))
+    ) {
+      throw new ValidationError('releaseDate', value, ['must be a date formatted as YYYY-MM-DD']);
+    }
+
+    return value;
+  }
+
+  private static validateRtp(value: unknown): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || !isValidRTP(value)) {
+      throw new ValidationError('rtp', value, ['must be a number between 0 and 100']);
+    }
+
+    return value;
+  }
+
+  private static validatePlayCount(value: unknown): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new ValidationError('playCount', value, ['must be a non-negative integer']);
+    }
+
+    return value;
+  }
+
+  private static validatePositiveNumber(field: string, value: unknown): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new ValidationError(field, value, ['must be a positive number']);
+    }
+
+    return value;
+  }
+
+  /**
+   * Next free `game-<n>` ID, skipping reserved IDs
+   */
+  private static nextGameId(reservedIds: Set<string> = new Set()): string {
+    const ids = [...GameService.getAllGames().map(game => game.id), ...reservedIds];
+    const highest = ids.reduce((max, id) => {
+      const suffix = id.startsWith(GAME_ID_PREFIX) ? Number(id.slice(GAME_ID_PREFIX.length)) : NaN;
+      return Number.isInteger(suffix) ? Math.max(max, suffix) : max;
+    }, 0);
+
+    return `${GAME_ID_PREFIX}${highest + 1}`;
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const gameAdminService = GameAdminService;
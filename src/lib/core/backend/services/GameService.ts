@@ -3,42 +3,130 @@
  * Business logic for game operations with caching and optimized lookups
  */
 
-import type { Game, GameType } from '@/lib/core/domain/entities';
+import type { Game, GameType, PlayActivity } from '@/lib/core/domain/entities';
 import type { SortOption, SearchType } from '@/lib/core/domain/models';
-import type { FilterQueryParams } from '@/lib/core/shared/types/filters';
+import type { FilterQueryParams, FilterFacets, TagMatchMode } from '@/lib/core/shared/types/filters';
+import type { TagCategory } from '@/lib/core/shared/types/tags';
 import type { PaginationMeta } from '@/lib/core/shared/types';
-import { cacheService } from '@/lib/core/backend/services/CacheService';
+import { cacheService, cacheTags } from '@/lib/core/backend/services/CacheService';
 import { PaginationService } from '@/lib/core/backend/services/PaginationService';
-import { CACHE_TTL, DEFAULT_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
-import gamesData from '@/lib/core/backend/data/games.json';
+import { SearchIndex, type SearchFieldConfig, type SearchHit } from '@/lib/core/backend/services/SearchIndex';
+import {
+  CACHE_TTL,
+  DEFAULT_PAGE_SIZE,
+  GAME_TYPES,
+  PLAY_WINDOWS,
+  RATING_PRIOR_WEIGHT,
+  RTP_PRESETS,
+  TRENDING_HALF_LIFE
+} from '@/lib/core/config/constants/app.constants';
+import { categorizeTag } from '@/lib/core/shared/constants/tags.constants';
+import { normalizeTagName } from '@/lib/core/shared/utils/tags';
+import { getRepositories } from '@/lib/core/backend/repositories';
+
+/**
+ * Sorts ordered by live play counts, whose cached pages must follow every play
+ */
+const PLAY_SORTS: readonly SortOption[] = ['popular', 'trending'];
+
+/**
+ * Result of an uncached computation with the cache tags it depends on
+ */
+interface TaggedResult<T> {
+  result: T;
+  tags: string[];
+}
 
 interface GameStatistics {
   totalGames: number;
-  totalFavorites: number;
   gamesByType: Array<{ type: string; count: number }>;
   gamesByProvider: Array<{ providerId: string; count: number }>;
   newGames: number;
   hotGames: number;
 }
 
+/**
+ * Filters supported by getFilteredGames
+ */
+export interface GameFilters {
+  providers?: string[];
+  types?: GameType[];
+  tags?: string[];
+  /** Match games with any (default) or all of the tags */
+  tagMode?: TagMatchMode;
+  excludeProviders?: string[];
+  excludeTypes?: GameType[];
+  excludeTags?: string[];
+  favorites?: boolean;
+  /** IDs the favorites filter matches against, resolved per visitor */
+  favoriteIds?: string[];
+  recent?: boolean;
+  /** IDs the recent filter matches against, resolved per visitor */
+  recentIds?: string[];
+  search?: string;
+  searchType?: SearchType;
+  isNew?: boolean;
+  isHot?: boolean;
+  isComingSoon?: boolean;
+  minRtp?: number;
+  maxRtp?: number;
+  minRating?: number;
+  maxRating?: number;
+  minMaxWin?: number;
+  maxMaxWin?: number;
+  /** Stake range: games match when their bet limits accept a stake within it */
+  minBet?: number;
+  maxBet?: number;
+}
+
+type GameSearchField = 'title' | 'provider' | 'tags';
+
+/**
+ * Searchable game fields and their relative weights
+ */
+const GAME_SEARCH_FIELDS: SearchFieldConfig<GameSearchField>[] = [
+  { name: 'title', weight: 10 },
+  { name: 'provider', weight: 5 },
+  { name: 'tags', weight: 3 }
+];
+
+/**
+ * Fields searched for each search type
+ */
+const SEARCH_TYPE_FIELDS: Record<SearchType, GameSearchField[] | undefined> = {
+  all: undefined,
+  games: ['title'],
+  providers: ['provider'],
+  tags: ['tags']
+};
+
 export class GameService {
   // Optimized data structures for O(1) lookups
   private static gamesMap: Map<string, Game> = new Map();
+  private static gamesBySlug: Map<string, string> = new Map();
   private static gamesByProvider: Map<string, Set<string>> = new Map();
   private static gamesByType: Map<GameType, Set<string>> = new Map();
-  private static favoriteGames: Set<string> = new Set();
+  private static tagsByGame: Map<string, Set<string>> = new Map();
   private static gamesArray: Game[] = [];
+  private static searchIndex = new SearchIndex<GameSearchField>(GAME_SEARCH_FIELDS);
   private static initialized = false;
   
   /**
-   * Initialize the service with games data
+   * Initialize the service with games from the configured repository
+   * Stored play counts exclude recorded plays, which are merged in from the play store
    */
   private static initialize() {
     if (this.initialized) return;
     
     this.clear();
-    const games = gamesData as Game[];
-    games.forEach(game => this.addGame(game));
+    const repositories = getRepositories();
+    const playCounts = repositories.plays.countByGame();
+    // Favorite state is per visitor, never stored on the shared entity
+    repositories.games.findAll().forEach(game => this.addGame({
+      ...game,
+      isFavorite: undefined,
+      ...(playCounts[game.id] && { playCount: (game.playCount || 0) + playCounts[game.id] })
+    }));
     this.initialized = true;
   }
   
@@ -47,9 +135,11 @@ export class GameService {
    */
   private static clear() {
     this.gamesMap.clear();
+    this.gamesBySlug.clear();
     this.gamesByProvider.clear();
     this.gamesByType.clear();
-    this.favoriteGames.clear();
+    this.tagsByGame.clear();
+    this.searchIndex.clear();
     this.gamesArray = [];
   }
   
@@ -60,6 +150,11 @@ export class GameService {
     // Add to main map
     this.gamesMap.set(game.id, game);
     
+    // Add to slug index
+    if (game.slug) {
+      this.gamesBySlug.set(game.slug, game.id);
+    }
+    
     // Add to provider index
     if (!this.gamesByProvider.has(game.provider.id)) {
       this.gamesByProvider.set(game.provider.id, new Set());
@@ -72,15 +167,118 @@ export class GameService {
     }
     this.gamesByType.get(game.type)!.add(game.id);
     
-    // Add to favorites if needed
-    if (game.isFavorite) {
-      this.favoriteGames.add(game.id);
-    }
+    // Add to tag index (tag IDs, for exact matching)
+    this.tagsByGame.set(game.id, new Set((game.tags || []).map(normalizeTagName)));
+    
+    // Add to search index
+    this.searchIndex.add(game.id, {
+      title: game.title,
+      provider: game.provider.name,
+      tags: game.tags
+    });
     
     // Add to array
     this.gamesArray.push(game);
   }
   
+  /**
+   * Remove a game from internal data structures
+   */
+  private static unindexGame(gameId: string) {
+    const game = this.gamesMap.get(gameId);
+    if (!game) return;
+    
+    this.gamesMap.delete(gameId);
+    if (game.slug && this.gamesBySlug.get(game.slug) === gameId) {
+      this.gamesBySlug.delete(game.slug);
+    }
+    this.gamesByProvider.get(game.provider.id)?.delete(gameId);
+    if (this.gamesByProvider.get(game.provider.id)?.size === 0) {
+      this.gamesByProvider.delete(game.provider.id);
+    }
+    this.gamesByType.get(game.type)?.delete(gameId);
+    this.tagsByGame.delete(gameId);
+    this.searchIndex.remove(gameId);
+    this.gamesArray = this.gamesArray.filter(existing => existing.id !== gameId);
+  }
+  
+  /**
+   * Create or replace a game, persisting it and keeping indexes and caches consistent
+   */
+  static saveGame(game: Game): Game {
+    this.saveGames([game]);
+    return game;
+  }
+  
+  /**
+   * Create or replace several games in one repository write
+   * Replaced games keep their position in the catalogue
+   * Play counts are live (see recordPlay), so recorded plays are taken out before storing
+   */
+  static saveGames(games: Game[]): void {
+    this.initialize();
+    
+    const playCounts = getRepositories().plays.countByGame();
+    const previousProviderIds = games
+      .map(game => this.gamesMap.get(game.id)?.provider.id)
+      .filter((providerId): providerId is string => providerId !== undefined);
+    const hasNewGames = games.some(game => !this.gamesMap.has(game.id));
+    
+    getRepositories().games.saveMany(games.map(game => playCounts[game.id]
+      ? { ...game, playCount: Math.max(0, (game.playCount || 0) - playCounts[game.id]) }
+      : game
+    ));
+    
+    games.forEach(game => {
+      const previous = this.gamesMap.get(game.id);
+      const position = previous ? this.gamesArray.indexOf(previous) : -1;
+      
+      this.unindexGame(game.id);
+      this.addGame(game);
+      
+      if (position >= 0) {
+        // addGame appends, move the game back to where it was
+        this.gamesArray.pop();
+        this.gamesArray.splice(position, 0, game);
+      }
+    });
+    
+    this.invalidateGames(games.map(game => game.id), previousProviderIds, hasNewGames);
+  }
+  
+  /**
+   * Count a play on the live game without rewriting the stored catalogue
+   * The play itself is stored by PlayService; only entries showing this game and play activity are dropped
+   */
+  static recordPlay(gameId: string): Game | undefined {
+    this.initialize();
+    
+    const game = this.gamesMap.get(gameId);
+    if (!game) return undefined;
+    
+    const updatedGame = { ...game, playCount: (game.playCount || 0) + 1 };
+    this.gamesMap.set(gameId, updatedGame);
+    this.gamesArray[this.gamesArray.indexOf(game)] = updatedGame;
+    
+    cacheService.invalidateTags([cacheTags.game(gameId), cacheTags.plays()]);
+    return updatedGame;
+  }
+  
+  /**
+   * Delete a game, returning false when it did not exist
+   */
+  static deleteGame(gameId: string): boolean {
+    this.initialize();
+    
+    const game = this.gamesMap.get(gameId);
+    if (!game) return false;
+    
+    getRepositories().games.delete(gameId);
+    this.invalidateGames([gameId], [], true);
+    this.unindexGame(gameId);
+    return true;
+  }
+  
   /**
    * Get all games (with caching)
    */
@@ -93,7 +291,7 @@ export class GameService {
     if (cached) return cached;
     
     const games = Array.from(this.gamesMap.values());
-    cacheService.set(cacheKey, games, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, games, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     
     return games;
   }
@@ -111,12 +309,29 @@ export class GameService {
     
     const game = this.gamesMap.get(gameId);
     if (game) {
-      cacheService.set(cacheKey, game, CACHE_TTL.LONG);
+      cacheService.set(cacheKey, game, CACHE_TTL.LONG, { tags: [cacheTags.game(gameId)] });
     }
     
     return game;
   }
   
+  /**
+   * Get game by slug (O(1) lookup via the slug index)
+   */
+  static getGameBySlug(slug: string): Game | undefined {
+    this.initialize();
+    
+    const gameId = this.gamesBySlug.get(slug);
+    return gameId ? this.getGameById(gameId) : undefined;
+  }
+  
+  /**
+   * Get game by ID, falling back to a slug lookup
+   */
+  static getGameByIdOrSlug(idOrSlug: string): Game | undefined {
+    return this.getGameById(idOrSlug) || this.getGameBySlug(idOrSlug);
+  }
+  
   /**
    * Get games by provider (O(1) lookup with caching)
    */
@@ -133,7 +348,7 @@ export class GameService {
       .map(id => this.gamesMap.get(id))
       .filter((game): game is Game => game !== undefined);
     
-    cacheService.set(cacheKey, games, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, games, CACHE_TTL.MEDIUM, { tags: [cacheTags.provider(providerId)] });
     return games;
   }
   
@@ -153,86 +368,72 @@ export class GameService {
       .map(id => this.gamesMap.get(id))
       .filter((game): game is Game => game !== undefined);
     
-    cacheService.set(cacheKey, games, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, games, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     return games;
   }
   
   /**
-   * Search games
+   * Rank games matching a query using the search index (with caching)
+   * Hits are ordered by relevance score, highest first
    */
-  static searchGames(query: string): Game[] {
+  static rankGames(query: string, searchType: SearchType = 'all'): SearchHit[] {
     this.initialize();
     
-    const cacheKey = `games:search:${query}`;
-    const cached = cacheService.get<Game[]>(cacheKey);
+    const cacheKey = `games:search:${searchType}:${query}`;
+    const cached = cacheService.get<SearchHit[]>(cacheKey);
     
     if (cached) return cached;
     
-    const searchTerm = query.toLowerCase().trim();
-    const results = Array.from(this.gamesMap.values()).filter(game => {
-      const titleMatch = game.title.toLowerCase().includes(searchTerm);
-      const tagMatch = game.tags?.some(tag => 
-        tag.toLowerCase().includes(searchTerm)
-      );
-      return titleMatch || tagMatch;
-    });
+    const hits = this.searchIndex.search(query, SEARCH_TYPE_FIELDS[searchType]);
     
-    cacheService.set(cacheKey, results, CACHE_TTL.SHORT);
-    return results;
+    cacheService.set(cacheKey, hits, CACHE_TTL.SHORT, { tags: [cacheTags.gameCatalog()] });
+    return hits;
+  }
+  
+  /**
+   * Complete the last word of a query from indexed game words (with caching)
+   */
+  static completeQuery(query: string, limit: number, searchType: SearchType = 'all'): string[] {
+    this.initialize();
+
+    const cacheKey = `games:complete:${searchType}:${limit}:${query}`;
+    const cached = cacheService.get<string[]>(cacheKey);
+
+    if (cached) return cached;
+
+    const completions = this.searchIndex.complete(query, SEARCH_TYPE_FIELDS[searchType], limit);
+
+    cacheService.set(cacheKey, completions, CACHE_TTL.SHORT, { tags: [cacheTags.gameCatalog()] });
+    return completions;
+  }
+
+  /**
+   * Get relevance scores for a query keyed by game ID
+   */
+  static getRelevanceScores(query: string, searchType: SearchType = 'all'): Map<string, number> {
+    return new Map(this.rankGames(query, searchType).map(hit => [hit.id, hit.score]));
+  }
+  
+  /**
+   * Search games, ordered by relevance
+   */
+  static searchGames(query: string, searchType: SearchType = 'all'): Game[] {
+    return this.rankGames(query, searchType)
+      .map(hit => this.gamesMap.get(hit.id))
+      .filter((game): game is Game => game !== undefined);
   }
   
   /**
    * Get filtered games
    */
-  static getFilteredGames(filters: {
-    providers?: string[];
-    types?: GameType[];
-    tags?: string[];
-    favorites?: boolean;
-    search?: string;
-    searchType?: SearchType;
-    isNew?: boolean;
-    isHot?: boolean;
-    isComingSoon?: boolean;
-    minRtp?: number;
-    maxRtp?: number;
-  }): Game[] {
+  static getFilteredGames(filters: GameFilters): Game[] {
     this.initialize();
     
     let games = Array.from(this.gamesMap.values());
     
-    // Apply search filter based on search type
+    // Apply search filter based on search type (results keep relevance order)
     if (filters.search) {
-      const searchTerm = filters.search.toLowerCase().trim();
-      const searchType = filters.searchType || 'all';
-      
-      games = games.filter(game => {
-        switch (searchType) {
-          case 'games':
-            // Search only in game titles
-            return game.title.toLowerCase().includes(searchTerm);
-          
-          case 'providers':
-            // Search only in provider names
-            return game.provider.name.toLowerCase().includes(searchTerm);
-          
-          case 'tags':
-            // Search only in tags
-            return game.tags?.some(tag => 
-              tag.toLowerCase().includes(searchTerm)
-            ) || false;
-          
-          case 'all':
-          default:
-            // Search in titles, provider names, and tags
-            const titleMatch = game.title.toLowerCase().includes(searchTerm);
-            const providerMatch = game.provider.name.toLowerCase().includes(searchTerm);
-            const tagMatch = game.tags?.some(tag => 
-              tag.toLowerCase().includes(searchTerm)
-            );
-            return titleMatch || providerMatch || tagMatch;
-        }
-      });
+      games = this.searchGames(filters.search, filters.searchType || 'all');
     }
     
     // Apply provider filter
@@ -242,6 +443,11 @@ export class GameService {
       );
     }
     
+    // Apply provider exclusions
+    if (filters.excludeProviders && filters.excludeProviders.length > 0) {
+      games = games.filter(game => !filters.excludeProviders!.includes(game.provider.id));
+    }
+    
     // Apply type filter
     if (filters.types && filters.types.length > 0) {
       games = games.filter(game => 
@@ -249,20 +455,40 @@ export class GameService {
       );
     }
     
-    // Apply tags filter
+    // Apply type exclusions
+    if (filters.excludeTypes && filters.excludeTypes.length > 0) {
+      games = games.filter(game => !filters.excludeTypes!.includes(game.type));
+    }
+    
+    // Apply tags filter: exact tag IDs, any or all of them
     if (filters.tags && filters.tags.length > 0) {
-      games = games.filter(game => 
-        game.tags?.some(tag => 
-          filters.tags!.some(filterTag => 
-            tag.toLowerCase().includes(filterTag.toLowerCase())
-          )
-        )
-      );
+      const tagIds = filters.tags.map(normalizeTagName);
+      const matchAll = filters.tagMode === 'all';
+      
+      games = games.filter(game => {
+        const gameTags = this.tagsByGame.get(game.id);
+        return matchAll
+          ? tagIds.every(tag => gameTags?.has(tag))
+          : tagIds.some(tag => gameTags?.has(tag));
+      });
+    }
+    
+    // Apply tag exclusions
+    if (filters.excludeTags && filters.excludeTags.length > 0) {
+      const tagIds = filters.excludeTags.map(normalizeTagName);
+      games = games.filter(game => !tagIds.some(tag => this.tagsByGame.get(game.id)?.has(tag)));
     }
     
     // Apply favorites filter
     if (filters.favorites) {
-      games = games.filter(game => game.isFavorite);
+      const favoriteIds = new Set(filters.favoriteIds);
+      games = games.filter(game => favoriteIds.has(game.id));
+    }
+    
+    // Apply recently played filter
+    if (filters.recent) {
+      const recentIds = new Set(filters.recentIds);
+      games = games.filter(game => recentIds.has(game.id));
     }
     
     // Apply new filter
@@ -303,62 +529,76 @@ export class GameService {
       });
     }
     
-    return games;
-  }
-  
-  /**
-   * Toggle favorite status
-   */
-  static toggleFavorite(gameId: string): boolean {
-    this.initialize();
-    
-    const game = this.gamesMap.get(gameId);
-    if (!game) return false;
-    
-    game.isFavorite = !game.isFavorite;
+    // Apply rating filter (games without a rating are skipped)
+    if (filters.minRating !== undefined || filters.maxRating !== undefined) {
+      games = games.filter(game => this.isInRange(game.rating, filters.minRating, filters.maxRating));
+    }
     
-    if (game.isFavorite) {
-      this.favoriteGames.add(gameId);
-    } else {
-      this.favoriteGames.delete(gameId);
+    // Apply max win filter
+    if (filters.minMaxWin !== undefined || filters.maxMaxWin !== undefined) {
+      games = games.filter(game => this.isInRange(game.maxWin, filters.minMaxWin, filters.maxMaxWin));
     }
     
-    // Invalidate caches
-    cacheService.invalidate('games:');
-    cacheService.invalidate('favorites:');
+    // Apply bet filter: the game's bet limits must overlap the requested stake range
+    if (filters.minBet !== undefined || filters.maxBet !== undefined) {
+      games = games.filter(game =>
+        game.minBet !== undefined && game.maxBet !== undefined &&
+        (filters.maxBet === undefined || game.minBet <= filters.maxBet) &&
+        (filters.minBet === undefined || game.maxBet >= filters.minBet)
+      );
+    }
     
-    return game.isFavorite;
+    return games;
   }
   
   /**
-   * Get favorite games
+   * Check an optional numeric game field against optional bounds (inclusive)
    */
-  static getFavoriteGames(): Game[] {
-    this.initialize();
-    
-    const cacheKey = 'games:favorites';
-    const cached = cacheService.get<Game[]>(cacheKey);
-    
-    if (cached) return cached;
-    
-    const games = Array.from(this.favoriteGames)
-      .map(id => this.gamesMap.get(id))
-      .filter((game): game is Game => game !== undefined);
-    
-    cacheService.set(cacheKey, games, CACHE_TTL.SHORT);
-    return games;
+  private static isInRange(value: number | undefined, min?: number, max?: number): boolean {
+    return value !== undefined && value !== null &&
+      (min === undefined || value >= min) &&
+      (max === undefined || value <= max);
   }
   
   /**
    * Apply sorting to games array
+   * Relevance sorting needs the scores from getRelevanceScores and falls back to popularity without them
    */
-  static sortGames(games: Game[], sortOption: SortOption = 'popular'): Game[] {
+  static sortGames(
+    games: Game[],
+    sortOption: SortOption = 'popular',
+    relevanceScores?: Map<string, number>
+  ): Game[] {
     const sorted = [...games]; // Create a copy to avoid mutation
     
     switch (sortOption) {
-      case 'popular':
+      case 'relevance':
+        if (relevanceScores) {
+          return sorted.sort((a, b) => 
+            (relevanceScores.get(b.id) || 0) - (relevanceScores.get(a.id) || 0) ||
+            (b.playCount || 0) - (a.playCount || 0)
+          );
+        }
         return sorted.sort((a, b) => (b.playCount || 0) - (a.playCount || 0));
       
+      case 'popular': {
+        // Live play counts, with recent plays breaking ties
+        const activity = this.getPlayActivity();
+        return sorted.sort((a, b) =>
+          (b.playCount || 0) - (a.playCount || 0) ||
+          (activity[b.id]?.lastWeek || 0) - (activity[a.id]?.lastWeek || 0)
+        );
+      }
+      
+      case 'trending': {
+        // Recency-weighted plays, falling back to play counts for games without recent plays
+        const activity = this.getPlayActivity();
+        return sorted.sort((a, b) =>
+          (activity[b.id]?.trendingScore || 0) - (activity[a.id]?.trendingScore || 0) ||
+          (b.playCount || 0) - (a.playCount || 0)
+        );
+      }
+      
       case 'new':
         return sorted.sort((a, b) => {
           const dateA = new Date(a.releaseDate || 0).getTime();
@@ -372,7 +612,16 @@ export class GameService {
       case 'za':
         return sorted.sort((a, b) => b.title.localeCompare(a.title));
       
-      case 'rating':
+      case 'rating': {
+        // Bayesian average, so games with few ratings are pulled towards the catalogue mean
+        const scores = this.getBayesianRatings();
+        return sorted.sort((a, b) =>
+          (scores.get(b.id) || 0) - (scores.get(a.id) || 0) ||
+          (b.ratingCount || 0) - (a.ratingCount || 0)
+        );
+      }
+      
+      case 'rtp':
         // Sort by RTP (Return to Player) percentage, highest first
         return sorted.sort((a, b) => (b.rtp || 0) - (a.rtp || 0));
       
@@ -381,6 +630,55 @@ export class GameService {
     }
   }
   
+  /**
+   * Bayesian average rating per game ID, weighting the catalogue mean as RATING_PRIOR_WEIGHT ratings
+   */
+  private static getBayesianRatings(): Map<string, number> {
+    this.initialize();
+    
+    const rated = this.gamesArray.filter(game => game.rating !== undefined && (game.ratingCount || 0) > 0);
+    const totalCount = rated.reduce((sum, game) => sum + game.ratingCount!, 0);
+    const mean = totalCount > 0
+      ? rated.reduce((sum, game) => sum + game.rating! * game.ratingCount!, 0) / totalCount
+      : 0;
+    
+    return new Map(this.gamesArray.map(game => {
+      const count = game.rating !== undefined ? game.ratingCount || 0 : 0;
+      const score = (RATING_PRIOR_WEIGHT * mean + (game.rating || 0) * count) / (RATING_PRIOR_WEIGHT + count);
+      return [game.id, score];
+    }));
+  }
+  
+  /**
+   * Play activity per game ID over the rolling PLAY_WINDOWS (with caching)
+   * Games without plays in the last week are left out
+   */
+  static getPlayActivity(): Record<string, PlayActivity> {
+    return cacheService.swr('games:play-activity', () => this.computePlayActivity(Date.now()), CACHE_TTL.SHORT, {
+      tags: [cacheTags.plays()]
+    });
+  }
+  
+  /**
+   * Count plays per window and sum their decayed weights, as of the given time
+   */
+  private static computePlayActivity(now: number): Record<string, PlayActivity> {
+    const since = new Date(now - PLAY_WINDOWS.WEEK).toISOString();
+    const activity: Record<string, PlayActivity> = {};
+    
+    getRepositories().plays.findSince(since).forEach(event => {
+      const age = Math.max(0, now - new Date(event.playedAt).getTime());
+      const entry = activity[event.gameId] ??= { lastHour: 0, lastDay: 0, lastWeek: 0, trendingScore: 0 };
+      
+      entry.lastWeek++;
+      if (age < PLAY_WINDOWS.DAY) entry.lastDay++;
+      if (age < PLAY_WINDOWS.HOUR) entry.lastHour++;
+      entry.trendingScore += Math.pow(0.5, age / TRENDING_HALF_LIFE);
+    });
+    
+    return activity;
+  }
+  
   /**
    * Paginate games array using PaginationService
    */
@@ -408,58 +706,230 @@ export class GameService {
   
   /**
    * Get filtered, sorted, and paginated games (with caching)
+   * favoriteIds are matched by the favorites filter (the visitor's favorites or one of their collections)
    */
-  static getGames(criteria: FilterQueryParams = {}): {
+  static getGames(criteria: FilterQueryParams = {}, favoriteIds: string[] = []): {
     games: Game[];
     pagination: PaginationMeta;
     totalGames: number;
+    relevanceScores?: Record<string, number>;
   } {
     this.initialize();
     
-    const cacheKey = `games:filtered:${JSON.stringify(criteria)}`;
-    const cached = cacheService.get<{
-      games: Game[];
-      pagination: PaginationMeta;
-      totalGames: number;
-    }>(cacheKey);
-    
-    if (cached) return cached;
+    const filters = this.toGameFilters(criteria, favoriteIds);
+    const cacheKey = `games:filtered:${JSON.stringify({ ...criteria, ...filters })}`;
     
+    // Filters change frequently, so entries are short-lived but may be served stale while recomputed
+    return cacheService.swr(cacheKey, () => this.computeGames(criteria, filters), CACHE_TTL.SHORT, {
+      staleTtl: CACHE_TTL.SHORT,
+      tags: computed => computed.tags
+    }).result;
+  }
+  
+  /**
+   * Filter, sort and paginate games without caching
+   */
+  private static computeGames(criteria: FilterQueryParams, filters: GameFilters): TaggedResult<{
+    games: Game[];
+    pagination: PaginationMeta;
+    totalGames: number;
+    relevanceScores?: Record<string, number>;
+  }> {
     // Get filtered games
-    const filteredGames = this.getFilteredGames({
+    const filteredGames = this.getFilteredGames(filters);
+    
+    // Relevance scores are only meaningful when searching
+    const relevanceScores = criteria.search
+      ? this.getRelevanceScores(criteria.search, criteria.searchType)
+      : undefined;
+    
+    // Apply sorting
+    const sortedGames = this.sortGames(filteredGames, criteria.sort, relevanceScores);
+    
+    // Apply pagination
+    const { games, pagination } = this.paginateGames(
+      sortedGames,
+      criteria.page,
+      criteria.pageSize
+    );
+    
+    return {
+      result: {
+        games,
+        pagination,
+        totalGames: this.getAllGames().length,
+        ...(relevanceScores && {
+          relevanceScores: Object.fromEntries(
+            games.map(game => [game.id, relevanceScores.get(game.id) || 0])
+          )
+        })
+      },
+      tags: [
+        ...this.getFilterTags(filters, filteredGames),
+        ...games.map(game => cacheTags.game(game.id)),
+        // A play can move a game across the page boundary, not just within the page
+        ...(PLAY_SORTS.includes(criteria.sort ?? 'popular') ? [cacheTags.plays()] : [])
+      ]
+    };
+  }
+  
+  /**
+   * Cache tags for entries derived from a filtered query
+   * Entries depend on the providers of the games they matched and the providers they filter on, so
+   * editing a game only drops entries it could appear in; adding or removing games drops them all
+   */
+  private static getFilterTags(filters: GameFilters, matchedGames: Game[]): string[] {
+    const providerIds = new Set([
+      ...(filters.providers || []),
+      ...(filters.excludeProviders || []),
+      ...matchedGames.map(game => game.provider.id)
+    ]);
+    
+    return [
+      cacheTags.gameMembership(),
+      ...Array.from(providerIds, providerId => cacheTags.provider(providerId))
+    ];
+  }
+  
+  /**
+   * Get every game matching the criteria, sorted but not paginated
+   */
+  static getSortedGames(criteria: FilterQueryParams = {}, favoriteIds: string[] = []): Game[] {
+    this.initialize();
+    
+    const filteredGames = this.getFilteredGames(this.toGameFilters(criteria, favoriteIds));
+    const relevanceScores = criteria.search
+      ? this.getRelevanceScores(criteria.search, criteria.searchType)
+      : undefined;
+    
+    return this.sortGames(filteredGames, criteria.sort, relevanceScores);
+  }
+  
+  /**
+   * Extract the filtering part of query criteria
+   * Favorite and recent IDs are only kept when their filter is active so other queries share cache entries
+   */
+  private static toGameFilters(criteria: FilterQueryParams, favoriteIds: string[] = []): GameFilters {
+    return {
       providers: criteria.providers,
       types: criteria.types,
       tags: criteria.tags,
+      // Tag mode only matters with several tags; normalize it so equivalent queries share cache entries
+      tagMode: criteria.tags && criteria.tags.length > 1 && criteria.tagMode === 'all' ? 'all' : undefined,
+      excludeProviders: criteria.excludeProviders,
+      excludeTypes: criteria.excludeTypes,
+      excludeTags: criteria.excludeTags,
       favorites: criteria.favorites,
+      favoriteIds: criteria.favorites ? favoriteIds : undefined,
+      recent: criteria.recent,
+      recentIds: criteria.recent ? criteria.recentIds || [] : undefined,
       search: criteria.search,
       searchType: criteria.searchType,
       isNew: criteria.isNew,
       isHot: criteria.isHot,
       isComingSoon: criteria.isComingSoon,
       minRtp: criteria.minRtp,
-      maxRtp: criteria.maxRtp
-    });
+      maxRtp: criteria.maxRtp,
+      minRating: criteria.minRating,
+      maxRating: criteria.maxRating,
+      minMaxWin: criteria.minMaxWin,
+      maxMaxWin: criteria.maxMaxWin,
+      minBet: criteria.minBet,
+      maxBet: criteria.maxBet
+    };
+  }
+  
+  /**
+   * Get facet counts for the filter options (with caching)
+   * Each dimension is counted against the other active filters, excluding its own
+   */
+  static getFacets(criteria: FilterQueryParams = {}, favoriteIds: string[] = []): FilterFacets {
+    this.initialize();
     
-    // Apply sorting
-    const sortedGames = this.sortGames(filteredGames, criteria.sort);
+    const filters = this.toGameFilters(criteria, favoriteIds);
+    const cacheKey = `games:facets:${JSON.stringify(filters)}`;
     
-    // Apply pagination
-    const { games, pagination } = this.paginateGames(
-      sortedGames,
-      criteria.page,
-      criteria.pageSize
-    );
+    return cacheService.swr(cacheKey, () => this.computeFacets(filters), CACHE_TTL.SHORT, {
+      staleTtl: CACHE_TTL.SHORT,
+      tags: computed => computed.tags
+    }).result;
+  }
+  
+  /**
+   * Count facets for the filter options without caching
+   */
+  private static computeFacets(filters: GameFilters): TaggedResult<FilterFacets> {
+    // Every dimension is counted over its own relaxed set, so the entry depends on all of them
+    const matchedGames: Game[] = [];
+    const getRelaxedGames = (relaxedFilters: GameFilters): Game[] => {
+      const games = this.getFilteredGames(relaxedFilters);
+      matchedGames.push(...games);
+      return games;
+    };
+    
+    // Providers
+    const providers: Record<string, number> = {};
+    this.gamesByProvider.forEach((_, providerId) => {
+      providers[providerId] = 0;
+    });
+    getRelaxedGames({ ...filters, providers: undefined, excludeProviders: undefined }).forEach(game => {
+      providers[game.provider.id] = (providers[game.provider.id] || 0) + 1;
+    });
+    
+    // Types
+    const types: Record<string, number> = {};
+    GAME_TYPES.forEach(type => {
+      types[type] = 0;
+    });
+    getRelaxedGames({ ...filters, types: undefined, excludeTypes: undefined }).forEach(game => {
+      types[game.type] = (types[game.type] || 0) + 1;
+    });
     
-    const result = {
-      games,
-      pagination,
-      totalGames: this.getAllGames().length
+    // Tags, grouped by category
+    const tags: Record<TagCategory, Record<string, number>> = {
+      feature: {},
+      theme: {},
+      mechanic: {},
+      style: {}
     };
+    this.getUniqueGameTags().forEach(tag => {
+      tags[categorizeTag(tag)][tag] = 0;
+    });
+    getRelaxedGames({ ...filters, tags: undefined, tagMode: undefined, excludeTags: undefined }).forEach(game => {
+      game.tags?.forEach(tag => {
+        const normalizedTag = normalizeTagName(tag);
+        const group = tags[categorizeTag(normalizedTag)];
+        group[normalizedTag] = (group[normalizedTag] || 0) + 1;
+      });
+    });
     
-    // Cache for short time as filters change frequently
-    cacheService.set(cacheKey, result, CACHE_TTL.SHORT);
+    // RTP buckets matching the bounded presets
+    const rtpGames = getRelaxedGames({ ...filters, minRtp: undefined, maxRtp: undefined });
+    const rtp = RTP_PRESETS
+      .filter(preset => preset.min !== undefined || preset.max !== undefined)
+      .map(preset => ({
+        label: preset.label,
+        min: preset.min,
+        max: preset.max,
+        count: rtpGames.filter(game => 
+          game.rtp !== undefined && game.rtp !== null &&
+          (preset.min === undefined || game.rtp >= preset.min) &&
+          (preset.max === undefined || game.rtp <= preset.max)
+        ).length
+      }));
+    
+    // Flags
+    const flags = {
+      isNew: getRelaxedGames({ ...filters, isNew: undefined }).filter(game => game.isNew).length,
+      isHot: getRelaxedGames({ ...filters, isHot: undefined }).filter(game => game.isHot).length,
+      isComingSoon: getRelaxedGames({ ...filters, isComingSoon: undefined })
+        .filter(game => game.isComingSoon).length
+    };
     
-    return result;
+    return {
+      result: { providers, types, tags, rtp, flags },
+      tags: this.getFilterTags(filters, matchedGames)
+    };
   }
   
   /**
@@ -488,14 +958,13 @@ export class GameService {
     
     const stats = {
       totalGames: allGames.length,
-      totalFavorites: this.favoriteGames.size,
       gamesByType,
       gamesByProvider,
       newGames: allGames.filter(g => g.isNew).length,
       hotGames: allGames.filter(g => g.tags?.includes('hot')).length
     };
     
-    cacheService.set(cacheKey, stats, CACHE_TTL.LONG);
+    cacheService.set(cacheKey, stats, CACHE_TTL.LONG, { tags: [cacheTags.gameCatalog()] });
     return stats;
   }
   
@@ -518,7 +987,7 @@ export class GameService {
     });
     
     const tags = Array.from(tagsSet).sort();
-    cacheService.set(cacheKey, tags, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, tags, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     return tags;
   }
   
@@ -555,7 +1024,7 @@ export class GameService {
     
     // Cache as array since Map can't be directly cached
     const statsArray = Array.from(tagCounts.entries());
-    cacheService.set(cacheKey, statsArray, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, statsArray, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     
     return tagCounts;
   }
@@ -601,6 +1070,25 @@ export class GameService {
     return this.getGamesByTag(tag);
   }
   
+  /**
+   * Invalidate cache entries that depend on specific games and their providers
+   * Aggregates over every game (stats, tag counts) are always dropped; filtered lists and facets
+   * only when they matched one of the providers, or when games were added or removed
+   */
+  static invalidateGames(gameIds: string[], extraProviderIds: string[] = [], membershipChanged = false): void {
+    const providerIds = gameIds
+      .map(gameId => this.gamesMap.get(gameId)?.provider.id)
+      .filter((providerId): providerId is string => providerId !== undefined)
+      .concat(extraProviderIds);
+    
+    cacheService.invalidateTags([
+      cacheTags.gameCatalog(),
+      ...(membershipChanged ? [cacheTags.gameMembership()] : []),
+      ...gameIds.map(gameId => cacheTags.game(gameId)),
+      ...providerIds.map(providerId => cacheTags.provider(providerId))
+    ]);
+  }
+  
   /**
    * Clear game-related cache
    */
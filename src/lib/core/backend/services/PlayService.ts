@@ -0,0 +1,67 @@
+/**
+ * Play Service
+ * Records game launches as timestamped play events and keeps the game's play count live
+ * Play counts per game live in the play store and are merged into games by GameService
+ * Owners are resolved per request by VisitorService (`guest:<sessionId>` or `user:<userId>`)
+ *
+ * Events are kept for the longest PLAY_WINDOWS window, which feeds the
+ * 'popular' and 'trending' sorts through GameService.getPlayActivity
+ * Each play also moves the game to the front of the owner's recently played history
+ */
+
+import type { Game, PlayActivity } from '@/lib/core/domain/entities';
+import { createPlayEvent } from '@/lib/core/domain/entities';
+import { GameService } from './GameService';
+import { RecentlyPlayedService } from './RecentlyPlayedService';
+import { getRepositories } from '@/lib/core/backend/repositories';
+import { GameNotFoundError } from '@/lib/core/shared/errors/AppError';
+import { PLAY_WINDOWS } from '@/lib/core/config/constants/app.constants';
+
+/**
+ * Result of recording a play
+ */
+export interface PlayRecord {
+  /** Game with its incremented play count */
+  game: Game;
+  activity: PlayActivity;
+}
+
+export class PlayService {
+  /**
+   * Record that the owner launched a game
+   * @param ownerId - Player
+   * @param idOrSlug - Game ID or slug
+   * @throws GameNotFoundError when the game does not exist
+   */
+  static recordPlay(ownerId: string, idOrSlug: string): PlayRecord {
+    const game = GameService.getGameByIdOrSlug(idOrSlug);
+
+    if (!game) {
+      throw new GameNotFoundError(idOrSlug);
+    }
+
+    const event = createPlayEvent({ gameId: game.id, ownerId });
+    const plays = getRepositories().plays;
+
+    plays.record(event);
+    plays.deleteBefore(new Date(Date.parse(event.playedAt) - PLAY_WINDOWS.WEEK).toISOString());
+    RecentlyPlayedService.record(ownerId, game.id, event.playedAt);
+
+    // Drops the cached play activity, so it is recomputed below
+    const updatedGame = GameService.recordPlay(game.id) ?? game;
+
+    return { game: updatedGame, activity: this.getActivity(game.id) };
+  }
+
+  /**
+   * Get a game's play activity over the rolling windows
+   */
+  static getActivity(gameId: string): PlayActivity {
+    return GameService.getPlayActivity()[gameId] || { lastHour: 0, lastDay: 0, lastWeek: 0, trendingScore: 0 };
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const playService = PlayService;
@@ -5,11 +5,16 @@
 
 import type { Provider } from '@/lib/core/domain/entities';
 import { GameService } from './GameService';
-import { cacheService } from '@/lib/core/backend/services/CacheService';
+import { cacheService, cacheTags } from '@/lib/core/backend/services/CacheService';
 import { PaginationService, type PaginatedResponse } from '@/lib/core/backend/services/PaginationService';
 import { CACHE_TTL, DEFAULT_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
 import { ProviderNotFoundError } from '@/lib/core/shared/errors/AppError';
-import providersData from '@/lib/core/backend/data/providers.json';
+import { getRepositories } from '@/lib/core/backend/repositories';
+
+/**
+ * Provider lists carry game counts, so they depend on both catalogues
+ */
+const CATALOG_TAGS = [cacheTags.providerCatalog(), cacheTags.gameCatalog()];
 
 export interface ProviderStats {
   totalProviders: number;
@@ -29,13 +34,13 @@ export class ProviderService {
   private static initialized = false;
   
   /**
-   * Initialize the service with providers data
+   * Initialize the service with providers from the configured repository
    */
   private static initialize() {
     if (this.initialized) return;
     
     this.clear();
-    const providers = providersData as Provider[];
+    const providers = getRepositories().providers.findAll();
     providers.forEach(provider => this.addProvider(provider));
     this.initialized = true;
   }
@@ -56,6 +61,32 @@ export class ProviderService {
     this.providersArray.push(provider);
   }
   
+  /**
+   * Create or replace providers in one repository write, keeping the lookup map and caches consistent
+   * Replaced providers keep their position
+   */
+  static saveProviders(providers: Provider[]): void {
+    this.initialize();
+    
+    getRepositories().providers.saveMany(providers);
+    
+    providers.forEach(provider => {
+      const position = this.providersArray.findIndex(existing => existing.id === provider.id);
+      
+      this.providersMap.set(provider.id, provider);
+      if (position >= 0) {
+        this.providersArray[position] = provider;
+      } else {
+        this.providersArray.push(provider);
+      }
+    });
+    
+    cacheService.invalidateTags([
+      cacheTags.providerCatalog(),
+      ...providers.map(provider => cacheTags.provider(provider.id))
+    ]);
+  }
+  
   /**
    * Get all providers (with caching)
    * Always returns providers with actual game count from GameService
@@ -74,7 +105,7 @@ export class ProviderService {
       gameCount: GameService.getGamesByProvider(provider.id).length
     }));
     
-    cacheService.set(cacheKey, providers, CACHE_TTL.LONG);
+    cacheService.set(cacheKey, providers, CACHE_TTL.LONG, { tags: CATALOG_TAGS });
     
     return providers;
   }
@@ -124,7 +155,7 @@ export class ProviderService {
     // Apply pagination
     const result = PaginationService.paginate(sortedProviders, { page, pageSize });
     
-    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM, { tags: CATALOG_TAGS });
     return result;
   }
   
@@ -151,7 +182,7 @@ export class ProviderService {
       gameCount: GameService.getGamesByProvider(provider.id).length
     };
     
-    cacheService.set(cacheKey, providerWithActualCount, CACHE_TTL.LONG);
+    cacheService.set(cacheKey, providerWithActualCount, CACHE_TTL.LONG, { tags: [cacheTags.provider(providerId)] });
     return providerWithActualCount;
   }
   
@@ -172,7 +203,7 @@ export class ProviderService {
       gameCount: GameService.getGamesByProvider(provider.id).length
     }));
     
-    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM, { tags: CATALOG_TAGS });
     return result;
   }
 
@@ -221,7 +252,7 @@ export class ProviderService {
     // Apply pagination
     const result = PaginationService.paginate(sortedProviders, { page, pageSize });
     
-    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM, { tags: CATALOG_TAGS });
     return result;
   }
   
@@ -246,7 +277,7 @@ export class ProviderService {
         gameCount
       }));
     
-    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM, { tags: CATALOG_TAGS });
     return result;
   }
   
@@ -266,7 +297,7 @@ export class ProviderService {
       provider.name.toLowerCase().includes(searchTerm)
     );
     
-    cacheService.set(cacheKey, results, CACHE_TTL.SHORT);
+    cacheService.set(cacheKey, results, CACHE_TTL.SHORT, { tags: CATALOG_TAGS });
     return results;
   }
   
@@ -302,7 +333,7 @@ export class ProviderService {
       topProviders
     };
     
-    cacheService.set(cacheKey, stats, CACHE_TTL.LONG);
+    cacheService.set(cacheKey, stats, CACHE_TTL.LONG, { tags: CATALOG_TAGS });
     return stats;
   }
   
@@ -332,7 +363,7 @@ export class ProviderService {
       gameCount: games.length
     };
     
-    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM, { tags: [cacheTags.provider(providerId)] });
     return result;
   }
   
@@ -365,7 +396,7 @@ export class ProviderService {
       .slice(0, limit)
       .map(item => item.provider);
     
-    cacheService.set(cacheKey, result, CACHE_TTL.LONG);
+    cacheService.set(cacheKey, result, CACHE_TTL.LONG, { tags: CATALOG_TAGS });
     return result;
   }
   
@@ -0,0 +1,142 @@
+/**
+ * Recently Played Service
+ * Keeps each owner's recently played history, most recent first and capped at MAX_RECENT_GAMES
+ * Owners are resolved per request by VisitorService (`guest:<sessionId>` or `user:<userId>`)
+ *
+ * Guests keep their own history in local storage and send the game IDs with their requests,
+ * then merge it into the stored history when they sign in
+ */
+
+import type { Game, RecentGame } from '@/lib/core/domain/entities';
+import { createRecentGame } from '@/lib/core/domain/entities';
+import { GameService } from './GameService';
+import { getRepositories } from '@/lib/core/backend/repositories';
+import { NotFoundError, ValidationError } from '@/lib/core/shared/errors/AppError';
+import { MAX_RECENT_GAMES } from '@/lib/core/config/constants/app.constants';
+
+export class RecentlyPlayedService {
+  /**
+   * Get the owner's history, skipping games removed from the catalogue
+   * @param ownerId - History owner
+   */
+  static getEntries(ownerId: string): RecentGame[] {
+    return getRepositories().recentGames
+      .findByUser(ownerId)
+      .filter(entry => GameService.getGameById(entry.gameId) !== undefined);
+  }
+
+  /**
+   * Get the IDs of the owner's recently played games, most recent first
+   * @param ownerId - History owner
+   */
+  static getRecentIds(ownerId: string): string[] {
+    return this.getEntries(ownerId).map(entry => entry.gameId);
+  }
+
+  /**
+   * Look up games in history order, skipping unknown IDs and duplicates
+   * @param gameIds - Game IDs, most recent first
+   */
+  static getGames(gameIds: string[]): Game[] {
+    return Array.from(new Set(gameIds))
+      .slice(0, MAX_RECENT_GAMES)
+      .map(id => GameService.getGameById(id))
+      .filter((game): game is Game => game !== undefined);
+  }
+
+  /**
+   * Move a game to the front of the owner's history
+   * @param ownerId - History owner
+   * @param gameId - ID of the launched game
+   * @param playedAt - Launch time (defaults to now)
+   */
+  static record(ownerId: string, gameId: string, playedAt?: string): RecentGame[] {
+    const entry = createRecentGame({ gameId, playedAt });
+    const entries = [entry, ...this.getEntries(ownerId).filter(existing => existing.gameId !== gameId)];
+
+    return this.save(ownerId, entries);
+  }
+
+  /**
+   * Remove a game from the owner's history
+   * @param ownerId - History owner
+   * @param gameId - ID of the game to remove
+   * @throws NotFoundError when the game is not in the history
+   */
+  static remove(ownerId: string, gameId: string): RecentGame[] {
+    const entries = this.getEntries(ownerId);
+
+    if (!entries.some(entry => entry.gameId === gameId)) {
+      throw new NotFoundError('Recently played game', gameId);
+    }
+
+    return this.save(ownerId, entries.filter(entry => entry.gameId !== gameId));
+  }
+
+  /**
+   * Clear the owner's history
+   * @param ownerId - History owner
+   */
+  static clear(ownerId: string): void {
+    getRepositories().recentGames.saveForUser(ownerId, []);
+  }
+
+  /**
+   * Merge entries kept elsewhere (a guest's local history) into the owner's history
+   * A game in both keeps its latest launch time; unknown games are skipped
+   * @param ownerId - History owner
+   * @param entries - Entries to merge, validated here
+   */
+  static merge(ownerId: string, entries: unknown): RecentGame[] {
+    const incoming = this.validateEntries(entries)
+      .filter(entry => GameService.getGameById(entry.gameId) !== undefined);
+    const latest = new Map<string, RecentGame>();
+
+    [...this.getEntries(ownerId), ...incoming].forEach(entry => {
+      const existing = latest.get(entry.gameId);
+      if (!existing || entry.playedAt > existing.playedAt) {
+        latest.set(entry.gameId, entry);
+      }
+    });
+
+    return this.save(
+      ownerId,
+      Array.from(latest.values()).sort((a, b) => b.playedAt.localeCompare(a.playedAt))
+    );
+  }
+
+  /**
+   * Validate entries to merge, normalizing their launch times to ISO strings
+   */
+  private static validateEntries(entries: unknown): RecentGame[] {
+    const isEntry = (value: unknown): value is { gameId: string; playedAt: string } =>
+      typeof value === 'object' &&
+      value !== null &&
+      typeof (value as RecentGame).gameId === 'string' &&
+      typeof (value as RecentGame).playedAt === 'string' &&
+      !Number.isNaN(Date.parse((value as RecentGame).playedAt));
+
+    if (!Array.isArray(entries) || !entries.every(isEntry)) {
+      throw new ValidationError('entries', entries, ['must be an array of { gameId, playedAt } entries']);
+    }
+
+    return entries.map(entry => createRecentGame({
+      gameId: entry.gameId,
+      playedAt: new Date(entry.playedAt).toISOString()
+    }));
+  }
+
+  /**
+   * Store the history, capped at MAX_RECENT_GAMES entries
+   */
+  private static save(ownerId: string, entries: RecentGame[]): RecentGame[] {
+    const capped = entries.slice(0, MAX_RECENT_GAMES);
+    getRepositories().recentGames.saveForUser(ownerId, capped);
+    return capped;
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const recentlyPlayedService = RecentlyPlayedService;
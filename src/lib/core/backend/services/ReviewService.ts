@@ -0,0 +1,158 @@
+/**
+ * Review Service
+ * Handles player ratings and reviews, one per owner per game
+ * Owners are resolved per request by VisitorService (`guest:<sessionId>` or `user:<userId>`)
+ *
+ * The game's `rating`/`ratingCount` aggregate is updated incrementally on every submission,
+ * so ratings imported with the catalogue keep counting alongside the reviews stored here
+ * The unrounded `ratingTotal` is kept with it; only the displayed average is rounded
+ */
+
+import type { Game, Review } from '@/lib/core/domain/entities';
+import {
+  createReview,
+  REVIEW_RATING_MAX,
+  REVIEW_RATING_MIN,
+  REVIEW_TEXT_MAX_LENGTH
+} from '@/lib/core/domain/entities';
+import { GameService } from './GameService';
+import { PaginationService, type PaginatedResponse, type PaginationRequest } from './PaginationService';
+import { getRepositories } from '@/lib/core/backend/repositories';
+import { GameNotFoundError, ValidationError } from '@/lib/core/shared/errors/AppError';
+
+/**
+ * Result of submitting a review
+ */
+export interface ReviewSubmission {
+  review: Review;
+  /** Game with its updated rating aggregate */
+  game: Game;
+  /** False when the owner's earlier review was replaced */
+  created: boolean;
+}
+
+export class ReviewService {
+  /**
+   * Get a game by ID or slug
+   * @throws GameNotFoundError when the game does not exist
+   */
+  static getGame(idOrSlug: string): Game {
+    const game = GameService.getGameByIdOrSlug(idOrSlug);
+
+    if (!game) {
+      throw new GameNotFoundError(idOrSlug);
+    }
+
+    return game;
+  }
+
+  /**
+   * Get a game's reviews, most recently updated first
+   */
+  static getReviews(gameId: string, request: PaginationRequest = {}): PaginatedResponse<Review> {
+    const reviews = getRepositories().reviews.findByGame(gameId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    return PaginationService.paginate(reviews, PaginationService.validateParams(request));
+  }
+
+  /**
+   * Get the owner's review of a game
+   */
+  static getOwnReview(ownerId: string, gameId: string): Review | undefined {
+    return getRepositories().reviews.findByGame(gameId).find(review => review.ownerId === ownerId);
+  }
+
+  /**
+   * Create the owner's review of a game, or replace their earlier one
+   * @param ownerId - Review author
+   * @param idOrSlug - Game ID or slug
+   * @param rating - Whole number of stars
+   * @param text - Optional review text
+   */
+  static submitReview(ownerId: string, idOrSlug: string, rating: unknown, text?: unknown): ReviewSubmission {
+    const game = this.getGame(idOrSlug);
+    const stars = this.validateRating(rating);
+    const body = this.validateText(text);
+    const previous = this.getOwnReview(ownerId, game.id);
+
+    const review: Review = previous
+      ? { ...previous, rating: stars, text: body, updatedAt: new Date().toISOString() }
+      : createReview({ id: crypto.randomUUID(), gameId: game.id, ownerId, rating: stars, text: body });
+
+    getRepositories().reviews.save(review);
+    const updatedGame = GameService.saveGame({
+      ...game,
+      ...this.updateAggregate(game, stars, previous?.rating)
+    });
+
+    return { review, game: updatedGame, created: !previous };
+  }
+
+  /**
+   * Add a rating to a game's total, or swap a replaced rating for the new one
+   * Catalogue games without a total start from their imported average
+   */
+  private static updateAggregate(
+    game: Game,
+    rating: number,
+    previousRating?: number
+  ): Pick<Game, 'rating' | 'ratingCount' | 'ratingTotal'> {
+    const count = game.ratingCount ?? 0;
+    const total = game.ratingTotal ?? (game.rating ?? 0) * count;
+
+    const [ratingTotal, ratingCount] = previousRating !== undefined && count > 0
+      ? [total - previousRating + rating, count]
+      : [total + rating, count + 1];
+
+    return { rating: this.roundRating(ratingTotal / ratingCount), ratingCount, ratingTotal };
+  }
+
+  /**
+   * Round an average rating to two decimals
+   */
+  private static roundRating(rating: number): number {
+    return Math.round(rating * 100) / 100;
+  }
+
+  /**
+   * Validate a star rating
+   */
+  private static validateRating(rating: unknown): number {
+    if (
+      typeof rating !== 'number' ||
+      !Number.isInteger(rating) ||
+      rating < REVIEW_RATING_MIN ||
+      rating > REVIEW_RATING_MAX
+    ) {
+      throw new ValidationError('rating', rating, [
+        `must be a whole number from ${REVIEW_RATING_MIN} to ${REVIEW_RATING_MAX}`
+      ]);
+    }
+
+    return rating;
+  }
+
+  /**
+   * Validate optional review text, returning it trimmed (undefined when empty)
+   */
+  private static validateText(text: unknown): string | undefined {
+    if (text === undefined || text === null) return undefined;
+
+    if (typeof text !== 'string') {
+      throw new ValidationError('text', text, ['must be a string']);
+    }
+
+    const trimmed = text.trim();
+    if (trimmed.length > REVIEW_TEXT_MAX_LENGTH) {
+      throw new ValidationError('text', text, [`at most ${REVIEW_TEXT_MAX_LENGTH} characters`]);
+    }
+
+    return trimmed || undefined;
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const reviewService = ReviewService;
@@ -0,0 +1,321 @@
+/**
+ * Search Index
+ * In-process inverted index with prefix and typo-tolerant matching
+ */
+
+import {
+  MIN_PREFIX_LENGTH,
+  normalizeSearchText,
+  tokenizeSearchText,
+  getEditDistance,
+  getMaxEditDistance
+} from '@/lib/core/shared/utils/search';
+
+/**
+ * Searchable field definition
+ */
+export interface SearchFieldConfig<F extends string = string> {
+  name: F;
+  weight: number;
+}
+
+/**
+ * Values for each field of an indexed document
+ */
+export type SearchDocument<F extends string = string> = Partial<Record<F, string | string[] | undefined>>;
+
+/**
+ * Ranked search hit
+ */
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+/**
+ * Match quality multipliers applied to a field weight
+ */
+const MATCH_SCORES = {
+  EXACT: 1,
+  PREFIX: 0.6,
+  FUZZY: 0.4,
+  PHRASE_EXACT: 3,
+  PHRASE_PREFIX: 1.5
+} as const;
+
+/**
+ * Inverted index mapping normalized tokens to the documents and fields containing them
+ */
+export class SearchIndex<F extends string = string> {
+  private readonly fields: SearchFieldConfig<F>[];
+  // token -> document id -> fields containing the token
+  private postings: Map<string, Map<string, Set<F>>> = new Map();
+  // document id -> field -> normalized values (used for phrase bonuses)
+  private documents: Map<string, Map<F, string[]>> = new Map();
+  private sortedTokens: string[] | null = null;
+
+  constructor(fields: SearchFieldConfig<F>[]) {
+    this.fields = fields;
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Add (or replace) a document in the index
+   */
+  add(id: string, document: SearchDocument<F>): void {
+    if (this.documents.has(id)) {
+      this.remove(id);
+    }
+
+    const values = new Map<F, string[]>();
+
+    this.fields.forEach(({ name }) => {
+      const raw = document[name];
+      if (raw === undefined) return;
+
+      const entries = (Array.isArray(raw) ? raw : [raw])
+        .map(value => normalizeSearchText(value))
+        .filter(Boolean);
+      values.set(name, entries);
+
+      entries.forEach(entry => {
+        entry.split(' ').forEach(token => {
+          if (!this.postings.has(token)) {
+            this.postings.set(token, new Map());
+            this.sortedTokens = null;
+          }
+          const docs = this.postings.get(token)!;
+          if (!docs.has(id)) {
+            docs.set(id, new Set());
+          }
+          docs.get(id)!.add(name);
+        });
+      });
+    });
+
+    this.documents.set(id, values);
+  }
+
+  /**
+   * Remove a document from the index
+   */
+  remove(id: string): void {
+    const values = this.documents.get(id);
+    if (!values) return;
+
+    values.forEach(entries => {
+      entries.forEach(entry => {
+        entry.split(' ').forEach(token => {
+          const docs = this.postings.get(token);
+          if (!docs) return;
+          docs.delete(id);
+          if (docs.size === 0) {
+            this.postings.delete(token);
+            this.sortedTokens = null;
+          }
+        });
+      });
+    });
+
+    this.documents.delete(id);
+  }
+
+  /**
+   * Remove all documents
+   */
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.sortedTokens = null;
+  }
+
+  /**
+   * Search the index
+   * Every query token must match (exactly, by prefix or within the edit distance budget)
+   * Results are sorted by score, highest first
+   */
+  search(query: string, fields?: F[]): SearchHit[] {
+    const queryTokens = tokenizeSearchText(query);
+    if (queryTokens.length === 0) return [];
+
+    const activeFields = fields?.length
+      ? this.fields.filter(field => fields.includes(field.name))
+      : this.fields;
+    const weights = new Map(activeFields.map(field => [field.name, field.weight]));
+
+    let scores: Map<string, number> | null = null;
+
+    for (const queryToken of queryTokens) {
+      const tokenScores = this.scoreToken(queryToken, weights);
+
+      if (scores === null) {
+        scores = tokenScores;
+      } else {
+        // Intersect with documents matched by previous tokens
+        const merged = new Map<string, number>();
+        scores.forEach((score, id) => {
+          const tokenScore = tokenScores.get(id);
+          if (tokenScore !== undefined) {
+            merged.set(id, score + tokenScore);
+          }
+        });
+        scores = merged;
+      }
+
+      if (scores.size === 0) return [];
+    }
+
+    const phrase = queryTokens.join(' ');
+
+    return Array.from(scores!.entries())
+      .map(([id, score]) => ({
+        id,
+        score: score + this.getPhraseBonus(id, phrase, weights)
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Complete the last token of a query with indexed tokens starting with it
+   * Earlier tokens must match the documents the completed token is counted in
+   * Completions are ordered by the weighted number of documents containing them
+   */
+  complete(query: string, fields?: F[], limit: number = 5): string[] {
+    const queryTokens = tokenizeSearchText(query);
+    const prefix = queryTokens.pop();
+    if (!prefix || prefix.length < MIN_PREFIX_LENGTH) return [];
+
+    const activeFields = fields?.length
+      ? this.fields.filter(field => fields.includes(field.name))
+      : this.fields;
+    const weights = new Map(activeFields.map(field => [field.name, field.weight]));
+    const candidates = queryTokens.length > 0
+      ? new Set(this.search(queryTokens.join(' '), fields).map(hit => hit.id))
+      : null;
+
+    return this.getTokensWithPrefix(prefix)
+      .filter(token => token !== prefix)
+      .map(token => {
+        let score = 0;
+        this.postings.get(token)?.forEach((docFields, id) => {
+          if (candidates && !candidates.has(id)) return;
+          let best = 0;
+          docFields.forEach(field => {
+            best = Math.max(best, weights.get(field) ?? 0);
+          });
+          score += best;
+        });
+        return { token, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || a.token.localeCompare(b.token))
+      .slice(0, limit)
+      .map(({ token }) => [...queryTokens, token].join(' '));
+  }
+
+  /**
+   * Score every document matching a single query token
+   */
+  private scoreToken(queryToken: string, weights: Map<F, number>): Map<string, number> {
+    const scores = new Map<string, number>();
+
+    const apply = (token: string, multiplier: number) => {
+      this.postings.get(token)?.forEach((docFields, id) => {
+        let best = 0;
+        docFields.forEach(field => {
+          const weight = weights.get(field);
+          if (weight !== undefined) {
+            best = Math.max(best, weight * multiplier);
+          }
+        });
+        if (best > (scores.get(id) || 0)) {
+          scores.set(id, best);
+        }
+      });
+    };
+
+    // Exact token match
+    apply(queryToken, MATCH_SCORES.EXACT);
+
+    // Prefix matches ("olymp" -> "olympus"), closer lengths score higher
+    if (queryToken.length >= MIN_PREFIX_LENGTH) {
+      this.getTokensWithPrefix(queryToken).forEach(token => {
+        if (token === queryToken) return;
+        apply(token, MATCH_SCORES.PREFIX * (queryToken.length / token.length));
+      });
+    }
+
+    // Fuzzy matches ("olympos" -> "olympus")
+    const maxDistance = getMaxEditDistance(queryToken.length);
+    if (maxDistance > 0) {
+      this.postings.forEach((_, token) => {
+        if (token === queryToken) return;
+        const distance = getEditDistance(queryToken, token, maxDistance);
+        if (distance <= maxDistance) {
+          apply(token, MATCH_SCORES.FUZZY * (1 - distance / (maxDistance + 1)));
+        }
+      });
+    }
+
+    return scores;
+  }
+
+  /**
+   * Bonus for documents whose field value equals or starts with the whole query
+   */
+  private getPhraseBonus(id: string, phrase: string, weights: Map<F, number>): number {
+    const values = this.documents.get(id);
+    if (!values) return 0;
+
+    let bonus = 0;
+    values.forEach((entries, field) => {
+      const weight = weights.get(field);
+      if (weight === undefined) return;
+
+      entries.forEach(entry => {
+        if (entry === phrase) {
+          bonus = Math.max(bonus, weight * MATCH_SCORES.PHRASE_EXACT);
+        } else if (entry.startsWith(phrase)) {
+          bonus = Math.max(bonus, weight * MATCH_SCORES.PHRASE_PREFIX);
+        }
+      });
+    });
+
+    return bonus;
+  }
+
+  /**
+   * Find all indexed tokens starting with the given prefix (binary search)
+   */
+  private getTokensWithPrefix(prefix: string): string[] {
+    if (!this.sortedTokens) {
+      this.sortedTokens = Array.from(this.postings.keys()).sort();
+    }
+
+    const tokens = this.sortedTokens;
+    let low = 0;
+    let high = tokens.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (tokens[mid] < prefix) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < tokens.length && tokens[i].startsWith(prefix); i++) {
+      matches.push(tokens[i]);
+    }
+
+    return matches;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Search Service
+ * Search suggestions across games, providers and tags
+ */
+
+import type { Game, Provider } from '@/lib/core/domain/entities';
+import type { PaginationMeta, SearchType } from '@/lib/core/domain/models';
+import { GameService } from './GameService';
+import { ProviderService } from './ProviderService';
+import { TagService, type Tag } from './TagService';
+import { PaginationService } from './PaginationService';
+import { cacheService, cacheTags } from '@/lib/core/backend/services/CacheService';
+import { normalizeSearchText } from '@/lib/core/shared/utils/search';
+import {
+  CACHE_TTL,
+  SEARCH_RESULTS_PAGE_SIZE,
+  SEARCH_SUGGESTION_LIMITS
+} from '@/lib/core/config/constants/app.constants';
+
+/**
+ * Grouped suggestions for a partial query
+ */
+export interface SearchSuggestions {
+  query: string;
+  /** Best matching game titles */
+  games: Game[];
+  providers: Array<Provider & { gameCount: number }>;
+  tags: Tag[];
+  /** The query with its last word completed */
+  completions: string[];
+}
+
+/**
+ * One page of a result group
+ */
+export interface SearchResultGroup<T> {
+  items: T[];
+  pagination: PaginationMeta;
+}
+
+/**
+ * Paginated results for a query, one group per entity
+ * Groups left out by the search type are omitted
+ */
+export interface SearchResults {
+  query: string;
+  /** Games whose title matches, best match first */
+  games?: SearchResultGroup<Game>;
+  providers?: SearchResultGroup<Provider & { gameCount: number }>;
+  tags?: SearchResultGroup<Tag>;
+  /** Relevance score of each returned game keyed by game ID */
+  relevanceScores?: Record<string, number>;
+}
+
+/**
+ * Options for a multi-entity search
+ */
+export interface SearchOptions {
+  /** Which groups to return ('all' returns every group) */
+  type?: SearchType;
+  page?: number;
+  pageSize?: number;
+}
+
+export class SearchService {
+  /**
+   * Search games, providers and tags, paginating each group separately
+   * Names starting with the query rank first, then the busiest providers and tags
+   */
+  static search(query: string, options: SearchOptions = {}): SearchResults {
+    const normalized = normalizeSearchText(query);
+    const { type = 'all', page = 1, pageSize = SEARCH_RESULTS_PAGE_SIZE } = options;
+    const includes = (group: SearchType) => type === 'all' || type === group;
+    const results: SearchResults = { query };
+
+    if (!normalized) return results;
+
+    if (includes('games')) {
+      const { games, pagination, relevanceScores } = GameService.getGames({
+        search: normalized,
+        searchType: 'games',
+        sort: 'relevance',
+        page,
+        pageSize
+      });
+      results.games = { items: games, pagination };
+      results.relevanceScores = relevanceScores;
+    }
+
+    if (includes('providers')) {
+      const providers = ProviderService.searchProviders(normalized)
+        .map(provider => ({
+          ...provider,
+          gameCount: GameService.getGamesByProvider(provider.id).length
+        }))
+        .sort((a, b) => this.nameRank(a.name, normalized) - this.nameRank(b.name, normalized) || b.gameCount - a.gameCount);
+      const { data, pagination } = PaginationService.paginate(providers, { page, pageSize });
+      results.providers = { items: data, pagination };
+    }
+
+    if (includes('tags')) {
+      const tags = TagService.searchTags(normalized)
+        .sort((a, b) => this.nameRank(a.name, normalized) - this.nameRank(b.name, normalized) || b.count - a.count);
+      const { data, pagination } = PaginationService.paginate(tags, { page, pageSize });
+      results.tags = { items: data, pagination };
+    }
+
+    return results;
+  }
+
+
+  /**
+   * Get suggestions for a partial query (with caching)
+   */
+  static suggest(query: string): SearchSuggestions {
+    const normalized = normalizeSearchText(query);
+
+    if (!normalized) {
+      return { query, games: [], providers: [], tags: [], completions: [] };
+    }
+
+    const cacheKey = `search:suggest:${normalized}`;
+    const cached = cacheService.get<SearchSuggestions>(cacheKey);
+
+    if (cached) return { ...cached, query };
+
+    const suggestions: SearchSuggestions = {
+      query,
+      games: GameService.searchGames(normalized, 'games').slice(0, SEARCH_SUGGESTION_LIMITS.GAMES),
+      providers: this.rankByName(ProviderService.searchProviders(normalized), normalized)
+        .map(provider => ({
+          ...provider,
+          gameCount: GameService.getGamesByProvider(provider.id).length
+        }))
+        .sort((a, b) => this.nameRank(a.name, normalized) - this.nameRank(b.name, normalized) || b.gameCount - a.gameCount)
+        .slice(0, SEARCH_SUGGESTION_LIMITS.PROVIDERS),
+      tags: this.rankByName(TagService.searchTags(normalized), normalized)
+        .sort((a, b) => this.nameRank(a.name, normalized) - this.nameRank(b.name, normalized) || b.count - a.count)
+        .slice(0, SEARCH_SUGGESTION_LIMITS.TAGS),
+      completions: GameService.completeQuery(normalized, SEARCH_SUGGESTION_LIMITS.COMPLETIONS)
+    };
+
+    cacheService.set(cacheKey, suggestions, CACHE_TTL.SHORT, {
+      tags: [cacheTags.gameCatalog(), cacheTags.providerCatalog()]
+    });
+    return suggestions;
+  }
+
+  /**
+   * Keep only names matching the query at the start of a word
+   * (substring matches like "ent" in "Microgaming Entertainment" are noise in a dropdown)
+   */
+  private static rankByName<T extends { name: string }>(items: T[], query: string): T[] {
+    return items.filter(item => this.nameRank(item.name, query) < 2);
+  }
+
+  /**
+   * 0 when the name starts with the query, 1 when one of its words does, 2 otherwise
+   */
+  private static nameRank(name: string, query: string): number {
+    const normalized = normalizeSearchText(name);
+    if (normalized.startsWith(query)) return 0;
+    return normalized.includes(` ${query}`) ? 1 : 2;
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const searchService = SearchService;
@@ -3,9 +3,11 @@
  * Business logic for tag operations with caching and optimized lookups
  */
 
-import type { Game } from '@/lib/core/domain/entities';
+import type { Game, TagDefinition } from '@/lib/core/domain/entities';
 import { GameService } from './GameService';
-import { cacheService } from '@/lib/core/backend/services/CacheService';
+import { getRepositories } from '@/lib/core/backend/repositories';
+import { normalizeTagName } from '@/lib/core/shared/utils/tags';
+import { cacheService, cacheTags } from '@/lib/core/backend/services/CacheService';
 import { PaginationService, type PaginatedResponse } from '@/lib/core/backend/services/PaginationService';
 import { CACHE_TTL, DEFAULT_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
 import { 
@@ -45,6 +47,8 @@ export class TagService {
   private static gamesByTag: Map<string, Set<string>> = new Map();
   private static tagsArray: Tag[] = [];
   private static initialized = false;
+  // Curated tag catalogue keyed by id, loaded on first use
+  private static definitions: Map<string, TagDefinition> | null = null;
   
   /**
    * Initialize the service with tags from games data
@@ -57,6 +61,40 @@ export class TagService {
     this.initialized = true;
   }
   
+  /**
+   * Get the curated tag catalogue in its stored order
+   */
+  static getTagDefinitions(): TagDefinition[] {
+    if (!this.definitions) {
+      this.definitions = new Map(getRepositories().tags.findAll().map(tag => [tag.id, tag]));
+    }
+    
+    return Array.from(this.definitions.values());
+  }
+  
+  /**
+   * Check whether a tag is part of the curated catalogue (case-insensitive)
+   */
+  static isKnownTag(tagId: string): boolean {
+    this.getTagDefinitions();
+    return this.definitions!.has(normalizeTagName(tagId));
+  }
+  
+  /**
+   * Create or replace tag catalogue entries in one repository write
+   */
+  static saveTagDefinitions(tags: TagDefinition[]): void {
+    getRepositories().tags.saveMany(tags);
+    this.definitions = null;
+  }
+  
+  /**
+   * Re-extract tags on next access (call after the game catalogue changed)
+   */
+  static refresh() {
+    this.initialized = false;
+  }
+  
   /**
    * Clear all data
    */
@@ -83,7 +121,7 @@ export class TagService {
         }
         
         game.tags.forEach(tagName => {
-          const normalizedTag = tagName.toLowerCase().trim();
+          const normalizedTag = normalizeTagName(tagName);
           
           // Count occurrences
           tagCounts.set(normalizedTag, (tagCounts.get(normalizedTag) || 0) + 1);
@@ -144,7 +182,7 @@ export class TagService {
     if (cached) return cached;
     
     const tags = [...this.tagsArray];
-    cacheService.set(cacheKey, tags, CACHE_TTL.LONG);
+    cacheService.set(cacheKey, tags, CACHE_TTL.LONG, { tags: [cacheTags.gameCatalog()] });
     
     return tags;
   }
@@ -160,9 +198,9 @@ export class TagService {
     
     if (cached) return cached;
     
-    const tag = this.tagsMap.get(tagId.toLowerCase());
+    const tag = this.tagsMap.get(normalizeTagName(tagId));
     if (tag) {
-      cacheService.set(cacheKey, tag, CACHE_TTL.LONG);
+      cacheService.set(cacheKey, tag, CACHE_TTL.LONG, { tags: [cacheTags.gameCatalog()] });
     }
     
     return tag;
@@ -179,12 +217,12 @@ export class TagService {
     
     if (cached) return cached;
     
-    const gameIds = this.gamesByTag.get(tagId.toLowerCase()) || new Set();
+    const gameIds = this.gamesByTag.get(normalizeTagName(tagId)) || new Set();
     const games = Array.from(gameIds)
       .map(id => GameService.getGameById(id))
       .filter((game): game is Game => game !== undefined);
     
-    cacheService.set(cacheKey, games, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, games, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     return games;
   }
   
@@ -204,7 +242,7 @@ export class TagService {
       .map(id => this.tagsMap.get(id))
       .filter((tag): tag is Tag => tag !== undefined);
     
-    cacheService.set(cacheKey, tags, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, tags, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     return tags;
   }
   
@@ -225,7 +263,7 @@ export class TagService {
       tag.slug.includes(searchTerm)
     );
     
-    cacheService.set(cacheKey, results, CACHE_TTL.SHORT);
+    cacheService.set(cacheKey, results, CACHE_TTL.SHORT, { tags: [cacheTags.gameCatalog()] });
     return results;
   }
   
@@ -242,7 +280,7 @@ export class TagService {
     
     const tags = this.tagsArray.filter(tag => tag.category === category);
     
-    cacheService.set(cacheKey, tags, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, tags, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     return tags;
   }
   
@@ -294,7 +332,7 @@ export class TagService {
     // Apply pagination
     const result = PaginationService.paginate(tags, { page, pageSize });
     
-    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     return result;
   }
   
@@ -314,7 +352,7 @@ export class TagService {
       games: this.getGamesByTag(tag.id)
     }));
     
-    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     return result;
   }
   
@@ -332,7 +370,7 @@ export class TagService {
       .sort((a, b) => b.count - a.count)
       .slice(0, limit);
     
-    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     return result;
   }
   
@@ -348,7 +386,7 @@ export class TagService {
     const tags = this.getAllTags();
     const result = tags.filter(tag => tag.count >= minGames);
     
-    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     return result;
   }
   
@@ -399,7 +437,7 @@ export class TagService {
       categoryCounts
     };
     
-    cacheService.set(cacheKey, stats, CACHE_TTL.LONG);
+    cacheService.set(cacheKey, stats, CACHE_TTL.LONG, { tags: [cacheTags.gameCatalog()] });
     return stats;
   }
   
@@ -408,7 +446,7 @@ export class TagService {
    */
   static tagExists(tagId: string): boolean {
     this.initialize();
-    return this.tagsMap.has(tagId.toLowerCase());
+    return this.tagsMap.has(normalizeTagName(tagId));
   }
   
   /**
@@ -442,7 +480,7 @@ export class TagService {
       .map(([tagName]) => this.tagsMap.get(tagName))
       .filter((tag): tag is Tag => tag !== undefined);
     
-    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM);
+    cacheService.set(cacheKey, result, CACHE_TTL.MEDIUM, { tags: [cacheTags.gameCatalog()] });
     return result;
   }
   
@@ -0,0 +1,328 @@
+/**
+ * Trending Service
+ * Ranks games, tags and providers by recent play and favorite activity
+ *
+ * Scores count plays plus favorites (weighted by TRENDING_CONFIG.FAVORITE_WEIGHT) over
+ * rolling windows. Rankings are snapshotted every SNAPSHOT_INTERVAL so each entry can show
+ * how far it moved since the latest snapshot at least that old
+ */
+
+import type { Game, GameType, Provider, TrendingSnapshot } from '@/lib/core/domain/entities';
+import { GameService } from './GameService';
+import { TagService, type Tag } from './TagService';
+import { cacheService, cacheTags } from '@/lib/core/backend/services/CacheService';
+import { getRepositories } from '@/lib/core/backend/repositories';
+import { normalizeTagName } from '@/lib/core/shared/utils/tags';
+import {
+  CACHE_TTL,
+  GAME_TYPE_CONFIG,
+  PLAY_WINDOWS,
+  TRENDING_CONFIG
+} from '@/lib/core/config/constants/app.constants';
+
+/**
+ * A ranked item
+ */
+export interface TrendingEntry<T> {
+  item: T;
+  rank: number;
+  /** Rank in the compared snapshot, null when the item was not ranked there */
+  previousRank: number | null;
+  score: number;
+}
+
+/**
+ * A ranked game with the activity behind its score
+ */
+export interface TrendingGameEntry extends TrendingEntry<Game> {
+  plays: number;
+  favorites: number;
+}
+
+/**
+ * Every trending ranking shown on the trending page
+ */
+export interface TrendingRankings {
+  /** Most active games in the last day */
+  today: TrendingGameEntry[];
+  /** Most active games in the last week */
+  week: TrendingGameEntry[];
+  /** Games whose activity today is furthest above their daily average for the rest of the week */
+  rising: TrendingGameEntry[];
+  /** Weekly ranking per game type, in GAME_TYPE_CONFIG order */
+  byType: Array<{ type: GameType; games: TrendingGameEntry[] }>;
+  tags: TrendingEntry<Tag>[];
+  providers: TrendingEntry<Provider>[];
+  generatedAt: string;
+  /** When the snapshot rank changes compare against was taken, null until one is old enough */
+  comparedTo: string | null;
+}
+
+/**
+ * Play and favorite counts of a game over the day and week windows
+ */
+interface GameActivity {
+  playsToday: number;
+  playsWeek: number;
+  favoritesToday: number;
+  favoritesWeek: number;
+}
+
+/**
+ * A game with its window scores, before ranking
+ */
+interface ScoredGame {
+  game: Game;
+  activity: GameActivity;
+  today: number;
+  week: number;
+}
+
+/**
+ * Ranked list before rank changes are resolved
+ */
+interface RankedList<T> {
+  key: string;
+  entries: Array<{ id: string; item: T; score: number }>;
+}
+
+const EMPTY_ACTIVITY: GameActivity = { playsToday: 0, playsWeek: 0, favoritesToday: 0, favoritesWeek: 0 };
+
+export class TrendingService {
+  /**
+   * Get the current trending rankings (with caching)
+   */
+  static getRankings(): TrendingRankings {
+    return cacheService.swr('trending:rankings', () => this.computeRankings(Date.now()), CACHE_TTL.SHORT, {
+      tags: [cacheTags.gameCatalog()]
+    });
+  }
+
+  /**
+   * Rank everything as of the given time, snapshotting the result when the latest snapshot is due
+   */
+  private static computeRankings(now: number): TrendingRankings {
+    const activity = this.getActivity(now);
+    const scored: ScoredGame[] = GameService.getAllGames().map(game => {
+      const counts = activity.get(game.id) || EMPTY_ACTIVITY;
+      return {
+        game,
+        activity: counts,
+        today: this.score(counts.playsToday, counts.favoritesToday),
+        week: this.score(counts.playsWeek, counts.favoritesWeek)
+      };
+    });
+
+    const today = this.rankGames('today', scored, entry => entry.today);
+    const week = this.rankGames('week', scored, entry => entry.week);
+    const rising = this.rankGames(
+      'rising',
+      scored.filter(entry => this.momentum(entry) > 0),
+      entry => this.momentum(entry)
+    );
+    const byType = GAME_TYPE_CONFIG.map(({ value }) => this.rankGames(
+      `type:${value}`,
+      scored.filter(entry => entry.game.type === value),
+      entry => entry.week,
+      TRENDING_CONFIG.TYPE_LIST_SIZE
+    ));
+    const tags = this.rankTags(scored);
+    const providers = this.rankProviders(scored);
+
+    const lists: RankedList<unknown>[] = [today, week, rising, ...byType, tags, providers];
+    const baseline = this.snapshot(now, lists);
+
+    const resolveGames = (list: RankedList<ScoredGame>, window: 'today' | 'week'): TrendingGameEntry[] =>
+      this.resolve(list, baseline).map(entry => ({
+        ...entry,
+        item: entry.item.game,
+        plays: window === 'today' ? entry.item.activity.playsToday : entry.item.activity.playsWeek,
+        favorites: window === 'today' ? entry.item.activity.favoritesToday : entry.item.activity.favoritesWeek
+      }));
+
+    return {
+      today: resolveGames(today, 'today'),
+      week: resolveGames(week, 'week'),
+      rising: resolveGames(rising, 'today'),
+      byType: GAME_TYPE_CONFIG.map(({ value }, index) => ({
+        type: value,
+        games: resolveGames(byType[index], 'week')
+      })),
+      tags: this.resolve(tags, baseline),
+      providers: this.resolve(providers, baseline),
+      generatedAt: new Date(now).toISOString(),
+      comparedTo: baseline?.takenAt ?? null
+    };
+  }
+
+  /**
+   * Count plays and favorites per game ID over the day and week windows
+   */
+  private static getActivity(now: number): Map<string, GameActivity> {
+    const repositories = getRepositories();
+    const weekAgo = new Date(now - PLAY_WINDOWS.WEEK).toISOString();
+    const dayAgo = new Date(now - PLAY_WINDOWS.DAY).toISOString();
+    const activity = new Map<string, GameActivity>();
+
+    const entryFor = (gameId: string): GameActivity => {
+      const entry = activity.get(gameId) || { ...EMPTY_ACTIVITY };
+      activity.set(gameId, entry);
+      return entry;
+    };
+
+    repositories.plays.findSince(weekAgo).forEach(event => {
+      const entry = entryFor(event.gameId);
+      entry.playsWeek++;
+      if (event.playedAt >= dayAgo) entry.playsToday++;
+    });
+
+    // Favorites count once per owner and window, so toggling a favorite off and on adds nothing
+    const favoritedBy = new Map<string, { week: Set<string>; today: Set<string> }>();
+    repositories.favoriteEvents.findSince(weekAgo).forEach(event => {
+      const owners = favoritedBy.get(event.gameId) || { week: new Set<string>(), today: new Set<string>() };
+      favoritedBy.set(event.gameId, owners);
+      owners.week.add(event.ownerId);
+      if (event.favoritedAt >= dayAgo) owners.today.add(event.ownerId);
+    });
+
+    favoritedBy.forEach((owners, gameId) => {
+      const entry = entryFor(gameId);
+      entry.favoritesWeek = owners.week.size;
+      entry.favoritesToday = owners.today.size;
+    });
+
+    return activity;
+  }
+
+  /**
+   * Activity score of a window
+   */
+  private static score(plays: number, favorites: number): number {
+    return plays + favorites * TRENDING_CONFIG.FAVORITE_WEIGHT;
+  }
+
+  /**
+   * How far today's score is above the daily average of the six days before
+   */
+  private static momentum(entry: ScoredGame): number {
+    return entry.today - (entry.week - entry.today) / 6;
+  }
+
+  /**
+   * Rank games by score, falling back to all-time play counts for ties (such as no activity at all)
+   */
+  private static rankGames(
+    key: string,
+    scored: ScoredGame[],
+    scoreOf: (entry: ScoredGame) => number,
+    limit: number = TRENDING_CONFIG.LIST_SIZE
+  ): RankedList<ScoredGame> {
+    return {
+      key,
+      entries: [...scored]
+        .sort((a, b) =>
+          scoreOf(b) - scoreOf(a) ||
+          (b.game.playCount || 0) - (a.game.playCount || 0)
+        )
+        .slice(0, limit)
+        .map(entry => ({ id: entry.game.id, item: entry, score: this.round(scoreOf(entry)) }))
+    };
+  }
+
+  /**
+   * Rank tags by the weekly score of their games, then by their games' play counts
+   */
+  private static rankTags(scored: ScoredGame[]): RankedList<Tag> {
+    const totals = new Map<string, { score: number; playCount: number }>();
+
+    scored.forEach(({ game, week }) => {
+      new Set((game.tags || []).map(normalizeTagName)).forEach(tagId => {
+        const total = totals.get(tagId) || { score: 0, playCount: 0 };
+        total.score += week;
+        total.playCount += game.playCount || 0;
+        totals.set(tagId, total);
+      });
+    });
+
+    return {
+      key: 'tags',
+      entries: Array.from(totals.entries())
+        .sort(([, a], [, b]) => b.score - a.score || b.playCount - a.playCount)
+        .map(([id, total]) => ({ id, item: TagService.getTagById(id), score: this.round(total.score) }))
+        .filter((entry): entry is { id: string; item: Tag; score: number } => entry.item !== undefined)
+        .slice(0, TRENDING_CONFIG.LIST_SIZE)
+    };
+  }
+
+  /**
+   * Rank providers by the weekly score of their games, then by their games' play counts
+   */
+  private static rankProviders(scored: ScoredGame[]): RankedList<Provider> {
+    const totals = new Map<string, { provider: Provider; score: number; playCount: number }>();
+
+    scored.forEach(({ game, week }) => {
+      const total = totals.get(game.provider.id) || { provider: game.provider, score: 0, playCount: 0 };
+      total.score += week;
+      total.playCount += game.playCount || 0;
+      totals.set(game.provider.id, total);
+    });
+
+    return {
+      key: 'providers',
+      entries: Array.from(totals.values())
+        .sort((a, b) => b.score - a.score || b.playCount - a.playCount)
+        .slice(0, TRENDING_CONFIG.LIST_SIZE)
+        .map(total => ({ id: total.provider.id, item: total.provider, score: this.round(total.score) }))
+    };
+  }
+
+  /**
+   * Find the snapshot to compare against, and store the current rankings when a new snapshot is due
+   * Snapshots older than the longest window are pruned
+   */
+  private static snapshot(now: number, lists: RankedList<unknown>[]): TrendingSnapshot | undefined {
+    const snapshots = getRepositories().trendingSnapshots;
+    const takenAt = new Date(now).toISOString();
+    const baseline = snapshots.findLatestBefore(new Date(now - TRENDING_CONFIG.SNAPSHOT_INTERVAL).toISOString());
+    const latest = snapshots.findLatestBefore(takenAt);
+
+    if (!latest || now - Date.parse(latest.takenAt) >= TRENDING_CONFIG.SNAPSHOT_INTERVAL) {
+      snapshots.save({
+        takenAt,
+        rankings: Object.fromEntries(lists.map(list => [list.key, list.entries.map(entry => entry.id)]))
+      });
+      snapshots.deleteBefore(new Date(now - PLAY_WINDOWS.WEEK).toISOString());
+    }
+
+    return baseline;
+  }
+
+  /**
+   * Number a ranked list and look up each entry's rank in the baseline snapshot
+   */
+  private static resolve<T>(list: RankedList<T>, baseline?: TrendingSnapshot): TrendingEntry<T>[] {
+    const previous = baseline?.rankings[list.key] || [];
+
+    return list.entries.map((entry, index) => {
+      const previousIndex = previous.indexOf(entry.id);
+      return {
+        item: entry.item,
+        rank: index + 1,
+        previousRank: previousIndex >= 0 ? previousIndex + 1 : null,
+        score: entry.score
+      };
+    });
+  }
+
+  /**
+   * Round a score to two decimals
+   */
+  private static round(score: number): number {
+    return Math.round(score * 100) / 100;
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const trendingService = TrendingService;
@@ -0,0 +1,80 @@
+/**
+ * Visitor Service
+ * Resolves who is making a request so per-visitor data (favorites) can be scoped
+ * Signed-in users own their data by account, guests by their anonymous session
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+import { COOKIE_KEYS, VISITOR_COOKIE_MAX_AGE } from '@/lib/core/config/constants/app.constants';
+import { AuthService } from './AuthService';
+
+/**
+ * Identity of the visitor making a request
+ */
+export interface Visitor {
+  /** Owner key used to scope stored data, e.g. `guest:<sessionId>` or `user:<userId>` */
+  ownerId: string;
+  /** Signed-in account, undefined for guests */
+  userId?: string;
+  /** Anonymous session ID carried in the visitor cookie */
+  sessionId: string;
+  /** True when the session was created by this request and the cookie still needs to be set */
+  isNew: boolean;
+}
+
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+export class VisitorService {
+  /**
+   * Build the owner key for an anonymous session
+   */
+  static guestOwnerId(sessionId: string): string {
+    return `guest:${sessionId}`;
+  }
+
+  /**
+   * Build the owner key for an authenticated user
+   */
+  static userOwnerId(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  /**
+   * Resolve the visitor from the request cookies, starting a new session when missing or malformed
+   */
+  static resolve(request: NextRequest): Visitor {
+    const cookieValue = request.cookies.get(COOKIE_KEYS.VISITOR)?.value;
+    const isNew = !cookieValue || !SESSION_ID_PATTERN.test(cookieValue);
+    const sessionId = isNew ? crypto.randomUUID() : cookieValue;
+    const userId = AuthService.getSession(request)?.user.id;
+
+    return {
+      ownerId: userId ? this.userOwnerId(userId) : this.guestOwnerId(sessionId),
+      userId,
+      sessionId,
+      isNew
+    };
+  }
+
+  /**
+   * Set the visitor cookie on a response when the session is new
+   */
+  static attach<T extends NextResponse>(response: T, visitor: Visitor): T {
+    if (visitor.isNew) {
+      response.cookies.set(COOKIE_KEYS.VISITOR, visitor.sessionId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: VISITOR_COOKIE_MAX_AGE
+      });
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Export singleton instance for convenience
+ */
+export const visitorService = VisitorService;
@@ -0,0 +1,37 @@
+/**
+ * Auth Entity Transformers
+ * Backend-specific transformers for accounts and sessions
+ * Used for API responses, which never include credentials
+ */
+
+import type { AuthSession, UserAccount } from '@/lib/core/domain/entities';
+import type { ApiAuthSessionResponse, ApiAuthUser } from '@/lib/core/backend/types/authTypes';
+
+/**
+ * Auth Entity Transformers
+ */
+export const authEntityTransformers = {
+
+  /**
+   * Transform account to API user, dropping the password hash
+   */
+  toApiUser(user: UserAccount): ApiAuthUser {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      balance: user.balance,
+      createdAt: user.createdAt,
+    };
+  },
+
+  /**
+   * Transform the current session to API response (guests have neither)
+   */
+  toApiSession(user?: UserAccount, session?: AuthSession): ApiAuthSessionResponse {
+    return {
+      user: user ? authEntityTransformers.toApiUser(user) : null,
+      expiresAt: session?.expiresAt ?? null,
+    };
+  },
+};
@@ -4,12 +4,23 @@
  * Used for database operations and API responses
  */
 
+import type { FavoriteCollection, Provider, Tag } from '@/lib/core/domain/entities';
 import type { 
+  ApiCollectionGameResponse,
+  ApiFavoriteCollectionResponse,
+  ApiFavoriteCollectionsListResponse,
+  ApiFavoriteProviderResponse,
+  ApiFavoriteProvidersListResponse,
   ApiFavoriteResponse,
   ApiFavoritesListResponse,
   ApiFavoritesSyncResponse,
-  FavoriteEntity 
+  ApiFavoriteTagResponse,
+  ApiFavoriteTagsListResponse,
+  FavoriteEntity,
+  FavoriteItemType
 } from '@/lib/core/backend/types/favoriteTypes';
+import { providerEntityTransformers } from './providerEntityTransformers';
+import { tagEntityTransformers } from './tagEntityTransformers';
 
 /**
  * Favorite Entity Transformers
@@ -58,12 +69,96 @@ export const favoriteEntityTransformers = {
     return response;
   },
 
+  /**
+   * Transform provider follow state to API response
+   */
+  toApiFavoriteProviderResponse(providerId: string, isFavorite: boolean): ApiFavoriteProviderResponse {
+    return {
+      providerId,
+      isFavorite,
+      timestamp: new Date().toISOString(),
+    };
+  },
+
+  /**
+   * Transform followed providers to API list response
+   */
+  toApiFavoriteProvidersListResponse(providers: Provider[]): ApiFavoriteProvidersListResponse {
+    return {
+      providerIds: providers.map(provider => provider.id),
+      providers: providerEntityTransformers.toApiGetAllProvidersResponse(providers),
+      count: providers.length,
+    };
+  },
+
+  /**
+   * Transform tag follow state to API response
+   */
+  toApiFavoriteTagResponse(tagId: string, isFavorite: boolean): ApiFavoriteTagResponse {
+    return {
+      tagId,
+      isFavorite,
+      timestamp: new Date().toISOString(),
+    };
+  },
+
+  /**
+   * Transform followed tags to API list response
+   */
+  toApiFavoriteTagsListResponse(tags: Tag[]): ApiFavoriteTagsListResponse {
+    return {
+      tagIds: tags.map(tag => tag.id),
+      tags: tagEntityTransformers.toApiGetAllTagsResponse(tags),
+      count: tags.length,
+    };
+  },
+
+  /**
+   * Transform collection to API response
+   */
+  toApiCollection(collection: FavoriteCollection): ApiFavoriteCollectionResponse {
+    return {
+      id: collection.id,
+      name: collection.name,
+      gameIds: collection.gameIds,
+      gameCount: collection.gameIds.length,
+      createdAt: collection.createdAt,
+      updatedAt: collection.updatedAt,
+    };
+  },
+
+  /**
+   * Transform collections to API list response
+   */
+  toApiCollectionsListResponse(collections: FavoriteCollection[]): ApiFavoriteCollectionsListResponse {
+    return {
+      collections: collections.map(collection => favoriteEntityTransformers.toApiCollection(collection)),
+      count: collections.length,
+    };
+  },
+
+  /**
+   * Transform collection membership change to API response
+   */
+  toApiCollectionGameResponse(
+    collection: FavoriteCollection,
+    gameId: string,
+    inCollection: boolean
+  ): ApiCollectionGameResponse {
+    return {
+      collectionId: collection.id,
+      gameId,
+      inCollection,
+      collection: favoriteEntityTransformers.toApiCollection(collection),
+    };
+  },
+
   /**
    * Create internal favorite entity
    */
   createFavoriteEntity(
     id: string, 
-    type: 'game' | 'provider' | 'tag', 
+    type: FavoriteItemType, 
     userId: string
   ): FavoriteEntity {
     return {
@@ -84,7 +179,7 @@ export const favoriteEntityTransformers = {
   /**
    * Filter favorites by type
    */
-  filterByType(entities: FavoriteEntity[], type: 'game' | 'provider' | 'tag'): FavoriteEntity[] {
+  filterByType(entities: FavoriteEntity[], type: FavoriteItemType): FavoriteEntity[] {
     return entities.filter(entity => entity.type === type);
   },
 
@@ -93,7 +188,7 @@ export const favoriteEntityTransformers = {
    */
   fromApiFavoritesList(
     favoriteIds: string[], 
-    type: 'game' | 'provider' | 'tag' = 'game',
+    type: FavoriteItemType = 'game',
     userId: string = 'guest'
   ): FavoriteEntity[] {
     return favoriteIds.map(id => ({
@@ -36,6 +36,11 @@ export const gameEntityTransformers = {
       playCount: apiResponse.playCount,
       releaseDate: apiResponse.releaseDate,
       rtp: apiResponse.rtp,
+      rating: apiResponse.rating,
+      ratingCount: apiResponse.ratingCount,
+      maxWin: apiResponse.maxWin,
+      minBet: apiResponse.minBet,
+      maxBet: apiResponse.maxBet,
     });
   },
 
@@ -60,16 +65,35 @@ export const gameEntityTransformers = {
       playCount: game.playCount,
       releaseDate: game.releaseDate,
       rtp: game.rtp,
-      createdAt: game.createdAt?.toISOString(),
-      updatedAt: game.updatedAt?.toISOString(),
+      rating: game.rating,
+      ratingCount: game.ratingCount,
+      maxWin: game.maxWin,
+      minBet: game.minBet,
+      maxBet: game.maxBet,
+      // Timestamps read back from the json/sqlite adapters are ISO strings rather than Dates
+      createdAt: game.createdAt ? new Date(game.createdAt).toISOString() : undefined,
+      updatedAt: game.updatedAt ? new Date(game.updatedAt).toISOString() : undefined,
     };
   },
 
   /**
    * Transform entities to API get all games response
+   * Marks the requesting visitor's favorites and attaches search relevance scores when provided
    */
-  toApiGetAllGamesResponse(games: Game[]): ApiGameResponse[] {
-    return games.map(game => gameEntityTransformers.toApi(game));
+  toApiGetAllGamesResponse(
+    games: Game[],
+    options: {
+      favoriteIds?: string[];
+      relevanceScores?: Record<string, number>;
+    } = {}
+  ): ApiGameResponse[] {
+    const { favoriteIds = [], relevanceScores } = options;
+    const favorites = new Set(favoriteIds);
+
+    return games.map(game => ({
+      ...gameEntityTransformers.toApi({ ...game, isFavorite: favorites.has(game.id) }),
+      ...(relevanceScores && { relevance: relevanceScores[game.id] })
+    }));
   },
 
   /**
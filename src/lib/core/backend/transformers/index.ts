@@ -6,4 +6,9 @@
 export { gameEntityTransformers } from './gameEntityTransformers';
 export { providerEntityTransformers } from './providerEntityTransformers';
 export { tagEntityTransformers } from './tagEntityTransformers';
-export { favoriteEntityTransformers } from './favoriteEntityTransformers';
\ No newline at end of file
+export { favoriteEntityTransformers } from './favoriteEntityTransformers';
+export { reviewEntityTransformers } from './reviewEntityTransformers';export { playEntityTransformers } from './playEntityTransformers';
+export { trendingEntityTransformers } from './trendingEntityTransformers';
+export { recentEntityTransformers } from './recentEntityTransformers';
+export { searchEntityTransformers } from './searchEntityTransformers';
+export { authEntityTransformers } from './authEntityTransformers';
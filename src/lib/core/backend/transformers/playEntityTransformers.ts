@@ -0,0 +1,27 @@
+/**
+ * Play Entity Transformers
+ * Backend-specific transformers for play tracking
+ */
+
+import type { Game, PlayActivity } from '@/lib/core/domain/entities';
+import type { ApiPlayResponse } from '@/lib/core/backend/types/playTypes';
+
+/**
+ * Play Entity Transformers
+ */
+export const playEntityTransformers = {
+
+  /**
+   * Transform a game's play count and activity to API response
+   */
+  toApiPlayResponse(game: Game, activity: PlayActivity): ApiPlayResponse {
+    return {
+      gameId: game.id,
+      playCount: game.playCount || 0,
+      lastHour: activity.lastHour,
+      lastDay: activity.lastDay,
+      lastWeek: activity.lastWeek,
+      trendingScore: Math.round(activity.trendingScore * 1000) / 1000,
+    };
+  },
+};
@@ -0,0 +1,30 @@
+/**
+ * Recently Played Entity Transformers
+ * Backend-specific transformers for the recently played history
+ */
+
+import type { Game, RecentGame } from '@/lib/core/domain/entities';
+import type { ApiRecentlyPlayedResponse } from '@/lib/core/backend/types/recentTypes';
+import { gameEntityTransformers } from './gameEntityTransformers';
+
+/**
+ * Recently Played Entity Transformers
+ */
+export const recentEntityTransformers = {
+
+  /**
+   * Transform history games to API response, flagging the visitor's favorites
+   * Launch times are looked up in the stored entries when there are any
+   */
+  toApiResponse(games: Game[], favoriteIds: string[], entries: RecentGame[] = []): ApiRecentlyPlayedResponse {
+    const favorites = new Set(favoriteIds);
+    const playedAt = new Map(entries.map(entry => [entry.gameId, entry.playedAt]));
+
+    return {
+      entries: games.map(game => ({
+        game: gameEntityTransformers.toApi({ ...game, isFavorite: favorites.has(game.id) }),
+        playedAt: playedAt.get(game.id) ?? null,
+      })),
+    };
+  },
+};
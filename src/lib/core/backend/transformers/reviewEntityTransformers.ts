@@ -0,0 +1,63 @@
+/**
+ * Review Entity Transformers
+ * Backend-specific transformers for review entities
+ * Used for API responses, which never reveal who wrote a review
+ */
+
+import type { Game, Review } from '@/lib/core/domain/entities';
+import type {
+  ApiReviewResponse,
+  ApiReviewSubmitResponse,
+  ApiReviewSummary
+} from '@/lib/core/backend/types/reviewTypes';
+
+/**
+ * Review Entity Transformers
+ */
+export const reviewEntityTransformers = {
+
+  /**
+   * Transform review to API response, flagging the viewer's own review
+   */
+  toApi(review: Review, viewerOwnerId?: string): ApiReviewResponse {
+    return {
+      id: review.id,
+      gameId: review.gameId,
+      rating: review.rating,
+      text: review.text,
+      isOwn: review.ownerId === viewerOwnerId,
+      createdAt: review.createdAt,
+      updatedAt: review.updatedAt,
+    };
+  },
+
+  /**
+   * Transform reviews to API list response
+   */
+  toApiList(reviews: Review[], viewerOwnerId?: string): ApiReviewResponse[] {
+    return reviews.map(review => reviewEntityTransformers.toApi(review, viewerOwnerId));
+  },
+
+  /**
+   * Transform a game's rating aggregate and the viewer's review to API summary
+   */
+  toApiSummary(game: Game, ownReview: Review | undefined): ApiReviewSummary {
+    return {
+      gameId: game.id,
+      rating: game.rating,
+      ratingCount: game.ratingCount ?? 0,
+      ownReview: ownReview ? reviewEntityTransformers.toApi(ownReview, ownReview.ownerId) : null,
+    };
+  },
+
+  /**
+   * Transform a submitted review to API response
+   */
+  toApiSubmitResponse(game: Game, review: Review, created: boolean): ApiReviewSubmitResponse {
+    return {
+      ...reviewEntityTransformers.toApiSummary(game, review),
+      review: reviewEntityTransformers.toApi(review, review.ownerId),
+      created,
+    };
+  },
+};
@@ -0,0 +1,62 @@
+/**
+ * Search Entity Transformers
+ * Backend-specific transformers for search suggestions
+ */
+
+import type { SearchResults, SearchSuggestions } from '@/lib/core/backend/services/SearchService';
+import type {
+  ApiSearchResultsResponse,
+  ApiSearchSuggestionsResponse
+} from '@/lib/core/backend/types/searchTypes';
+import { gameEntityTransformers } from './gameEntityTransformers';
+import { providerEntityTransformers } from './providerEntityTransformers';
+import { tagEntityTransformers } from './tagEntityTransformers';
+
+/**
+ * Search Entity Transformers
+ */
+export const searchEntityTransformers = {
+
+  /**
+   * Transform search suggestions to API response
+   */
+  toApiSuggestionsResponse(suggestions: SearchSuggestions): ApiSearchSuggestionsResponse {
+    return {
+      query: suggestions.query,
+      games: suggestions.games.map(gameEntityTransformers.toApi),
+      providers: suggestions.providers.map(providerEntityTransformers.toApi),
+      tags: suggestions.tags.map(tagEntityTransformers.toApi),
+      completions: suggestions.completions,
+    };
+  },
+
+  /**
+   * Transform search results to API response, flagging the visitor's favorite games
+   */
+  toApiResultsResponse(results: SearchResults, favoriteIds: string[] = []): ApiSearchResultsResponse {
+    return {
+      query: results.query,
+      ...(results.games && {
+        games: {
+          items: gameEntityTransformers.toApiGetAllGamesResponse(results.games.items, {
+            favoriteIds,
+            relevanceScores: results.relevanceScores
+          }),
+          pagination: results.games.pagination,
+        }
+      }),
+      ...(results.providers && {
+        providers: {
+          items: results.providers.items.map(providerEntityTransformers.toApi),
+          pagination: results.providers.pagination,
+        }
+      }),
+      ...(results.tags && {
+        tags: {
+          items: results.tags.items.map(tagEntityTransformers.toApi),
+          pagination: results.tags.pagination,
+        }
+      }),
+    };
+  },
+};
@@ -49,22 +49,22 @@ export const tagEntityTransformers = {
   /**
    * Transform domain entity to API response
    */
-  toApi(tag: Tag, includeGames: boolean = false): ApiTagResponse {
+  toApi(tag: Tag): ApiTagResponse {
     return {
       id: tag.id,
       name: tag.name,
       slug: tag.slug,
       count: tag.count || 0,
       category: categorizeTag(tag.name),
-      ...(includeGames && { games: [] }), // Would be populated from service
     };
   },
 
   /**
    * Transform entities to API get all tags response
+   * Games and related tags are attached by the tag detail endpoint
    */
-  toApiGetAllTagsResponse(tags: Tag[], includeGames: boolean = false): ApiTagResponse[] {
-    return tags.map(tag => tagEntityTransformers.toApi(tag, includeGames));
+  toApiGetAllTagsResponse(tags: Tag[]): ApiTagResponse[] {
+    return tags.map(tag => tagEntityTransformers.toApi(tag));
   },
 
   /**
@@ -0,0 +1,69 @@
+/**
+ * Trending Entity Transformers
+ * Backend-specific transformers for the trending rankings
+ */
+
+import type {
+  TrendingEntry,
+  TrendingGameEntry,
+  TrendingRankings
+} from '@/lib/core/backend/services/TrendingService';
+import type { ApiTrendingGame, ApiTrendingRank, ApiTrendingResponse } from '@/lib/core/backend/types/trendingTypes';
+import { gameEntityTransformers } from './gameEntityTransformers';
+import { providerEntityTransformers } from './providerEntityTransformers';
+import { tagEntityTransformers } from './tagEntityTransformers';
+
+/**
+ * Trending Entity Transformers
+ */
+export const trendingEntityTransformers = {
+
+  /**
+   * Transform a ranked entry's position to API format
+   */
+  toApiRank<T>(entry: TrendingEntry<T>): ApiTrendingRank {
+    return {
+      rank: entry.rank,
+      previousRank: entry.previousRank,
+      score: entry.score,
+    };
+  },
+
+  /**
+   * Transform a ranked game to API format, flagging the visitor's favorites
+   */
+  toApiGame(entry: TrendingGameEntry, favorites: Set<string>): ApiTrendingGame {
+    return {
+      ...trendingEntityTransformers.toApiRank(entry),
+      game: gameEntityTransformers.toApi({ ...entry.item, isFavorite: favorites.has(entry.item.id) }),
+      plays: entry.plays,
+      favorites: entry.favorites,
+    };
+  },
+
+  /**
+   * Transform the trending rankings to API response
+   */
+  toApiResponse(rankings: TrendingRankings, favoriteIds: string[] = []): ApiTrendingResponse {
+    const favorites = new Set(favoriteIds);
+    const toApiGames = (entries: TrendingGameEntry[]) =>
+      entries.map(entry => trendingEntityTransformers.toApiGame(entry, favorites));
+
+    return {
+      today: toApiGames(rankings.today),
+      week: toApiGames(rankings.week),
+      rising: toApiGames(rankings.rising),
+      byType: rankings.byType.map(({ type, games }) => ({ type, games: toApiGames(games) })),
+      tags: rankings.tags.map(entry => ({
+        ...trendingEntityTransformers.toApiRank(entry),
+        tag: tagEntityTransformers.toApi(entry.item),
+      })),
+      providers: rankings.providers.map(entry => ({
+        ...trendingEntityTransformers.toApiRank(entry),
+        provider: providerEntityTransformers.toApi(entry.item),
+      })),
+      generatedAt: rankings.generatedAt,
+      comparedTo: rankings.comparedTo,
+    };
+  },
+};
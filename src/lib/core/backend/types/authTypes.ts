@@ -0,0 +1,50 @@
+/**
+ * Auth Types
+ * Backend-specific types for accounts and sessions
+ */
+
+/**
+ * Signed-in user as returned by the API (without credentials)
+ */
+export interface ApiAuthUser {
+  id: string;
+  email: string;
+  name: string;
+  balance: number;
+  createdAt: string;
+}
+
+/**
+ * API response for the current session, user is null for guests
+ */
+export interface ApiAuthSessionResponse {
+  user: ApiAuthUser | null;
+  /** When the session expires (ISO timestamp), null for guests */
+  expiresAt: string | null;
+}
+
+/**
+ * API request for signing in
+ */
+export interface ApiLoginRequest {
+  email: string;
+  password: string;
+  /** Keep the session for SESSION_REMEMBER_MAX_AGE and across browser restarts */
+  remember?: boolean;
+}
+
+/**
+ * API request for creating an account
+ */
+export interface ApiRegisterRequest {
+  name: string;
+  email: string;
+  password: string;
+}
+
+/**
+ * API request for updating the signed-in account
+ */
+export interface ApiAccountUpdateRequest {
+  name: string;
+}
@@ -0,0 +1,74 @@
+/**
+ * Catalogue Transfer Types
+ * Types for bulk catalogue import and export
+ */
+
+/**
+ * Catalogue entities that can be imported and exported
+ */
+export const CATALOG_ENTITIES = ['games', 'providers', 'tags'] as const;
+
+export type CatalogEntity = typeof CATALOG_ENTITIES[number];
+
+/**
+ * Supported file formats
+ */
+export const CATALOG_FORMATS = ['csv', 'json'] as const;
+
+export type CatalogFormat = typeof CATALOG_FORMATS[number];
+
+/**
+ * Provider row in an import or export file
+ */
+export interface ApiProviderRecord {
+  id?: string;
+  name?: string;
+  logo?: string;
+  description?: string;
+  website?: string;
+}
+
+/**
+ * Tag catalogue row in an import or export file
+ */
+export interface ApiTagRecord {
+  id?: string;
+  name?: string;
+  category?: string;
+}
+
+/**
+ * A field that failed validation in an import row
+ */
+export interface ApiCatalogImportError {
+  field: string;
+  value?: unknown;
+  constraints: string[];
+}
+
+/**
+ * Outcome of a single import row (rows are numbered from 1, excluding the CSV header)
+ */
+export interface ApiCatalogImportRow {
+  row: number;
+  id?: string;
+  action: 'create' | 'update' | 'invalid';
+  errors: ApiCatalogImportError[];
+}
+
+/**
+ * Import validation report
+ * Imports are all-or-nothing: nothing is written unless every row is valid
+ */
+export interface ApiCatalogImportReport {
+  entity: CatalogEntity;
+  format: CatalogFormat;
+  dryRun: boolean;
+  /** True when the rows were written */
+  applied: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  invalid: number;
+  rows: ApiCatalogImportRow[];
+}
@@ -3,6 +3,17 @@
  * Backend-specific types for favorites
  */
 
+import type { ApiProviderResponse } from './providerTypes';
+import type { ApiTagResponse } from './tagTypes';
+
+/**
+ * Kinds of items a visitor can favorite
+ * Providers and tags are "followed" in the UI
+ */
+export const FAVORITE_ITEM_TYPES = ['game', 'provider', 'tag'] as const;
+
+export type FavoriteItemType = typeof FAVORITE_ITEM_TYPES[number];
+
 /**
  * API response for a single favorite operation
  */
@@ -46,12 +57,125 @@ export interface ApiFavoritesSyncRequest {
   overwrite?: boolean;
 }
 
+/**
+ * API response for following/unfollowing a provider
+ */
+export interface ApiFavoriteProviderResponse {
+  providerId: string;
+  isFavorite: boolean;
+  timestamp?: string;
+}
+
+/**
+ * API response for followed providers (in the order they were followed)
+ */
+export interface ApiFavoriteProvidersListResponse {
+  providerIds: string[];
+  providers: ApiProviderResponse[];
+  count: number;
+}
+
+/**
+ * API request for following/unfollowing a provider
+ */
+export interface ApiFavoriteProviderToggleRequest {
+  providerId: string;
+  action?: 'add' | 'remove' | 'toggle';
+}
+
+/**
+ * API response for following/unfollowing a tag
+ */
+export interface ApiFavoriteTagResponse {
+  tagId: string;
+  isFavorite: boolean;
+  timestamp?: string;
+}
+
+/**
+ * API response for followed tags (in the order they were followed)
+ */
+export interface ApiFavoriteTagsListResponse {
+  tagIds: string[];
+  tags: ApiTagResponse[];
+  count: number;
+}
+
+/**
+ * API request for following/unfollowing a tag
+ */
+export interface ApiFavoriteTagToggleRequest {
+  tagId: string;
+  action?: 'add' | 'remove' | 'toggle';
+}
+
+/**
+ * API response for a favorite collection
+ */
+export interface ApiFavoriteCollectionResponse {
+  id: string;
+  name: string;
+  gameIds: string[];
+  gameCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * API response for the collections list (in display order)
+ */
+export interface ApiFavoriteCollectionsListResponse {
+  collections: ApiFavoriteCollectionResponse[];
+  count: number;
+}
+
+/**
+ * API response for adding/removing a game in a collection
+ */
+export interface ApiCollectionGameResponse {
+  collectionId: string;
+  gameId: string;
+  inCollection: boolean;
+  collection: ApiFavoriteCollectionResponse;
+}
+
+/**
+ * API request for creating a collection
+ */
+export interface ApiFavoriteCollectionCreateRequest {
+  name: string;
+  gameIds?: string[];
+}
+
+/**
+ * API request for renaming a collection or replacing its games
+ */
+export interface ApiFavoriteCollectionUpdateRequest {
+  name?: string;
+  gameIds?: string[];
+}
+
+/**
+ * API request for reordering collections
+ */
+export interface ApiFavoriteCollectionsReorderRequest {
+  collectionIds: string[];
+}
+
+/**
+ * API request for adding/removing a game in a collection
+ */
+export interface ApiCollectionGameRequest {
+  gameId: string;
+  action?: 'add' | 'remove' | 'toggle';
+}
+
 /**
  * Internal favorite entity
  */
 export interface FavoriteEntity {
   id: string;
-  type: 'game' | 'provider' | 'tag';
+  type: FavoriteItemType;
   userId: string;
   timestamp: Date;
 }
\ No newline at end of file
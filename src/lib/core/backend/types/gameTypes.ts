@@ -5,6 +5,7 @@
 
 import { GAME_TYPES } from '@/lib/core/config/constants/app.constants';
 import type { ApiProviderResponse as ApiProvider } from './providerTypes';
+import type { FilterFacets } from '@/lib/core/shared/types/filters';
 
 // Game type definition from constants
 export type GameType = typeof GAME_TYPES[number];
@@ -39,29 +40,40 @@ export interface ApiGameResponse {
   releaseDate?: string;
   rtp?: number;
   rating?: number;
+  ratingCount?: number;
   maxWin?: number;
   minBet?: number;
   maxBet?: number;
+  relevance?: number;
   createdAt?: string;
   updatedAt?: string;
 }
 
 /**
  * API Game Request format
- * What we send to the backend API
+ * Body of the admin create (POST) and edit (PATCH) endpoints
+ * title, providerId, type and thumbnail are required on create; id and slug are derived when omitted
+ * Favorite state is per visitor and the rating comes from players, so neither can be set here
  */
 export interface ApiGameRequest {
+  id?: string;
   title?: string;
+  slug?: string;
   type?: GameType;
   tags?: string[];
   providerId?: string;
   thumbnail?: string;
-  rating?: number;
+  description?: string;
   isNew?: boolean;
   isHot?: boolean;
   isOnSale?: boolean;
-  isFavorite?: boolean;
   isComingSoon?: boolean;
+  playCount?: number;
+  releaseDate?: string;
+  rtp?: number;
+  maxWin?: number;
+  minBet?: number;
+  maxBet?: number;
 }
 
 /**
@@ -79,6 +91,7 @@ export interface ApiGamesResponse {
     providers?: ApiProvider[];
     types?: GameType[];
     tags?: string[];
+    facets?: FilterFacets;
   };
 }
 
@@ -5,4 +5,11 @@
 
 export * from './gameTypes';
 export * from './providerTypes';
-export * from './tagTypes';
\ No newline at end of file
+export * from './tagTypes';
+export * from './catalogTypes';
+export * from './reviewTypes';
+export * from './playTypes';
+export * from './trendingTypes';
+export * from './recentTypes';
+export * from './searchTypes';
+export * from './authTypes';
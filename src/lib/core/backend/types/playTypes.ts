@@ -0,0 +1,19 @@
+/**
+ * Play Types
+ * Backend-specific types for play tracking
+ */
+
+/**
+ * API response for recording a play
+ */
+export interface ApiPlayResponse {
+  gameId: string;
+  /** All-time play count, including this play */
+  playCount: number;
+  /** Plays in the last hour, day and week */
+  lastHour: number;
+  lastDay: number;
+  lastWeek: number;
+  /** Recency-weighted plays used by the trending sort */
+  trendingScore: number;
+}
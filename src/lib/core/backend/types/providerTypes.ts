@@ -3,6 +3,8 @@
  * Types for provider API requests and responses
  */
 
+import type { ApiGameResponse } from './gameTypes';
+
 /**
  * API Provider Response format
  * What the backend API returns
@@ -21,6 +23,14 @@ export interface ApiProviderResponse {
   updatedAt?: string;
 }
 
+/**
+ * API Provider detail response
+ * Single provider, optionally with its games (includeGames=true)
+ */
+export interface ApiProviderDetailResponse extends ApiProviderResponse {
+  games?: ApiGameResponse[];
+}
+
 /**
  * API Provider Request format
  * What we send to the backend API
@@ -0,0 +1,29 @@
+/**
+ * Recently Played Types
+ * Backend-specific types for the recently played history
+ */
+
+import type { ApiGameResponse } from './gameTypes';
+
+/**
+ * An entry of the recently played history
+ */
+export interface ApiRecentGameResponse {
+  game: ApiGameResponse;
+  /** When the game was last launched, null when the history was sent by the client */
+  playedAt: string | null;
+}
+
+/**
+ * API response for the recently played history, most recent first
+ */
+export interface ApiRecentlyPlayedResponse {
+  entries: ApiRecentGameResponse[];
+}
+
+/**
+ * API request for merging a guest's local history into the stored one
+ */
+export interface ApiRecentlyPlayedMergeRequest {
+  entries: Array<{ gameId: string; playedAt: string }>;
+}
@@ -0,0 +1,46 @@
+/**
+ * Review Types
+ * Backend-specific types for game reviews
+ */
+
+/**
+ * API response for a review
+ * Authors are anonymous, isOwn marks the requesting visitor's review
+ */
+export interface ApiReviewResponse {
+  id: string;
+  gameId: string;
+  rating: number;
+  text?: string;
+  isOwn: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Rating aggregate of a game
+ */
+export interface ApiReviewSummary {
+  gameId: string;
+  rating?: number;
+  ratingCount: number;
+  /** The requesting visitor's review, if any */
+  ownReview: ApiReviewResponse | null;
+}
+
+/**
+ * API response for submitting a review
+ */
+export interface ApiReviewSubmitResponse extends ApiReviewSummary {
+  review: ApiReviewResponse;
+  /** False when the visitor's earlier review was replaced */
+  created: boolean;
+}
+
+/**
+ * API request for creating or replacing the visitor's review
+ */
+export interface ApiReviewRequest {
+  rating: number;
+  text?: string;
+}
@@ -0,0 +1,40 @@
+/**
+ * Search Types
+ * Backend-specific types for search suggestions
+ */
+
+import type { PaginationMeta } from '@/lib/core/domain/models';
+import type { ApiGameResponse } from './gameTypes';
+import type { ApiProviderResponse } from './providerTypes';
+import type { ApiTagResponse } from './tagTypes';
+
+/**
+ * API response for search suggestions, grouped by kind
+ */
+export interface ApiSearchSuggestionsResponse {
+  query: string;
+  games: ApiGameResponse[];
+  providers: ApiProviderResponse[];
+  tags: ApiTagResponse[];
+  /** The query with its last word completed */
+  completions: string[];
+}
+
+/**
+ * One page of a search result group
+ */
+export interface ApiSearchResultGroup<T> {
+  items: T[];
+  pagination: PaginationMeta;
+}
+
+/**
+ * API response for multi-entity search results
+ * Groups left out by the requested type are omitted
+ */
+export interface ApiSearchResultsResponse {
+  query: string;
+  games?: ApiSearchResultGroup<ApiGameResponse>;
+  providers?: ApiSearchResultGroup<ApiProviderResponse>;
+  tags?: ApiSearchResultGroup<ApiTagResponse>;
+}
@@ -4,6 +4,7 @@
  */
 
 import type { TagCategory } from "@/lib/core/shared/types";
+import type { ApiGameResponse } from './gameTypes';
 
 /**
  * API Tag Response format
@@ -16,12 +17,20 @@ export interface ApiTagResponse {
   count: number;
   category?: TagCategory;
   featured?: boolean;
-  games?: string[];
-  relatedTags?: string[];
   createdAt?: string;
   updatedAt?: string;
 }
 
+/**
+ * API Tag detail response
+ * Single tag, optionally with its games (includeGames=true)
+ * and co-occurring tags (includeRelated=true)
+ */
+export interface ApiTagDetailResponse extends ApiTagResponse {
+  games?: ApiGameResponse[];
+  relatedTags?: ApiTagResponse[];
+}
+
 /**
  * API Tag Request format
  * What we send to the backend API
@@ -53,10 +62,14 @@ export interface ApiTagsResponse {
  */
 export interface ApiTagStatsResponse {
   totalTags: number;
-  totalGames: number;
+  totalGamesWithTags: number;
+  averageTagsPerGame: number;
+  topTags: Array<{
+    tag: ApiTagResponse;
+    gameCount: number;
+    percentage: number;
+  }>;
   categoryCounts: Record<TagCategory, number>;
-  popularTags: ApiTagResponse[];
-  recentTags: ApiTagResponse[];
 }
 
 /**
@@ -72,4 +85,5 @@ export interface TagsQueryParams {
   pageSize?: number;
   includeGames?: boolean;
   includeRelated?: boolean;
+  relatedLimit?: number;
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+/**
+ * Trending Types
+ * Backend-specific types for the trending rankings
+ */
+
+import type { GameType } from '@/lib/core/domain/entities';
+import type { ApiGameResponse } from './gameTypes';
+import type { ApiProviderResponse } from './providerTypes';
+import type { ApiTagResponse } from './tagTypes';
+
+/**
+ * Position of a ranked item
+ */
+export interface ApiTrendingRank {
+  rank: number;
+  /** Rank in the compared snapshot, null when the item was not ranked there */
+  previousRank: number | null;
+  score: number;
+}
+
+/**
+ * A ranked game with the plays and favorites behind its score
+ */
+export interface ApiTrendingGame extends ApiTrendingRank {
+  game: ApiGameResponse;
+  plays: number;
+  favorites: number;
+}
+
+export interface ApiTrendingTag extends ApiTrendingRank {
+  tag: ApiTagResponse;
+}
+
+export interface ApiTrendingProvider extends ApiTrendingRank {
+  provider: ApiProviderResponse;
+}
+
+/**
+ * API response for the trending rankings
+ */
+export interface ApiTrendingResponse {
+  today: ApiTrendingGame[];
+  week: ApiTrendingGame[];
+  rising: ApiTrendingGame[];
+  byType: Array<{ type: GameType; games: ApiTrendingGame[] }>;
+  tags: ApiTrendingTag[];
+  providers: ApiTrendingProvider[];
+  generatedAt: string;
+  /** When the snapshot rank changes compare against was taken */
+  comparedTo: string | null;
+}
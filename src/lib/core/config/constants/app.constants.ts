@@ -14,6 +14,7 @@ export const APP_DESCRIPTION = 'A thoughtfully designed gaming platform showcase
  * API configuration
  */
 export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || '';
+export const SITE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://redgame.dev'; // Origin for server-side requests
 export const API_TIMEOUT = 30000; // 30 seconds
 export const API_RETRY_ATTEMPTS = 3;
 export const API_RETRY_DELAY = 1000; // 1 second
@@ -38,6 +39,15 @@ export const CACHE_TTL = {
   VERY_LONG: 60 * 60 * 1000 // 1 hour
 } as const;
 
+/**
+ * Backend cache bounds (override with CACHE_MAX_ENTRIES / CACHE_MAX_BYTES, 0 disables a bound)
+ * Least recently used entries are evicted once either bound is exceeded
+ */
+export const CACHE_LIMITS = {
+  MAX_ENTRIES: 1000,
+  MAX_BYTES: 50 * 1024 * 1024 // 50 MB (estimated from serialized size)
+} as const;
+
 /**
  * Local storage keys
  */
@@ -57,6 +67,35 @@ export const SESSION_KEYS = {
   SCROLL_POSITION: 'game-library-scroll-position'
 } as const;
 
+/**
+ * Cookie names
+ */
+export const COOKIE_KEYS = {
+  VISITOR: 'game-library-visitor',
+  CHAOS: 'game-library-chaos',
+  SESSION: 'game-library-session'
+} as const;
+
+/**
+ * Visitor cookie lifetime in seconds (1 year)
+ */
+export const VISITOR_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Signed-in session lifetime in seconds (30 minutes), slid forward by activity in any tab
+ */
+export const SESSION_MAX_AGE = 60 * 30;
+
+/**
+ * Lifetime in seconds of sessions signed in with "remember me" (30 days)
+ */
+export const SESSION_REMEMBER_MAX_AGE = 60 * 60 * 24 * 30;
+
+/**
+ * How often an active tab refreshes the session, in milliseconds (5 minutes)
+ */
+export const SESSION_REFRESH_INTERVAL = 5 * 60 * 1000;
+
 /**
  * Game types
  */
@@ -77,17 +116,72 @@ export const GAME_TYPE_CONFIG = [
  * Sort options
  */
 export const SORT_OPTIONS = [
+  { value: 'relevance', label: 'Best Match' },
   { value: 'popular', label: 'Most Popular' },
+  { value: 'trending', label: 'Trending' },
   { value: 'new', label: 'Newest First' },
   { value: 'az', label: 'A to Z' },
   { value: 'za', label: 'Z to A' },
-  { value: 'rating', label: 'Highest Rated' }
+  { value: 'rating', label: 'Highest Rated' },
+  { value: 'rtp', label: 'Highest RTP' }
 ] as const;
 
 /**
  * Game-specific sort options (just the values for type safety)
  */
-export const GAME_SORT_OPTIONS = ['popular', 'new', 'az', 'za', 'rating'] as const;
+export const GAME_SORT_OPTIONS = ['relevance', 'popular', 'trending', 'new', 'az', 'za', 'rating', 'rtp'] as const;
+
+/**
+ * Weight of the catalogue-wide average in the 'rating' sort (Bayesian average),
+ * expressed as a number of virtual ratings, so a few 5-star ratings don't outrank
+ * a game rated 4.6 by hundreds of players
+ */
+export const RATING_PRIOR_WEIGHT = 25;
+
+/**
+ * Rolling windows for play activity (in milliseconds)
+ * Play events older than the longest window are pruned
+ */
+export const PLAY_WINDOWS = {
+  HOUR: 60 * 60 * 1000,
+  DAY: 24 * 60 * 60 * 1000,
+  WEEK: 7 * 24 * 60 * 60 * 1000
+} as const;
+
+/**
+ * Half-life of a play in the trending score (12 hours):
+ * a play from 12 hours ago counts half as much as one from just now
+ */
+export const TRENDING_HALF_LIFE = 12 * 60 * 60 * 1000;
+
+/**
+ * Trending page rankings
+ * - FAVORITE_WEIGHT: a game added to favorites counts as this many plays
+ * - LIST_SIZE / TYPE_LIST_SIZE: entries per ranked list and per game type breakdown
+ * - SNAPSHOT_INTERVAL: how often rankings are snapshotted; rank changes compare
+ *   against the latest snapshot at least this old
+ */
+export const TRENDING_CONFIG = {
+  FAVORITE_WEIGHT: 3,
+  LIST_SIZE: 10,
+  TYPE_LIST_SIZE: 5,
+  SNAPSHOT_INTERVAL: 60 * 60 * 1000
+} as const;
+
+/**
+ * Number of search suggestions per group
+ */
+export const SEARCH_SUGGESTION_LIMITS = {
+  GAMES: 5,
+  PROVIDERS: 3,
+  TAGS: 3,
+  COMPLETIONS: 3
+} as const;
+
+/**
+ * Results per group on a page of multi-entity search results
+ */
+export const SEARCH_RESULTS_PAGE_SIZE = 8;
 
 /**
  * View modes
@@ -106,6 +200,81 @@ export const RTP_PRESETS = [
   { label: 'High (98%+)', min: 98, max: undefined }
 ] as const;
 
+/**
+ * Numeric range filters: query parameter names, slider bounds and quick presets
+ * A range left at its slider bounds is not applied
+ */
+export const RANGE_FILTERS = [
+  {
+    name: 'rtp',
+    minParam: 'minRtp',
+    maxParam: 'maxRtp',
+    label: 'RTP Range (%)',
+    min: 0,
+    max: 100,
+    step: 0.1,
+    suffix: '%',
+    presets: []
+  },
+  {
+    name: 'rating',
+    minParam: 'minRating',
+    maxParam: 'maxRating',
+    label: 'Player Rating',
+    min: 0,
+    max: 5,
+    step: 0.1,
+    suffix: '★',
+    presets: [
+      { label: '3+ stars', min: 3, max: 5 },
+      { label: '4+ stars', min: 4, max: 5 }
+    ]
+  },
+  {
+    name: 'maxWin',
+    minParam: 'minMaxWin',
+    maxParam: 'maxMaxWin',
+    label: 'Max Win (x stake)',
+    min: 0,
+    max: 50000,
+    step: 500,
+    suffix: 'x',
+    presets: [
+      { label: 'Up to 1,000x', min: 0, max: 1000 },
+      { label: '5,000x+', min: 5000, max: 50000 },
+      { label: '25,000x+', min: 25000, max: 50000 }
+    ]
+  },
+  {
+    name: 'bet',
+    minParam: 'minBet',
+    maxParam: 'maxBet',
+    label: 'Bet Range',
+    min: 0,
+    max: 1000,
+    step: 0.1,
+    suffix: '',
+    presets: [
+      { label: 'Low stakes (0.20 or less)', min: 0, max: 0.2 },
+      { label: 'Under 1', min: 0, max: 1 },
+      { label: 'High rollers (500+)', min: 500, max: 1000 }
+    ]
+  }
+] as const;
+
+/**
+ * Query parameter names of every range filter bound
+ */
+export const RANGE_FILTER_KEYS = RANGE_FILTERS.flatMap(filter => [filter.minParam, filter.maxParam]);
+
+/**
+ * Tag filter match modes
+ */
+export const TAG_MATCH_MODES = [
+  { value: 'any', label: 'Any' },
+  { value: 'all', label: 'All' }
+] as const;
+
 /**
  * Game-specific view modes (same as VIEW_MODES but explicit for games feature)
  */
@@ -138,6 +307,34 @@ export const API_DELAYS = {
   CACHE_TIME: 10 * 60 * 1000,  // 10 minutes (gcTime in React Query v5)
 } as const;
 
+/**
+ * Mock API latency profiles for fault injection
+ * 'default' keeps the API_DELAYS ranges; a profile may also carry its own failure rates
+ */
+export const LATENCY_PROFILES = {
+  default: { label: 'Default' },
+  fast: { label: 'No latency', minDelay: 0, maxDelay: 0 },
+  '4g': { label: '4G', minDelay: 50, maxDelay: 250 },
+  '3g': { label: '3G', minDelay: 800, maxDelay: 2000 },
+  'slow-3g': { label: 'Slow 3G', minDelay: 2000, maxDelay: 5000 },
+  flaky: { label: 'Flaky', minDelay: 100, maxDelay: 4000, errorRate: 0.2, timeoutRate: 0.05 }
+} as const satisfies Record<string, {
+  label: string;
+  minDelay?: number;
+  maxDelay?: number;
+  errorRate?: number;
+  timeoutRate?: number;
+}>;
+
+/**
+ * Fault injection settings
+ * Injected timeouts wait past API_TIMEOUT so the client gives up first
+ */
+export const CHAOS_CONFIG = {
+  HEADER: 'x-mock-chaos',
+  TIMEOUT_MARGIN: 5000
+} as const;
+
 /**
  * UI interaction delays (in milliseconds)
  */
@@ -99,6 +99,7 @@ export const ROUTE_VARIANTS = {
   GAMES_WITH_FAVORITES: `${ROUTES.GAMES}?favorites=true`,
   GAMES_NEW: `${ROUTES.GAMES}?new=true`,
   GAMES_HOT: `${ROUTES.GAMES}?hot=true`,
+  GAMES_RECENT: `${ROUTES.GAMES}?recent=true`,
   GAMES_SLOTS: `${ROUTES.GAMES}?types=slots`,
   GAMES_LIVE: `${ROUTES.GAMES}?types=live`,
   GAMES_TABLE: `${ROUTES.GAMES}?types=table`,
@@ -208,14 +209,6 @@ export const ROUTE_CONFIGS: Record<RouteValue, RouteConfig> = {
     label: 'Trending',
     icon: <Trophy className="w-4 h-4" />,
     description: 'See what\'s trending',
-    comingSoon: true,
-    comingSoonConfig: {
-      title: 'Trending Games',
-      description: 'Discover what everyone is playing. This feature is being crafted.',
-      icon: <Trophy className="w-16 h-16" />,
-      gradientFrom: '#f093fb',
-      gradientTo: '#f5576c'
-    },
   },
   [ROUTES.CONTACT]: {
     path: ROUTES.CONTACT,
@@ -362,28 +355,12 @@ export const ROUTE_CONFIGS: Record<RouteValue, RouteConfig> = {
     label: 'Sign In',
     icon: <LogIn className="w-4 h-4" />,
     description: 'Sign in to your account',
-    comingSoon: true,
-    comingSoonConfig: {
-      title: 'Sign In',
-      description: 'Login to access your account, track progress, and unlock exclusive features.',
-      icon: <LogIn className="w-16 h-16" />,
-      gradientFrom: '#667eea',
-      gradientTo: '#764ba2'
-    },
   },
   [ROUTES.REGISTER]: {
     path: ROUTES.REGISTER,
     label: 'Create Account',
     icon: <UserPlus className="w-4 h-4" />,
     description: 'Create a new account',
-    comingSoon: true,
-    comingSoonConfig: {
-      title: 'Create Account',
-      description: 'Join The Game Library and start your gaming adventure with exclusive welcome bonuses.',
-      icon: <UserPlus className="w-16 h-16" />,
-      gradientFrom: '#a1c4fd',
-      gradientTo: '#c2e9fb'
-    },
   },
   [ROUTES.FAQ]: {
     path: ROUTES.FAQ,
@@ -443,6 +420,7 @@ export const NAVIGATION_ITEMS: NavigationItem[] = [
     label: ROUTE_CONFIGS[ROUTES.VIP].label,
     href: ROUTES.VIP,
     icon: ROUTE_CONFIGS[ROUTES.VIP].icon,
+    requiresAuth: ROUTE_CONFIGS[ROUTES.VIP].requiresAuth,
     badge: 'Soon',
     badgeIcon: <Sparkles className="w-3 h-3" />,
     badgeVariant: 'primary',
@@ -519,4 +497,51 @@ export function getRouteMetaConfig(path: string): RouteConfig | undefined {
 export function getComingSoonConfig(path: string): RouteConfig['comingSoonConfig'] | undefined {
   const config = getRouteConfig(path);
   return config?.comingSoonConfig;
-}
\ No newline at end of file
+}
+
+/**
+ * Paths that need a signed-in user (RouteConfig.requiresAuth)
+ */
+export const PROTECTED_ROUTES: string[] = Object.values(ROUTE_CONFIGS)
+  .filter(config => config.requiresAuth)
+  .map(config => config.path);
+
+/**
+ * Check whether a path needs a signed-in user, nested paths included (e.g. /profile/edit)
+ */
+export function isProtectedRoute(pathname: string): boolean {
+  return PROTECTED_ROUTES.some(path => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+/**
+ * Validate a return URL from the query string
+ * Only paths on this site are allowed, so a crafted sign-in link cannot send users elsewhere
+ * (`//evil.com`, `/\evil.com` and absolute URLs fall back). The auth pages themselves also fall back
+ */
+export function getSafeReturnTo(value: string | null | undefined, fallback: string = ROUTES.HOME): string {
+  if (!value || !value.startsWith('/') || /[\\\u0000-\u001F]/.test(value)) {
+    return fallback;
+  }
+
+  const base = 'http://localhost';
+  let url: URL;
+  try {
+    url = new URL(value, base);
+  } catch {
+    return fallback;
+  }
+
+  if (url.origin !== base || url.pathname === ROUTES.LOGIN || url.pathname === ROUTES.REGISTER) {
+    return fallback;
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * Get the sign-in page, returning to the given path afterwards
+ */
+export function getLoginRoute(returnTo?: string): string {
+  const target = getSafeReturnTo(returnTo, '');
+  return target ? `${ROUTES.LOGIN}?returnTo=${encodeURIComponent(target)}` : ROUTES.LOGIN;
+}
@@ -5,6 +5,8 @@
 
 import type { Metadata } from 'next';
 import { ROUTES, ROUTE_CONFIGS, type RouteValue } from './constants/routes.constants';
+import type { Game } from '@/lib/core/domain/entities';
+import { getGameTypeDisplayName } from '@/lib/core/domain/entities';
 
 // Base URL for the site
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://redgame.dev';
@@ -312,25 +314,49 @@ export const pageMetadata: Record<RouteValue, Metadata> = {
   },
 };
 
+/**
+ * Get the canonical URL for a game page
+ */
+export function getGameUrl(gameSlug: string): string {
+  return `${BASE_URL}${ROUTES.GAMES}/${gameSlug}`;
+}
+
 /**
  * Generate dynamic metadata for game pages
  */
-export function generateGameMetadata(gameSlug: string, gameTitle: string, gameDescription?: string): Metadata {
+export function generateGameMetadata(game: Game): Metadata {
+  const url = getGameUrl(game.slug);
+  const typeName = getGameTypeDisplayName(game.type);
+  const description = game.description || 
+    `Play ${game.title}, a ${typeName.toLowerCase()} game by ${game.provider.name}, at The Game Library. Instant crypto payments, provably fair gaming, and exclusive bonuses.`;
+  const images = game.thumbnail 
+    ? [{ url: game.thumbnail, alt: game.title }]
+    : defaultMetadata.openGraph?.images;
+
   return {
     ...defaultMetadata,
-    title: `${gameTitle} - Play Now`,
-    description: gameDescription || `Play ${gameTitle} at The Game Library. Instant crypto payments, provably fair gaming, and exclusive bonuses.`,
+    title: `${game.title} - Play Now`,
+    description,
+    keywords: [game.title, game.provider.name, typeName, ...(game.tags || [])],
+    alternates: {
+      canonical: url,
+    },
     openGraph: {
       ...defaultMetadata.openGraph,
-      title: `${gameTitle} | The Game Library`,
-      description: gameDescription || `Play ${gameTitle} with crypto. Join now for exclusive bonuses and instant payouts.`,
-      url: `${BASE_URL}${ROUTES.GAMES}/${gameSlug}`,
+      title: `${game.title} | The Game Library`,
+      description,
+      url,
+      images,
     },
     twitter: {
       ...defaultMetadata.twitter,
-      title: `${gameTitle} | The Game Library`,
-      description: gameDescription || `Play ${gameTitle} with crypto at The Game Library.`,
+      title: `${game.title} | The Game Library`,
+      description: `Play ${game.title} by ${game.provider.name} with crypto at The Game Library.`,
+      images: game.thumbnail ? [game.thumbnail] : defaultMetadata.twitter?.images,
     },
+    robots: game.isComingSoon
+      ? { index: false, follow: true }
+      : defaultMetadata.robots,
   };
 }
 
@@ -414,6 +440,41 @@ export const jsonLdData = {
     })),
   }),
   
+  // Game schema (dynamic per game page)
+  generateGame: (game: Game) => ({
+    '@context': 'https://schema.org',
+    '@type': 'VideoGame',
+    name: game.title,
+    url: getGameUrl(game.slug),
+    image: game.thumbnail,
+    description: game.description || `${game.title} by ${game.provider.name}`,
+    genre: getGameTypeDisplayName(game.type),
+    keywords: game.tags?.join(', '),
+    publisher: {
+      '@type': 'Organization',
+      name: game.provider.name,
+    },
+    ...(game.releaseDate && { datePublished: game.releaseDate }),
+    gamePlatform: 'Web Browser',
+    applicationCategory: 'GameApplication',
+    operatingSystem: 'Web Browser',
+    ...(game.playCount && {
+      interactionStatistic: {
+        '@type': 'InteractionCounter',
+        interactionType: 'https://schema.org/PlayAction',
+        userInteractionCount: game.playCount,
+      },
+    }),
+    offers: {
+      '@type': 'Offer',
+      price: '0',
+      priceCurrency: 'USD',
+      availability: game.isComingSoon 
+        ? 'https://schema.org/PreOrder' 
+        : 'https://schema.org/InStock',
+    },
+  }),
+  
   // FAQ schema for FAQ page
   faqPage: {
     '@context': 'https://schema.org',
@@ -447,11 +508,19 @@ export const jsonLdData = {
   },
 };
 
+/**
+ * Serialize structured data for an inline script
+ * `<` is escaped so text such as a game title containing `</script>` cannot close the tag
+ */
+export function serializeJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
 /**
  * Generate JSON-LD script tag for structured data
  */
 export function generateJsonLdScript(data: Record<string, unknown>): string {
-  return `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+  return `<script type="application/ld+json">${serializeJsonLd(data)}</script>`;
 }
 
 /**
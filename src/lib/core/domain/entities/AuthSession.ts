@@ -0,0 +1,50 @@
+/**
+ * Auth Session Entity
+ * A signed-in browser session, identified by the token in the session cookie
+ */
+
+/**
+ * Auth session interface
+ * Only a hash of the cookie token is stored, so a leaked store cannot be replayed as cookies
+ * Expiry slides: every refresh moves expiresAt a full lifetime ahead
+ */
+export interface AuthSession {
+  /** SHA-256 hash of the session token */
+  id: string;
+  userId: string;
+  /** Signed in with "remember me", for a longer lifetime and a persistent cookie */
+  remember: boolean;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Factory function to create an AuthSession entity
+ */
+export function createAuthSession(params: {
+  id: string;
+  userId: string;
+  /** Lifetime in milliseconds */
+  maxAge: number;
+  remember?: boolean;
+}): AuthSession {
+  const now = Date.now();
+
+  return {
+    id: params.id,
+    userId: params.userId,
+    remember: params.remember ?? false,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + params.maxAge).toISOString()
+  };
+}
+
+/**
+ * Slide a session's expiry a full lifetime ahead of now
+ */
+export function extendAuthSession(session: AuthSession, maxAge: number): AuthSession {
+  return {
+    ...session,
+    expiresAt: new Date(Date.now() + maxAge).toISOString()
+  };
+}
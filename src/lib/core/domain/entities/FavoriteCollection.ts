@@ -0,0 +1,41 @@
+/**
+ * Favorite Collection Entity
+ * A named, ordered list of favorite games (e.g. "Weekend slots")
+ * A game can belong to several collections
+ */
+
+/**
+ * Maximum length of a collection name
+ */
+export const FAVORITE_COLLECTION_NAME_MAX_LENGTH = 50;
+
+/**
+ * Favorite collection interface
+ * Timestamps are ISO strings so collections serialize as-is to storage and the API
+ */
+export interface FavoriteCollection {
+  id: string;
+  name: string;
+  gameIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Factory function to create a FavoriteCollection entity
+ */
+export function createFavoriteCollection(params: {
+  id: string;
+  name: string;
+  gameIds?: string[];
+}): FavoriteCollection {
+  const now = new Date().toISOString();
+  
+  return {
+    id: params.id,
+    name: params.name.trim(),
+    gameIds: Array.from(new Set(params.gameIds || [])),
+    createdAt: now,
+    updatedAt: now
+  };
+}
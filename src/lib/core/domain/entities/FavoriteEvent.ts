@@ -0,0 +1,30 @@
+/**
+ * Favorite Event Entity
+ * A game being added to someone's favorites, recorded for trending rankings
+ */
+
+/**
+ * Favorite event interface
+ * Timestamps are ISO strings so events serialize as-is to storage
+ */
+export interface FavoriteEvent {
+  gameId: string;
+  /** Owner key of the favorites owner (never exposed by the API) */
+  ownerId: string;
+  favoritedAt: string;
+}
+
+/**
+ * Factory function to create a FavoriteEvent entity
+ */
+export function createFavoriteEvent(params: {
+  gameId: string;
+  ownerId: string;
+  favoritedAt?: string;
+}): FavoriteEvent {
+  return {
+    gameId: params.gameId,
+    ownerId: params.ownerId,
+    favoritedAt: params.favoritedAt ?? new Date().toISOString()
+  };
+}
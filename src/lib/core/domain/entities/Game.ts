@@ -39,6 +39,12 @@ export interface Game {
   playCount?: number;
   releaseDate?: string;
   rtp?: number; // Return to Player percentage
+  rating?: number; // Average player rating (0-5)
+  ratingCount?: number; // Number of player ratings behind the average
+  ratingTotal?: number; // Unrounded sum of the ratings, so the rounded average never drifts
+  maxWin?: number; // Maximum win as a multiple of the stake
+  minBet?: number;
+  maxBet?: number;
   
   // Timestamps (for future use)
   createdAt?: Date;
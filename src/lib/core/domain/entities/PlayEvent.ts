@@ -0,0 +1,41 @@
+/**
+ * Play Event Entity
+ * A single launch of a game, recorded for live play counts and trending rankings
+ */
+
+/**
+ * Play event interface
+ * Timestamps are ISO strings so events serialize as-is to storage
+ */
+export interface PlayEvent {
+  gameId: string;
+  /** Owner key of the player (never exposed by the API) */
+  ownerId: string;
+  playedAt: string;
+}
+
+/**
+ * A game's play activity over the rolling windows
+ */
+export interface PlayActivity {
+  lastHour: number;
+  lastDay: number;
+  lastWeek: number;
+  /** Plays weighted by recency, each halving in weight every TRENDING_HALF_LIFE */
+  trendingScore: number;
+}
+
+/**
+ * Factory function to create a PlayEvent entity
+ */
+export function createPlayEvent(params: {
+  gameId: string;
+  ownerId: string;
+  playedAt?: string;
+}): PlayEvent {
+  return {
+    gameId: params.gameId,
+    ownerId: params.ownerId,
+    playedAt: params.playedAt ?? new Date().toISOString()
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Recent Game Entity
+ * An entry of a visitor's recently played history
+ */
+
+/**
+ * Recently played entry
+ * One entry per game, moved to the front of the history each time the game is launched
+ */
+export interface RecentGame {
+  gameId: string;
+  /** When the game was last launched (ISO timestamp) */
+  playedAt: string;
+}
+
+/**
+ * Factory function to create a RecentGame entity
+ */
+export function createRecentGame(params: {
+  gameId: string;
+  playedAt?: string;
+}): RecentGame {
+  return {
+    gameId: params.gameId,
+    playedAt: params.playedAt ?? new Date().toISOString()
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Review Entity
+ * A visitor's star rating of a game, with optional text
+ * Each visitor has at most one review per game, later submissions replace it
+ */
+
+/**
+ * Lowest and highest star rating
+ */
+export const REVIEW_RATING_MIN = 1;
+export const REVIEW_RATING_MAX = 5;
+
+/**
+ * Maximum length of a review text
+ */
+export const REVIEW_TEXT_MAX_LENGTH = 1000;
+
+/**
+ * Review interface
+ * Timestamps are ISO strings so reviews serialize as-is to storage and the API
+ */
+export interface Review {
+  id: string;
+  gameId: string;
+  /** Owner key of the author (never exposed by the API) */
+  ownerId: string;
+  rating: number;
+  text?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Review as shown to visitors, where the author is only identified as "you"
+ */
+export interface GameReview extends Omit<Review, 'ownerId'> {
+  isOwn: boolean;
+}
+
+/**
+ * Factory function to create a Review entity
+ */
+export function createReview(params: {
+  id: string;
+  gameId: string;
+  ownerId: string;
+  rating: number;
+  text?: string;
+}): Review {
+  const now = new Date().toISOString();
+  const text = params.text?.trim();
+
+  return {
+    id: params.id,
+    gameId: params.gameId,
+    ownerId: params.ownerId,
+    rating: params.rating,
+    text: text || undefined,
+    createdAt: now,
+    updatedAt: now
+  };
+}
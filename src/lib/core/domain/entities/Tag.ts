@@ -11,4 +11,14 @@ export interface Tag {
   name: string;
   slug: string;
   count?: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Entry of the curated tag catalogue
+ * Game tags must reference a catalogue entry by id
+ */
+export interface TagDefinition {
+  readonly id: string;
+  name: string;
+  category?: string;
+}
@@ -0,0 +1,13 @@
+/**
+ * Trending Snapshot Entity
+ * Trending rankings at a point in time, kept so rank changes can be shown
+ */
+
+/**
+ * Trending snapshot interface
+ */
+export interface TrendingSnapshot {
+  takenAt: string;
+  /** Ranked IDs per list, keyed like 'today', 'week', 'rising', 'type:slots', 'tags' or 'providers' */
+  rankings: Record<string, string[]>;
+}
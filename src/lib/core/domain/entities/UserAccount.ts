@@ -0,0 +1,53 @@
+/**
+ * User Account Entity
+ * A registered player who signs in with an email and password
+ */
+
+/**
+ * Display name and password length limits
+ */
+export const USER_NAME_MAX_LENGTH = 50;
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+/**
+ * Demo balance credited to new accounts
+ */
+export const USER_STARTING_BALANCE = 1000;
+
+/**
+ * User account interface
+ * Emails are stored lowercased so lookups are case-insensitive
+ */
+export interface UserAccount {
+  id: string;
+  email: string;
+  name: string;
+  /** Salted password hash (never exposed by the API) */
+  passwordHash: string;
+  balance: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Factory function to create a UserAccount entity
+ */
+export function createUserAccount(params: {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+}): UserAccount {
+  const now = new Date().toISOString();
+
+  return {
+    id: params.id,
+    email: params.email.trim().toLowerCase(),
+    name: params.name.trim(),
+    passwordHash: params.passwordHash,
+    balance: USER_STARTING_BALANCE,
+    createdAt: now,
+    updatedAt: now
+  };
+}
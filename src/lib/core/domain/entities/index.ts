@@ -5,4 +5,11 @@
 
 export * from './Game';
 export * from './Provider';
-export * from './Tag';
\ No newline at end of file
+export * from './Tag';export * from './FavoriteCollection';
+export * from './Review';
+export * from './PlayEvent';
+export * from './FavoriteEvent';
+export * from './TrendingSnapshot';
+export * from './RecentGame';
+export * from './UserAccount';
+export * from './AuthSession';
@@ -4,9 +4,9 @@
 
 import type { FilterQueryParams } from '@/lib/core/shared/types';
 import { parseFilterParams, buildFilterParams } from '@/lib/core/shared/utils';
-import { DEFAULT_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
+import { DEFAULT_PAGE_SIZE, RANGE_FILTER_KEYS } from '@/lib/core/config/constants/app.constants';
 
-export type SortOption = 'popular' | 'new' | 'az' | 'za' | 'rating';
+export type SortOption = 'relevance' | 'popular' | 'trending' | 'new' | 'az' | 'za' | 'rating' | 'rtp';
 export type SearchType = 'all' | 'games' | 'providers' | 'tags';
 
 /**
@@ -43,9 +43,12 @@ export function isSearchEmpty(criteria: FilterQueryParams): boolean {
     (!criteria.providers || criteria.providers.length === 0) &&
     (!criteria.types || criteria.types.length === 0) &&
     !criteria.favorites &&
+    !criteria.recent &&
     (!criteria.tags || criteria.tags.length === 0) &&
-    criteria.minRtp === undefined &&
-    criteria.maxRtp === undefined &&
+    !criteria.excludeProviders?.length &&
+    !criteria.excludeTypes?.length &&
+    !criteria.excludeTags?.length &&
+    RANGE_FILTER_KEYS.every(key => criteria[key] === undefined) &&
     !criteria.isNew &&
     !criteria.isHot &&
     !criteria.isComingSoon
@@ -0,0 +1,47 @@
+/**
+ * Auth API GET fetchers
+ * All GET request handlers for auth endpoints
+ */
+
+import type { ApiSuccessResponse } from '@/lib/core/shared/types';
+import type { ApiAuthSessionResponse } from '@/lib/core/backend/types/authTypes';
+import { apiClient } from '@/lib/core/frontend/api/client';
+import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
+import { ApiError } from '@/lib/core/shared/errors';
+import { ErrorCodes } from '@/lib/core/shared/errors/constants';
+
+/**
+ * Fetch the current session from the HTTP-only session cookie
+ * 
+ * @returns The signed-in user, or a null user for guests
+ * 
+ * @example
+ * ```typescript
+ * const { user } = await fetchSession();
+ * ```
+ */
+export async function fetchSession(): Promise<ApiAuthSessionResponse> {
+  try {
+    const result = await apiClient.get<ApiSuccessResponse<ApiAuthSessionResponse>>(
+      API_ENDPOINTS.AUTH.SESSION
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    return result.data;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to fetch session',
+      ErrorCodes.DATA_FETCH_ERROR
+    );
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Auth API mutation fetchers
+ * POST and PATCH request handlers for auth endpoints
+ */
+
+import type { ApiErrorResponse, ApiSuccessResponse } from '@/lib/core/shared/types';
+import type {
+  ApiAccountUpdateRequest,
+  ApiAuthSessionResponse,
+  ApiAuthUser,
+  ApiLoginRequest,
+  ApiRegisterRequest
+} from '@/lib/core/backend/types/authTypes';
+import { apiClient } from '@/lib/core/frontend/api/client';
+import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
+import { ApiError } from '@/lib/core/shared/errors';
+import { ErrorCodes } from '@/lib/core/shared/errors/constants';
+
+/**
+ * Rethrow with the server's message and details so forms can show them
+ * (e.g. "Invalid email or password" rather than the HTTP status text)
+ */
+function toAuthError(error: unknown, fallback: string): ApiError {
+  if (!(error instanceof ApiError)) {
+    return new ApiError(fallback, ErrorCodes.OPERATION_FAILED);
+  }
+
+  const body = error.details as Partial<ApiErrorResponse> | undefined;
+  return body?.error
+    ? new ApiError(body.error.message, body.error.code, error.statusCode, body.error.details)
+    : error;
+}
+
+async function postAuth<T>(url: string, body: T | undefined, fallback: string): Promise<ApiAuthSessionResponse> {
+  try {
+    const result = await apiClient.post<ApiSuccessResponse<ApiAuthSessionResponse>>(url, body);
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    return result.data;
+  } catch (error) {
+    throw toAuthError(error, fallback);
+  }
+}
+
+/**
+ * Sign in with email and password; the server sets the session cookie
+ * 
+ * @throws ApiError with code UNAUTHORIZED when the credentials do not match
+ * 
+ * @example
+ * ```typescript
+ * const { user } = await login({ email: 'ada@example.com', password: 'correct horse' });
+ * ```
+ */
+export async function login(credentials: ApiLoginRequest): Promise<ApiAuthSessionResponse> {
+  return postAuth(API_ENDPOINTS.AUTH.LOGIN, credentials, 'Failed to sign in');
+}
+
+/**
+ * Create an account and sign it in
+ * 
+ * @throws ApiError with code CONFLICT when the email is taken, or BAD_REQUEST listing violations
+ */
+export async function register(account: ApiRegisterRequest): Promise<ApiAuthSessionResponse> {
+  return postAuth(API_ENDPOINTS.AUTH.REGISTER, account, 'Failed to create account');
+}
+
+/**
+ * Slide the current session's expiry forward
+ * 
+ * @throws ApiError with code UNAUTHORIZED once the session has expired
+ */
+export async function refreshSession(): Promise<ApiAuthSessionResponse> {
+  return postAuth(API_ENDPOINTS.AUTH.REFRESH, undefined, 'Failed to refresh session');
+}
+
+/**
+ * End the current session and clear its cookie
+ */
+export async function logout(): Promise<ApiAuthSessionResponse> {
+  return postAuth(API_ENDPOINTS.AUTH.LOGOUT, undefined, 'Failed to sign out');
+}
+
+/**
+ * Update the signed-in user's account
+ * 
+ * @throws ApiError with code UNAUTHORIZED once signed out, or BAD_REQUEST listing violations
+ * 
+ * @example
+ * ```typescript
+ * const user = await updateAccount({ name: 'Ada' });
+ * ```
+ */
+export async function updateAccount(changes: ApiAccountUpdateRequest): Promise<ApiAuthUser> {
+  try {
+    const result = await apiClient.patch<ApiSuccessResponse<ApiAuthUser>>(API_ENDPOINTS.AUTH.ACCOUNT, changes);
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    return result.data;
+  } catch (error) {
+    throw toAuthError(error, 'Failed to update account');
+  }
+}
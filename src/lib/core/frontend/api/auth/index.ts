@@ -0,0 +1,7 @@
+/**
+ * Auth API exports
+ */
+
+// Fetchers
+export * from './fetchers/GET';
+export * from './fetchers/POST';
@@ -5,7 +5,7 @@
 
 import { ApiError, NetworkError, TimeoutError } from '@/lib/core/shared/errors';
 import { ErrorCodes } from '@/lib/core/shared/errors/constants';
-import { API_BASE_URL, API_TIMEOUT } from '@/lib/core/config/constants/app.constants';
+import { API_BASE_URL, API_TIMEOUT, SITE_URL } from '@/lib/core/config/constants/app.constants';
 
 export interface RequestOptions extends RequestInit {
   timeout?: number;
@@ -43,8 +43,8 @@ class ApiClient {
    * Build URL with query parameters
    */
   private buildURL(endpoint: string, params?: Record<string, string | string[] | number | boolean | undefined | null>): string {
-    // For relative URLs (starting with /), just use them directly
-    if (endpoint.startsWith('/') && !this.config.baseURL) {
+    // For relative URLs (starting with /), just use them directly in the browser
+    if (endpoint.startsWith('/') && !this.config.baseURL && typeof window !== 'undefined') {
       const url = new URLSearchParams();
       if (params) {
         Object.entries(params).forEach(([key, value]) => {
@@ -62,8 +62,8 @@ class ApiClient {
       return finalUrl;
     }
     
-    // For absolute URLs, use the URL constructor
-    const baseURL = this.config.baseURL || (typeof window !== 'undefined' ? window.location.origin : '');
+    // For absolute URLs, use the URL constructor (server-side requests resolve against the site URL)
+    const baseURL = this.config.baseURL || (typeof window !== 'undefined' ? window.location.origin : SITE_URL);
     const url = new URL(endpoint, baseURL);
     
     if (params) {
@@ -9,6 +9,7 @@ export const API_ENDPOINTS = {
     BASE: '/api/games',
     BY_ID: (id: string) => `/api/games/${id}` as const,
     PLAY: (id: string) => `/api/games/${id}/play` as const,
+    REVIEWS: (id: string) => `/api/games/${id}/reviews` as const,
   },
   
   // Providers endpoints
@@ -27,6 +28,28 @@ export const API_ENDPOINTS = {
   // Favorites endpoints
   FAVORITES: {
     BASE: '/api/favorites',
+    COLLECTIONS: '/api/favorites/collections',
+    COLLECTION_BY_ID: (id: string) => `/api/favorites/collections/${id}` as const,
+    COLLECTION_GAMES: (id: string) => `/api/favorites/collections/${id}/games` as const,
+    PROVIDERS: '/api/favorites/providers',
+    TAGS: '/api/favorites/tags',
+  },
+  
+  // Trending endpoints
+  TRENDING: {
+    BASE: '/api/trending',
+  },
+  
+  // Search endpoints
+  SEARCH: {
+    BASE: '/api/search',
+    SUGGEST: '/api/search/suggest',
+  },
+  
+  // Recently played endpoints
+  RECENT: {
+    BASE: '/api/recent',
+    BY_ID: (id: string) => `/api/recent/${id}` as const,
   },
   
   // User endpoints (future use)
@@ -36,11 +59,14 @@ export const API_ENDPOINTS = {
     PREFERENCES: '/user/preferences',
   },
   
-  // Auth endpoints (future use)
+  // Auth endpoints
   AUTH: {
-    LOGIN: '/auth/login',
-    LOGOUT: '/auth/logout',
-    REFRESH: '/auth/refresh',
+    LOGIN: '/api/auth/login',
+    LOGOUT: '/api/auth/logout',
+    REGISTER: '/api/auth/register',
+    SESSION: '/api/auth/session',
+    REFRESH: '/api/auth/refresh',
+    ACCOUNT: '/api/auth/account',
   },
 } as const;
 
@@ -7,12 +7,18 @@
  */
 
 import type { ApiSuccessResponse } from '@/lib/core/shared/types';
-import type { ApiFavoritesListResponse } from '@/lib/core/backend/types/favoriteTypes';
+import type { FavoriteCollection, Provider, Tag } from '@/lib/core/domain/entities';
+import type {
+  ApiFavoriteCollectionsListResponse,
+  ApiFavoriteProvidersListResponse,
+  ApiFavoritesListResponse,
+  ApiFavoriteTagsListResponse
+} from '@/lib/core/backend/types/favoriteTypes';
 import { apiClient } from '@/lib/core/frontend/api/client';
 import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
 import { ApiError } from '@/lib/core/shared/errors';
 import { ErrorCodes } from '@/lib/core/shared/errors/constants';
-import { favoriteApiTransformers } from '@/lib/core/shared/transformers';
+import { favoriteApiTransformers, providerApiTransformers, tagApiTransformers } from '@/lib/core/shared/transformers';
 
 /**
  * Response type for favorites
@@ -60,4 +66,117 @@ export async function fetchFavorites(): Promise<FavoritesResponse> {
       ErrorCodes.DATA_FETCH_ERROR
     );
   }
-}
\ No newline at end of file
+}
+/**
+ * Fetch the visitor's favorite collections in display order
+ * 
+ * @returns Collections with their game IDs
+ * 
+ * @example
+ * ```typescript
+ * const collections = await fetchFavoriteCollections();
+ * console.log(collections[0].name); // 'Weekend slots'
+ * ```
+ */
+export async function fetchFavoriteCollections(): Promise<FavoriteCollection[]> {
+  try {
+    const result = await apiClient.get<ApiSuccessResponse<ApiFavoriteCollectionsListResponse>>(
+      API_ENDPOINTS.FAVORITES.COLLECTIONS
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    const { collections } = result.data as ApiFavoriteCollectionsListResponse;
+    return collections.map(collection => favoriteApiTransformers.fromApiCollection(collection));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to fetch favorite collections',
+      ErrorCodes.DATA_FETCH_ERROR
+    );
+  }
+}
+
+/**
+ * Fetch the visitor's followed providers in the order they were followed
+ * 
+ * @returns Followed providers
+ * 
+ * @example
+ * ```typescript
+ * const providers = await fetchFavoriteProviders();
+ * console.log(providers.map(provider => provider.name)); // ['Endorphina']
+ * ```
+ */
+export async function fetchFavoriteProviders(): Promise<Provider[]> {
+  try {
+    const result = await apiClient.get<ApiSuccessResponse<ApiFavoriteProvidersListResponse>>(
+      API_ENDPOINTS.FAVORITES.PROVIDERS
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    const { providers } = result.data as ApiFavoriteProvidersListResponse;
+    return providerApiTransformers.fromApiGetAllProvidersResponse(providers);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to fetch followed providers',
+      ErrorCodes.DATA_FETCH_ERROR
+    );
+  }
+}
+
+/**
+ * Fetch the visitor's followed tags in the order they were followed
+ * 
+ * @returns Followed tags
+ * 
+ * @example
+ * ```typescript
+ * const tags = await fetchFavoriteTags();
+ * console.log(tags.map(tag => tag.id)); // ['megaways', 'fruits']
+ * ```
+ */
+export async function fetchFavoriteTags(): Promise<Tag[]> {
+  try {
+    const result = await apiClient.get<ApiSuccessResponse<ApiFavoriteTagsListResponse>>(
+      API_ENDPOINTS.FAVORITES.TAGS
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    const { tags } = result.data as ApiFavoriteTagsListResponse;
+    return tagApiTransformers.fromApiGetAllTagsResponse(tags);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to fetch followed tags',
+      ErrorCodes.DATA_FETCH_ERROR
+    );
+  }
+}
@@ -8,13 +8,22 @@
 
 import type { ApiSuccessResponse } from '@/lib/core/shared/types';
 import type { Game } from '@/lib/core/domain/entities';
-import type { ApiFavoriteResponse, ApiFavoritesListResponse } from '@/lib/core/backend/types/favoriteTypes';
+import type { FavoriteCollection } from '@/lib/core/domain/entities';
+import type {
+  ApiCollectionGameResponse,
+  ApiFavoriteCollectionResponse,
+  ApiFavoriteCollectionsListResponse,
+  ApiFavoriteProviderResponse,
+  ApiFavoriteResponse,
+  ApiFavoritesListResponse,
+  ApiFavoriteTagResponse
+} from '@/lib/core/backend/types/favoriteTypes';
 import { apiClient } from '@/lib/core/frontend/api/client';
 import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
 import { ApiError } from '@/lib/core/shared/errors';
 import { ErrorCodes } from '@/lib/core/shared/errors/constants';
 import { useFavoritesStore } from '@/lib/core/frontend/stores/favorites/useFavoritesStore';
-import { favoriteApiTransformers } from '@/lib/core/shared/transformers';
+import { favoriteApiTransformers, FavoriteType } from '@/lib/core/shared/transformers';
 
 /**
  * Toggle favorite response type
@@ -25,6 +34,15 @@ export interface ToggleFavoriteResponse {
   game?: Game;
 }
 
+/**
+ * Toggle collection game response type
+ */
+export interface ToggleCollectionGameResponse {
+  collection: FavoriteCollection;
+  gameId: string;
+  inCollection: boolean;
+}
+
 /**
  * Sync favorites response type
  */
@@ -91,6 +109,98 @@ export async function toggleFavorite(gameId: string): Promise<ToggleFavoriteResp
   }
 }
 
+/**
+ * Toggle follow response type (providers and tags)
+ */
+export interface ToggleFollowResponse {
+  id: string;
+  isFavorite: boolean;
+}
+
+/**
+ * Toggle a followed provider or tag, updating the store optimistically
+ */
+async function toggleFollow(
+  type: FavoriteType.PROVIDER | FavoriteType.TAG,
+  id: string
+): Promise<ToggleFollowResponse> {
+  const store = useFavoritesStore.getState();
+
+  store.toggleFavorite(id, type);
+  
+  try {
+    const result = type === FavoriteType.PROVIDER
+      ? await apiClient.post<ApiSuccessResponse<ApiFavoriteProviderResponse>>(
+          API_ENDPOINTS.FAVORITES.PROVIDERS,
+          { providerId: id, action: 'toggle' }
+        )
+      : await apiClient.post<ApiSuccessResponse<ApiFavoriteTagResponse>>(
+          API_ENDPOINTS.FAVORITES.TAGS,
+          { tagId: id, action: 'toggle' }
+        );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    const { isFavorite } = result.data as ApiFavoriteProviderResponse | ApiFavoriteTagResponse;
+    
+    // Update store with confirmed state from backend
+    if (isFavorite !== store.isFollowed(id, type)) {
+      store.toggleFavorite(id, type);
+    }
+    
+    return { id, isFavorite };
+  } catch (error) {
+    // Rollback on error
+    store.toggleFavorite(id, type);
+    
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      `Failed to toggle followed ${type}`,
+      ErrorCodes.TOGGLE_FAVORITE_ERROR
+    );
+  }
+}
+
+/**
+ * Follow or unfollow a provider
+ * 
+ * @param providerId - ID of the provider to toggle
+ * @returns Updated follow status
+ * 
+ * @example
+ * ```typescript
+ * const response = await toggleProviderFavorite('endorphina');
+ * console.log(response.isFavorite); // true/false
+ * ```
+ */
+export async function toggleProviderFavorite(providerId: string): Promise<ToggleFollowResponse> {
+  return toggleFollow(FavoriteType.PROVIDER, providerId);
+}
+
+/**
+ * Follow or unfollow a tag
+ * 
+ * @param tagId - ID of the tag to toggle (lowercase tag name)
+ * @returns Updated follow status
+ * 
+ * @example
+ * ```typescript
+ * const response = await toggleTagFavorite('megaways');
+ * console.log(response.isFavorite); // true/false
+ * ```
+ */
+export async function toggleTagFavorite(tagId: string): Promise<ToggleFollowResponse> {
+  return toggleFollow(FavoriteType.TAG, tagId);
+}
+
 /**
  * Sync favorites with backend
  * 
@@ -180,4 +290,242 @@ export async function clearFavorites(): Promise<{ message: string }> {
       ErrorCodes.OPERATION_FAILED
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Create a favorite collection
+ * Adds the collection to the store after a successful API call
+ * 
+ * @param name - Collection name (unique per visitor)
+ * @param gameIds - Optional initial games, also added to favorites
+ * @returns The created collection
+ * 
+ * @example
+ * ```typescript
+ * const collection = await createFavoriteCollection('Weekend slots', ['game-1']);
+ * ```
+ */
+export async function createFavoriteCollection(
+  name: string,
+  gameIds: string[] = []
+): Promise<FavoriteCollection> {
+  try {
+    const result = await apiClient.post<ApiSuccessResponse<ApiFavoriteCollectionResponse>>(
+      API_ENDPOINTS.FAVORITES.COLLECTIONS,
+      { name, gameIds }
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    const collection = favoriteApiTransformers.fromApiCollection(result.data as ApiFavoriteCollectionResponse);
+    
+    const store = useFavoritesStore.getState();
+    store.upsertCollection(collection);
+    collection.gameIds.forEach(gameId => store.addFavorite(gameId));
+    
+    return collection;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to create collection',
+      ErrorCodes.OPERATION_FAILED
+    );
+  }
+}
+
+/**
+ * Rename a favorite collection and/or replace its games
+ * 
+ * @param collectionId - ID of the collection
+ * @param changes - New name and/or game IDs
+ * @returns The updated collection
+ * 
+ * @example
+ * ```typescript
+ * await updateFavoriteCollection('abc', { name: 'High RTP' });
+ * ```
+ */
+export async function updateFavoriteCollection(
+  collectionId: string,
+  changes: { name?: string; gameIds?: string[] }
+): Promise<FavoriteCollection> {
+  try {
+    const result = await apiClient.patch<ApiSuccessResponse<ApiFavoriteCollectionResponse>>(
+      API_ENDPOINTS.FAVORITES.COLLECTION_BY_ID(collectionId),
+      changes
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    const collection = favoriteApiTransformers.fromApiCollection(result.data as ApiFavoriteCollectionResponse);
+    
+    const store = useFavoritesStore.getState();
+    store.upsertCollection(collection);
+    collection.gameIds.forEach(gameId => store.addFavorite(gameId));
+    
+    return collection;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to update collection',
+      ErrorCodes.OPERATION_FAILED
+    );
+  }
+}
+
+/**
+ * Delete a favorite collection (its games stay in favorites)
+ * 
+ * @param collectionId - ID of the collection
+ * @returns Success message
+ */
+export async function deleteFavoriteCollection(collectionId: string): Promise<{ message: string }> {
+  try {
+    const result = await apiClient.delete<ApiSuccessResponse<{ message: string }>>(
+      API_ENDPOINTS.FAVORITES.COLLECTION_BY_ID(collectionId)
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    useFavoritesStore.getState().removeCollection(collectionId);
+    
+    return result.data as { message: string };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to delete collection',
+      ErrorCodes.OPERATION_FAILED
+    );
+  }
+}
+
+/**
+ * Reorder favorite collections
+ * Updates the store optimistically and rolls back on error
+ * 
+ * @param collectionIds - Every collection ID in the new order
+ * @returns Collections in the confirmed order
+ */
+export async function reorderFavoriteCollections(collectionIds: string[]): Promise<FavoriteCollection[]> {
+  const store = useFavoritesStore.getState();
+  const previousCollections = store.collections;
+  
+  store.reorderCollections(collectionIds);
+  
+  try {
+    const result = await apiClient.put<ApiSuccessResponse<ApiFavoriteCollectionsListResponse>>(
+      API_ENDPOINTS.FAVORITES.COLLECTIONS,
+      { collectionIds }
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    const { collections } = result.data as ApiFavoriteCollectionsListResponse;
+    const transformed = collections.map(collection => favoriteApiTransformers.fromApiCollection(collection));
+    
+    store.setCollections(transformed);
+    
+    return transformed;
+  } catch (error) {
+    store.setCollections(previousCollections);
+    
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to reorder collections',
+      ErrorCodes.OPERATION_FAILED
+    );
+  }
+}
+
+/**
+ * Add or remove a game in a collection
+ * Updates the store optimistically and rolls back on error
+ * Adding a game to a collection also favorites it
+ * 
+ * @param collectionId - ID of the collection
+ * @param gameId - ID of the game to toggle
+ * @returns Confirmed collection and membership
+ * 
+ * @example
+ * ```typescript
+ * const { inCollection } = await toggleCollectionGame('abc', 'game-123');
+ * ```
+ */
+export async function toggleCollectionGame(
+  collectionId: string,
+  gameId: string
+): Promise<ToggleCollectionGameResponse> {
+  const { favorites, collections, toggleGameInCollection } = useFavoritesStore.getState();
+  
+  toggleGameInCollection(collectionId, gameId);
+  
+  try {
+    const result = await apiClient.post<ApiSuccessResponse<ApiCollectionGameResponse>>(
+      API_ENDPOINTS.FAVORITES.COLLECTION_GAMES(collectionId),
+      { gameId, action: 'toggle' }
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    const response = result.data as ApiCollectionGameResponse;
+    const collection = favoriteApiTransformers.fromApiCollection(response.collection);
+    
+    // Update store with confirmed state from backend
+    useFavoritesStore.getState().upsertCollection(collection);
+    
+    return {
+      collection,
+      gameId: response.gameId,
+      inCollection: response.inCollection,
+    };
+  } catch (error) {
+    // Rollback both lists, since adding to a collection may also have favorited the game
+    useFavoritesStore.setState({ favorites, collections });
+    
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to update collection',
+      ErrorCodes.OPERATION_FAILED
+    );
+  }
+}
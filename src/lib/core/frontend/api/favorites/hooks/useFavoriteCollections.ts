@@ -0,0 +1,184 @@
+/**
+ * React Query hooks for favorite collections
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchFavoriteCollections } from '../fetchers/GET';
+import {
+  createFavoriteCollection,
+  deleteFavoriteCollection,
+  reorderFavoriteCollections,
+  toggleCollectionGame,
+  updateFavoriteCollection
+} from '../fetchers/POST';
+import { queryKeys } from '../../query/keys';
+import { useFavoritesStore } from '@/lib/core/frontend/stores/favorites/useFavoritesStore';
+import { useToastStore } from '@/lib/core/frontend/stores/toast/useToastStore';
+
+/**
+ * Hook to fetch favorite collections and update store
+ * 
+ * @example
+ * ```typescript
+ * const { data: collections } = useFavoriteCollectionsQuery();
+ * ```
+ */
+export function useFavoriteCollectionsQuery() {
+  const setCollections = useFavoritesStore(state => state.setCollections);
+  
+  return useQuery({
+    queryKey: queryKeys.favoriteCollections(),
+    queryFn: async () => {
+      const collections = await fetchFavoriteCollections();
+      
+      // Update store with fetched collections (already transformed by fetcher)
+      setCollections(collections);
+      
+      return collections;
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+/**
+ * Hook to create a collection
+ */
+export function useCreateCollectionMutation() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToastStore();
+  
+  return useMutation({
+    mutationFn: ({ name, gameIds }: { name: string; gameIds?: string[] }) => 
+      createFavoriteCollection(name, gameIds),
+    onSuccess: (collection) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.favorites() });
+      
+      showToast({
+        message: `Created "${collection.name}"`,
+        variant: 'success',
+        duration: 2000
+      });
+    },
+    onError: (error) => {
+      showToast({
+        message: 'Failed to create collection',
+        variant: 'error',
+        duration: 3000
+      });
+      console.error('Failed to create collection:', error);
+    }
+  });
+}
+
+/**
+ * Hook to rename a collection or replace its games
+ */
+export function useUpdateCollectionMutation() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToastStore();
+  
+  return useMutation({
+    mutationFn: ({ collectionId, changes }: { 
+      collectionId: string; 
+      changes: { name?: string; gameIds?: string[] };
+    }) => updateFavoriteCollection(collectionId, changes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.favorites() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.lists() });
+    },
+    onError: (error) => {
+      showToast({
+        message: 'Failed to update collection',
+        variant: 'error',
+        duration: 3000
+      });
+      console.error('Failed to update collection:', error);
+    }
+  });
+}
+
+/**
+ * Hook to delete a collection
+ */
+export function useDeleteCollectionMutation() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToastStore();
+  
+  return useMutation({
+    mutationFn: deleteFavoriteCollection,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.favoriteCollections() });
+      
+      showToast({
+        message: 'Collection deleted',
+        variant: 'success',
+        duration: 2000
+      });
+    },
+    onError: (error) => {
+      showToast({
+        message: 'Failed to delete collection',
+        variant: 'error',
+        duration: 3000
+      });
+      console.error('Failed to delete collection:', error);
+    }
+  });
+}
+
+/**
+ * Hook to reorder collections
+ */
+export function useReorderCollectionsMutation() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToastStore();
+  
+  return useMutation({
+    mutationFn: reorderFavoriteCollections,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.favoriteCollections() });
+    },
+    onError: (error) => {
+      showToast({
+        message: 'Failed to reorder collections',
+        variant: 'error',
+        duration: 3000
+      });
+      console.error('Failed to reorder collections:', error);
+    }
+  });
+}
+
+/**
+ * Hook to add or remove a game in a collection
+ */
+export function useToggleCollectionGameMutation() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToastStore();
+  
+  return useMutation({
+    mutationFn: ({ collectionId, gameId }: { collectionId: string; gameId: string }) => 
+      toggleCollectionGame(collectionId, gameId),
+    onSuccess: ({ collection, inCollection }) => {
+      // Adding to a collection can favorite the game, and collection-filtered lists change
+      queryClient.invalidateQueries({ queryKey: queryKeys.favorites() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.lists() });
+      
+      showToast({
+        message: inCollection 
+          ? `Added to "${collection.name}"` 
+          : `Removed from "${collection.name}"`,
+        variant: 'success',
+        duration: 2000
+      });
+    },
+    onError: (error) => {
+      showToast({
+        message: 'Failed to update collection',
+        variant: 'error',
+        duration: 3000
+      });
+      console.error('Failed to toggle collection game:', error);
+    }
+  });
+}
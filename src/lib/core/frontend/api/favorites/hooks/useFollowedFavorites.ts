@@ -0,0 +1,119 @@
+/**
+ * React Query hooks for followed providers and tags
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchFavoriteProviders, fetchFavoriteTags } from '../fetchers/GET';
+import { toggleProviderFavorite, toggleTagFavorite } from '../fetchers/POST';
+import { queryKeys } from '../../query/keys';
+import { useFavoritesStore } from '@/lib/core/frontend/stores/favorites/useFavoritesStore';
+import { useToastStore } from '@/lib/core/frontend/stores/toast/useToastStore';
+import { FavoriteType } from '@/lib/core/shared/transformers';
+
+/**
+ * Hook to fetch followed providers and update store
+ * 
+ * @example
+ * ```typescript
+ * const { data: providers } = useFavoriteProvidersQuery();
+ * ```
+ */
+export function useFavoriteProvidersQuery() {
+  const setFavorites = useFavoritesStore(state => state.setFavorites);
+  
+  return useQuery({
+    queryKey: queryKeys.favoriteProviders(),
+    queryFn: async () => {
+      const providers = await fetchFavoriteProviders();
+      
+      // Update store with followed provider IDs (already transformed by fetcher)
+      setFavorites(providers.map(provider => provider.id), FavoriteType.PROVIDER);
+      
+      return providers;
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+/**
+ * Hook to fetch followed tags and update store
+ * 
+ * @example
+ * ```typescript
+ * const { data: tags } = useFavoriteTagsQuery();
+ * ```
+ */
+export function useFavoriteTagsQuery() {
+  const setFavorites = useFavoritesStore(state => state.setFavorites);
+  
+  return useQuery({
+    queryKey: queryKeys.favoriteTags(),
+    queryFn: async () => {
+      const tags = await fetchFavoriteTags();
+      
+      // Update store with followed tag IDs (already transformed by fetcher)
+      setFavorites(tags.map(tag => tag.id), FavoriteType.TAG);
+      
+      return tags;
+    },
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
+/**
+ * Hook to follow or unfollow a provider
+ */
+export function useToggleProviderFavoriteMutation() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToastStore();
+  
+  return useMutation({
+    mutationFn: toggleProviderFavorite,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.favoriteProviders() });
+      
+      showToast({
+        message: data.isFavorite ? 'Following provider' : 'Unfollowed provider',
+        variant: 'success',
+        duration: 2000
+      });
+    },
+    onError: (error) => {
+      showToast({
+        message: 'Failed to update followed providers',
+        variant: 'error',
+        duration: 3000
+      });
+      console.error('Failed to toggle followed provider:', error);
+    }
+  });
+}
+
+/**
+ * Hook to follow or unfollow a tag
+ */
+export function useToggleTagFavoriteMutation() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToastStore();
+  
+  return useMutation({
+    mutationFn: toggleTagFavorite,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.favoriteTags() });
+      
+      showToast({
+        message: data.isFavorite ? 'Following tag' : 'Unfollowed tag',
+        variant: 'success',
+        duration: 2000
+      });
+    },
+    onError: (error) => {
+      showToast({
+        message: 'Failed to update followed tags',
+        variant: 'error',
+        duration: 3000
+      });
+      console.error('Failed to toggle followed tag:', error);
+    }
+  });
+}
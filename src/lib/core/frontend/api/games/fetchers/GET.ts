@@ -6,15 +6,16 @@
  * The hooks layer uses these for React Query integration
  */
 
-import type { Game, Provider } from '@/lib/core/domain/entities';
-import type { ApiSuccessResponse, FilterQueryParams, PaginationMeta } from '@/lib/core/shared/types';
+import type { Game, GameReview, Provider } from '@/lib/core/domain/entities';
+import type { ApiSuccessResponse, FilterFacets, FilterQueryParams, PaginationMeta } from '@/lib/core/shared/types';
 import type { ApiGameResponse } from '@/lib/core/backend/types/gameTypes';
+import type { ApiReviewResponse, ApiReviewSummary } from '@/lib/core/backend/types/reviewTypes';
 import { apiClient } from '@/lib/core/frontend/api/client';
 import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
 import { createPaginationMeta } from '@/lib/core/domain/models/PaginationInfo';
 import { ApiError } from '@/lib/core/shared/errors';
 import { ErrorCodes } from '@/lib/core/shared/errors/constants';
-import { gameApiTransformers } from '@/lib/core/shared/transformers';
+import { gameApiTransformers, reviewApiTransformers } from '@/lib/core/shared/transformers';
 import { useFavoritesStore } from '@/lib/core/frontend/stores/favorites/useFavoritesStore';
 
 /**
@@ -26,6 +27,7 @@ export interface FetchGamesResponse {
   meta: {
     providers?: Provider[];
     tags?: string[];
+    facets?: FilterFacets;
     totalCount?: number;
   };
 }
@@ -91,6 +93,7 @@ export async function fetchGames(
       meta: {
         providers: result.meta?.providers as Provider[] | undefined,
         tags: result.meta?.tags as string[] | undefined,
+        facets: result.meta?.facets as FilterFacets | undefined,
         totalCount: result.meta?.totalCount as number | undefined
       }
     };
@@ -107,7 +110,7 @@ export async function fetchGames(
 }
 
 /**
- * Fetch single game by ID
+ * Fetch single game by ID or slug
  */
 export async function fetchGameById(id: string): Promise<Game> {
   try {
@@ -148,4 +151,65 @@ export async function searchGames(query: string): Promise<Game[]> {
   const criteria: FilterQueryParams = { search: query, pageSize: 50 };
   const response = await fetchGames(criteria);
   return response.games;
+}
+
+/**
+ * Response type for fetchGameReviews
+ */
+export interface FetchGameReviewsResponse {
+  reviews: GameReview[];
+  pagination: PaginationMeta;
+  /** Average player rating (undefined until the game is rated) */
+  rating?: number;
+  ratingCount: number;
+  /** The visitor's own review, if any */
+  ownReview: GameReview | null;
+}
+
+/**
+ * Fetch a page of a game's reviews with its rating aggregate
+ * 
+ * @example
+ * ```typescript
+ * const { reviews, rating, ratingCount } = await fetchGameReviews('game-102');
+ * ```
+ */
+export async function fetchGameReviews(
+  gameId: string,
+  page: number = 1,
+  pageSize?: number
+): Promise<FetchGameReviewsResponse> {
+  try {
+    const result = await apiClient.get<ApiSuccessResponse<ApiReviewResponse[]>>(
+      API_ENDPOINTS.GAMES.REVIEWS(gameId),
+      { page, pageSize }
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    const summary = result.meta as unknown as ApiReviewSummary;
+    const reviews = (result.data as ApiReviewResponse[]).map(reviewApiTransformers.fromApiReview);
+    
+    return {
+      reviews,
+      pagination: result.pagination || createPaginationMeta(page, pageSize || reviews.length, reviews.length),
+      rating: summary.rating,
+      ratingCount: summary.ratingCount,
+      ownReview: summary.ownReview ? reviewApiTransformers.fromApiReview(summary.ownReview) : null
+    };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to fetch reviews',
+      ErrorCodes.DATA_FETCH_ERROR
+    );
+  }
 }
\ No newline at end of file
@@ -3,14 +3,15 @@
  * All POST request handlers for games endpoint
  */
 
-import type { Game } from '@/lib/core/domain/entities';
+import type { Game, GameReview } from '@/lib/core/domain/entities';
 import type { ApiSuccessResponse } from '@/lib/core/shared/types';
 import type { ApiGameResponse } from '@/lib/core/backend/types/gameTypes';
+import type { ApiReviewSubmitResponse } from '@/lib/core/backend/types/reviewTypes';
 import { apiClient } from '@/lib/core/frontend/api/client';
 import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
 import { ApiError } from '@/lib/core/shared/errors';
 import { ErrorCodes } from '@/lib/core/shared/errors/constants';
-import { gameApiTransformers } from '@/lib/core/shared/transformers';
+import { gameApiTransformers, reviewApiTransformers } from '@/lib/core/shared/transformers';
 
 /**
  * Toggle favorite status for a game
@@ -53,4 +54,56 @@ export async function incrementPlayCount(gameId: string): Promise<void> {
     // Don't throw error for play count, just log it
     console.error('Error incrementing play count:', error);
   }
+}
+
+/**
+ * Submit review response type
+ */
+export interface SubmitReviewResponse {
+  review: GameReview;
+  rating?: number;
+  ratingCount: number;
+  /** False when the visitor's earlier review was replaced */
+  created: boolean;
+}
+
+/**
+ * Rate a game, replacing the visitor's earlier review if any
+ */
+export async function submitGameReview(
+  gameId: string,
+  rating: number,
+  text?: string
+): Promise<SubmitReviewResponse> {
+  try {
+    const result = await apiClient.post<ApiSuccessResponse<ApiReviewSubmitResponse>>(
+      API_ENDPOINTS.GAMES.REVIEWS(gameId),
+      reviewApiTransformers.toApiRequest(rating, text)
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    const data = result.data as ApiReviewSubmitResponse;
+    
+    return {
+      review: reviewApiTransformers.fromApiReview(data.review),
+      rating: data.rating,
+      ratingCount: data.ratingCount,
+      created: data.created
+    };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to submit review',
+      ErrorCodes.DATA_SAVE_ERROR
+    );
+  }
 }
\ No newline at end of file
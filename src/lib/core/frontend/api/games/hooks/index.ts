@@ -4,7 +4,10 @@
  */
 
 export { useGamesQuery } from './useGamesQuery';
+export { useGameQuery } from './useGameQuery';
 export { useFavoriteMutation } from './useFavoriteMutation';
+export { useGameReviewsQuery, useSubmitReviewMutation } from './useGameReviews';
+export { usePlayMutation } from './usePlayMutation';
 
 // Re-export for backward compatibility
 export { useGamesQuery as useGames } from './useGamesQuery';
\ No newline at end of file
@@ -0,0 +1,21 @@
+/**
+ * Game Query Hook
+ * Simple React Query wrapper that fetches a single game by ID or slug
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchGameById } from '../fetchers/GET';
+import { queryKeys } from '../../query/keys';
+
+/**
+ * Hook to fetch a single game with React Query
+ */
+export function useGameQuery(idOrSlug: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.games.detail(idOrSlug || ''),
+    queryFn: () => fetchGameById(idOrSlug!),
+    enabled: !!idOrSlug,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 10, // 10 minutes
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Game Reviews Hooks
+ * React Query hooks for listing a game's reviews and rating it
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fetchGameReviews } from '../fetchers/GET';
+import { submitGameReview } from '../fetchers/POST';
+import { queryKeys } from '../../query/keys';
+import { useToastStore } from '@/lib/core/frontend/stores/toast/useToastStore';
+
+/**
+ * Hook to fetch a page of a game's reviews with its rating aggregate
+ * 
+ * @example
+ * ```typescript
+ * const { data } = useGameReviewsQuery(game?.id, page);
+ * console.log(data?.ratingCount);
+ * ```
+ */
+export function useGameReviewsQuery(gameId: string | undefined, page: number = 1) {
+  return useQuery({
+    queryKey: queryKeys.games.reviewsPage(gameId || '', page),
+    queryFn: () => fetchGameReviews(gameId!, page),
+    enabled: !!gameId,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+/**
+ * Hook to create or replace the visitor's review of a game
+ */
+export function useSubmitReviewMutation() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToastStore();
+  
+  return useMutation({
+    mutationFn: ({ gameId, rating, text }: { gameId: string; rating: number; text?: string }) =>
+      submitGameReview(gameId, rating, text),
+    onSuccess: ({ created }, { gameId }) => {
+      // The rating aggregate changes the game itself and the 'rating' sort order
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.detail(gameId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.lists() });
+      
+      showToast({
+        message: created ? 'Thanks for your review!' : 'Review updated',
+        variant: 'success',
+        duration: 2000
+      });
+    },
+    onError: (error) => {
+      showToast({
+        message: 'Failed to submit review',
+        variant: 'error',
+        duration: 3000
+      });
+      console.error('Failed to submit review:', error);
+    }
+  });
+}
@@ -12,10 +12,13 @@ import type { FilterQueryParams } from '@/lib/core/shared/types/filters';
  * Hook to fetch games with React Query
  * Store updates are handled in the fetcher to prevent unnecessary re-renders
  */
-export function useGamesQuery(criteria: FilterQueryParams) {
+export function useGamesQuery(criteria: FilterQueryParams, options?: {
+  enabled?: boolean;
+}) {
   return useQuery({
     queryKey: queryKeys.games.list(criteria),
     queryFn: () => fetchGames(criteria),
+    enabled: options?.enabled ?? true,
     staleTime: 1000 * 60 * 5, // 5 minutes
     gcTime: 1000 * 60 * 10, // 10 minutes
   });
@@ -0,0 +1,40 @@
+/**
+ * Play Mutation Hook
+ * React Query hook for recording a game launch
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { incrementPlayCount } from '../fetchers/POST';
+import { queryKeys } from '../../query/keys';
+import { useAuthStore } from '@/lib/core/frontend/stores/auth/useAuthStore';
+import { useRecentlyPlayedStore } from '@/lib/core/frontend/stores/recentlyPlayed/useRecentlyPlayedStore';
+
+/**
+ * Hook to record a play of a game
+ * Failures are logged by the fetcher and never block launching the game
+ * Guests keep their recently played history locally; signed-in users' history is recorded by the server
+ * 
+ * @example
+ * ```typescript
+ * const { mutate: recordPlay } = usePlayMutation();
+ * recordPlay(game.id);
+ * ```
+ */
+export function usePlayMutation() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (gameId: string) => incrementPlayCount(gameId),
+    onMutate: (gameId) => {
+      if (!useAuthStore.getState().isAuthenticated) {
+        useRecentlyPlayedStore.getState().addGame(gameId);
+      }
+    },
+    onSuccess: (_, gameId) => {
+      // Play counts drive the 'popular' and 'trending' sort orders
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.detail(gameId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.recent() });
+    }
+  });
+}
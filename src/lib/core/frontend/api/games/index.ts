@@ -7,13 +7,15 @@
 export {
   fetchGames,
   fetchGameById,
+  fetchGameReviews,
   searchGames
 } from './fetchers/GET';
 
 // POST fetchers
 export {
   toggleFavorite,
-  incrementPlayCount
+  incrementPlayCount,
+  submitGameReview
 } from './fetchers/POST';
 
 // React Query Hooks
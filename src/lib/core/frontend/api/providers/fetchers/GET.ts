@@ -3,14 +3,21 @@
  * All GET request handlers for providers endpoint
  */
 
-import type { Provider } from '@/lib/core/domain/entities';
+import type { Game, Provider } from '@/lib/core/domain/entities';
 import type { ApiSuccessResponse } from '@/lib/core/shared/types';
-import type { ApiProviderResponse } from '@/lib/core/backend/types/providerTypes';
+import type { ApiProviderResponse, ApiProviderDetailResponse } from '@/lib/core/backend/types/providerTypes';
 import { apiClient } from '@/lib/core/frontend/api/client';
 import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
 import { ApiError } from '@/lib/core/shared/errors';
 import { ErrorCodes } from '@/lib/core/shared/errors/constants';
-import { providerApiTransformers } from '@/lib/core/shared/transformers';
+import { gameApiTransformers, providerApiTransformers } from '@/lib/core/shared/transformers';
+
+/**
+ * Response type for fetchProviderById
+ */
+export interface FetchProviderResponse extends Provider {
+  games?: Game[];
+}
 
 /**
  * Fetch all providers with optional filters
@@ -58,11 +65,23 @@ export async function fetchProviders(filters?: {
 }
 
 /**
- * Fetch provider by ID
+ * Fetch provider by ID, optionally with its games
  */
-export async function fetchProviderById(id: string): Promise<Provider> {
+export async function fetchProviderById(
+  id: string,
+  options?: {
+    includeGames?: boolean;
+  }
+): Promise<FetchProviderResponse> {
   try {
-    const result = await apiClient.get<ApiSuccessResponse<ApiProviderResponse>>(API_ENDPOINTS.PROVIDERS.BY_ID(id));
+    const queryParams: Record<string, string> = {};
+    
+    if (options?.includeGames) queryParams.includeGames = 'true';
+    
+    const result = await apiClient.get<ApiSuccessResponse<ApiProviderDetailResponse>>(
+      API_ENDPOINTS.PROVIDERS.BY_ID(id),
+      queryParams
+    );
     
     if (!result.success) {
       throw new ApiError(
@@ -71,8 +90,13 @@ export async function fetchProviderById(id: string): Promise<Provider> {
       );
     }
     
-    // Transform API response to domain entity
-    return providerApiTransformers.responseToEntity(result.data as ApiProviderResponse);
+    // Transform API response to domain entities
+    const data = result.data as ApiProviderDetailResponse;
+    
+    return {
+      ...providerApiTransformers.responseToEntity(data),
+      ...(data.games && { games: gameApiTransformers.fromApiGetAllGamesResponse(data.games) })
+    };
   } catch (error) {
     if (error instanceof ApiError) {
       if (error.statusCode === 404) {
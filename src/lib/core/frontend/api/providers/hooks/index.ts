@@ -4,6 +4,7 @@
  */
 
 export { useProvidersQuery } from './useProvidersQuery';
+export { useProviderQuery } from './useProviderQuery';
 
 // Re-export for backward compatibility
 export { useProvidersQuery as useProviders } from './useProvidersQuery';
\ No newline at end of file
@@ -0,0 +1,23 @@
+/**
+ * Provider Query Hook
+ * Simple React Query wrapper that fetches a single provider
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchProviderById } from '../fetchers/GET';
+import { queryKeys } from '../../query/keys';
+
+/**
+ * Hook to fetch a provider by ID, optionally with its games
+ */
+export function useProviderQuery(id: string, options?: {
+  includeGames?: boolean;
+}) {
+  return useQuery({
+    queryKey: queryKeys.providers.detail(id, options),
+    queryFn: () => fetchProviderById(id, options),
+    enabled: !!id,
+    staleTime: 1000 * 60 * 30, // 30 minutes (providers rarely change)
+    gcTime: 1000 * 60 * 60, // 1 hour
+  });
+}
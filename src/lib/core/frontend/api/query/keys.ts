@@ -22,8 +22,15 @@ export const queryKeys = {
         providers: criteria.providers || [],
         types: criteria.types || [],
         tags: criteria.tags || [],
+        tagMode: criteria.tagMode || 'any',
+        excludeProviders: criteria.excludeProviders || [],
+        excludeTypes: criteria.excludeTypes || [],
+        excludeTags: criteria.excludeTags || [],
         sort: criteria.sort || 'popular',
         favorites: criteria.favorites === true,
+        favoritesCollection: criteria.favoritesCollection,
+        recent: criteria.recent === true,
+        recentIds: criteria.recent ? criteria.recentIds : undefined,
         isNew: criteria.isNew === true,
         isHot: criteria.isHot === true,
         isComingSoon: criteria.isComingSoon === true,
@@ -31,11 +38,19 @@ export const queryKeys = {
         pageSize: criteria.pageSize || 20,
         minRtp: criteria.minRtp,
         maxRtp: criteria.maxRtp,
+        minRating: criteria.minRating,
+        maxRating: criteria.maxRating,
+        minMaxWin: criteria.minMaxWin,
+        maxMaxWin: criteria.maxMaxWin,
+        minBet: criteria.minBet,
+        maxBet: criteria.maxBet,
       };
       return [...queryKeys.games.lists(), stableCriteria] as const;
     },
     details: () => [...queryKeys.games.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.games.details(), id] as const,
+    reviews: (id: string) => [...queryKeys.games.detail(id), 'reviews'] as const,
+    reviewsPage: (id: string, page: number) => [...queryKeys.games.reviews(id), page] as const,
     favorites: () => [...queryKeys.games.all, 'favorites'] as const,
   },
   
@@ -45,7 +60,8 @@ export const queryKeys = {
     lists: () => [...queryKeys.providers.all, 'list'] as const,
     list: (filter?: { search?: string }) => [...queryKeys.providers.lists(), filter] as const,
     details: () => [...queryKeys.providers.all, 'detail'] as const,
-    detail: (id: string) => [...queryKeys.providers.details(), id] as const,
+    detail: (id: string, options?: { includeGames?: boolean }) => 
+      [...queryKeys.providers.details(), id, { includeGames: options?.includeGames === true }] as const,
   },
   
   // Tags queries
@@ -62,7 +78,15 @@ export const queryKeys = {
       pageSize?: number;
     }) => [...queryKeys.tags.lists(), params] as const,
     details: () => [...queryKeys.tags.all, 'detail'] as const,
-    detail: (id: string) => [...queryKeys.tags.details(), id] as const,
+    detail: (id: string, options?: {
+      includeGames?: boolean;
+      includeRelated?: boolean;
+      relatedLimit?: number;
+    }) => [...queryKeys.tags.details(), id, {
+      includeGames: options?.includeGames === true,
+      includeRelated: options?.includeRelated === true,
+      relatedLimit: options?.relatedLimit,
+    }] as const,
     top: (limit: number) => [...queryKeys.tags.all, 'top', limit] as const,
     stats: () => [...queryKeys.tags.all, 'stats'] as const,
   },
@@ -77,6 +101,25 @@ export const queryKeys = {
   
   // Favorites queries (type-agnostic, supports game/tag/provider)
   favorites: () => ['favorites'] as const,
+  favoriteCollections: () => [...queryKeys.favorites(), 'collections'] as const,
+  favoriteProviders: () => [...queryKeys.favorites(), 'providers'] as const,
+  favoriteTags: () => [...queryKeys.favorites(), 'tags'] as const,
+  
+  // Trending queries
+  trending: () => ['trending'] as const,
+  
+  // Search suggestion queries
+  search: () => ['search'] as const,
+  searchSuggestions: (query: string) => [...queryKeys.search(), 'suggest', query] as const,
+  searchResults: (params: { query: string; type?: string; page?: number; pageSize?: number }) => [
+    ...queryKeys.search(),
+    'results',
+    { query: params.query, type: params.type || 'all', page: params.page || 1, pageSize: params.pageSize }
+  ] as const,
+  
+  // Recently played queries (guests pass their local history)
+  recent: () => ['recent'] as const,
+  recentGames: (ids?: string[]) => [...queryKeys.recent(), { ids }] as const,
 } as const;
 
 export type QueryKeys = typeof queryKeys;
\ No newline at end of file
@@ -0,0 +1,50 @@
+/**
+ * Recently Played API GET fetchers
+ * All GET request handlers for recently played endpoint
+ */
+
+import type { Game } from '@/lib/core/domain/entities';
+import type { ApiSuccessResponse } from '@/lib/core/shared/types';
+import type { ApiRecentlyPlayedResponse } from '@/lib/core/backend/types/recentTypes';
+import { recentApiTransformers } from '@/lib/core/shared/transformers';
+import { apiClient } from '@/lib/core/frontend/api/client';
+import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
+import { ApiError } from '@/lib/core/shared/errors';
+import { ErrorCodes } from '@/lib/core/shared/errors/constants';
+
+/**
+ * Fetch the recently played games, most recent first
+ * 
+ * @param ids - A guest's local history; the stored history is used when omitted
+ * 
+ * @example
+ * ```typescript
+ * const games = await fetchRecentGames(['game-1', 'game-2']);
+ * ```
+ */
+export async function fetchRecentGames(ids?: string[]): Promise<Game[]> {
+  try {
+    const result = await apiClient.get<ApiSuccessResponse<ApiRecentlyPlayedResponse>>(
+      API_ENDPOINTS.RECENT.BASE,
+      ids ? { ids: ids.join(',') } : undefined
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    return recentApiTransformers.fromApiResponse(result.data);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to fetch recently played games',
+      ErrorCodes.DATA_FETCH_ERROR
+    );
+  }
+}
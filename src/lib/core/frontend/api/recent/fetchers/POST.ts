@@ -0,0 +1,114 @@
+/**
+ * Recently Played API mutation fetchers
+ * POST and DELETE request handlers for recently played endpoint
+ */
+
+import type { Game, RecentGame } from '@/lib/core/domain/entities';
+import type { ApiSuccessResponse } from '@/lib/core/shared/types';
+import type { ApiRecentlyPlayedResponse } from '@/lib/core/backend/types/recentTypes';
+import { recentApiTransformers } from '@/lib/core/shared/transformers';
+import { apiClient } from '@/lib/core/frontend/api/client';
+import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
+import { ApiError } from '@/lib/core/shared/errors';
+import { ErrorCodes } from '@/lib/core/shared/errors/constants';
+
+/**
+ * Merge a guest's local history into the stored history (on sign in)
+ * 
+ * @param entries - Local history entries
+ * @returns The merged history, most recent first
+ * 
+ * @example
+ * ```typescript
+ * const games = await mergeRecentGames(useRecentlyPlayedStore.getState().entries);
+ * ```
+ */
+export async function mergeRecentGames(entries: RecentGame[]): Promise<Game[]> {
+  try {
+    const result = await apiClient.post<ApiSuccessResponse<ApiRecentlyPlayedResponse>>(
+      API_ENDPOINTS.RECENT.BASE,
+      recentApiTransformers.toApiMergeRequest(entries)
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    return recentApiTransformers.fromApiResponse(result.data);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to merge recently played games',
+      ErrorCodes.OPERATION_FAILED
+    );
+  }
+}
+
+/**
+ * Remove a game from the stored history
+ * 
+ * @param gameId - ID of the game to remove
+ * @returns Success message
+ */
+export async function removeRecentGame(gameId: string): Promise<{ message: string }> {
+  try {
+    const result = await apiClient.delete<ApiSuccessResponse<{ message: string }>>(
+      API_ENDPOINTS.RECENT.BY_ID(gameId)
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    return result.data;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to remove recently played game',
+      ErrorCodes.OPERATION_FAILED
+    );
+  }
+}
+
+/**
+ * Clear the stored history
+ * 
+ * @returns Success message
+ */
+export async function clearRecentGames(): Promise<{ message: string }> {
+  try {
+    const result = await apiClient.delete<ApiSuccessResponse<{ message: string }>>(
+      API_ENDPOINTS.RECENT.BASE
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    return result.data;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to clear recently played games',
+      ErrorCodes.OPERATION_FAILED
+    );
+  }
+}
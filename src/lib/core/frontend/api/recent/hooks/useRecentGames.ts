@@ -0,0 +1,96 @@
+/**
+ * React Query hooks for the recently played history
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RecentGame } from '@/lib/core/domain/entities';
+import { fetchRecentGames } from '../fetchers/GET';
+import { clearRecentGames, mergeRecentGames, removeRecentGame } from '../fetchers/POST';
+import { queryKeys } from '../../query/keys';
+import { useToastStore } from '@/lib/core/frontend/stores/toast/useToastStore';
+
+/**
+ * Hook to fetch the recently played games
+ * 
+ * @param ids - A guest's local history; the stored history is fetched when omitted
+ * @param options - Set enabled to false to skip fetching
+ * 
+ * @example
+ * ```typescript
+ * const { data: games = [] } = useRecentGamesQuery(localIds);
+ * ```
+ */
+export function useRecentGamesQuery(ids?: string[], options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.recentGames(ids),
+    queryFn: () => fetchRecentGames(ids),
+    enabled: options.enabled ?? true,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+/**
+ * Hook to merge a guest's local history into the stored history
+ */
+export function useMergeRecentGamesMutation() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: (entries: RecentGame[]) => mergeRecentGames(entries),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.recent() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.lists() });
+    },
+    onError: (error) => {
+      console.error('Failed to merge recently played games:', error);
+    }
+  });
+}
+
+/**
+ * Hook to remove a game from the stored history
+ */
+export function useRemoveRecentGameMutation() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToastStore();
+  
+  return useMutation({
+    mutationFn: removeRecentGame,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.recent() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.lists() });
+    },
+    onError: (error) => {
+      showToast({
+        message: 'Failed to remove game from history',
+        variant: 'error',
+        duration: 3000
+      });
+      console.error('Failed to remove recently played game:', error);
+    }
+  });
+}
+
+/**
+ * Hook to clear the stored history
+ */
+export function useClearRecentGamesMutation() {
+  const queryClient = useQueryClient();
+  const { showToast } = useToastStore();
+  
+  return useMutation({
+    mutationFn: clearRecentGames,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.recent() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.lists() });
+    },
+    onError: (error) => {
+      showToast({
+        message: 'Failed to clear history',
+        variant: 'error',
+        duration: 3000
+      });
+      console.error('Failed to clear recently played games:', error);
+    }
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * Recently Played API exports
+ */
+
+// Fetchers
+export * from './fetchers/GET';
+export * from './fetchers/POST';
+
+// Hooks
+export * from './hooks/useRecentGames';
@@ -0,0 +1,95 @@
+/**
+ * Search API GET fetchers
+ * All GET request handlers for search endpoints
+ */
+
+import type {
+  ApiSuccessResponse,
+  SearchResults,
+  SearchResultsParams,
+  SearchSuggestions
+} from '@/lib/core/shared/types';
+import type {
+  ApiSearchResultsResponse,
+  ApiSearchSuggestionsResponse
+} from '@/lib/core/backend/types/searchTypes';
+import { searchApiTransformers } from '@/lib/core/shared/transformers';
+import { apiClient } from '@/lib/core/frontend/api/client';
+import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
+import { ApiError } from '@/lib/core/shared/errors';
+import { ErrorCodes } from '@/lib/core/shared/errors/constants';
+
+/**
+ * Fetch grouped suggestions for a partial query
+ * 
+ * @example
+ * ```typescript
+ * const { games, providers, tags, completions } = await fetchSearchSuggestions('book');
+ * ```
+ */
+export async function fetchSearchSuggestions(query: string): Promise<SearchSuggestions> {
+  try {
+    const result = await apiClient.get<ApiSuccessResponse<ApiSearchSuggestionsResponse>>(
+      API_ENDPOINTS.SEARCH.SUGGEST,
+      { q: query }
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    return searchApiTransformers.fromApiSuggestionsResponse(result.data);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to fetch search suggestions',
+      ErrorCodes.DATA_FETCH_ERROR
+    );
+  }
+}
+
+/**
+ * Fetch multi-entity search results, one paginated group per entity
+ * 
+ * @example
+ * ```typescript
+ * const { games, providers, tags } = await fetchSearchResults({ query: 'book' });
+ * ```
+ */
+export async function fetchSearchResults(params: SearchResultsParams): Promise<SearchResults> {
+  try {
+    const result = await apiClient.get<ApiSuccessResponse<ApiSearchResultsResponse>>(
+      API_ENDPOINTS.SEARCH.BASE,
+      {
+        q: params.query,
+        type: params.type,
+        page: params.page,
+        pageSize: params.pageSize
+      }
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    return searchApiTransformers.fromApiResultsResponse(result.data);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to fetch search results',
+      ErrorCodes.DATA_FETCH_ERROR
+    );
+  }
+}
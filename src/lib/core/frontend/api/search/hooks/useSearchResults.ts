@@ -0,0 +1,30 @@
+/**
+ * React Query hooks for multi-entity search results
+ */
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import type { SearchResultsParams } from '@/lib/core/shared/types';
+import { fetchSearchResults } from '../fetchers/GET';
+import { queryKeys } from '../../query/keys';
+
+/**
+ * Hook to fetch games, providers and tags matching a query
+ * An empty query is not sent
+ * 
+ * @example
+ * ```typescript
+ * const { data } = useSearchResultsQuery({ query: 'book', pageSize: 8 });
+ * console.log(data?.games?.pagination.total);
+ * ```
+ */
+export function useSearchResultsQuery(params: SearchResultsParams, options: { enabled?: boolean } = {}) {
+  const query = params.query.trim();
+
+  return useQuery({
+    queryKey: queryKeys.searchResults({ ...params, query }),
+    queryFn: () => fetchSearchResults({ ...params, query }),
+    enabled: (options.enabled ?? true) && query.length > 0,
+    staleTime: 1000 * 60, // 1 minute
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * React Query hooks for search suggestions
+ */
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { fetchSearchSuggestions } from '../fetchers/GET';
+import { queryKeys } from '../../query/keys';
+import { UI_LIMITS } from '@/lib/core/config/constants/app.constants';
+
+/**
+ * Hook to fetch suggestions for a (debounced) partial query
+ * Queries shorter than UI_LIMITS.MIN_SEARCH_LENGTH are not sent
+ * 
+ * @example
+ * ```typescript
+ * const { data } = useSearchSuggestionsQuery(debouncedValue);
+ * console.log(data?.providers[0]?.name);
+ * ```
+ */
+export function useSearchSuggestionsQuery(query: string, options: { enabled?: boolean } = {}) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: queryKeys.searchSuggestions(trimmed),
+    queryFn: () => fetchSearchSuggestions(trimmed),
+    enabled: (options.enabled ?? true) && trimmed.length >= UI_LIMITS.MIN_SEARCH_LENGTH,
+    staleTime: 1000 * 60, // 1 minute
+    // Keep the last suggestions while the next ones load, so the dropdown doesn't flicker
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * Search API exports
+ */
+
+// Fetchers
+export * from './fetchers/GET';
+
+// Hooks
+export * from './hooks/useSearchSuggestions';
+export * from './hooks/useSearchResults';
@@ -3,10 +3,10 @@
  * All GET request handlers for tags endpoint
  */
 
-import type { Tag } from '@/lib/core/domain/entities';
-import type { ApiTagResponse, ApiTagStatsResponse } from '@/lib/core/backend/types/tagTypes';
-import type { ApiSuccessResponse, PaginationMeta } from '@/lib/core/shared/types';
-import { tagApiTransformers } from '@/lib/core/shared/transformers';
+import type { Game, Tag } from '@/lib/core/domain/entities';
+import type { ApiTagResponse, ApiTagDetailResponse, ApiTagStatsResponse } from '@/lib/core/backend/types/tagTypes';
+import type { ApiSuccessResponse, PaginationMeta, TagCategory } from '@/lib/core/shared/types';
+import { gameApiTransformers, tagApiTransformers } from '@/lib/core/shared/transformers';
 import { apiClient } from '@/lib/core/frontend/api/client';
 import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
 import { ApiError } from '@/lib/core/shared/errors';
@@ -20,6 +20,15 @@ export interface FetchTagsResponse {
   pagination?: PaginationMeta;
 }
 
+/**
+ * Response type for fetchTagById
+ */
+export interface FetchTagResponse extends Tag {
+  category?: TagCategory;
+  games?: Game[];
+  relatedTags?: Tag[];
+}
+
 /**
  * Fetch all tags with optional filters
  */
@@ -113,7 +122,7 @@ export async function fetchTopTags(limit: number = 10): Promise<Tag[]> {
 }
 
 /**
- * Fetch tag by ID with optional details
+ * Fetch tag by ID with optional games and related tags
  */
 export async function fetchTagById(
   id: string,
@@ -122,15 +131,15 @@ export async function fetchTagById(
     includeRelated?: boolean;
     relatedLimit?: number;
   }
-): Promise<Tag> {
+): Promise<FetchTagResponse> {
   try {
-    const queryParams: Record<string, string> = {};
-    
-    if (options?.includeGames) queryParams.includeGames = 'true';
-    if (options?.includeRelated) queryParams.includeRelated = 'true';
-    if (options?.relatedLimit) queryParams.relatedLimit = options.relatedLimit.toString();
+    // Use transformer to build query params
+    const queryString = options ? tagApiTransformers.buildQueryString(options) : '';
+    const queryParams: Record<string, string> = queryString 
+      ? Object.fromEntries(new URLSearchParams(queryString)) 
+      : {};
     
-    const result = await apiClient.get<ApiSuccessResponse<ApiTagResponse>>(
+    const result = await apiClient.get<ApiSuccessResponse<ApiTagDetailResponse>>(
       API_ENDPOINTS.TAGS.BY_ID(id),
       queryParams
     );
@@ -142,8 +151,15 @@ export async function fetchTagById(
       );
     }
     
-    // Transform API response to domain entity
-    return tagApiTransformers.responseToEntity(result.data as ApiTagResponse);
+    // Transform API response to domain entities
+    const data = result.data as ApiTagDetailResponse;
+    
+    return {
+      ...tagApiTransformers.responseToEntity(data),
+      category: data.category,
+      ...(data.games && { games: gameApiTransformers.fromApiGetAllGamesResponse(data.games) }),
+      ...(data.relatedTags && { relatedTags: tagApiTransformers.fromApiGetAllTagsResponse(data.relatedTags) })
+    };
   } catch (error) {
     if (error instanceof ApiError) {
       if (error.statusCode === 404) {
@@ -71,7 +71,7 @@ export function useTagQuery(id: string, options?: {
   relatedLimit?: number;
 }) {
   return useQuery({
-    queryKey: queryKeys.tags.detail(id),
+    queryKey: queryKeys.tags.detail(id, options),
     queryFn: () => fetchTagById(id, options),
     enabled: !!id,
     staleTime: 5 * 60 * 1000,
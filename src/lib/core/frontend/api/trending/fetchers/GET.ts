@@ -0,0 +1,46 @@
+/**
+ * Trending API GET fetchers
+ * All GET request handlers for trending endpoint
+ */
+
+import type { ApiSuccessResponse, TrendingRankings } from '@/lib/core/shared/types';
+import type { ApiTrendingResponse } from '@/lib/core/backend/types/trendingTypes';
+import { trendingApiTransformers } from '@/lib/core/shared/transformers';
+import { apiClient } from '@/lib/core/frontend/api/client';
+import { API_ENDPOINTS } from '@/lib/core/frontend/api/endpoints';
+import { ApiError } from '@/lib/core/shared/errors';
+import { ErrorCodes } from '@/lib/core/shared/errors/constants';
+
+/**
+ * Fetch the trending rankings
+ * 
+ * @example
+ * ```typescript
+ * const { today, rising } = await fetchTrending();
+ * ```
+ */
+export async function fetchTrending(): Promise<TrendingRankings> {
+  try {
+    const result = await apiClient.get<ApiSuccessResponse<ApiTrendingResponse>>(
+      API_ENDPOINTS.TRENDING.BASE
+    );
+    
+    if (!result.success) {
+      throw new ApiError(
+        'API returned an error response',
+        ErrorCodes.API_ERROR
+      );
+    }
+    
+    return trendingApiTransformers.fromApiResponse(result.data);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    
+    throw new ApiError(
+      'Failed to fetch trending rankings',
+      ErrorCodes.DATA_FETCH_ERROR
+    );
+  }
+}
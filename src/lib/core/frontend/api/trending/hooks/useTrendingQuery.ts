@@ -0,0 +1,26 @@
+/**
+ * React Query hooks for the trending rankings
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchTrending } from '../fetchers/GET';
+import { queryKeys } from '../../query/keys';
+
+/**
+ * Hook to fetch the trending rankings
+ * Rankings are recomputed at most once a minute on the server, so they are refetched on the same cadence
+ * 
+ * @example
+ * ```typescript
+ * const { data } = useTrendingQuery();
+ * console.log(data?.today[0]?.game.title);
+ * ```
+ */
+export function useTrendingQuery() {
+  return useQuery({
+    queryKey: queryKeys.trending(),
+    queryFn: fetchTrending,
+    staleTime: 60 * 1000, // 1 minute
+    refetchInterval: 60 * 1000,
+  });
+}
@@ -0,0 +1,9 @@
+/**
+ * Trending API exports
+ */
+
+// Fetchers
+export * from './fetchers/GET';
+
+// Hooks
+export * from './hooks/useTrendingQuery';
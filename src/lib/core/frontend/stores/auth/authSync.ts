@@ -0,0 +1,44 @@
+/**
+ * Auth Sync
+ * Shares sign-in, sign-out and activity between the app's open tabs
+ * The session cookie is shared by every tab, so each tab only needs to hear what changed
+ */
+
+import type { ApiAuthSessionResponse } from '@/lib/core/backend/types/authTypes';
+
+export type AuthSyncMessage =
+  | { type: 'session'; session: ApiAuthSessionResponse }
+  | { type: 'signed-out' }
+  | { type: 'activity'; at: number };
+
+const CHANNEL_NAME = 'game-library-auth';
+
+let channel: BroadcastChannel | null | undefined;
+
+// Created lazily so the module can be imported during server rendering
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  }
+  return channel;
+}
+
+/**
+ * Tell the other tabs (the sending tab does not receive its own messages)
+ */
+export function broadcastAuth(message: AuthSyncMessage): void {
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * Listen to the other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeAuth(listener: (message: AuthSyncMessage) => void): () => void {
+  const current = getChannel();
+  if (!current) return () => {};
+
+  const handleMessage = (event: MessageEvent<AuthSyncMessage>) => listener(event.data);
+  current.addEventListener('message', handleMessage);
+  return () => current.removeEventListener('message', handleMessage);
+}
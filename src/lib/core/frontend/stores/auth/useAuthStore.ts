@@ -1,10 +1,29 @@
 /**
  * Auth Store
  * Manages authentication state and user information
+ * The session lives in an HTTP-only cookie, so the signed-in user is always read from the server.
+ * Sign-in, sign-out and activity are shared with the other open tabs
  */
 
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import type {
+  ApiAccountUpdateRequest,
+  ApiAuthSessionResponse,
+  ApiLoginRequest,
+  ApiRegisterRequest
+} from '@/lib/core/backend/types/authTypes';
+import { fetchSession } from '@/lib/core/frontend/api/auth/fetchers/GET';
+import {
+  login as loginRequest,
+  logout as logoutRequest,
+  refreshSession as refreshRequest,
+  register as registerRequest,
+  updateAccount as updateAccountRequest
+} from '@/lib/core/frontend/api/auth/fetchers/POST';
+import { ApiError } from '@/lib/core/shared/errors';
+import { HttpStatusCodes } from '@/lib/core/shared/errors/constants';
+import { SESSION_REFRESH_INTERVAL } from '@/lib/core/config/constants/app.constants';
+import { broadcastAuth, subscribeAuth } from './authSync';
 
 export interface User {
   id?: string;
@@ -20,18 +39,36 @@ interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  
+  /** True once the session has been checked with the server */
+  isHydrated: boolean;
+  /** When the signed-in session expires (ISO timestamp) */
+  expiresAt: string | null;
+  /** When the session was last confirmed or refreshed by any tab (epoch ms) */
+  refreshedAt: number;
+  /** Last user activity seen in any tab (epoch ms) */
+  lastActivityAt: number;
+
   // Actions
+  hydrate: () => Promise<void>;
+  login: (credentials: ApiLoginRequest) => Promise<void>;
+  register: (account: ApiRegisterRequest) => Promise<void>;
+  logout: () => Promise<void>;
+  updateAccount: (changes: ApiAccountUpdateRequest) => Promise<void>;
+  refreshSession: () => Promise<void>;
+  expireSession: () => Promise<void>;
+  recordActivity: () => void;
   setUser: (user: User | null) => void;
-  login: (user: User) => void;
-  logout: () => void;
   updateBalance: (balance: number) => void;
   addToBalance: (amount: number) => void;
   subtractFromBalance: (amount: number) => void;
   initializeGuestMode: () => void;
-  refreshSession: () => void;
 }
 
+/**
+ * Activity is shared with other tabs at most this often (milliseconds)
+ */
+const ACTIVITY_SYNC_INTERVAL = 15 * 1000;
+
 // Default guest user
 const createGuestUser = (): User => ({
   name: 'Guest Player',
@@ -39,72 +76,199 @@ const createGuestUser = (): User => ({
   isGuest: true
 });
 
-export const useAuthStore = create<AuthState>()(
-  persist(
-    (set) => ({
-      // Initial state
-      user: null,
-      isAuthenticated: false,
-      isLoading: false,
-      
-      // Set user
-      setUser: (user) => set({ 
-        user, 
-        isAuthenticated: !!user && !user.isGuest 
-      }),
-      
-      // Login
-      login: (user) => set({ 
-        user, 
-        isAuthenticated: true,
-        isLoading: false 
-      }),
-      
-      // Logout
-      logout: () => set({ 
-        user: null, 
-        isAuthenticated: false,
-        isLoading: false 
-      }),
-      
-      // Update balance
-      updateBalance: (balance) => set((state) => ({
-        user: state.user ? { ...state.user, balance } : null
-      })),
-      
-      // Add to balance
-      addToBalance: (amount) => set((state) => ({
-        user: state.user 
-          ? { ...state.user, balance: state.user.balance + amount }
-          : null
-      })),
-      
-      // Subtract from balance
-      subtractFromBalance: (amount) => set((state) => ({
-        user: state.user 
-          ? { ...state.user, balance: Math.max(0, state.user.balance - amount) }
-          : null
-      })),
-      
-      // Initialize guest mode
-      initializeGuestMode: () => set({
-        user: createGuestUser(),
-        isAuthenticated: false,
-        isLoading: false
-      }),
-      
-      // Refresh session
-      refreshSession: () => {
-        // TODO: this would call an API to refresh the session token
-        console.log('Session refreshed at', new Date().toISOString());
+// Signed-out state, also used when the session expires
+const guestState = () => ({
+  user: createGuestUser(),
+  isAuthenticated: false,
+  expiresAt: null
+});
+
+// Signed-in user from a session response, falling back to a guest
+const fromSession = (session: ApiAuthSessionResponse) => ({
+  user: session.user
+    ? {
+        id: session.user.id,
+        name: session.user.name,
+        email: session.user.email,
+        balance: session.user.balance
       }
-    }),
-    {
-      name: 'auth-storage',
-      partialize: (state) => ({ 
-        user: state.user,
-        isAuthenticated: state.isAuthenticated 
-      })
+    : createGuestUser(),
+  isAuthenticated: !!session.user,
+  expiresAt: session.expiresAt,
+  refreshedAt: Date.now()
+});
+
+export const useAuthStore = create<AuthState>()((set, get) => ({
+  // Initial state
+  user: null,
+  isAuthenticated: false,
+  isLoading: false,
+  isHydrated: false,
+  expiresAt: null,
+  refreshedAt: 0,
+  lastActivityAt: 0,
+
+  // Read the signed-in user from the session cookie
+  hydrate: async () => {
+    set({ isLoading: true });
+    try {
+      const session = await fetchSession();
+      set({ ...fromSession(session), isLoading: false, isHydrated: true });
+    } catch (error) {
+      console.error('Failed to load session:', error);
+      set({ ...guestState(), isLoading: false, isHydrated: true });
     }
-  )
-);
\ No newline at end of file
+  },
+
+  // Login (errors are rethrown for the form to show)
+  login: async (credentials) => {
+    set({ isLoading: true });
+    try {
+      const session = await loginRequest(credentials);
+      set({ ...fromSession(session), isLoading: false });
+      broadcastAuth({ type: 'session', session });
+    } catch (error) {
+      set({ isLoading: false });
+      throw error;
+    }
+  },
+
+  // Register and sign in (errors are rethrown for the form to show)
+  register: async (account) => {
+    set({ isLoading: true });
+    try {
+      const session = await registerRequest(account);
+      set({ ...fromSession(session), isLoading: false });
+      broadcastAuth({ type: 'session', session });
+    } catch (error) {
+      set({ isLoading: false });
+      throw error;
+    }
+  },
+
+  // Logout, back to guest mode even when the request fails
+  logout: async () => {
+    set({ isLoading: true });
+    try {
+      await logoutRequest();
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    } finally {
+      set({ ...guestState(), isLoading: false });
+      broadcastAuth({ type: 'signed-out' });
+    }
+  },
+
+  // Update account details (errors are rethrown for the form to show); a 401 signs out
+  updateAccount: async (changes) => {
+    try {
+      const user = await updateAccountRequest(changes);
+      const session = { user, expiresAt: get().expiresAt };
+      // Only the details changed, the session was not refreshed
+      set({ user: fromSession(session).user });
+      broadcastAuth({ type: 'session', session });
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === HttpStatusCodes.UNAUTHORIZED) {
+        await get().expireSession();
+      }
+      throw error;
+    }
+  },
+
+  // Slide the session forward ("Stay signed in" and activity); signs out if it already expired
+  refreshSession: async () => {
+    if (!get().isAuthenticated) return;
+
+    // Claim the refresh up front so activity does not send it twice
+    set({ refreshedAt: Date.now() });
+    try {
+      const session = await refreshRequest();
+      set(fromSession(session));
+      broadcastAuth({ type: 'session', session });
+    } catch (error) {
+      if (error instanceof ApiError && error.statusCode === HttpStatusCodes.UNAUTHORIZED) {
+        await get().expireSession();
+      } else {
+        console.error('Failed to refresh session:', error);
+      }
+    }
+  },
+
+  // Forced logout once the session has expired
+  expireSession: async () => {
+    if (!get().isAuthenticated) return;
+
+    set(guestState());
+    broadcastAuth({ type: 'signed-out' });
+    try {
+      // Clears the cookie; the server already rejects the session
+      await logoutRequest();
+    } catch (error) {
+      console.error('Failed to clear expired session:', error);
+    }
+  },
+
+  // Activity in this tab: shared with the others, and refreshes the session once SESSION_REFRESH_INTERVAL has passed
+  recordActivity: () => {
+    const { isAuthenticated, lastActivityAt, refreshedAt, refreshSession } = get();
+    const now = Date.now();
+    // Activity another tab shared recently already counts
+    if (now - lastActivityAt < ACTIVITY_SYNC_INTERVAL) return;
+
+    set({ lastActivityAt: now });
+    broadcastAuth({ type: 'activity', at: now });
+
+    if (isAuthenticated && now - refreshedAt >= SESSION_REFRESH_INTERVAL) {
+      refreshSession();
+    }
+  },
+
+  // Set user (local only, e.g. for stories)
+  setUser: (user) => set({
+    user,
+    isAuthenticated: !!user && !user.isGuest
+  }),
+
+  // Update balance
+  updateBalance: (balance) => set((state) => ({
+    user: state.user ? { ...state.user, balance } : null
+  })),
+
+  // Add to balance
+  addToBalance: (amount) => set((state) => ({
+    user: state.user
+      ? { ...state.user, balance: state.user.balance + amount }
+      : null
+  })),
+
+  // Subtract from balance
+  subtractFromBalance: (amount) => set((state) => ({
+    user: state.user
+      ? { ...state.user, balance: Math.max(0, state.user.balance - amount) }
+      : null
+  })),
+
+  // Initialize guest mode
+  initializeGuestMode: () => set({
+    user: createGuestUser(),
+    isAuthenticated: false,
+    isLoading: false
+  })
+}));
+
+// Follow sign-in, sign-out and activity in the other tabs
+subscribeAuth(message => {
+  switch (message.type) {
+    case 'session':
+      useAuthStore.setState(fromSession(message.session));
+      break;
+    case 'signed-out':
+      if (useAuthStore.getState().isAuthenticated) {
+        useAuthStore.setState(guestState());
+      }
+      break;
+    case 'activity':
+      useAuthStore.setState({ lastActivityAt: message.at });
+      break;
+  }
+});
@@ -1,6 +1,6 @@
 /**
  * Favorites Store
- * Manages user's favorite games with backend synchronization
+ * Manages user's favorite games, followed providers and followed tags with backend synchronization
  * Backend handles persistence, store maintains local state for UI
  * Uses favoriteStoreTransformers for all data transformations
  */
@@ -9,13 +9,16 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { favoriteStoreTransformers, type StoreFavorite } from '@/lib/core/frontend/transformers';
 import { FavoriteType } from '@/lib/core/shared/transformers';
+import type { FavoriteCollection } from '@/lib/core/domain/entities';
 
 /**
  * Favorites state interface
  */
 export interface FavoritesState {
-  // State - Using StoreFavorite for metadata support
+  // State - Using StoreFavorite for metadata support (games, providers and tags share the list)
   favorites: StoreFavorite[];
+  // Named collections in display order, each holding a subset of the favorite games
+  collections: FavoriteCollection[];
   isInitialized: boolean;
   
   // Computed
@@ -23,15 +26,26 @@ export interface FavoritesState {
   getFavoriteCount: () => number;
   getFavoriteIds: () => string[];
   getFavoritesByType: (type: FavoriteType) => StoreFavorite[];
+  isFollowed: (id: string, type: FavoriteType.PROVIDER | FavoriteType.TAG) => boolean;
+  getFollowedIds: (type: FavoriteType.PROVIDER | FavoriteType.TAG) => string[];
+  getCollection: (collectionId: string) => FavoriteCollection | undefined;
+  getCollectionsForGame: (gameId: string) => FavoriteCollection[];
   
   // Actions
   toggleFavorite: (gameId: string, type?: FavoriteType) => void;
   addFavorite: (gameId: string, type?: FavoriteType) => void;
   removeFavorite: (gameId: string) => void;
   clearFavorites: () => void;
-  setFavorites: (ids: string[]) => void;
+  setFavorites: (ids: string[], type?: FavoriteType) => void;
   setFavoritesWithMetadata: (favorites: StoreFavorite[]) => void;
   markInitialized: () => void;
+  
+  // Collection actions
+  setCollections: (collections: FavoriteCollection[]) => void;
+  upsertCollection: (collection: FavoriteCollection) => void;
+  removeCollection: (collectionId: string) => void;
+  reorderCollections: (collectionIds: string[]) => void;
+  toggleGameInCollection: (collectionId: string, gameId: string) => void;
 }
 
 /**
@@ -51,20 +65,21 @@ export const useFavoritesStore = create<FavoritesState>()(
     (set, get) => ({
       // Initial state - empty until loaded from backend
       favorites: [],
+      collections: [],
       isInitialized: false,
       
       // Computed properties - using transformers
       isFavorite: (gameId: string) => {
-        return favoriteStoreTransformers.hasId(get().favorites, gameId);
+        return favoriteStoreTransformers.hasId(get().favorites, gameId, FavoriteType.GAME);
       },
       
       getFavoriteCount: () => {
-        return get().favorites.length;
+        return get().getFavoritesByType(FavoriteType.GAME).length;
       },
       
       getFavoriteIds: () => {
-        // Use transformer to extract IDs
-        return favoriteStoreTransformers.toIdArray(get().favorites);
+        // Use transformer to extract game IDs
+        return favoriteStoreTransformers.toIdArray(get().getFavoritesByType(FavoriteType.GAME));
       },
       
       getFavoritesByType: (type: FavoriteType) => {
@@ -72,11 +87,35 @@ export const useFavoritesStore = create<FavoritesState>()(
         return favoriteStoreTransformers.filterByType(get().favorites, type);
       },
       
+      isFollowed: (id, type) => {
+        return favoriteStoreTransformers.hasId(get().favorites, id, type);
+      },
+      
+      getFollowedIds: (type) => {
+        return favoriteStoreTransformers.toIdArray(get().getFavoritesByType(type));
+      },
+      
+      getCollection: (collectionId: string) => {
+        return get().collections.find(collection => collection.id === collectionId);
+      },
+      
+      getCollectionsForGame: (gameId: string) => {
+        return favoriteStoreTransformers.getCollectionsForGame(get().collections, gameId);
+      },
+      
       // Actions - using transformers for all operations
       toggleFavorite: (gameId: string, type: FavoriteType = FavoriteType.GAME) => {
-        set((state) => ({
-          favorites: favoriteStoreTransformers.toggleFavorite(state.favorites, gameId, type)
-        }));
+        set((state) => {
+          const favorites = favoriteStoreTransformers.toggleFavorite(state.favorites, gameId, type);
+          
+          // Unfavoriting a game also takes it out of its collections
+          return type !== FavoriteType.GAME || favoriteStoreTransformers.hasId(favorites, gameId, type)
+            ? { favorites }
+            : { 
+                favorites, 
+                collections: favoriteStoreTransformers.removeGameFromCollections(state.collections, gameId)
+              };
+        });
       },
       
       addFavorite: (gameId: string, type: FavoriteType = FavoriteType.GAME) => {
@@ -87,19 +126,23 @@ export const useFavoritesStore = create<FavoritesState>()(
       
       removeFavorite: (gameId: string) => {
         set((state) => ({
-          favorites: favoriteStoreTransformers.removeFavorite(state.favorites, gameId)
+          favorites: favoriteStoreTransformers.removeFavorite(state.favorites, gameId, FavoriteType.GAME),
+          collections: favoriteStoreTransformers.removeGameFromCollections(state.collections, gameId)
         }));
       },
       
       clearFavorites: () => {
-        set({ favorites: [] });
+        set((state) => ({
+          favorites: favoriteStoreTransformers.replaceByType(state.favorites, [], FavoriteType.GAME),
+          collections: state.collections.map(collection => ({ ...collection, gameIds: [] }))
+        }));
       },
       
-      setFavorites: (ids: string[]) => {
-        // Transform IDs to store format using transformer
-        set({ 
-          favorites: favoriteStoreTransformers.fromIdsToStore(ids, FavoriteType.GAME)
-        });
+      setFavorites: (ids: string[], type: FavoriteType = FavoriteType.GAME) => {
+        // Transform IDs to store format using transformer, keeping favorites of other types
+        set((state) => ({ 
+          favorites: favoriteStoreTransformers.replaceByType(state.favorites, ids, type)
+        }));
       },
       
       setFavoritesWithMetadata: (favorites: StoreFavorite[]) => {
@@ -110,6 +153,50 @@ export const useFavoritesStore = create<FavoritesState>()(
       markInitialized: () => {
         set({ isInitialized: true });
       },
+      
+      // Collection actions - optimistic, confirmed by the collection mutations
+      setCollections: (collections: FavoriteCollection[]) => {
+        set({ collections });
+      },
+      
+      upsertCollection: (collection: FavoriteCollection) => {
+        set((state) => ({
+          collections: favoriteStoreTransformers.upsertCollection(state.collections, collection)
+        }));
+      },
+      
+      removeCollection: (collectionId: string) => {
+        set((state) => ({
+          collections: favoriteStoreTransformers.removeCollection(state.collections, collectionId)
+        }));
+      },
+      
+      reorderCollections: (collectionIds: string[]) => {
+        set((state) => ({
+          collections: favoriteStoreTransformers.reorderCollections(state.collections, collectionIds)
+        }));
+      },
+      
+      toggleGameInCollection: (collectionId: string, gameId: string) => {
+        set((state) => {
+          const collections = favoriteStoreTransformers.toggleGameInCollection(
+            state.collections, 
+            collectionId, 
+            gameId
+          );
+          const isInCollection = collections.some(collection => 
+            collection.id === collectionId && collection.gameIds.includes(gameId)
+          );
+          
+          // Adding a game to a collection also favorites it
+          return {
+            collections,
+            favorites: isInCollection
+              ? favoriteStoreTransformers.addFavorite(state.favorites, gameId)
+              : state.favorites
+          };
+        });
+      },
     }),
     {
       name: 'favorites-store',
@@ -4,8 +4,8 @@
  */
 
 import type { GameType } from '@/lib/core/domain/entities';
-import type { PaginationMeta } from '@/lib/core/domain/models';
-import type { FilterQueryParams } from '@/lib/core/shared/types/filters';
+import type { PaginationMeta, SortOption } from '@/lib/core/domain/models';
+import type { FilterQueryParams, TagMatchMode } from '@/lib/core/shared/types/filters';
 import type { StoreGame } from '../types';
 
 /**
@@ -29,8 +29,14 @@ export interface GamesState {
     selectedProviders: string[];
     selectedTypes: GameType[];
     selectedTags: string[];
-    sortBy: 'popular' | 'new' | 'az' | 'za' | 'rating';
+    tagMode: TagMatchMode;
+    excludedProviders: string[];
+    excludedTypes: GameType[];
+    excludedTags: string[];
+    sortBy: SortOption;
     showFavorites: boolean;
+    favoritesCollection?: string;
+    showRecent: boolean;
     showNew: boolean;
     showHot: boolean;
     showComingSoon: boolean;
@@ -70,9 +76,16 @@ export interface GamesState {
   toggleTag: (tag: string) => void;
   setTags: (tags: string[]) => void;
   clearTags: () => void;
+  setTagMode: (mode: TagMatchMode) => void;
+  setExcludedProviders: (providers: string[]) => void;
+  setExcludedTypes: (types: GameType[]) => void;
+  setExcludedTags: (tags: string[]) => void;
   setSortBy: (sort: GamesState['filters']['sortBy']) => void;
   toggleFavorites: () => void;
   setShowFavorites: (show: boolean) => void;
+  setFavoritesCollection: (collectionId?: string) => void;
+  toggleRecent: () => void;
+  setShowRecent: (show: boolean) => void;
   toggleNew: () => void;
   setShowNew: (show: boolean) => void;
   toggleHot: () => void;
@@ -35,8 +35,13 @@ const initialState = {
     selectedProviders: [],
     selectedTypes: [],
     selectedTags: [],
+    tagMode: 'any' as const,
+    excludedProviders: [],
+    excludedTypes: [],
+    excludedTags: [],
     sortBy: 'popular' as const,
     showFavorites: false,
+    showRecent: false,
     showNew: false,
     showHot: false,
     showComingSoon: false,
@@ -71,8 +76,14 @@ export const useGamesStore = create<GamesState>()(
             providers: state.filters.selectedProviders,
             types: state.filters.selectedTypes,
             tags: state.filters.selectedTags,
+            tagMode: state.filters.tagMode,
+            excludeProviders: state.filters.excludedProviders,
+            excludeTypes: state.filters.excludedTypes,
+            excludeTags: state.filters.excludedTags,
             sort: state.filters.sortBy,
             favorites: state.filters.showFavorites || false,
+            favoritesCollection: state.filters.showFavorites ? state.filters.favoritesCollection : undefined,
+            recent: state.filters.showRecent || false,
             isNew: state.filters.showNew || false,
             isHot: state.filters.showHot || false,
             isComingSoon: state.filters.showComingSoon || false,
@@ -88,7 +99,11 @@ export const useGamesStore = create<GamesState>()(
             filters.selectedProviders.length > 0 ||
             filters.selectedTypes.length > 0 ||
             filters.selectedTags.length > 0 ||
+            filters.excludedProviders.length > 0 ||
+            filters.excludedTypes.length > 0 ||
+            filters.excludedTags.length > 0 ||
             filters.showFavorites ||
+            filters.showRecent ||
             filters.showNew ||
             filters.showHot ||
             filters.showComingSoon
@@ -198,6 +213,34 @@ export const useGamesStore = create<GamesState>()(
           }), false, 'clearTags');
         },
         
+        setTagMode: (tagMode) => {
+          set(state => ({
+            filters: { ...state.filters, tagMode },
+            pagination: { ...state.pagination, page: 1 }
+          }), false, 'setTagMode');
+        },
+        
+        setExcludedProviders: (providers) => {
+          set(state => ({
+            filters: { ...state.filters, excludedProviders: providers },
+            pagination: { ...state.pagination, page: 1 }
+          }), false, 'setExcludedProviders');
+        },
+        
+        setExcludedTypes: (types) => {
+          set(state => ({
+            filters: { ...state.filters, excludedTypes: types },
+            pagination: { ...state.pagination, page: 1 }
+          }), false, 'setExcludedTypes');
+        },
+        
+        setExcludedTags: (tags) => {
+          set(state => ({
+            filters: { ...state.filters, excludedTags: tags },
+            pagination: { ...state.pagination, page: 1 }
+          }), false, 'setExcludedTags');
+        },
+        
         setSortBy: (sortBy) => {
           set(state => ({
             filters: { ...state.filters, sortBy },
@@ -207,18 +250,47 @@ export const useGamesStore = create<GamesState>()(
         
         toggleFavorites: () => {
           set(state => ({
-            filters: { ...state.filters, showFavorites: !state.filters.showFavorites },
+            filters: { ...state.filters, showFavorites: !state.filters.showFavorites, favoritesCollection: undefined },
             pagination: { ...state.pagination, page: 1 }
           }), false, 'toggleFavorites');
         },
         
         setShowFavorites: (show) => {
           set(state => ({
-            filters: { ...state.filters, showFavorites: show },
+            filters: {
+              ...state.filters,
+              showFavorites: show,
+              favoritesCollection: show ? state.filters.favoritesCollection : undefined
+            },
             pagination: { ...state.pagination, page: 1 }
           }), false, 'setShowFavorites');
         },
         
+        setFavoritesCollection: (collectionId) => {
+          set(state => ({
+            filters: {
+              ...state.filters,
+              showFavorites: collectionId ? true : state.filters.showFavorites,
+              favoritesCollection: collectionId
+            },
+            pagination: { ...state.pagination, page: 1 }
+          }), false, 'setFavoritesCollection');
+        },
+        
+        toggleRecent: () => {
+          set(state => ({
+            filters: { ...state.filters, showRecent: !state.filters.showRecent },
+            pagination: { ...state.pagination, page: 1 }
+          }), false, 'toggleRecent');
+        },
+        
+        setShowRecent: (show) => {
+          set(state => ({
+            filters: { ...state.filters, showRecent: show },
+            pagination: { ...state.pagination, page: 1 }
+          }), false, 'setShowRecent');
+        },
+        
         toggleNew: () => {
           set(state => ({
             filters: { ...state.filters, showNew: !state.filters.showNew },
@@ -448,6 +520,9 @@ export const useGamesStore = create<GamesState>()(
               selectedProviders: persisted?.filters?.selectedProviders || [],
               selectedTypes: persisted?.filters?.selectedTypes || [],
               selectedTags: persisted?.filters?.selectedTags || [],
+              excludedProviders: persisted?.filters?.excludedProviders || [],
+              excludedTypes: persisted?.filters?.excludedTypes || [],
+              excludedTags: persisted?.filters?.excludedTags || [],
             },
           };
         },
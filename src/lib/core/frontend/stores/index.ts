@@ -10,6 +10,8 @@ export * from './preferences/usePreferencesStore';
 export * from './navigation/useNavigationStore';
 export * from './toast/useToastStore';
 export * from './modal/useModalStore';
+export * from './recentlyPlayed/useRecentlyPlayedStore';
+export * from './searchHistory/useSearchHistoryStore';
 
 // Root store (use sparingly)
 export * from './useRootStore';
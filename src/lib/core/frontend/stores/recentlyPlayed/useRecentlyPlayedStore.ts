@@ -0,0 +1,61 @@
+/**
+ * Recently Played Store
+ * Keeps a guest's recently played history in local storage
+ * Signed-in users' history lives on the server; the guest history is merged into it on sign in
+ */
+
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { RecentGame } from '@/lib/core/domain/entities';
+import { createRecentGame } from '@/lib/core/domain/entities';
+import { MAX_RECENT_GAMES } from '@/lib/core/config/constants/app.constants';
+
+interface RecentlyPlayedState {
+  // Most recent first, capped at MAX_RECENT_GAMES
+  entries: RecentGame[];
+  
+  // Computed
+  getRecentIds: () => string[];
+  
+  // Actions
+  addGame: (gameId: string) => void;
+  removeGame: (gameId: string) => void;
+  clear: () => void;
+}
+
+export const useRecentlyPlayedStore = create<RecentlyPlayedState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        entries: [],
+        
+        getRecentIds: () => get().entries.map(entry => entry.gameId),
+        
+        addGame: (gameId) => {
+          set(state => ({
+            entries: [
+              createRecentGame({ gameId }),
+              ...state.entries.filter(entry => entry.gameId !== gameId)
+            ].slice(0, MAX_RECENT_GAMES)
+          }), false, 'addGame');
+        },
+        
+        removeGame: (gameId) => {
+          set(state => ({
+            entries: state.entries.filter(entry => entry.gameId !== gameId)
+          }), false, 'removeGame');
+        },
+        
+        clear: () => {
+          set({ entries: [] }, false, 'clear');
+        },
+      }),
+      {
+        name: 'recently-played-store',
+      }
+    ),
+    {
+      name: 'RecentlyPlayedStore',
+    }
+  )
+);
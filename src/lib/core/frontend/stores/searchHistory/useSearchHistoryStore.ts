@@ -0,0 +1,61 @@
+/**
+ * Search History Store
+ * Keeps the visitor's recent search queries in local storage
+ */
+
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { MAX_SEARCH_HISTORY, STORAGE_KEYS } from '@/lib/core/config/constants/app.constants';
+
+interface SearchHistoryState {
+  // Most recent first, capped at MAX_SEARCH_HISTORY
+  queries: string[];
+  
+  // Actions
+  addQuery: (query: string) => void;
+  removeQuery: (query: string) => void;
+  clear: () => void;
+}
+
+/**
+ * Compare queries ignoring case and surrounding whitespace
+ */
+const isSameQuery = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const useSearchHistoryStore = create<SearchHistoryState>()(
+  devtools(
+    persist(
+      (set) => ({
+        queries: [],
+        
+        addQuery: (query) => {
+          const trimmed = query.trim();
+          if (!trimmed) return;
+          
+          set(state => ({
+            queries: [
+              trimmed,
+              ...state.queries.filter(existing => !isSameQuery(existing, trimmed))
+            ].slice(0, MAX_SEARCH_HISTORY)
+          }), false, 'addQuery');
+        },
+        
+        removeQuery: (query) => {
+          set(state => ({
+            queries: state.queries.filter(existing => !isSameQuery(existing, query))
+          }), false, 'removeQuery');
+        },
+        
+        clear: () => {
+          set({ queries: [] }, false, 'clear');
+        },
+      }),
+      {
+        name: STORAGE_KEYS.LAST_SEARCH,
+      }
+    ),
+    {
+      name: 'SearchHistoryStore',
+    }
+  )
+);
@@ -4,6 +4,7 @@
  * Frontend-specific transformers for state management
  */
 
+import type { FavoriteCollection } from '@/lib/core/domain/entities';
 import type { FavoriteData } from '@/lib/core/shared/transformers';
 import { FavoriteType } from '@/lib/core/shared/transformers';
 
@@ -69,10 +70,20 @@ export const favoriteStoreTransformers = {
   },
 
   /**
-   * Check if ID exists in store favorites
+   * Check if ID exists in store favorites (optionally of a given type)
    */
-  hasId(favorites: StoreFavorite[], id: string): boolean {
-    return favorites.some(fav => fav.id === id);
+  hasId(favorites: StoreFavorite[], id: string, type?: FavoriteType): boolean {
+    return favorites.some(fav => fav.id === id && (!type || fav.type === type));
+  },
+
+  /**
+   * Replace all favorites of one type, keeping the other types
+   */
+  replaceByType(favorites: StoreFavorite[], ids: string[], type: FavoriteType): StoreFavorite[] {
+    return [
+      ...favorites.filter(fav => fav.type !== type),
+      ...this.fromIdsToStore(ids, type),
+    ];
   },
 
   /**
@@ -83,7 +94,7 @@ export const favoriteStoreTransformers = {
     id: string, 
     type: FavoriteType = FavoriteType.GAME
   ): StoreFavorite[] {
-    if (this.hasId(favorites, id)) {
+    if (this.hasId(favorites, id, type)) {
       return favorites;
     }
     
@@ -98,10 +109,10 @@ export const favoriteStoreTransformers = {
   },
 
   /**
-   * Remove favorite from store
+   * Remove favorite from store (optionally only of a given type)
    */
-  removeFavorite(favorites: StoreFavorite[], id: string): StoreFavorite[] {
-    return favorites.filter(fav => fav.id !== id);
+  removeFavorite(favorites: StoreFavorite[], id: string, type?: FavoriteType): StoreFavorite[] {
+    return favorites.filter(fav => !(fav.id === id && (!type || fav.type === type)));
   },
 
   /**
@@ -112,8 +123,8 @@ export const favoriteStoreTransformers = {
     id: string, 
     type: FavoriteType = FavoriteType.GAME
   ): StoreFavorite[] {
-    if (this.hasId(favorites, id)) {
-      return this.removeFavorite(favorites, id);
+    if (this.hasId(favorites, id, type)) {
+      return this.removeFavorite(favorites, id, type);
     } else {
       return this.addFavorite(favorites, id, type);
     }
@@ -156,6 +167,77 @@ export const favoriteStoreTransformers = {
     };
   },
 
+  /**
+   * Add or replace a collection (new collections are appended)
+   */
+  upsertCollection(collections: FavoriteCollection[], collection: FavoriteCollection): FavoriteCollection[] {
+    if (collections.some(item => item.id === collection.id)) {
+      return collections.map(item => item.id === collection.id ? collection : item);
+    }
+    
+    return [...collections, collection];
+  },
+
+  /**
+   * Remove a collection
+   */
+  removeCollection(collections: FavoriteCollection[], collectionId: string): FavoriteCollection[] {
+    return collections.filter(collection => collection.id !== collectionId);
+  },
+
+  /**
+   * Reorder collections by ID (collections missing from the list keep their relative order at the end)
+   */
+  reorderCollections(collections: FavoriteCollection[], collectionIds: string[]): FavoriteCollection[] {
+    const position = new Map(collectionIds.map((id, index) => [id, index]));
+    
+    return [...collections].sort((a, b) =>
+      (position.get(a.id) ?? collectionIds.length) - (position.get(b.id) ?? collectionIds.length)
+    );
+  },
+
+  /**
+   * Add or remove a game in a collection
+   */
+  toggleGameInCollection(
+    collections: FavoriteCollection[], 
+    collectionId: string, 
+    gameId: string
+  ): FavoriteCollection[] {
+    return collections.map(collection => {
+      if (collection.id !== collectionId) return collection;
+      
+      return {
+        ...collection,
+        gameIds: collection.gameIds.includes(gameId)
+          ? collection.gameIds.filter(id => id !== gameId)
+          : [...collection.gameIds, gameId],
+        updatedAt: new Date().toISOString(),
+      };
+    });
+  },
+
+  /**
+   * Remove a game from every collection (collections only hold favorites)
+   */
+  removeGameFromCollections(collections: FavoriteCollection[], gameId: string): FavoriteCollection[] {
+    if (!collections.some(collection => collection.gameIds.includes(gameId))) {
+      return collections;
+    }
+    
+    return collections.map(collection => ({
+      ...collection,
+      gameIds: collection.gameIds.filter(id => id !== gameId),
+    }));
+  },
+
+  /**
+   * Get the collections a game belongs to
+   */
+  getCollectionsForGame(collections: FavoriteCollection[], gameId: string): FavoriteCollection[] {
+    return collections.filter(collection => collection.gameIds.includes(gameId));
+  },
+
   /**
    * Sort favorites by date added
    */
@@ -34,14 +34,14 @@ export const gameStoreTransformers = {
         isFavorite: game.isFavorite || false,
       },
       stats: {
-        rating: 0, // Rating is not in domain model, default to 0
+        rating: game.rating ?? 0,
         rtp: game.rtp,
-        maxWin: undefined, // Not in domain model
+        maxWin: game.maxWin,
         playCount: game.playCount,
       },
       betting: {
-        minBet: undefined, // Not in domain model
-        maxBet: undefined,
+        minBet: game.minBet,
+        maxBet: game.maxBet,
       },
       releaseDate: game.releaseDate,
       timestamps: {
@@ -61,21 +61,82 @@ export class NotFoundError extends AppError {
   }
 }
 
+/**
+ * A single invalid field in a request
+ */
+export interface FieldViolation {
+  field: string;
+  value?: unknown;
+  constraints: string[];
+}
+
 /**
  * Validation Error
+ * details carries the first invalid field plus every violation found in the request
  */
 export class ValidationError extends AppError {
-  constructor(field: string, value?: unknown, constraints?: string[]) {
-    const message = `Validation failed for field '${field}'`;
+  constructor(field: string, value?: unknown, constraints?: string[], violations?: FieldViolation[]) {
+    const fields = violations && violations.length > 1
+      ? violations.map(violation => `'${violation.field}'`).join(', ')
+      : undefined;
+    const message = fields
+      ? `Validation failed for fields ${fields}`
+      : `Validation failed for field '${field}'`;
     
     super(
       ErrorCodes.BAD_REQUEST,
       message,
       HttpStatusCodes.BAD_REQUEST,
-      { field, value, constraints }
+      {
+        field,
+        value,
+        constraints,
+        violations: violations ?? [{ field, value, constraints: constraints ?? [] }]
+      }
     );
     this.name = 'ValidationError';
   }
+
+  /**
+   * Create an error reporting every violation (at least one is expected)
+   */
+  static fromViolations(violations: FieldViolation[]): ValidationError {
+    const [first] = violations;
+    return new ValidationError(first.field, first.value, first.constraints, violations);
+  }
+}
+
+/**
+ * Unauthorized Error
+ * The request needs a signed-in session, or the credentials were rejected
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message?: string) {
+    super(ErrorCodes.UNAUTHORIZED, message, HttpStatusCodes.UNAUTHORIZED);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Forbidden Error
+ * The signed-in user is not allowed to perform the request
+ */
+export class ForbiddenError extends AppError {
+  constructor(message?: string) {
+    super(ErrorCodes.FORBIDDEN, message, HttpStatusCodes.FORBIDDEN);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Conflict Error
+ * The request clashes with existing data, e.g. an email that is already registered
+ */
+export class ConflictError extends AppError {
+  constructor(message?: string, details?: unknown) {
+    super(ErrorCodes.CONFLICT, message, HttpStatusCodes.CONFLICT, details);
+    this.name = 'ConflictError';
+  }
 }
 
 /**
@@ -203,4 +264,33 @@ export class ApiError extends AppError {
     super(code as ErrorCode, message, statusCode as HttpStatusCode, details);
     this.name = 'ApiError';
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Error codes matching the status codes a fault can be injected with
+ */
+const INJECTED_FAULT_CODES: Partial<Record<HttpStatusCode, ErrorCode>> = {
+  [HttpStatusCodes.BAD_REQUEST]: ErrorCodes.BAD_REQUEST,
+  [HttpStatusCodes.UNAUTHORIZED]: ErrorCodes.UNAUTHORIZED,
+  [HttpStatusCodes.FORBIDDEN]: ErrorCodes.FORBIDDEN,
+  [HttpStatusCodes.NOT_FOUND]: ErrorCodes.NOT_FOUND,
+  [HttpStatusCodes.METHOD_NOT_ALLOWED]: ErrorCodes.METHOD_NOT_ALLOWED,
+  [HttpStatusCodes.CONFLICT]: ErrorCodes.CONFLICT,
+  [HttpStatusCodes.UNPROCESSABLE_ENTITY]: ErrorCodes.UNPROCESSABLE_ENTITY,
+  [HttpStatusCodes.TOO_MANY_REQUESTS]: ErrorCodes.TOO_MANY_REQUESTS,
+  [HttpStatusCodes.SERVICE_UNAVAILABLE]: ErrorCodes.SERVICE_UNAVAILABLE,
+  [HttpStatusCodes.GATEWAY_TIMEOUT]: ErrorCodes.GATEWAY_TIMEOUT
+};
+
+/**
+ * Injected Fault Error
+ * A failure forced by the mock API's fault injection, shaped like the real error for its status
+ */
+export class InjectedFaultError extends AppError {
+  constructor(statusCode: HttpStatusCode, route: string, fault: 'error' | 'timeout' = 'error') {
+    const code = INJECTED_FAULT_CODES[statusCode] ?? ErrorCodes.INTERNAL_SERVER_ERROR;
+
+    super(code, ErrorMessages[code], statusCode, { injected: true, fault, route });
+    this.name = 'InjectedFaultError';
+  }
+}
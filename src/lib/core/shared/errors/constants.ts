@@ -14,6 +14,8 @@ export const ErrorCodes = {
   CONFLICT: 'CONFLICT',
   UNPROCESSABLE_ENTITY: 'UNPROCESSABLE_ENTITY',
   TOO_MANY_REQUESTS: 'TOO_MANY_REQUESTS',
+  SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
+  GATEWAY_TIMEOUT: 'GATEWAY_TIMEOUT',
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
   API_ERROR: 'API_ERROR',
   
@@ -64,6 +66,8 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCodes.CONFLICT]: 'Resource conflict',
   [ErrorCodes.UNPROCESSABLE_ENTITY]: 'Unable to process the request',
   [ErrorCodes.TOO_MANY_REQUESTS]: 'Too many requests, please try again later',
+  [ErrorCodes.SERVICE_UNAVAILABLE]: 'The service is temporarily unavailable',
+  [ErrorCodes.GATEWAY_TIMEOUT]: 'The server took too long to respond',
   [ErrorCodes.UNKNOWN_ERROR]: 'An unknown error occurred',
   [ErrorCodes.API_ERROR]: 'API request failed',
   
@@ -4,7 +4,12 @@
  * Handles API request/response transformations
  */
 
-import type { ApiFavoriteResponse, ApiFavoritesListResponse } from '@/lib/core/backend/types/favoriteTypes';
+import type { FavoriteCollection } from '@/lib/core/domain/entities';
+import type {
+  ApiFavoriteCollectionResponse,
+  ApiFavoriteResponse,
+  ApiFavoritesListResponse
+} from '@/lib/core/backend/types/favoriteTypes';
 
 /**
  * Favorite type enum for extensibility
@@ -59,6 +64,19 @@ export const favoriteApiTransformers = {
     };
   },
 
+  /**
+   * Transform API collection response to domain entity
+   */
+  fromApiCollection(response: ApiFavoriteCollectionResponse): FavoriteCollection {
+    return {
+      id: response.id,
+      name: response.name,
+      gameIds: response.gameIds,
+      createdAt: response.createdAt,
+      updatedAt: response.updatedAt,
+    };
+  },
+
   /**
    * Create favorite data objects from IDs
    */
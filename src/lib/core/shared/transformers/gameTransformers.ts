@@ -6,9 +6,10 @@
 
 import type { Game, GameType } from '@/lib/core/domain/entities';
 import type { ApiGameResponse, ApiGameRequest } from '@/lib/core/backend/types/gameTypes';
-import type { SortOption, SearchType } from '@/lib/core/domain/models';
 import type { FilterQueryParams } from '@/lib/core/shared/types/filters';
 import { DEFAULT_PAGE_SIZE } from '@/lib/core/config/constants/app.constants';
+import { formatFavoritesParam, setRangeFilterParams } from '@/lib/core/shared/utils/url';
+import { filterParamsSchema } from '@/lib/core/shared/validation/requestSchemas';
 
 /**
  * Game API Transformers
@@ -43,6 +44,11 @@ export const gameApiTransformers = {
       playCount: apiGame.playCount,
       releaseDate: apiGame.releaseDate,
       rtp: apiGame.rtp,
+      rating: apiGame.rating,
+      ratingCount: apiGame.ratingCount,
+      maxWin: apiGame.maxWin,
+      minBet: apiGame.minBet,
+      maxBet: apiGame.maxBet,
       createdAt: apiGame.createdAt ? new Date(apiGame.createdAt) : undefined,
       updatedAt: apiGame.updatedAt ? new Date(apiGame.updatedAt) : undefined,
     };
@@ -55,14 +61,21 @@ export const gameApiTransformers = {
     const request: ApiGameRequest = {};
     
     if (game.title) request.title = game.title;
+    if (game.slug) request.slug = game.slug;
     if (game.type) request.type = game.type;
     if (game.tags) request.tags = game.tags;
     if (game.provider?.id) request.providerId = game.provider.id;
     if (game.thumbnail) request.thumbnail = game.thumbnail;
+    if (game.description !== undefined) request.description = game.description;
     if (game.isNew !== undefined) request.isNew = game.isNew;
     if (game.isHot !== undefined) request.isHot = game.isHot;
-    if (game.isFavorite !== undefined) request.isFavorite = game.isFavorite;
+    if (game.isOnSale !== undefined) request.isOnSale = game.isOnSale;
     if (game.isComingSoon !== undefined) request.isComingSoon = game.isComingSoon;
+    if (game.releaseDate !== undefined) request.releaseDate = game.releaseDate;
+    if (game.rtp !== undefined) request.rtp = game.rtp;
+    if (game.maxWin !== undefined) request.maxWin = game.maxWin;
+    if (game.minBet !== undefined) request.minBet = game.minBet;
+    if (game.maxBet !== undefined) request.maxBet = game.maxBet;
     
     return request;
   },
@@ -87,14 +100,20 @@ export const gameApiTransformers = {
     if (criteria.providers?.length) params.set('providers', criteria.providers.join(','));
     if (criteria.types?.length) params.set('types', criteria.types.join(','));
     if (criteria.sort) params.set('sort', criteria.sort);
-    if (criteria.favorites) params.set('favorites', 'true');
+    const favorites = formatFavoritesParam(criteria);
+    if (favorites) params.set('favorites', favorites);
+    if (criteria.recent) params.set('recent', 'true');
+    if (criteria.recent && criteria.recentIds) params.set('recentIds', criteria.recentIds.join(','));
     if (criteria.page && criteria.page > 1) params.set('page', criteria.page.toString());
     if (criteria.pageSize && criteria.pageSize !== DEFAULT_PAGE_SIZE) {
       params.set('pageSize', criteria.pageSize.toString());
     }
     if (criteria.tags?.length) params.set('tags', criteria.tags.join(','));
-    if (criteria.minRtp !== undefined) params.set('minRtp', criteria.minRtp.toString());
-    if (criteria.maxRtp !== undefined) params.set('maxRtp', criteria.maxRtp.toString());
+    if (criteria.tagMode === 'all') params.set('tagMode', criteria.tagMode);
+    if (criteria.excludeProviders?.length) params.set('excludeProviders', criteria.excludeProviders.join(','));
+    if (criteria.excludeTypes?.length) params.set('excludeTypes', criteria.excludeTypes.join(','));
+    if (criteria.excludeTags?.length) params.set('excludeTags', criteria.excludeTags.join(','));
+    setRangeFilterParams(params, criteria);
     if (criteria.isNew) params.set('new', 'true');
     if (criteria.isHot) params.set('hot', 'true');
     if (criteria.isComingSoon) params.set('coming', 'true');
@@ -107,44 +126,6 @@ export const gameApiTransformers = {
    * Used when processing API requests
    */
   parseQueryParams(params: URLSearchParams): FilterQueryParams {
-    const criteria: FilterQueryParams = {};
-    
-    const search = params.get('search');
-    if (search) criteria.search = search;
-    
-    const searchType = params.get('searchType');
-    if (searchType) criteria.searchType = searchType as SearchType;
-    
-    const providers = params.get('providers');
-    if (providers) criteria.providers = providers.split(',');
-    
-    const types = params.get('types');
-    if (types) criteria.types = types.split(',') as GameType[];
-    
-    const sort = params.get('sort');
-    if (sort) criteria.sort = sort as SortOption;
-    
-    if (params.get('favorites') === 'true') criteria.favorites = true;
-    
-    const page = params.get('page');
-    if (page) criteria.page = parseInt(page, 10);
-    
-    const pageSize = params.get('pageSize');
-    if (pageSize) criteria.pageSize = parseInt(pageSize, 10);
-    
-    const tags = params.get('tags');
-    if (tags) criteria.tags = tags.split(',');
-    
-    const minRtp = params.get('minRtp');
-    if (minRtp) criteria.minRtp = parseFloat(minRtp);
-    
-    const maxRtp = params.get('maxRtp');
-    if (maxRtp) criteria.maxRtp = parseFloat(maxRtp);
-    
-    if (params.get('new') === 'true') criteria.isNew = true;
-    if (params.get('hot') === 'true') criteria.isHot = true;
-    if (params.get('coming') === 'true') criteria.isComingSoon = true;
-    
-    return criteria;
+    return filterParamsSchema.parse(params).data;
   },
 };
\ No newline at end of file
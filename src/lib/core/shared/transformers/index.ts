@@ -7,4 +7,7 @@ export { gameApiTransformers } from './gameTransformers';
 export { providerApiTransformers } from './providerTransformers';
 export { tagApiTransformers } from './tagTransformers';
 export { favoriteApiTransformers, FavoriteType } from './favoriteTransformers';
-export type { FavoriteData } from './favoriteTransformers';
\ No newline at end of file
+export type { FavoriteData } from './favoriteTransformers';
+export { reviewApiTransformers } from './reviewTransformers';export { trendingApiTransformers } from './trendingTransformers';
+export { recentApiTransformers } from './recentTransformers';
+export { searchApiTransformers } from './searchTransformers';
@@ -0,0 +1,34 @@
+/**
+ * Recently Played API Transformers
+ * Shared transformers for the recently played history across frontend and backend
+ * Handles API request/response transformations
+ */
+
+import type { Game, RecentGame } from '@/lib/core/domain/entities';
+import type {
+  ApiRecentlyPlayedMergeRequest,
+  ApiRecentlyPlayedResponse
+} from '@/lib/core/backend/types/recentTypes';
+import { gameApiTransformers } from './gameTransformers';
+
+/**
+ * Recently Played API Transformers
+ */
+export const recentApiTransformers = {
+
+  /**
+   * Transform API history response to games, most recent first
+   */
+  fromApiResponse(response: ApiRecentlyPlayedResponse): Game[] {
+    return response.entries.map(entry => gameApiTransformers.responseToEntity(entry.game));
+  },
+
+  /**
+   * Build API request for merging a local history
+   */
+  toApiMergeRequest(entries: RecentGame[]): ApiRecentlyPlayedMergeRequest {
+    return {
+      entries: entries.map(({ gameId, playedAt }) => ({ gameId, playedAt })),
+    };
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Review API Transformers
+ * Shared transformers for game reviews across frontend and backend
+ * Handles API request/response transformations
+ */
+
+import type { GameReview } from '@/lib/core/domain/entities';
+import type { ApiReviewRequest, ApiReviewResponse } from '@/lib/core/backend/types/reviewTypes';
+
+/**
+ * Review API Transformers
+ */
+export const reviewApiTransformers = {
+
+  /**
+   * Transform API review response to domain review
+   */
+  fromApiReview(response: ApiReviewResponse): GameReview {
+    return {
+      id: response.id,
+      gameId: response.gameId,
+      rating: response.rating,
+      text: response.text,
+      isOwn: response.isOwn,
+      createdAt: response.createdAt,
+      updatedAt: response.updatedAt,
+    };
+  },
+
+  /**
+   * Build API request for submitting a review
+   */
+  toApiRequest(rating: number, text?: string): ApiReviewRequest {
+    const trimmed = text?.trim();
+
+    return trimmed ? { rating, text: trimmed } : { rating };
+  },
+};
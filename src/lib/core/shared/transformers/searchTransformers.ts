@@ -0,0 +1,60 @@
+/**
+ * Search API Transformers
+ * Shared transformers for search suggestions across frontend and backend
+ * Handles API response transformations
+ */
+
+import type { SearchResults, SearchSuggestions } from '@/lib/core/shared/types/search';
+import type {
+  ApiSearchResultsResponse,
+  ApiSearchSuggestionsResponse
+} from '@/lib/core/backend/types/searchTypes';
+import { gameApiTransformers } from './gameTransformers';
+import { providerApiTransformers } from './providerTransformers';
+import { tagApiTransformers } from './tagTransformers';
+
+/**
+ * Search API Transformers
+ */
+export const searchApiTransformers = {
+
+  /**
+   * Transform API suggestions response to search suggestions
+   */
+  fromApiSuggestionsResponse(response: ApiSearchSuggestionsResponse): SearchSuggestions {
+    return {
+      query: response.query,
+      games: response.games.map(game => gameApiTransformers.responseToEntity(game)),
+      providers: response.providers.map(provider => providerApiTransformers.responseToEntity(provider)),
+      tags: response.tags.map(tag => tagApiTransformers.responseToEntity(tag)),
+      completions: response.completions,
+    };
+  },
+
+  /**
+   * Transform API search results response to search results
+   */
+  fromApiResultsResponse(response: ApiSearchResultsResponse): SearchResults {
+    return {
+      query: response.query,
+      ...(response.games && {
+        games: {
+          items: response.games.items.map(game => gameApiTransformers.responseToEntity(game)),
+          pagination: response.games.pagination,
+        }
+      }),
+      ...(response.providers && {
+        providers: {
+          items: response.providers.items.map(provider => providerApiTransformers.responseToEntity(provider)),
+          pagination: response.providers.pagination,
+        }
+      }),
+      ...(response.tags && {
+        tags: {
+          items: response.tags.items.map(tag => tagApiTransformers.responseToEntity(tag)),
+          pagination: response.tags.pagination,
+        }
+      }),
+    };
+  },
+};
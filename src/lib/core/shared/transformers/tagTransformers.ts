@@ -7,6 +7,7 @@
 import type { Tag } from '@/lib/core/domain/entities';
 import type { ApiTagResponse, TagsQueryParams } from '@/lib/core/backend/types/tagTypes';
 import type { TagCategory } from '@/lib/core/shared/types/tags';
+import { tagsQuerySchema } from '@/lib/core/shared/validation/requestSchemas';
 
 /**
  * Shared Tag Transformers
@@ -63,30 +64,7 @@ export const tagApiTransformers = {
    * Used by backend to parse incoming requests
    */
   parseQueryParams(searchParams: URLSearchParams): TagsQueryParams {
-    const params: TagsQueryParams = {};
-    
-    const category = searchParams.get('category');
-    if (category) params.category = category as TagCategory;
-    
-    const popular = searchParams.get('popular');
-    if (popular === 'true') params.popular = true;
-    
-    const minGames = searchParams.get('minGames');
-    if (minGames) params.minGames = parseInt(minGames);
-    
-    const search = searchParams.get('search');
-    if (search) params.search = search;
-    
-    const sort = searchParams.get('sort');
-    if (sort) params.sort = sort as 'name' | 'count' | 'az' | 'za';
-    
-    const page = searchParams.get('page');
-    if (page) params.page = parseInt(page);
-    
-    const pageSize = searchParams.get('pageSize');
-    if (pageSize) params.pageSize = parseInt(pageSize);
-    
-    return params;
+    return tagsQuerySchema.parse(searchParams).data;
   },
 
   /**
@@ -103,6 +81,9 @@ export const tagApiTransformers = {
     if (params.sort) searchParams.set('sort', params.sort);
     if (params.page) searchParams.set('page', params.page.toString());
     if (params.pageSize) searchParams.set('pageSize', params.pageSize.toString());
+    if (params.includeGames) searchParams.set('includeGames', 'true');
+    if (params.includeRelated) searchParams.set('includeRelated', 'true');
+    if (params.relatedLimit) searchParams.set('relatedLimit', params.relatedLimit.toString());
     
     return searchParams.toString();
   },
@@ -0,0 +1,55 @@
+/**
+ * Trending API Transformers
+ * Shared transformers for the trending rankings across frontend and backend
+ * Handles API response transformations
+ */
+
+import type { TrendingGame, TrendingRankings } from '@/lib/core/shared/types/trending';
+import type { ApiTrendingGame, ApiTrendingResponse } from '@/lib/core/backend/types/trendingTypes';
+import { gameApiTransformers } from './gameTransformers';
+import { providerApiTransformers } from './providerTransformers';
+import { tagApiTransformers } from './tagTransformers';
+
+/**
+ * Trending API Transformers
+ */
+export const trendingApiTransformers = {
+
+  /**
+   * Transform an API ranked game to a trending game
+   */
+  fromApiGame(response: ApiTrendingGame): TrendingGame {
+    return {
+      rank: response.rank,
+      previousRank: response.previousRank,
+      score: response.score,
+      game: gameApiTransformers.responseToEntity(response.game),
+      plays: response.plays,
+      favorites: response.favorites,
+    };
+  },
+
+  /**
+   * Transform API trending response to trending rankings
+   */
+  fromApiResponse(response: ApiTrendingResponse): TrendingRankings {
+    const fromApiGames = (games: ApiTrendingGame[]) => games.map(trendingApiTransformers.fromApiGame);
+
+    return {
+      today: fromApiGames(response.today),
+      week: fromApiGames(response.week),
+      rising: fromApiGames(response.rising),
+      byType: response.byType.map(({ type, games }) => ({ type, games: fromApiGames(games) })),
+      tags: response.tags.map(({ tag, ...rank }) => ({
+        ...rank,
+        tag: tagApiTransformers.responseToEntity(tag),
+      })),
+      providers: response.providers.map(({ provider, ...rank }) => ({
+        ...rank,
+        provider: providerApiTransformers.responseToEntity(provider),
+      })),
+      generatedAt: response.generatedAt,
+      comparedTo: response.comparedTo,
+    };
+  },
+};
@@ -0,0 +1,49 @@
+/**
+ * Fault Injection Types
+ * Configuration of the mock API's latency profiles and injected failures
+ */
+
+import type { LATENCY_PROFILES } from '@/lib/core/config/constants/app.constants';
+import type { HttpStatusCode } from '@/lib/core/shared/errors/constants';
+
+/**
+ * Named latency profile
+ */
+export type LatencyProfileName = keyof typeof LATENCY_PROFILES;
+
+/**
+ * Latency range of a profile (defaults to the API_DELAYS range) and its own failure rates
+ */
+export interface LatencyProfile {
+  label: string;
+  minDelay?: number;
+  maxDelay?: number;
+  errorRate?: number;
+  timeoutRate?: number;
+}
+
+/**
+ * Failure settings for the routes under one path prefix (e.g. /api/games)
+ */
+export interface ChaosRouteRule {
+  route: string;
+  /** Share of requests that fail, from 0 to 1 */
+  errorRate?: number;
+  /** Status code the failures use (defaults to 500) */
+  status?: HttpStatusCode;
+  /** Share of requests that hang past the client timeout, from 0 to 1 */
+  timeoutRate?: number;
+}
+
+/**
+ * Fault injection config, read from MOCK_API_CHAOS, the chaos cookie or the x-mock-chaos header
+ * A forced status without an error rate fails every request
+ */
+export interface ChaosConfig {
+  profile?: LatencyProfileName;
+  errorRate?: number;
+  status?: HttpStatusCode;
+  timeoutRate?: number;
+  /** Overrides for matching routes; the longest matching prefix wins */
+  routes?: ChaosRouteRule[];
+}
@@ -5,6 +5,12 @@
 
 import type { GameType } from '@/lib/core/domain/entities';
 import type { SortOption, SearchType } from '@/lib/core/domain/models';
+import type { TagCategory } from './tags';
+
+/**
+ * Tag filter matching: games with any of the selected tags, or with all of them
+ */
+export type TagMatchMode = 'any' | 'all';
 
 /**
  * Filter parameters that can be stored in URL query strings
@@ -19,8 +25,19 @@ export interface FilterQueryParams {
   providers?: string[];
   types?: GameType[];
   tags?: string[];
+  /** How the included tags combine (defaults to 'any') */
+  tagMode?: TagMatchMode;
+  excludeProviders?: string[];
+  excludeTypes?: GameType[];
+  excludeTags?: string[];
   sort?: SortOption;
   favorites?: boolean;
+  /** Limits the favorites filter to one collection (sent as favorites=<collectionId>) */
+  favoritesCollection?: string;
+  /** Only games in the visitor's recently played history */
+  recent?: boolean;
+  /** History the recent filter matches, sent by guests whose history stays in local storage */
+  recentIds?: string[];
   isNew?: boolean;
   isHot?: boolean;
   isComingSoon?: boolean;
@@ -30,8 +47,31 @@ export interface FilterQueryParams {
   // RTP (Return to Player) filters
   minRtp?: number;
   maxRtp?: number;
+  // Player rating filters (0-5)
+  minRating?: number;
+  maxRating?: number;
+  // Max win filters, as a multiple of the stake
+  minMaxWin?: number;
+  maxMaxWin?: number;
+  /** Stake range: matches games whose bet limits accept a stake within it */
+  minBet?: number;
+  maxBet?: number;
 }
 
+/**
+ * Keys of the numeric range filters, in min/max pairs
+ */
+export type RangeFilterKey =
+  | 'minRtp' | 'maxRtp'
+  | 'minRating' | 'maxRating'
+  | 'minMaxWin' | 'maxMaxWin'
+  | 'minBet' | 'maxBet';
+
+/**
+ * Numeric range filter values
+ */
+export type RangeFilters = Pick<FilterQueryParams, RangeFilterKey>;
+
 /**
  * Extended filter parameters for advanced filtering
  * Includes search type for context-aware searching
@@ -48,15 +88,27 @@ export interface FilterState {
   providers?: string[];
   types?: GameType[];
   tags?: string[];
+  tagMode?: TagMatchMode;
+  excludeProviders?: string[];
+  excludeTypes?: GameType[];
+  excludeTags?: string[];
   favorites?: boolean;
+  favoritesCollection?: string;
+  recent?: boolean;
   isNew?: boolean;
   isHot?: boolean;
   isComingSoon?: boolean;
   sort?: SortOption;
   viewMode?: 'grid' | 'compact';
-  // RTP filters
+  // Range filters
   minRtp?: number;
   maxRtp?: number;
+  minRating?: number;
+  maxRating?: number;
+  minMaxWin?: number;
+  maxMaxWin?: number;
+  minBet?: number;
+  maxBet?: number;
 }
 
 /**
@@ -66,4 +118,31 @@ export interface FilterSummary {
   text: string;
   count: number;
   hasActiveFilters: boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * RTP bucket facet, one per bounded RTP preset
+ */
+export interface RtpFacet {
+  label: string;
+  min?: number;
+  max?: number;
+  count: number;
+}
+
+/**
+ * Facet counts for every filter option
+ * Each dimension is counted against all other active filters but not its own,
+ * so selecting a provider never zeroes out the other providers
+ */
+export interface FilterFacets {
+  providers: Record<string, number>;
+  types: Record<string, number>;
+  tags: Record<TagCategory, Record<string, number>>;
+  rtp: RtpFacet[];
+  flags: {
+    isNew: number;
+    isHot: number;
+    isComingSoon: number;
+  };
+}
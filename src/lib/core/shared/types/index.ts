@@ -7,6 +7,9 @@ export * from './ApiResponse';
 export * from './uiTypes';
 export * from './tags';
 export * from './filters';
+export * from './trending';
+export * from './search';
+export * from './chaos';
 
 // Re-export commonly used types for convenience
 export type { PaginationMeta } from '@/lib/core/domain/models';
@@ -0,0 +1,48 @@
+/**
+ * Search Types
+ * Search suggestions as used by the frontend
+ */
+
+import type { Game, Provider, Tag } from '@/lib/core/domain/entities';
+import type { PaginationMeta, SearchType } from '@/lib/core/domain/models';
+
+/**
+ * Grouped suggestions for a partial query
+ */
+export interface SearchSuggestions {
+  query: string;
+  games: Game[];
+  providers: Provider[];
+  tags: Tag[];
+  /** The query with its last word completed */
+  completions: string[];
+}
+
+/**
+ * One page of a search result group
+ */
+export interface SearchResultGroup<T> {
+  items: T[];
+  pagination: PaginationMeta;
+}
+
+/**
+ * Multi-entity search results, each group paginated on its own
+ * Groups left out by the requested type are omitted
+ */
+export interface SearchResults {
+  query: string;
+  games?: SearchResultGroup<Game>;
+  providers?: SearchResultGroup<Provider>;
+  tags?: SearchResultGroup<Tag>;
+}
+
+/**
+ * Parameters for a multi-entity search
+ */
+export interface SearchResultsParams {
+  query: string;
+  type?: SearchType;
+  page?: number;
+  pageSize?: number;
+}
@@ -0,0 +1,48 @@
+/**
+ * Trending Types
+ * Trending rankings as used by the frontend
+ */
+
+import type { Game, GameType, Provider, Tag } from '@/lib/core/domain/entities';
+
+/**
+ * Position of a ranked item
+ */
+export interface TrendingRank {
+  rank: number;
+  /** Rank in the compared snapshot, null when the item was not ranked there */
+  previousRank: number | null;
+  score: number;
+}
+
+/**
+ * A ranked game with the plays and favorites behind its score
+ */
+export interface TrendingGame extends TrendingRank {
+  game: Game;
+  plays: number;
+  favorites: number;
+}
+
+export interface TrendingTag extends TrendingRank {
+  tag: Tag;
+}
+
+export interface TrendingProvider extends TrendingRank {
+  provider: Provider;
+}
+
+/**
+ * Every trending ranking shown on the trending page
+ */
+export interface TrendingRankings {
+  today: TrendingGame[];
+  week: TrendingGame[];
+  rising: TrendingGame[];
+  byType: Array<{ type: GameType; games: TrendingGame[] }>;
+  tags: TrendingTag[];
+  providers: TrendingProvider[];
+  generatedAt: string;
+  /** When the snapshot rank changes compare against was taken, null until one is old enough */
+  comparedTo: string | null;
+}
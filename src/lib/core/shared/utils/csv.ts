@@ -0,0 +1,87 @@
+/**
+ * CSV Utility Functions
+ * RFC 4180 style parsing and serialization (comma separated, double-quote escaping)
+ */
+
+/**
+ * Parse CSV text into records keyed by the header row
+ * Header names are trimmed, empty lines are skipped and missing cells become empty strings
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows = parseCsvRows(text.replace(/^﻿/, ''));
+  const [header, ...body] = rows;
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+
+  return body
+    .filter(row => row.some(cell => cell.trim() !== ''))
+    .map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])));
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells with commas, quotes and newlines
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Escape a value for a CSV cell (quoted only when needed)
+ */
+export function escapeCsvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize records to CSV with the given column order
+ */
+export function toCsv(records: Record<string, unknown>[], columns: string[]): string {
+  const lines = [
+    columns.map(escapeCsvCell).join(','),
+    ...records.map(record => columns.map(column => escapeCsvCell(record[column])).join(','))
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
@@ -36,4 +36,12 @@ export async function simulateApiDelay(): Promise<void> {
  */
 export async function simulateMutationDelay(): Promise<void> {
   await simulateRandomDelay(API_DELAYS.MIN_MUTATION, API_DELAYS.MAX_MUTATION);
+}
+
+/**
+ * Simulate API delay for search requests
+ * Uses constants for search
+ */
+export async function simulateSearchDelay(): Promise<void> {
+  await simulateRandomDelay(API_DELAYS.MIN_SEARCH, API_DELAYS.MAX_SEARCH);
 }
\ No newline at end of file
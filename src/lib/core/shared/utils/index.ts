@@ -14,4 +14,6 @@ export * from './delay';
 export * from './games';
 export * from './providers';
 export * from './tags';
-export * from './url';
\ No newline at end of file
+export * from './search';
+export * from './url';
+export * from './csv';
\ No newline at end of file
@@ -0,0 +1,85 @@
+/**
+ * Search Utility Functions
+ * Text normalization and fuzzy matching helpers used by search indexes
+ */
+
+/**
+ * Minimum token length before prefix matching kicks in
+ */
+export const MIN_PREFIX_LENGTH = 2;
+
+/**
+ * Minimum token length before fuzzy (edit distance) matching kicks in
+ */
+export const MIN_FUZZY_LENGTH = 4;
+
+/**
+ * Remove diacritics from text ("Olýmpus" -> "Olympus")
+ */
+export function foldDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Normalize text for search comparisons
+ * Lowercases, folds diacritics and collapses punctuation into single spaces
+ */
+export function normalizeSearchText(text: string): string {
+  return foldDiacritics(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split text into normalized search tokens
+ */
+export function tokenizeSearchText(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * Maximum number of edits tolerated for a token of the given length
+ */
+export function getMaxEditDistance(tokenLength: number): number {
+  if (tokenLength < MIN_FUZZY_LENGTH) return 0;
+  if (tokenLength < 8) return 1;
+  return 2;
+}
+
+/**
+ * Levenshtein distance between two strings, bounded by maxDistance
+ * Returns maxDistance + 1 as soon as the distance is known to exceed the bound
+ */
+export function getEditDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  let current = new Array<number>(b.length + 1);
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let rowMin = current[0];
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,        // deletion
+        current[j - 1] + 1,     // insertion
+        previous[j - 1] + cost  // substitution
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    // Every path through this row already exceeds the bound
+    if (rowMin > maxDistance) return maxDistance + 1;
+
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
@@ -3,107 +3,57 @@
  * Handles filter state serialization/deserialization
  */
 
-import type { FilterQueryParams } from '@/lib/core/shared/types';
-import type { GameType } from '@/lib/core/domain/entities';
-import type { SearchType, SortOption } from '@/lib/core/domain/models';
+import type { FilterQueryParams, RangeFilters } from '@/lib/core/shared/types';
+import type { SortOption } from '@/lib/core/domain/models';
+import { RANGE_FILTER_KEYS } from '@/lib/core/config/constants/app.constants';
+import { filterParamsSchema } from '@/lib/core/shared/validation/requestSchemas';
 
 /**
- * Parse URL search params into filter object
+ * Format the favorites param, preferring the collection ID when one is selected
  */
-export function parseFilterParams(searchParams: URLSearchParams): FilterQueryParams {
-  const params: FilterQueryParams = {};
-
-  // Search query - support both 'q' and 'search'
-  const search = searchParams.get('q') || searchParams.get('search');
-  if (search) {
-    params.search = search;
-  }
-
-  // Search type
-  const searchType = searchParams.get('searchType');
-  if (searchType) {
-    params.searchType = searchType as SearchType;
-  }
-
-  // Providers (comma-separated)
-  const providers = searchParams.get('providers');
-  if (providers) {
-    params.providers = providers.split(',').filter(Boolean);
-  }
-
-  // Types (comma-separated)
-  const types = searchParams.get('types');
-  if (types) {
-    params.types = types.split(',').filter(Boolean) as GameType[];
-  }
-
-  // Tags (comma-separated)
-  const tags = searchParams.get('tags');
-  if (tags) {
-    params.tags = tags.split(',').filter(Boolean);
-  }
-
-  // Sort
-  const sort = searchParams.get('sort');
-  if (sort) {
-    params.sort = sort as SortOption;
-  }
-
-  // Boolean filters - URL uses short names, internal uses long names
-  if (searchParams.get('favorites') === 'true') {
-    params.favorites = true;
-  }
-  if (searchParams.get('new') === 'true') {
-    params.isNew = true;
-  }
-  if (searchParams.get('hot') === 'true') {
-    params.isHot = true;
-  }
-  if (searchParams.get('coming') === 'true') {
-    params.isComingSoon = true;
-  }
-
-  // RTP filters
-  const minRtp = searchParams.get('minRtp');
-  if (minRtp) {
-    const value = parseFloat(minRtp);
-    if (!isNaN(value)) {
-      params.minRtp = value;
-    }
-  }
-
-  const maxRtp = searchParams.get('maxRtp');
-  if (maxRtp) {
-    const value = parseFloat(maxRtp);
-    if (!isNaN(value)) {
-      params.maxRtp = value;
-    }
+export function formatFavoritesParam(
+  filters: Pick<FilterQueryParams, 'favorites' | 'favoritesCollection'>
+): string | undefined {
+  if (!filters.favorites) {
+    return undefined;
   }
+  
+  return filters.favoritesCollection || 'true';
+}
 
-  // Pagination
-  const page = searchParams.get('page');
-  if (page) {
-    const pageNum = parseInt(page, 10);
-    if (!isNaN(pageNum) && pageNum > 0) {
-      params.page = pageNum;
+/**
+ * Write the set range filters to search params
+ */
+export function setRangeFilterParams(params: URLSearchParams, filters: RangeFilters): void {
+  RANGE_FILTER_KEYS.forEach(key => {
+    const value = filters[key];
+    if (value !== undefined) {
+      params.set(key, value.toString());
     }
-  }
+  });
+}
 
-  const pageSize = searchParams.get('pageSize');
-  if (pageSize) {
-    const size = parseInt(pageSize, 10);
-    if (!isNaN(size) && size > 0 && size <= 100) {
-      params.pageSize = size;
-    }
-  }
+/**
+ * Copy only the range filters out of a larger filter object
+ */
+export function pickRangeFilters(filters: RangeFilters): RangeFilters {
+  return Object.fromEntries(RANGE_FILTER_KEYS.map(key => [key, filters[key]]));
+}
 
-  // View mode
-  const view = searchParams.get('view');
-  if (view === 'grid' || view === 'compact') {
-    params.view = view;
-  }
+/**
+ * Parse URL search params into filter object
+ * Uses the same schema as the games API, but leniently: invalid params are dropped
+ */
+export function parseFilterParams(searchParams: URLSearchParams): FilterQueryParams {
+  return filterParamsSchema.parse(searchParams).data;
+}
 
-  return params;
+/**
+ * Sort used when none is given: searches rank by relevance, browsing by popularity
+ * Shared by the games API and the URL sync so deep links fetch what the server would default to
+ */
+export function getDefaultSort(search?: string): SortOption {
+  return search ? 'relevance' : 'popular';
 }
 
 /**
@@ -136,15 +86,33 @@ export function buildFilterParams(filters: FilterQueryParams): URLSearchParams {
   if (filters.tags && filters.tags.length > 0) {
     params.set('tags', filters.tags.join(','));
   }
+  if (filters.tagMode === 'all') {
+    params.set('tagMode', filters.tagMode);
+  }
 
-  // Sort
-  if (filters.sort && filters.sort !== 'popular') {
+  // Exclusions
+  if (filters.excludeProviders && filters.excludeProviders.length > 0) {
+    params.set('excludeProviders', filters.excludeProviders.join(','));
+  }
+  if (filters.excludeTypes && filters.excludeTypes.length > 0) {
+    params.set('excludeTypes', filters.excludeTypes.join(','));
+  }
+  if (filters.excludeTags && filters.excludeTags.length > 0) {
+    params.set('excludeTags', filters.excludeTags.join(','));
+  }
+
+  // Sort (the default for the query is left out)
+  if (filters.sort && filters.sort !== getDefaultSort(filters.search)) {
     params.set('sort', filters.sort);
   }
 
   // Boolean filters - internal uses long names, URL uses short names
-  if (filters.favorites) {
-    params.set('favorites', 'true');
+  const favorites = formatFavoritesParam(filters);
+  if (favorites) {
+    params.set('favorites', favorites);
+  }
+  if (filters.recent) {
+    params.set('recent', 'true');
   }
   if (filters.isNew) {
     params.set('new', 'true');
@@ -156,13 +124,8 @@ export function buildFilterParams(filters: FilterQueryParams): URLSearchParams {
     params.set('coming', 'true');
   }
 
-  // RTP filters
-  if (filters.minRtp !== undefined) {
-    params.set('minRtp', filters.minRtp.toString());
-  }
-  if (filters.maxRtp !== undefined) {
-    params.set('maxRtp', filters.maxRtp.toString());
-  }
+  // Range filters (RTP, rating, max win, bet)
+  setRangeFilterParams(params, filters);
 
   // Pagination
   if (filters.page && filters.page > 1) {
@@ -233,13 +196,16 @@ export function hasActiveFilters(params: URLSearchParams | FilterQueryParams): b
     (filters.providers && filters.providers.length > 0) ||
     (filters.types && filters.types.length > 0) ||
     (filters.tags && filters.tags.length > 0) ||
+    (filters.excludeProviders && filters.excludeProviders.length > 0) ||
+    (filters.excludeTypes && filters.excludeTypes.length > 0) ||
+    (filters.excludeTags && filters.excludeTags.length > 0) ||
     filters.favorites ||
+    filters.recent ||
     filters.isNew ||
     filters.isHot ||
     filters.isComingSoon ||
-    filters.minRtp !== undefined ||
-    filters.maxRtp !== undefined ||
-    (filters.sort && filters.sort !== 'popular')
+    RANGE_FILTER_KEYS.some(key => filters[key] !== undefined) ||
+    (filters.sort && filters.sort !== getDefaultSort(filters.search))
   );
 }
 
@@ -0,0 +1,7 @@
+/**
+ * Request Validation
+ * Schemas for validating and coercing API query strings and JSON bodies
+ */
+
+export * from './schema';
+export * from './requestSchemas';
@@ -0,0 +1,352 @@
+/**
+ * Request Schemas
+ * Query string and JSON body schemas shared by the API routes and the client
+ */
+
+import { defineSchema, field, type Field, type RequestSchema } from './schema';
+import {
+  GAME_SORT_OPTIONS,
+  GAME_TYPES,
+  GAME_VIEW_MODES,
+  LATENCY_PROFILES,
+  MAX_PAGE_SIZE,
+  MIN_PAGE,
+  MIN_PAGE_SIZE,
+  RANGE_FILTERS,
+  TAG_MATCH_MODES
+} from '@/lib/core/config/constants/app.constants';
+import { TAG_CATEGORIES } from '@/lib/core/shared/constants/tags.constants';
+import { HttpStatusCodes } from '@/lib/core/shared/errors/constants';
+import type { FilterQueryParams, RangeFilterKey } from '@/lib/core/shared/types/filters';
+import type { ChaosConfig, ChaosRouteRule, LatencyProfileName } from '@/lib/core/shared/types/chaos';
+import type { SearchType } from '@/lib/core/domain/models';
+import { USER_NAME_MAX_LENGTH } from '@/lib/core/domain/entities/UserAccount';
+import { REVIEW_RATING_MAX, REVIEW_RATING_MIN } from '@/lib/core/domain/entities/Review';
+import type { TagsQueryParams } from '@/lib/core/backend/types/tagTypes';
+import type { ApiGameRequest } from '@/lib/core/backend/types/gameTypes';
+import { CATALOG_FORMATS } from '@/lib/core/backend/types/catalogTypes';
+import type { ApiReviewRequest } from '@/lib/core/backend/types/reviewTypes';
+import type { ApiRecentlyPlayedMergeRequest } from '@/lib/core/backend/types/recentTypes';
+import type {
+  ApiCollectionGameRequest,
+  ApiFavoriteCollectionCreateRequest,
+  ApiFavoriteCollectionsReorderRequest,
+  ApiFavoriteCollectionUpdateRequest,
+  ApiFavoriteProviderToggleRequest,
+  ApiFavoritesSyncRequest,
+  ApiFavoriteTagToggleRequest,
+  ApiFavoriteToggleRequest
+} from '@/lib/core/backend/types/favoriteTypes';
+import type {
+  ApiAccountUpdateRequest,
+  ApiLoginRequest,
+  ApiRegisterRequest
+} from '@/lib/core/backend/types/authTypes';
+
+export const SEARCH_TYPES: readonly SearchType[] = ['all', 'games', 'providers', 'tags'];
+
+export const FAVORITE_ACTIONS = ['add', 'remove', 'toggle'] as const;
+
+export const PROVIDER_SORT_OPTIONS = ['gameCount', 'name', 'az', 'za'] as const;
+
+export const TAG_SORT_OPTIONS = ['name', 'count', 'az', 'za'] as const;
+
+export const FAULT_STATUS_CODES = Object.values(HttpStatusCodes).filter(status => status >= 400);
+
+const LATENCY_PROFILE_NAMES = Object.keys(LATENCY_PROFILES) as LatencyProfileName[];
+
+const page = () => field.integer({ min: MIN_PAGE });
+
+const pageSize = () => field.integer({ min: MIN_PAGE_SIZE, max: MAX_PAGE_SIZE });
+
+const rate = () => field.number({ min: 0, max: 1 });
+
+// minRtp/maxRtp, minRating/maxRating, minMaxWin/maxMaxWin, minBet/maxBet within their slider bounds
+const rangeFilterFields = Object.fromEntries(
+  RANGE_FILTERS.flatMap(filter => [
+    [filter.minParam, field.number({ min: filter.min, max: filter.max })],
+    [filter.maxParam, field.number({ min: filter.min, max: filter.max })]
+  ])
+) as Record<RangeFilterKey, Field<number>>;
+
+/**
+ * Games filters, as sent to /api/games and kept in the /games URL
+ * URL names differ for the search (q or search) and flag filters (new, hot, coming)
+ */
+export const filterParamsSchema: RequestSchema<FilterQueryParams> = defineSchema({
+  search: field.string().from('q', 'search'),
+  searchType: field.oneOf(SEARCH_TYPES),
+  providers: field.list(field.string()),
+  types: field.list(field.oneOf(GAME_TYPES)),
+  tags: field.list(field.string()),
+  tagMode: field.oneOf(TAG_MATCH_MODES.map(mode => mode.value)),
+  excludeProviders: field.list(field.string()),
+  excludeTypes: field.list(field.oneOf(GAME_TYPES)),
+  excludeTags: field.list(field.string()),
+  sort: field.oneOf(GAME_SORT_OPTIONS),
+  favorites: field.string(),
+  recent: field.boolean(),
+  recentIds: field.list(field.string()),
+  isNew: field.boolean().from('new'),
+  isHot: field.boolean().from('hot'),
+  isComingSoon: field.boolean().from('coming'),
+  page: page(),
+  pageSize: pageSize(),
+  view: field.oneOf(GAME_VIEW_MODES),
+  ...rangeFilterFields
+}).transform(({ favorites, ...params }) => ({
+  ...params,
+  // favorites=true, or favorites=<collectionId> to match one collection
+  ...(favorites && favorites !== 'false' && {
+    favorites: true,
+    ...(favorites !== 'true' && { favoritesCollection: favorites })
+  })
+}));
+
+/**
+ * Multi-entity search (/api/search)
+ */
+export const searchQuerySchema = defineSchema({
+  query: field.string().from('q').default(''),
+  type: field.oneOf(SEARCH_TYPES).default('all'),
+  page: page(),
+  pageSize: pageSize()
+});
+
+/**
+ * Search bar suggestions (/api/search/suggest)
+ */
+export const searchSuggestQuerySchema = defineSchema({
+  query: field.string().from('q').default('')
+});
+
+/**
+ * Provider listing (/api/providers)
+ */
+export const providersQuerySchema = defineSchema({
+  all: field.boolean(),
+  withGames: field.boolean(),
+  sort: field.oneOf(PROVIDER_SORT_OPTIONS),
+  page: page(),
+  pageSize: pageSize()
+});
+
+/**
+ * Single provider (/api/providers/[id])
+ */
+export const providerDetailQuerySchema = defineSchema({
+  includeGames: field.boolean()
+});
+
+/**
+ * Tag listing and single tag (/api/tags, /api/tags/[id])
+ * all and top are listing modes that skip pagination
+ */
+export const tagsQuerySchema = defineSchema({
+  category: field.oneOf(Object.values(TAG_CATEGORIES)),
+  popular: field.boolean(),
+  minGames: field.integer({ min: 0 }),
+  search: field.string(),
+  sort: field.oneOf(TAG_SORT_OPTIONS),
+  page: page(),
+  pageSize: pageSize(),
+  includeGames: field.boolean(),
+  includeRelated: field.boolean(),
+  relatedLimit: field.integer({ min: 1 }),
+  all: field.boolean(),
+  top: field.integer({ min: 1 })
+}) satisfies RequestSchema<TagsQueryParams>;
+
+/**
+ * Recently played history (/api/recent)
+ * Guests send their local history as ids; without it the stored history is used
+ */
+export const recentQuerySchema = defineSchema({
+  ids: field.list(field.string())
+});
+
+/**
+ * Game reviews page (/api/games/[id]/reviews)
+ */
+export const reviewsQuerySchema = defineSchema({
+  page: page(),
+  pageSize: pageSize()
+});
+
+/**
+ * Game favorite toggle (POST /api/games)
+ */
+export const gameFavoriteBodySchema = defineSchema({
+  gameId: field.string().required()
+});
+
+/**
+ * Game favorite add/remove/toggle (POST /api/favorites)
+ */
+export const favoriteToggleBodySchema: RequestSchema<ApiFavoriteToggleRequest> = defineSchema({
+  gameId: field.string().required(),
+  action: field.oneOf(FAVORITE_ACTIONS).default('toggle')
+});
+
+/**
+ * Favorites sync from the client (PUT /api/favorites)
+ */
+export const favoritesSyncBodySchema: RequestSchema<ApiFavoritesSyncRequest> = defineSchema({
+  favoriteIds: field.list(field.string()).required(),
+  overwrite: field.boolean()
+});
+
+/**
+ * Provider follow (POST /api/favorites/providers)
+ */
+export const providerFollowBodySchema: RequestSchema<ApiFavoriteProviderToggleRequest> = defineSchema({
+  providerId: field.string().required(),
+  action: field.oneOf(FAVORITE_ACTIONS).default('toggle')
+});
+
+/**
+ * Tag follow (POST /api/favorites/tags)
+ */
+export const tagFollowBodySchema: RequestSchema<ApiFavoriteTagToggleRequest> = defineSchema({
+  tagId: field.string().required(),
+  action: field.oneOf(FAVORITE_ACTIONS).default('toggle')
+});
+
+/**
+ * New collection (POST /api/favorites/collections)
+ */
+export const collectionCreateBodySchema: RequestSchema<ApiFavoriteCollectionCreateRequest> = defineSchema({
+  name: field.string().required(),
+  gameIds: field.list(field.string())
+});
+
+/**
+ * Collection rename or games replacement (PATCH /api/favorites/collections/[id])
+ */
+export const collectionUpdateBodySchema: RequestSchema<ApiFavoriteCollectionUpdateRequest> = defineSchema({
+  name: field.string(),
+  gameIds: field.list(field.string())
+});
+
+/**
+ * Collection order (PUT /api/favorites/collections)
+ */
+export const collectionsReorderBodySchema: RequestSchema<ApiFavoriteCollectionsReorderRequest> = defineSchema({
+  collectionIds: field.list(field.string()).required()
+});
+
+/**
+ * Collection game add/remove/toggle (POST /api/favorites/collections/[id]/games)
+ */
+export const collectionGameBodySchema: RequestSchema<ApiCollectionGameRequest> = defineSchema({
+  gameId: field.string().required(),
+  action: field.oneOf(FAVORITE_ACTIONS).default('toggle')
+});
+
+/**
+ * Visitor's review (POST /api/games/[id]/reviews)
+ * Text length is checked by ReviewService once trimmed
+ */
+export const reviewBodySchema: RequestSchema<ApiReviewRequest> = defineSchema({
+  rating: field.integer({ min: REVIEW_RATING_MIN, max: REVIEW_RATING_MAX }).required(),
+  text: field.string()
+});
+
+const recentEntrySchema = defineSchema({
+  gameId: field.string().required(),
+  playedAt: field.string().required()
+});
+
+/**
+ * Guest history merged on sign in (POST /api/recent)
+ * Launch times are checked and normalized to ISO strings by RecentlyPlayedService
+ */
+export const recentMergeBodySchema: RequestSchema<ApiRecentlyPlayedMergeRequest> = defineSchema({
+  entries: field.list(field.object(recentEntrySchema)).required()
+});
+
+/**
+ * Sign in (POST /api/auth/login)
+ */
+export const loginBodySchema: RequestSchema<ApiLoginRequest> = defineSchema({
+  email: field.email().required(),
+  password: field.string().required().sensitive(),
+  remember: field.boolean().default(false)
+});
+
+/**
+ * Account creation (POST /api/auth/register)
+ * Password strength is checked by AuthService, which reports the rule rather than the password
+ */
+export const registerBodySchema: RequestSchema<ApiRegisterRequest> = defineSchema({
+  name: field.string({ maxLength: USER_NAME_MAX_LENGTH }).required(),
+  email: field.email().required(),
+  password: field.string().required().sensitive()
+});
+
+/**
+ * Account update (PATCH /api/auth/account)
+ */
+export const accountUpdateBodySchema: RequestSchema<ApiAccountUpdateRequest> = defineSchema({
+  name: field.string({ maxLength: USER_NAME_MAX_LENGTH }).required()
+});
+
+/**
+ * Game create or partial update (POST /api/admin/games, PATCH /api/admin/games/[id])
+ * Only field types are checked here; required fields, slugs, ranges and providers are checked by
+ * GameAdminService, which also validates catalogue imports
+ */
+export const gameBodySchema: RequestSchema<ApiGameRequest> = defineSchema({
+  id: field.string(),
+  title: field.string(),
+  slug: field.string(),
+  type: field.oneOf(GAME_TYPES),
+  tags: field.list(field.string()),
+  providerId: field.string(),
+  thumbnail: field.string(),
+  description: field.string(),
+  isNew: field.boolean(),
+  isHot: field.boolean(),
+  isOnSale: field.boolean(),
+  isComingSoon: field.boolean(),
+  playCount: field.integer(),
+  releaseDate: field.string(),
+  rtp: field.number(),
+  maxWin: field.number(),
+  minBet: field.number(),
+  maxBet: field.number()
+});
+
+/**
+ * Catalogue export (/api/admin/catalog/[entity]/export), alongside the games filters
+ */
+export const catalogExportQuerySchema = defineSchema({
+  format: field.oneOf(CATALOG_FORMATS).default('json')
+});
+
+/**
+ * Catalogue import (POST /api/admin/catalog/[entity]/import)
+ * Without a format, the body's content type decides
+ */
+export const catalogImportQuerySchema = defineSchema({
+  format: field.oneOf(CATALOG_FORMATS),
+  dryRun: field.boolean().default(false)
+});
+
+const chaosRouteRuleSchema: RequestSchema<ChaosRouteRule> = defineSchema({
+  route: field.string().required(),
+  errorRate: rate(),
+  status: field.oneOf(FAULT_STATUS_CODES),
+  timeoutRate: rate()
+});
+
+/**
+ * Mock API fault injection config (MOCK_API_CHAOS, chaos cookie, x-mock-chaos header)
+ */
+export const chaosConfigSchema: RequestSchema<ChaosConfig> = defineSchema({
+  profile: field.oneOf(LATENCY_PROFILE_NAMES),
+  errorRate: rate(),
+  status: field.oneOf(FAULT_STATUS_CODES),
+  timeoutRate: rate(),
+  routes: field.list(field.object(chaosRouteRuleSchema))
+});
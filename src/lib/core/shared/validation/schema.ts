@@ -0,0 +1,327 @@
+/**
+ * Request Schema
+ * Declarative validation and coercion for query strings and JSON bodies
+ * Query values arrive as strings and body values as JSON, so every field accepts both
+ */
+
+import { ValidationError, type FieldViolation } from '@/lib/core/shared/errors/AppError';
+import { safeJsonParse } from '@/lib/core/shared/errors/errorHandler';
+
+/**
+ * Outcome of coercing one raw value: the typed value (undefined when blank) or the violated constraints
+ */
+export type Coercion<T> = { value: T | undefined } | { constraints: string[] };
+
+/**
+ * Raw request input a schema reads from
+ */
+export type SchemaInput = URLSearchParams | Record<string, unknown>;
+
+/**
+ * A single request field
+ * TPresent tracks whether the parsed value is always present (required or defaulted)
+ */
+export class Field<T, TPresent extends boolean = false> {
+  readonly isPresent: TPresent;
+
+  constructor(
+    private readonly coercer: (raw: unknown) => Coercion<T>,
+    readonly keys: readonly string[] = [],
+    readonly isRequired: boolean = false,
+    readonly defaultValue?: T,
+    readonly isSensitive: boolean = false
+  ) {
+    this.isPresent = (isRequired || defaultValue !== undefined) as TPresent;
+  }
+
+  /**
+   * Read the field from other keys than its schema key; the first one present wins
+   */
+  from(...keys: string[]): Field<T, TPresent> {
+    return new Field(this.coercer, keys, this.isRequired, this.defaultValue, this.isSensitive);
+  }
+
+  /**
+   * Report a violation when the field is missing
+   */
+  required(): Field<T, true> {
+    return new Field(this.coercer, this.keys, true, this.defaultValue, this.isSensitive);
+  }
+
+  /**
+   * Use a value when the field is missing
+   */
+  default(value: T): Field<T, true> {
+    return new Field(this.coercer, this.keys, false, value, this.isSensitive);
+  }
+
+  /**
+   * Leave the submitted value out of violations, which are returned to the client
+   */
+  sensitive(): Field<T, TPresent> {
+    return new Field(this.coercer, this.keys, this.isRequired, this.defaultValue, true);
+  }
+
+  coerce(raw: unknown): Coercion<T> {
+    return this.coercer(raw);
+  }
+}
+
+type AnyField = Field<unknown, boolean>;
+
+/**
+ * Fields of a schema, keyed by the name they take in the parsed output
+ */
+export type SchemaShape = Record<string, AnyField>;
+
+type FieldValue<F> = F extends Field<infer T, boolean> ? T : never;
+
+type PresentKeys<S extends SchemaShape> = {
+  [K in keyof S]: S[K] extends Field<unknown, true> ? K : never;
+}[keyof S];
+
+/**
+ * Parsed output of a schema shape: required and defaulted fields are always present
+ */
+export type InferSchema<S extends SchemaShape> = {
+  [K in PresentKeys<S>]: FieldValue<S[K]>;
+} & {
+  [K in Exclude<keyof S, PresentKeys<S>>]?: FieldValue<S[K]>;
+};
+
+/**
+ * Result of a lenient parse
+ */
+export interface SchemaResult<T> {
+  /** Valid fields only; required fields may be missing when there are violations */
+  data: T;
+  violations: FieldViolation[];
+}
+
+const isBlank = (raw: unknown) => raw === undefined || raw === null || raw === '';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const EMAIL_MAX_LENGTH = 254;
+
+const rangeConstraints = (value: number, min?: number, max?: number): string[] => [
+  ...(min !== undefined && value < min ? [`at least ${min}`] : []),
+  ...(max !== undefined && value > max ? [`at most ${max}`] : [])
+];
+
+const coerceNumber = (
+  raw: unknown,
+  options: { min?: number; max?: number; integer?: boolean }
+): Coercion<number> => {
+  if (isBlank(raw)) return { value: undefined };
+
+  const value = typeof raw === 'string' ? Number(raw.trim()) : raw;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return { constraints: [options.integer ? 'must be an integer' : 'must be a number'] };
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    return { constraints: ['must be an integer'] };
+  }
+
+  const constraints = rangeConstraints(value, options.min, options.max);
+  return constraints.length ? { constraints } : { value };
+};
+
+/**
+ * Field builders
+ */
+export const field = {
+  string(options: { maxLength?: number } = {}): Field<string> {
+    return new Field(raw => {
+      if (isBlank(raw)) return { value: undefined };
+      if (typeof raw !== 'string') return { constraints: ['must be a string'] };
+      if (options.maxLength !== undefined && raw.length > options.maxLength) {
+        return { constraints: [`at most ${options.maxLength} characters`] };
+      }
+      return { value: raw };
+    });
+  },
+
+  /**
+   * An email address, trimmed and lowercased
+   */
+  email(): Field<string> {
+    return new Field(raw => {
+      if (isBlank(raw)) return { value: undefined };
+      if (typeof raw !== 'string') return { constraints: ['must be a string'] };
+
+      const value = raw.trim().toLowerCase();
+      if (value.length > EMAIL_MAX_LENGTH || !EMAIL_PATTERN.test(value)) {
+        return { constraints: ['must be a valid email address'] };
+      }
+      return { value };
+    });
+  },
+
+  integer(options: { min?: number; max?: number } = {}): Field<number> {
+    return new Field(raw => coerceNumber(raw, { ...options, integer: true }));
+  },
+
+  number(options: { min?: number; max?: number } = {}): Field<number> {
+    return new Field(raw => coerceNumber(raw, options));
+  },
+
+  /**
+   * true/false, as JSON booleans or the strings 'true' and 'false'
+   */
+  boolean(): Field<boolean> {
+    return new Field(raw => {
+      if (isBlank(raw)) return { value: undefined };
+      if (raw === true || raw === 'true') return { value: true };
+      if (raw === false || raw === 'false') return { value: false };
+      return { constraints: ['must be true or false'] };
+    });
+  },
+
+  /**
+   * One of a fixed set of values; numbers also match their string form
+   */
+  oneOf<const V extends string | number>(values: readonly V[]): Field<V> {
+    return new Field(raw => {
+      if (isBlank(raw)) return { value: undefined };
+      const value = values.find(candidate => candidate === raw || String(candidate) === raw);
+      return value !== undefined
+        ? { value }
+        : { constraints: [`one of: ${values.join(', ')}`] };
+    });
+  },
+
+  /**
+   * A JSON array or a comma-separated string; an empty string is an empty list
+   */
+  list<T>(item: Field<T, boolean>): Field<T[]> {
+    return new Field(raw => {
+      if (raw === undefined || raw === null) return { value: undefined };
+
+      const items = typeof raw === 'string'
+        ? raw.split(',').map(part => part.trim()).filter(Boolean)
+        : raw;
+      if (!Array.isArray(items)) return { constraints: ['must be an array or a comma-separated list'] };
+
+      const values: T[] = [];
+      const constraints = new Set<string>();
+      items.forEach(element => {
+        const result = item.coerce(element);
+        if ('constraints' in result) {
+          result.constraints.forEach(constraint => constraints.add(`each item ${constraint}`));
+        } else if (result.value !== undefined) {
+          values.push(result.value);
+        }
+      });
+
+      return constraints.size ? { constraints: [...constraints] } : { value: values };
+    });
+  },
+
+  /**
+   * A nested JSON object parsed with its own schema
+   */
+  object<T>(schema: RequestSchema<T>): Field<T> {
+    return new Field(raw => {
+      if (isBlank(raw)) return { value: undefined };
+      if (typeof raw !== 'object' || Array.isArray(raw)) return { constraints: ['must be an object'] };
+
+      const { data, violations } = schema.parse(raw as Record<string, unknown>);
+      return violations.length
+        ? { constraints: violations.flatMap(({ field: name, constraints }) => constraints.map(constraint => `${name} ${constraint}`)) }
+        : { value: data };
+    });
+  }
+};
+
+/**
+ * A set of fields parsed together, with an optional transform into the request type
+ */
+export class RequestSchema<T> {
+  constructor(
+    private readonly shape: SchemaShape,
+    private readonly output: (data: Record<string, unknown>) => T
+  ) {}
+
+  /**
+   * Map the parsed fields into another shape
+   */
+  transform<U>(fn: (data: T) => U): RequestSchema<U> {
+    return new RequestSchema(this.shape, data => fn(this.output(data)));
+  }
+
+  /**
+   * Lenient parse: invalid fields fall back to their default (or are left out) and are reported
+   */
+  parse(input: SchemaInput): SchemaResult<T> {
+    const data: Record<string, unknown> = {};
+    const violations: FieldViolation[] = [];
+
+    Object.entries(this.shape).forEach(([name, schemaField]) => {
+      const keys = schemaField.keys.length ? schemaField.keys : [name];
+      // Prefer a key with a non-empty value, then any key that was sent at all
+      const source = keys.find(key => !isBlank(readValue(input, key)))
+        ?? keys.find(key => readValue(input, key) !== undefined);
+      const raw = source === undefined ? undefined : readValue(input, source);
+      const result = schemaField.coerce(raw);
+      const value = schemaField.isSensitive ? undefined : raw;
+
+      if ('constraints' in result) {
+        violations.push({ field: source ?? name, value, constraints: result.constraints });
+      } else if (result.value !== undefined) {
+        data[name] = result.value;
+        return;
+      } else if (schemaField.isRequired) {
+        violations.push({ field: keys[0], value, constraints: ['required'] });
+      }
+
+      if (schemaField.defaultValue !== undefined) {
+        data[name] = schemaField.defaultValue;
+      }
+    });
+
+    return { data: this.output(data), violations };
+  }
+
+  /**
+   * Strict parse: throws a ValidationError listing every violation
+   */
+  validate(input: SchemaInput): T {
+    const { data, violations } = this.parse(input);
+
+    if (violations.length) {
+      throw ValidationError.fromViolations(violations);
+    }
+
+    return data;
+  }
+
+  parseQuery(searchParams: URLSearchParams): T {
+    return this.validate(searchParams);
+  }
+
+  async parseBody(request: Request): Promise<T> {
+    const body = await safeJsonParse(request);
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new ValidationError('body', undefined, ['must be a JSON object']);
+    }
+
+    return this.validate(body as Record<string, unknown>);
+  }
+}
+
+function readValue(input: SchemaInput, key: string): unknown {
+  if (input instanceof URLSearchParams) {
+    return input.get(key) ?? undefined;
+  }
+
+  return input[key] ?? undefined;
+}
+
+/**
+ * Define a schema from its fields
+ */
+export function defineSchema<S extends SchemaShape>(shape: S): RequestSchema<InferSchema<S>> {
+  return new RequestSchema(shape, data => data as InferSchema<S>);
+}
@@ -0,0 +1,263 @@
+/**
+ * Catalog Data Generator
+ * Generates a full games/providers/tags catalogue at any scale, in the shape of the bundled data files
+ */
+
+import type { Game, GameType, Provider, TagDefinition } from '@/lib/core/domain/entities';
+import { GAME_TYPES } from '@/lib/core/config/constants/app.constants';
+import { slugify } from '@/lib/core/shared/utils';
+import { gameTemplates } from './GameGenerator';
+import { providerTemplates } from './ProviderGenerator';
+import { getTagDefinitions, tagCategories } from './TagGenerator';
+import { createRandom, getRandom, type RandomSource } from './random';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the catalogue per game type
+const TYPE_WEIGHTS: Record<GameType, number> = {
+  slots: 70,
+  table: 8,
+  live: 10,
+  instant: 7,
+  jackpot: 5
+};
+
+// RTP distribution per type: table games pay back the most, progressive jackpots the least
+const RTP_RANGES: Record<GameType, { mean: number; stdDev: number; min: number; max: number }> = {
+  slots: { mean: 96.2, stdDev: 0.9, min: 88, max: 99 },
+  table: { mean: 98, stdDev: 0.8, min: 94, max: 99.6 },
+  live: { mean: 97.2, stdDev: 0.9, min: 94, max: 99.5 },
+  instant: { mean: 96.5, stdDev: 1.2, min: 90, max: 99 },
+  jackpot: { mean: 93.5, stdDev: 1.8, min: 85, max: 97 }
+};
+
+const MAX_WINS: Record<GameType, number[]> = {
+  slots: [1000, 2500, 5000, 10000, 25000, 50000],
+  table: [35, 100, 250, 500, 1000],
+  live: [500, 1000, 2500, 5000, 10000],
+  instant: [100, 500, 1000, 5000, 10000],
+  jackpot: [10000, 25000, 50000]
+};
+
+// Tag categories that suit each game type
+const TYPE_TAG_CATEGORIES: Record<GameType, (keyof typeof tagCategories)[]> = {
+  slots: ['gameplay', 'features', 'volatility', 'rtp', 'theme', 'special'],
+  table: ['gameplay', 'special'],
+  live: ['gameplay', 'special'],
+  instant: ['gameplay', 'special'],
+  jackpot: ['gameplay', 'jackpot', 'features', 'theme']
+};
+
+const MIN_BETS = [0.1, 0.2, 0.25, 0.5, 1, 2, 5];
+const MAX_BETS = [10, 20, 50, 100, 250, 500, 1000];
+
+const TITLE_PREFIXES = [
+  'Golden', 'Wild', 'Lucky', 'Mega', 'Super', 'Royal', 'Mystic', 'Fire', 'Ice', 'Diamond',
+  'Crystal', 'Thunder', 'Jungle', 'Ancient', 'Cosmic', 'Neon', 'Dragon', 'Pirate', 'Viking', 'Magic'
+];
+
+const TITLE_VARIANTS = [
+  'Deluxe', 'Megaways', 'Extreme', 'Rising', 'Reloaded', 'Xmas', 'Dream Drop', 'Power Play',
+  'Hold & Win', 'Ultra', 'Legends', 'Returns', 'Unleashed', 'Supreme', 'Remastered', 'Max', '2', '3'
+];
+
+const STUDIO_PREFIXES = [
+  'Blue', 'Red', 'Golden', 'Iron', 'Lucky', 'Wild', 'Silver', 'Northern', 'Bright', 'Black',
+  'Crimson', 'Jade', 'Nova', 'Atlas', 'Apex', 'Orbit', 'Vortex', 'Echo', 'Pixel', 'Comet'
+];
+
+const STUDIO_SUFFIXES = ['Studios', 'Gaming', 'Games', 'Labs', 'Interactive', 'Entertainment', 'Works', 'Play'];
+
+export interface CatalogOptions {
+  /** Number of games (default: 1000) */
+  games?: number;
+  /** Number of providers (default: one per 200 games, at least 20) */
+  providers?: number;
+  /** Seed for a reproducible catalogue (default: the shared source, see setSeed) */
+  seed?: number | string;
+  /** Date release dates are relative to (default: today) */
+  referenceDate?: Date;
+  /** Years of release history (default: 12) */
+  years?: number;
+}
+
+export interface GeneratedCatalog {
+  games: Game[];
+  providers: Provider[];
+  tags: TagDefinition[];
+  /** Seed the catalogue was generated from */
+  seed: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Pick distinct names, falling back to numbered names once the pool runs out
+ */
+function uniqueName(random: RandomSource, candidate: () => string, used: Set<string>): string {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const name = candidate();
+    if (!used.has(slugify(name))) {
+      used.add(slugify(name));
+      return name;
+    }
+  }
+
+  const base = candidate();
+  let suffix = 2;
+  while (used.has(slugify(`${base} ${suffix}`))) {
+    suffix += random.int(1, 10);
+  }
+  used.add(slugify(`${base} ${suffix}`));
+  return `${base} ${suffix}`;
+}
+
+/**
+ * Providers: the known studios first, then invented ones
+ * Ids are unique slugs so games can reference them
+ */
+function buildProviders(random: RandomSource, count: number): Provider[] {
+  const used = new Set<string>();
+  const names: { name: string; description: string }[] = [];
+
+  providerTemplates.forEach(template => {
+    if (names.length < count && !used.has(slugify(template.name))) {
+      used.add(slugify(template.name));
+      names.push(template);
+    }
+  });
+
+  while (names.length < count) {
+    const name = uniqueName(
+      random,
+      () => `${random.item(STUDIO_PREFIXES)} ${random.item(STUDIO_SUFFIXES)}`,
+      used
+    );
+    names.push({ name, description: random.item(providerTemplates).description });
+  }
+
+  return names.map(({ name, description }) => {
+    const id = slugify(name);
+    return {
+      id,
+      name,
+      logo: `https://picsum.photos/seed/${id}/200/80`,
+      gameCount: 0,
+      description
+    };
+  });
+}
+
+/**
+ * Pick distinct tags, favouring the ones earlier in the (per-catalogue shuffled) pool
+ */
+function pickTags(random: RandomSource, pool: string[], weights: number[], count: number): string[] {
+  const picked = new Set<string>();
+  for (let attempt = 0; picked.size < count && attempt < count * 5; attempt++) {
+    picked.add(random.weighted(pool, weights));
+  }
+  return [...picked];
+}
+
+/**
+ * Generate a full catalogue with referential integrity: every game references an existing
+ * provider and existing tag ids, and provider game counts match the games
+ *
+ * Distributions:
+ * - provider sizes follow a long tail (a few large studios, many small ones)
+ * - RTP is normally distributed per game type
+ * - release dates skew towards recent years, with a few upcoming games
+ * - play counts are log-normal, boosted for popular providers
+ */
+export function generateCatalog(options: CatalogOptions = {}): GeneratedCatalog {
+  const random = options.seed === undefined ? getRandom() : createRandom(options.seed);
+  const gameCount = options.games ?? 1000;
+  const providerCount = options.providers ?? Math.max(20, Math.round(gameCount / 200));
+  const referenceTime = (options.referenceDate ?? new Date()).getTime();
+  const historyDays = (options.years ?? 12) * 365;
+
+  const tags = getTagDefinitions();
+  const providers = buildProviders(random, providerCount);
+  const providerWeights = providers.map((_, rank) => 1 / (rank + 1) ** 0.9);
+
+  const tagPools = Object.fromEntries(GAME_TYPES.map(type => {
+    const pool = random.shuffle(
+      tags.filter(tag => TYPE_TAG_CATEGORIES[type].includes(tag.category as keyof typeof tagCategories))
+        .map(tag => tag.id)
+    );
+    return [type, { pool, weights: pool.map((_, rank) => 1 / (rank + 1) ** 0.7) }];
+  })) as Record<GameType, { pool: string[]; weights: number[] }>;
+
+  const usedTitles = new Set<string>();
+  const providerIndexes = providers.map((_, index) => index);
+  const games: Game[] = [];
+
+  for (let i = 0; i < gameCount; i++) {
+    const id = `game-${i + 1}`;
+    const type = random.weighted(GAME_TYPES, GAME_TYPES.map(gameType => TYPE_WEIGHTS[gameType]));
+    const providerIndex = random.weighted(providerIndexes, providerWeights);
+    const provider = providers[providerIndex];
+    provider.gameCount = (provider.gameCount ?? 0) + 1;
+
+    const title = uniqueName(random, () => {
+      const template = random.item(gameTemplates[type]);
+      const prefix = random.chance(0.6) ? `${random.item(TITLE_PREFIXES)} ` : '';
+      const variant = random.chance(0.4) ? ` ${random.item(TITLE_VARIANTS)}` : '';
+      return `${prefix}${template}${variant}`;
+    }, usedTitles);
+
+    // Raising the roll to a power skews release dates towards the reference date
+    const isComingSoon = random.chance(0.01);
+    const daysAgo = isComingSoon ? -random.int(1, 60) : Math.floor(historyDays * random.next() ** 1.5);
+    const releaseDate = new Date(referenceTime - daysAgo * DAY_MS);
+
+    const rtpRange = RTP_RANGES[type];
+    const providerBoost = (providerWeights[providerIndex] / providerWeights[0]) ** 0.3;
+    const playCount = isComingSoon ? 0 : Math.round(random.logNormal(1500, 1.5) * providerBoost);
+    const minBet = random.weighted(MIN_BETS, MIN_BETS.map((_, index) => MIN_BETS.length - index));
+    const { pool, weights } = tagPools[type];
+
+    games.push({
+      id,
+      title,
+      slug: slugify(title),
+      thumbnail: `https://picsum.photos/seed/${id}/400/300`,
+      description: `${title} is a ${type} game from ${provider.name}.`,
+      provider: { id: provider.id, name: provider.name, logo: provider.logo },
+      type,
+      ...(daysAgo >= 0 && daysAgo <= 30 && { isNew: true }),
+      ...(isComingSoon && { isComingSoon: true }),
+      tags: pickTags(random, pool, weights, random.int(2, 5)),
+      playCount,
+      releaseDate: toDateString(releaseDate),
+      rtp: round(clamp(random.normal(rtpRange.mean, rtpRange.stdDev), rtpRange.min, rtpRange.max), 2),
+      rating: round(clamp(random.normal(3.9, 0.45), 1, 5), 1),
+      ratingCount: Math.round(playCount * random.float(0.002, 0.02)),
+      maxWin: random.item(MAX_WINS[type]),
+      minBet,
+      maxBet: random.item(MAX_BETS.filter(maxBet => maxBet >= minBet * 10))
+    });
+  }
+
+  // The most played 2% are hot
+  const hotThreshold = games
+    .map(game => game.playCount ?? 0)
+    .sort((a, b) => b - a)[Math.floor(gameCount * 0.02)] ?? Infinity;
+  games.forEach(game => {
+    if ((game.playCount ?? 0) > hotThreshold) {
+      game.isHot = true;
+    }
+  });
+
+  return {
+    games,
+    providers: providers.filter(provider => provider.gameCount),
+    tags,
+    seed: random.seed
+  };
+}
+
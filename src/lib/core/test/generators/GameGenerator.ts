@@ -4,12 +4,12 @@
  */
 
 import type { Game, GameType } from '@/lib/core/domain/entities';
-import { slugify, randomItem, randomItems } from '@/lib/core/shared/utils';
-import { randomBetween } from '@/lib/core/shared/utils/number';
+import { slugify } from '@/lib/core/shared/utils';
 import { GAME_TYPES } from '@/lib/core/config/constants/app.constants';
+import { getRandom } from './random';
 
 // Game name templates by type
-const gameTemplates = {
+export const gameTemplates: Record<GameType, string[]> = {
   slots: [
     'Sweet Bonanza', 'Gates of Olympus', 'Sugar Rush', 'Big Bass Bonanza',
     'Book of Dead', 'Starburst', 'Gonzo\'s Quest', 'Dead or Alive 2',
@@ -67,20 +67,22 @@ const gameTags = [
 
 /**
  * Generate a single game
+ * Random values come from the shared seeded source (see setSeed)
  */
 function generateGame(
-  id: string = `game-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  id: string = `game-${getRandom().id()}`,
   options: Partial<Game> = {}
 ): Game {
-  const type = options.type || randomItem([...GAME_TYPES] as GameType[]) || 'slots';
-  const title = options.title || randomItem(gameTemplates[type]) || 'Unknown Game';
-  const isNew = options.isNew ?? Math.random() > 0.8; // 20% chance
-  const isHot = options.isHot ?? Math.random() > 0.85; // 15% chance
-  const isOnSale = options.isOnSale ?? Math.random() > 0.9; // 10% chance
-  const isFavorite = options.isFavorite ?? Math.random() > 0.9; // 10% chance
+  const random = getRandom();
+  const type = options.type || random.item(GAME_TYPES);
+  const title = options.title || random.item(gameTemplates[type]);
+  const isNew = options.isNew ?? random.chance(0.2);
+  const isHot = options.isHot ?? random.chance(0.15);
+  const isOnSale = options.isOnSale ?? random.chance(0.1);
+  const isFavorite = options.isFavorite ?? random.chance(0.1);
   
   // Generate release date
-  const daysAgo = isNew ? randomBetween(0, 30) : randomBetween(0, 365);
+  const daysAgo = isNew ? random.int(0, 30) : random.int(0, 365);
   const releaseDate = new Date();
   releaseDate.setDate(releaseDate.getDate() - daysAgo);
 
@@ -91,18 +93,23 @@ function generateGame(
     thumbnail: options.thumbnail || `https://picsum.photos/seed/${id}/400/300`,
     description: options.description || `Experience the thrill of ${title} - an exciting ${type} game with amazing features and big win potential!`,
     provider: options.provider || {
-      id: `provider-${randomBetween(1, 10)}`,
-      name: randomItem(['NetEnt', 'Microgaming', 'Play\'n GO', 'Pragmatic Play', 'Evolution Gaming', 'Yggdrasil', 'Quickspin', 'Red Tiger', 'Big Time Gaming', 'NoLimit City']) || 'Unknown Provider'
+      id: `provider-${random.int(1, 10)}`,
+      name: random.item(['NetEnt', 'Microgaming', 'Play\'n GO', 'Pragmatic Play', 'Evolution Gaming', 'Yggdrasil', 'Quickspin', 'Red Tiger', 'Big Time Gaming', 'NoLimit City'])
     },
     type,
     isNew,
     isHot,
     isOnSale,
     isFavorite,
-    tags: options.tags || randomItems(gameTags, randomBetween(1, 4)),
-    playCount: options.playCount ?? randomBetween(1000, 500000),
+    tags: options.tags || random.items(gameTags, random.int(1, 4)),
+    playCount: options.playCount ?? random.int(1000, 500000),
     releaseDate: options.releaseDate || releaseDate.toISOString(),
-    rtp: options.rtp ?? (94 + Math.random() * 4) // RTP between 94% and 98%
+    rtp: options.rtp ?? random.float(94, 98), // RTP between 94% and 98%
+    rating: options.rating ?? Math.round(random.float(3, 5) * 10) / 10, // Rating between 3 and 5
+    ratingCount: options.ratingCount ?? random.int(1, 2000),
+    maxWin: options.maxWin ?? random.item([500, 1000, 2500, 5000, 10000, 25000]),
+    minBet: options.minBet ?? random.item([0.1, 0.2, 0.5, 1]),
+    maxBet: options.maxBet ?? random.item([50, 100, 250, 500])
   };
 }
 
@@ -216,7 +223,7 @@ function generateGameLibrary(totalGames: number = 100): Game[] {
   });
   
   // Shuffle the games
-  return games.sort(() => Math.random() - 0.5);
+  return getRandom().shuffle(games);
 }
 
 /**
@@ -242,7 +249,12 @@ export function getSampleGame(): Game {
     tags: ['space', 'adventure', 'jackpot', 'free spins'],
     playCount: 125000,
     releaseDate: new Date().toISOString(),
-    rtp: 96.5
+    rtp: 96.5,
+    rating: 4.6,
+    ratingCount: 842,
+    maxWin: 10000,
+    minBet: 0.2,
+    maxBet: 100
   };
 }
 
@@ -4,11 +4,10 @@
  */
 
 import type { Provider } from '@/lib/core/domain/entities';
-import { randomBetween } from '@/lib/core/shared/utils/number';
-import { randomItem } from '@/lib/core/shared/utils';
+import { getRandom } from './random';
 
 // Provider templates
-const providerTemplates = [
+export const providerTemplates = [
   { name: 'NetEnt', description: 'Leading provider of premium gaming solutions' },
   { name: 'Microgaming', description: 'Pioneer in online casino software' },
   { name: 'Play\'n GO', description: 'Award-winning game developer' },
@@ -33,18 +32,20 @@ const providerTemplates = [
 
 /**
  * Generate a single provider
+ * Random values come from the shared seeded source (see setSeed)
  */
 function generateProvider(
-  id: string = `provider-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  id: string = `provider-${getRandom().id()}`,
   options: Partial<Provider> = {}
 ): Provider {
+  const random = getRandom();
   const template = options.name 
     ? providerTemplates.find(p => p.name === options.name) || providerTemplates[0]
-    : randomItem(providerTemplates) || providerTemplates[0];
+    : random.item(providerTemplates);
   
-  const gameCount = options.gameCount ?? randomBetween(10, 200);
+  const gameCount = options.gameCount ?? random.int(10, 200);
   const isActive = options.isActive ?? true;
-  const isFeatured = options.isFeatured ?? Math.random() > 0.7; // 30% chance
+  const isFeatured = options.isFeatured ?? random.chance(0.3);
   
   return {
     id,
@@ -55,7 +56,7 @@ function generateProvider(
     website: options.website || `https://www.${template.name.toLowerCase().replace(/[^a-z0-9]/g, '')}.com`,
     isActive,
     isFeatured,
-    createdAt: options.createdAt || new Date(Date.now() - randomBetween(0, 365) * 24 * 60 * 60 * 1000),
+    createdAt: options.createdAt || new Date(Date.now() - random.int(0, 365) * 24 * 60 * 60 * 1000),
     updatedAt: options.updatedAt || new Date()
   };
 }
@@ -81,7 +82,7 @@ function generateProviders(count: number = 10): Provider[] {
   // If we need more providers than templates, generate variations
   if (count > availableTemplates.length) {
     for (let i = availableTemplates.length; i < count; i++) {
-      const baseTemplate = randomItem(availableTemplates)!;
+      const baseTemplate = getRandom().item(availableTemplates);
       const provider = generateProvider(`provider-${i + 1}`, {
         name: `${baseTemplate.name} ${i - availableTemplates.length + 2}`,
         description: baseTemplate.description
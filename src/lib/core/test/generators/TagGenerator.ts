@@ -3,10 +3,12 @@
  * Generates mock tags for testing and development
  */
 
-import { randomItems } from '@/lib/core/shared/utils';
+import type { TagDefinition } from '@/lib/core/domain/entities';
+import { slugify } from '@/lib/core/shared/utils';
+import { getRandom } from './random';
 
 // Comprehensive tag categories
-const tagCategories = {
+export const tagCategories = {
   gameplay: [
     'Popular',
     'New Release',
@@ -94,12 +96,24 @@ export function getAllTags(): string[] {
   return Object.values(tagCategories).flat();
 }
 
+/**
+ * Get every tag as a definition, in the shape of the bundled tags.json (one per slug)
+ */
+export function getTagDefinitions(): TagDefinition[] {
+  const seen = new Set<string>();
+  return Object.entries(tagCategories).flatMap(([category, names]) =>
+    names
+      .map(name => ({ id: slugify(name), name, category }))
+      .filter(tag => !seen.has(tag.id) && seen.add(tag.id))
+  );
+}
+
 /**
  * Generate a random set of tags
  */
 export function generateMockTags(count: number = 8): string[] {
   const allTags = getAllTags();
-  return randomItems(allTags, Math.min(count, allTags.length));
+  return getRandom().items(allTags, Math.min(count, allTags.length));
 }
 
 /**
@@ -110,7 +124,7 @@ export function generateTagsByCategory(category: keyof typeof tagCategories, cou
   if (count === undefined) {
     return [...categoryTags];
   }
-  return randomItems(categoryTags, Math.min(count, categoryTags.length));
+  return getRandom().items(categoryTags, Math.min(count, categoryTags.length));
 }
 
 /**
@@ -131,14 +145,14 @@ export function generateFilterTags(): string[] {
 export function generateTagsForGameType(gameType: 'slots' | 'table' | 'live' | 'instant' | 'jackpot'): string[] {
   switch (gameType) {
     case 'slots':
-      return randomItems([
+      return getRandom().items([
         ...tagCategories.features,
         ...tagCategories.volatility,
         ...tagCategories.rtp
       ], 3);
     
     case 'table':
-      return randomItems([
+      return getRandom().items([
         'Classic',
         'European',
         'American',
@@ -150,7 +164,7 @@ export function generateTagsForGameType(gameType: 'slots' | 'table' | 'live' | '
       ], 2);
     
     case 'live':
-      return randomItems([
+      return getRandom().items([
         'Live Dealer',
         'HD Stream',
         'Multiple Cameras',
@@ -162,7 +176,7 @@ export function generateTagsForGameType(gameType: 'slots' | 'table' | 'live' | '
       ], 3);
     
     case 'instant':
-      return randomItems([
+      return getRandom().items([
         'Quick Play',
         'Instant Win',
         'Scratch Cards',
@@ -172,7 +186,7 @@ export function generateTagsForGameType(gameType: 'slots' | 'table' | 'live' | '
       ], 2);
     
     case 'jackpot':
-      return randomItems([
+      return getRandom().items([
         ...tagCategories.jackpot,
         'High Stakes',
         'Life Changing',
@@ -208,9 +222,9 @@ export function generateWeightedTags(count: number = 8): string[] {
   
   // Add some random tags
   const remainingTags = getAllTags().filter(tag => !Object.keys(weights).includes(tag));
-  weightedTags.push(...randomItems(remainingTags, 20));
+  weightedTags.push(...getRandom().items(remainingTags, 20));
   
-  return randomItems(weightedTags, count);
+  return getRandom().items(weightedTags, count);
 }
 
 /**
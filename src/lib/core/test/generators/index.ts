@@ -6,6 +6,8 @@
 export * from './GameGenerator';
 export * from './ProviderGenerator';
 export * from './TagGenerator';
+export * from './CatalogGenerator';
+export * from './random';
 
 // Re-export commonly used generators
 export { 
@@ -24,4 +26,10 @@ export {
   generateFeaturedProviders,
   generateProvidersWithGames,
   getSampleProvider
-} from './ProviderGenerator';
\ No newline at end of file
+} from './ProviderGenerator';
+
+export {
+  createRandom,
+  getRandom,
+  setSeed
+} from './random';
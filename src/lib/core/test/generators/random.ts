@@ -0,0 +1,117 @@
+/**
+ * Seeded Random
+ * Deterministic pseudo-random numbers (mulberry32) shared by the data generators
+ * The same seed always produces the same sequence, so generated data is reproducible
+ */
+
+export interface RandomSource {
+  /** Seed the sequence started from */
+  readonly seed: number;
+  /** Float between 0 (inclusive) and 1 (exclusive) */
+  next(): number;
+  /** Integer between min and max, both inclusive */
+  int(min: number, max: number): number;
+  /** Float between min (inclusive) and max (exclusive) */
+  float(min: number, max: number): number;
+  /** True with the given probability (0 to 1) */
+  chance(probability: number): boolean;
+  item<T>(items: readonly T[]): T;
+  /** Up to count distinct items, in random order */
+  items<T>(items: readonly T[], count: number): T[];
+  shuffle<T>(items: readonly T[]): T[];
+  /** One item, picked proportionally to its weight */
+  weighted<T>(items: readonly T[], weights: readonly number[]): T;
+  /** Normally distributed value (Box-Muller) */
+  normal(mean: number, stdDev: number): number;
+  /** Log-normally distributed value: half the values fall below the median, with a long upper tail */
+  logNormal(median: number, sigma: number): number;
+  /** Base-36 identifier */
+  id(length?: number): string;
+}
+
+/**
+ * Turn a string seed (e.g. "load-test") into a 32-bit integer seed
+ */
+export function hashSeed(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+function toSeed(seed: number | string): number {
+  return typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+}
+
+/**
+ * Create an independent random source
+ * Without a seed the sequence is random, as with Math.random
+ */
+export function createRandom(seed: number | string = Math.floor(Math.random() * 2 ** 32)): RandomSource {
+  const initialSeed = toSeed(seed);
+  let state = initialSeed;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const shuffle = <T>(items: readonly T[]): T[] => {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(next() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  };
+
+  const normal = (mean: number, stdDev: number) => {
+    // 1 - next() keeps the logarithm away from 0
+    const u = 1 - next();
+    const v = next();
+    return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+
+  return {
+    seed: initialSeed,
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    float: (min, max) => min + next() * (max - min),
+    chance: probability => next() < probability,
+    item: items => items[Math.floor(next() * items.length)],
+    items: (items, count) => shuffle(items).slice(0, count),
+    shuffle,
+    weighted: (items, weights) => {
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      let roll = next() * total;
+      for (let i = 0; i < items.length; i++) {
+        roll -= weights[i];
+        if (roll < 0) return items[i];
+      }
+      return items[items.length - 1];
+    },
+    normal,
+    logNormal: (median, sigma) => median * Math.exp(normal(0, sigma)),
+    id: (length = 9) => Array.from({ length }, () => Math.floor(next() * 36).toString(36)).join('')
+  };
+}
+
+let sharedRandom = createRandom();
+
+/**
+ * Source used by the generators when none is passed
+ */
+export function getRandom(): RandomSource {
+  return sharedRandom;
+}
+
+/**
+ * Reseed the generators so the following calls produce the same data on every run
+ */
+export function setSeed(seed: number | string): RandomSource {
+  sharedRandom = createRandom(seed);
+  return sharedRandom;
+}
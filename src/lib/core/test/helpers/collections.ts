@@ -5,6 +5,7 @@
 
 import { generateMockGames, generateGamesByType } from '../generators/GameGenerator';
 import { generateMockProviders } from '../generators/ProviderGenerator';
+import { getRandom } from '../generators/random';
 import type { Game, Provider } from '@/lib/core/domain/entities';
 
 /**
@@ -13,7 +14,7 @@ import type { Game, Provider } from '@/lib/core/domain/entities';
 export function generateGameCollections() {
   return {
     featured: generateMockGames(6).map((game) => ({ ...game, isNew: true })),
-    popular: generateMockGames(12).map((game) => ({ ...game, playCount: Math.floor(Math.random() * 10000) })),
+    popular: generateMockGames(12).map((game) => ({ ...game, playCount: getRandom().int(0, 9999) })),
     slots: generateGamesByType('slots', 8),
     table: generateGamesByType('table', 8),
     live: generateGamesByType('live', 8),
@@ -29,7 +30,7 @@ export function generateGameCollections() {
 export function generateProviderCollections(): Provider[] {
   return generateMockProviders(10).map((provider, index) => ({
     ...provider,
-    gameCount: Math.floor(Math.random() * 200) + 50,
+    gameCount: getRandom().int(50, 249),
     featured: index < 3
   }));
 }
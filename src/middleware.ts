@@ -0,0 +1,27 @@
+/**
+ * Middleware
+ * Sends guests who open a page marked requiresAuth in ROUTE_CONFIGS to sign in first
+ *
+ * Runs on the edge, where the session store cannot be read, so only the presence of the session
+ * cookie is checked here. Protected pages and API routes still verify the session itself, and send
+ * the user back to sign in when it turns out to have expired
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getLoginRoute, isProtectedRoute } from '@/lib/core/config/constants/routes.constants';
+import { COOKIE_KEYS } from '@/lib/core/config/constants/app.constants';
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (!isProtectedRoute(pathname) || request.cookies.has(COOKIE_KEYS.SESSION)) {
+    return NextResponse.next();
+  }
+
+  return NextResponse.redirect(new URL(getLoginRoute(`${pathname}${search}`), request.url));
+}
+
+export const config = {
+  // Pages only: API routes answer 401 themselves, and assets never need a session
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)']
+};